@@ -30,11 +30,26 @@ export default [
         AbortSignal: 'readonly',
         HTMLElement: 'readonly',
         HTMLDivElement: 'readonly',
+        HTMLInputElement: 'readonly',
+        Node: 'readonly',
+        File: 'readonly',
+        Worker: 'readonly',
+        MessageEvent: 'readonly',
+        DOMException: 'readonly',
+        TextDecoder: 'readonly',
+        self: 'readonly',
         DOMParser: 'readonly',
         GeoJSON: 'readonly',
         Element: 'readonly',
         Document: 'readonly',
         HTMLCollectionOf: 'readonly',
+        Blob: 'readonly',
+        Response: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransaction: 'readonly',
+        IDBKeyRange: 'readonly',
         // Node.js globals for server-side code
         process: 'readonly',
         Buffer: 'readonly',
@@ -45,6 +60,8 @@ export default [
         // Timer functions
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
+        setInterval: 'readonly',
+        clearInterval: 'readonly',
       },
     },
     plugins: {
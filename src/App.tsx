@@ -1,30 +1,35 @@
+import { useEffect } from 'react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import Map from './components/Map';
+import ProjectStartPanel from './components/ProjectStartPanel';
+import { useMapProject } from './hooks/useMapProject';
 
 const theme = createTheme();
 
+// проект карты: ?project=<адрес на этом сервере>, иначе project.json рядом
+// с приложением
+const projectUrl =
+  new URLSearchParams(window.location.search).get('project') ?? 'project.json';
+
 function App(): JSX.Element {
-  const wmsBase = 'http://zs.zulugis.ru:6473/';
+  const { project, revision, loading, error, loadFile } =
+    useMapProject(projectUrl);
+
+  useEffect(() => {
+    if (project) document.title = project.title;
+  }, [project]);
 
   return (
     <ThemeProvider theme={theme}>
-      <Map
-        zwsEndpoint={wmsBase + 'zws'}
-        zwsAuth={{ user: 'mo', pass: 'mo' }}
-        zwsLayerName="example:demo"
-        wmsUrl={wmsBase + 'ws'}
-        wmsLayerName="world:world"
-        wmsOptions={{ opacity: 0.7 }}
-        wfsUrl={wmsBase + 'ws'}
-        wfsTypeName="world:world"
-        highlightOptions={{
-          color: '#0066cc',
-          weight: 2,
-          opacity: 0.9,
-          fillColor: '#0066cc',
-          fillOpacity: 0.3,
-        }}
-      />
+      {project ? (
+        <Map key={revision} project={project} />
+      ) : (
+        <ProjectStartPanel
+          loadingSource={loading ? projectUrl : null}
+          error={error}
+          onOpenFile={loadFile}
+        />
+      )}
     </ThemeProvider>
   );
 }
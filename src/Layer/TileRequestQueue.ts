@@ -0,0 +1,113 @@
+export const createAbortError = (message = 'Aborted') => {
+  const err = new Error(message);
+  err.name = 'AbortError';
+  return err;
+};
+
+// пауза, прерываемая сигналом отмены
+export const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface QueueEntry {
+  run: (signal?: AbortSignal) => Promise<unknown>;
+  // меньше — раньше; вычисляется в момент выбора следующей задачи
+  priority: () => number;
+  signal?: AbortSignal;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onAbort: () => void;
+}
+
+/**
+ * Очередь запросов с ограничением числа одновременных задач и приоритетом.
+ * Задача, чей сигнал отменён до запуска, удаляется из очереди.
+ */
+export class TileRequestQueue {
+  maxConcurrency: number;
+
+  private pending: QueueEntry[] = [];
+  private active = 0;
+
+  constructor(maxConcurrency = 6) {
+    this.maxConcurrency = maxConcurrency;
+  }
+
+  get size() {
+    return this.pending.length;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  enqueue<T>(
+    run: (signal?: AbortSignal) => Promise<T>,
+    priority: () => number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const entry: QueueEntry = {
+        run,
+        priority,
+        signal,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        onAbort: () => {
+          const idx = this.pending.indexOf(entry);
+          if (idx !== -1) this.pending.splice(idx, 1);
+          reject(createAbortError());
+        },
+      };
+      signal?.addEventListener('abort', entry.onAbort, { once: true });
+      this.pending.push(entry);
+      this.next();
+    });
+  }
+
+  // отклоняет все ожидающие задачи; запущенные завершаются сами по своим сигналам
+  clear() {
+    const entries = this.pending;
+    this.pending = [];
+    entries.forEach((e) => {
+      e.signal?.removeEventListener('abort', e.onAbort);
+      e.reject(createAbortError());
+    });
+  }
+
+  private next() {
+    while (this.active < this.maxConcurrency && this.pending.length) {
+      let bestIdx = 0;
+      let best = this.pending[0].priority();
+      for (let i = 1; i < this.pending.length; i++) {
+        const p = this.pending[i].priority();
+        if (p < best) {
+          best = p;
+          bestIdx = i;
+        }
+      }
+      const [entry] = this.pending.splice(bestIdx, 1);
+      this.active++;
+      entry
+        .run(entry.signal)
+        .then(entry.resolve, entry.reject)
+        .finally(() => {
+          entry.signal?.removeEventListener('abort', entry.onAbort);
+          this.active--;
+          this.next();
+        });
+    }
+  }
+}
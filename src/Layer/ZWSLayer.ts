@@ -1,15 +1,55 @@
 import L from 'leaflet';
+import { TileCache } from '../services/TileCache';
+import { TileRequestQueue, createAbortError, waitFor } from './TileRequestQueue';
+
+// серая заглушка с крестом вместо «битого» изображения
+const ERROR_TILE_URL =
+  'data:image/svg+xml;charset=utf-8,' +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">' +
+      '<rect width="256" height="256" fill="#eeeeee" stroke="#cccccc"/>' +
+      '<path d="M112 112l32 32M144 112l-32 32" stroke="#999999" stroke-width="4"/>' +
+      '</svg>'
+  );
 
 export interface ZWSLayerOptions extends L.GridLayerOptions {
   zwsLayerName?: string;
   endpoint?: string;
   auth?: { user: string; pass: string };
   maxZoom?: number;
+  // persistent tile storage; tiles are always fetched from the server when absent
+  cache?: TileCache;
+  // simultaneous GetLayerTile requests per layer
+  maxConcurrency?: number;
+  maxRetries?: number;
+  // first retry delay in ms, doubled on every attempt
+  retryDelay?: number;
+  errorTileUrl?: string;
+}
+
+export interface DownloadAreaProgress {
+  total: number;
+  done: number;
+  failed: number;
+}
+
+// защита от случайной выгрузки половины мира
+export const DEFAULT_MAX_DOWNLOAD_TILES = 20000;
+
+export interface DownloadAreaOptions {
+  onProgress?: (progress: DownloadAreaProgress) => void;
+  signal?: AbortSignal;
+  concurrency?: number;
+  maxTiles?: number;
 }
 
 export class ZWSLayer extends L.GridLayer {
   declare options: ZWSLayerOptions;
 
+  private queue: TileRequestQueue;
+  // контроллеры отмены загружаемых тайлов
+  private tileControllers = new WeakMap<HTMLElement, AbortController>();
+
   constructor(options?: ZWSLayerOptions) {
     super();
 
@@ -23,28 +63,78 @@ export class ZWSLayer extends L.GridLayer {
     if (!this.options.pane) {
       this.options.pane = 'tilePane';
     }
+
+    this.queue = new TileRequestQueue(this.options.maxConcurrency ?? 6);
+    this.on('tileunload', this.onTileUnload, this);
   }
 
-  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
-    const tile = document.createElement('img');
-    tile.alt = `tile ${coords.x}:${coords.y}:${coords.z}`;
-    tile.setAttribute('role', 'presentation');
+  private onTileUnload(e: L.TileEvent) {
+    const controller = this.tileControllers.get(e.tile);
+    if (controller) {
+      controller.abort();
+      this.tileControllers.delete(e.tile);
+    }
+  }
 
-    const zwsLayerName = this.options.zwsLayerName ?? 'example:demo';
-    const endpoint = this.options.endpoint ?? 'http://zs.zulugis.ru:6473/zws';
-    const auth = this.options.auth;
+  // квадрат расстояния от центра тайла до центра карты в пикселях
+  private tilePriority(coords: L.Coords) {
+    const map = this._map;
+    if (!map) return 0;
+    const size = this.getTileSize();
+    const center = map.project(map.getCenter(), coords.z);
+    const dx = (coords.x + 0.5) * size.x - center.x;
+    const dy = (coords.y + 0.5) * size.y - center.y;
+    return dx * dx + dy * dy;
+  }
+
+  private async fetchTileWithRetry(
+    coords: L.Coords,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const maxRetries = this.options.maxRetries ?? 2;
+    const retryDelay = this.options.retryDelay ?? 500;
 
-    const xmlRequest = `<?xml version="1.0" encoding="UTF-8"?>
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchTileBlob(coords, signal);
+      } catch (err) {
+        if ((err as Error)?.name === 'AbortError' || attempt >= maxRetries)
+          throw err;
+        await waitFor(retryDelay * Math.pow(2, attempt), signal);
+      }
+    }
+  }
+
+  getLayerName() {
+    return this.options.zwsLayerName ?? 'example:demo';
+  }
+
+  getEndpoint() {
+    return this.options.endpoint ?? 'http://zs.zulugis.ru:6473/zws';
+  }
+
+  // слой в кэше тайлов: одноимённые слои разных серверов не смешиваются
+  getCacheLayer() {
+    return `${this.getEndpoint()}#${this.getLayerName()}`;
+  }
+
+  buildTileXml(coords: L.Coords) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
 <zulu-server service="zws" version="1.0.0">
   <Command>
     <GetLayerTile>
       <X>${coords.x}</X>
       <Y>${coords.y}</Y>
       <Z>${coords.z}</Z>
-      <Layer>${zwsLayerName}</Layer>
+      <Layer>${this.getLayerName()}</Layer>
     </GetLayerTile>
   </Command>
 </zulu-server>`;
+  }
+
+  async fetchTileBlob(coords: L.Coords, signal?: AbortSignal): Promise<Blob> {
+    const endpoint = this.getEndpoint();
+    const auth = this.options.auth;
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/xml',
@@ -52,18 +142,69 @@ export class ZWSLayer extends L.GridLayer {
     if (auth)
       headers.Authorization = `Basic ${btoa(`${auth.user}:${auth.pass}`)}`;
 
-    fetch(endpoint, {
+    const resp = await fetch(endpoint, {
       method: 'POST',
       headers,
-      body: xmlRequest,
+      body: this.buildTileXml(coords),
       credentials: 'omit',
-    })
-      .then((resp) => {
-        if (!resp.ok)
-          throw new Error(`ZWS Tile failed: ${resp.status} ${resp.statusText}`);
-        return resp.blob();
-      })
+      signal,
+    });
+    if (!resp.ok)
+      throw new Error(`ZWS Tile failed: ${resp.status} ${resp.statusText}`);
+    return resp.blob();
+  }
+
+  // тайл из кэша, а при промахе — с сервера с сохранением в кэш
+  async loadTileBlob(coords: L.Coords, signal?: AbortSignal): Promise<Blob> {
+    const cache = this.options.cache;
+    const cacheLayer = this.getCacheLayer();
+
+    if (cache) {
+      try {
+        const cached = await cache.get(
+          cacheLayer,
+          coords.z,
+          coords.x,
+          coords.y
+        );
+        if (cached) return cached;
+      } catch (err) {
+        console.warn('ZWS tile cache read failed', err);
+      }
+    }
+
+    const blob = await this.queue.enqueue(
+      (s) => this.fetchTileWithRetry(coords, s),
+      () => this.tilePriority(coords),
+      signal
+    );
+
+    if (cache) {
+      cache
+        .put(cacheLayer, coords.z, coords.x, coords.y, blob)
+        .catch((err) => console.warn('ZWS tile cache write failed', err));
+    }
+    return blob;
+  }
+
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = `tile ${coords.x}:${coords.y}:${coords.z}`;
+    tile.setAttribute('role', 'presentation');
+
+    const controller = new AbortController();
+    this.tileControllers.set(tile, controller);
+
+    const showError = (err: Error) => {
+      tile.onload = null;
+      tile.onerror = null;
+      tile.src = this.options.errorTileUrl ?? ERROR_TILE_URL;
+      done(err, tile);
+    };
+
+    this.loadTileBlob(coords, controller.signal)
       .then((blob) => {
+        this.tileControllers.delete(tile);
         const url = URL.createObjectURL(blob);
 
         tile.onload = () => {
@@ -73,16 +214,133 @@ export class ZWSLayer extends L.GridLayer {
 
         tile.onerror = () => {
           URL.revokeObjectURL(url);
-          done(new Error('Tile image failed to load'));
+          showError(new Error('Tile image failed to load'));
         };
 
         tile.src = url;
       })
       .catch((err) => {
+        this.tileControllers.delete(tile);
+        // тайл выгружен Leaflet — ни заглушка, ни done уже не нужны
+        if ((err as Error)?.name === 'AbortError') return;
         console.error('ZWS Tile Error:', err);
-        done(err instanceof Error ? err : new Error(String(err)));
+        showError(err instanceof Error ? err : new Error(String(err)));
       });
 
     return tile;
   }
+
+  // диапазон номеров тайлов, покрывающих bbox на уровне z
+  private tileRange(bounds: L.LatLngBounds, z: number) {
+    const size = this.getTileSize();
+    const crs = L.CRS.EPSG3857;
+    const nw = crs.latLngToPoint(bounds.getNorthWest(), z);
+    const se = crs.latLngToPoint(bounds.getSouthEast(), z);
+    const last = Math.pow(2, z) - 1;
+    const clamp = (n: number) => Math.min(Math.max(n, 0), last);
+
+    return {
+      minX: clamp(Math.floor(nw.x / size.x)),
+      maxX: clamp(Math.floor(se.x / size.x)),
+      minY: clamp(Math.floor(nw.y / size.y)),
+      maxY: clamp(Math.floor(se.y / size.y)),
+    };
+  }
+
+  // координаты всех тайлов, покрывающих bbox на уровне z
+  tilesInBounds(bounds: L.LatLngBounds, z: number): L.Coords[] {
+    const { minX, maxX, minY, maxY } = this.tileRange(bounds, z);
+    const coords: L.Coords[] = [];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const c = L.point(x, y) as L.Coords;
+        c.z = z;
+        coords.push(c);
+      }
+    }
+    return coords;
+  }
+
+  // число тайлов считается по диапазонам, без построения координат
+  countTiles(bounds: L.LatLngBounds, minZoom: number, maxZoom: number) {
+    let count = 0;
+    for (let z = minZoom; z <= maxZoom; z++) {
+      const { minX, maxX, minY, maxY } = this.tileRange(bounds, z);
+      count += (maxX - minX + 1) * (maxY - minY + 1);
+    }
+    return count;
+  }
+
+  /**
+   * Загружает в кэш все тайлы области для диапазона масштабов,
+   * чтобы карта работала без подключения к серверу.
+   */
+  async downloadArea(
+    bounds: L.LatLngBounds,
+    minZoom: number,
+    maxZoom: number,
+    options: DownloadAreaOptions = {}
+  ): Promise<DownloadAreaProgress> {
+    const cache = this.options.cache;
+    if (!cache) throw new Error('Tile cache is not configured for this layer');
+
+    const {
+      onProgress,
+      signal,
+      concurrency = 4,
+      maxTiles = DEFAULT_MAX_DOWNLOAD_TILES,
+    } = options;
+    const cacheLayer = this.getCacheLayer();
+
+    // лимит проверяется до того, как создана хотя бы одна координата
+    const total = this.countTiles(bounds, minZoom, maxZoom);
+    if (total > maxTiles)
+      throw new Error(
+        `Too many tiles to download: ${total} (limit ${maxTiles})`
+      );
+
+    const progress: DownloadAreaProgress = {
+      total,
+      done: 0,
+      failed: 0,
+    };
+    onProgress?.({ ...progress });
+
+    // очередь строится по одному уровню масштаба
+    let queue: L.Coords[] = [];
+    const worker = async () => {
+      for (;;) {
+        if (signal?.aborted) return;
+        const coords = queue.shift();
+        if (!coords) return;
+        try {
+          const cached = await cache.has(
+            cacheLayer,
+            coords.z,
+            coords.x,
+            coords.y
+          );
+          if (!cached) {
+            const blob = await this.fetchTileBlob(coords, signal);
+            await cache.put(cacheLayer, coords.z, coords.x, coords.y, blob);
+          }
+        } catch (err) {
+          if ((err as Error)?.name === 'AbortError') return;
+          progress.failed++;
+        }
+        progress.done++;
+        onProgress?.({ ...progress });
+      }
+    };
+
+    for (let z = minZoom; z <= maxZoom && !signal?.aborted; z++) {
+      queue = this.tilesInBounds(bounds, z);
+      await Promise.all(
+        Array.from({ length: Math.max(1, concurrency) }, () => worker())
+      );
+    }
+
+    if (signal?.aborted) throw createAbortError('Download aborted');
+    return progress;
+  }
 }
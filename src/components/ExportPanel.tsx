@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFeatures,
+  exportFileName,
+} from '../utils/featureExport';
+import { FeatureTypeSchema } from '../utils/featureSchema';
+import { downloadBlob } from '../utils/download';
+
+export type ExportScope = 'visible' | 'all';
+
+// набор объектов для выгрузки: слой WFS, выделение, эскизы
+export interface ExportSource {
+  id: string;
+  label: string;
+  // имя набора в файле
+  name: string;
+  schema?: FeatureTypeSchema | null;
+  getFeatures: (scope: ExportScope) => GeoJSON.Feature[];
+}
+
+interface ExportPanelProps {
+  sources: ExportSource[];
+}
+
+const SCOPE_LABELS: Record<ExportScope, string> = {
+  visible: 'В видимой области',
+  all: 'Все загруженные',
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ sources }) => {
+  const [sourceId, setSourceId] = useState(sources[0]?.id ?? '');
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [scope, setScope] = useState<ExportScope>('visible');
+  const [message, setMessage] = useState<string | null>(null);
+  const source = sources.find((s) => s.id === sourceId) ?? sources[0];
+
+  const handleExport = () => {
+    if (!source) return;
+    const features = source.getFeatures(scope);
+    if (!features.length) {
+      setMessage('Нет объектов для выгрузки');
+      return;
+    }
+    const options = { name: source.name, schema: source.schema };
+    downloadBlob(
+      exportFeatures(features, format, options),
+      exportFileName(source.name, format)
+    );
+    setMessage(`Выгружено объектов: ${features.length}`);
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Экспорт объектов</Typography>
+        <TextField
+          select
+          size="small"
+          label="Объекты"
+          value={source?.id ?? ''}
+          onChange={(e) => {
+            setSourceId(e.target.value);
+            setMessage(null);
+          }}
+        >
+          {sources.map((s) => (
+            <MenuItem key={s.id} value={s.id}>
+              {s.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            select
+            size="small"
+            label="Формат"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            sx={{ flex: 1 }}
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+              <MenuItem key={f} value={f}>
+                {EXPORT_FORMATS[f].label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Охват"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ExportScope)}
+            sx={{ flex: 1 }}
+          >
+            {(Object.keys(SCOPE_LABELS) as ExportScope[]).map((s) => (
+              <MenuItem key={s} value={s}>
+                {SCOPE_LABELS[s]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={!source}
+          onClick={handleExport}
+        >
+          Скачать
+        </Button>
+        {message && <Typography variant="caption">{message}</Typography>}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ExportPanel;
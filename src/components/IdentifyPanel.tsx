@@ -0,0 +1,199 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  LinearProgress,
+  Paper,
+  Stack,
+  Tab,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import { IdentifyResult } from '../utils/identify';
+import { displayableEntries, formatAttributeValue } from '../utils/propsPopup';
+
+interface IdentifyPanelProps {
+  location: { lat: number; lng: number } | null;
+  results: IdentifyResult[];
+  activeId: string | null;
+  onSelectTab: (id: string) => void;
+  onSelectFeature: (id: string, index: number) => void;
+  onClose: () => void;
+}
+
+// подпись вкладки: число объектов или состояние запроса
+const tabLabel = (r: IdentifyResult) => {
+  if (r.status === 'loading') return `${r.label} …`;
+  if (r.status === 'timeout') return `${r.label} (нет ответа)`;
+  if (r.status === 'error') return `${r.label} (ошибка)`;
+  if (r.features.length) return `${r.label} (${r.features.length})`;
+  return r.html || r.text ? r.label : `${r.label} (0)`;
+};
+
+const ResultBody: React.FC<{
+  result: IdentifyResult;
+  onSelectFeature: (index: number) => void;
+}> = ({ result, onSelectFeature }) => {
+  if (result.status === 'loading') return <LinearProgress />;
+  if (result.status === 'timeout' || result.status === 'error')
+    return (
+      <Alert severity={result.status === 'timeout' ? 'warning' : 'error'}>
+        {result.error}
+      </Alert>
+    );
+
+  const count = result.features.length;
+  const feature = result.features[result.selected];
+  if (feature) {
+    const entries = displayableEntries(feature.properties, result.schema);
+    return (
+      <Stack spacing={1}>
+        {count > 1 && (
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <Button
+              size="small"
+              disabled={result.selected === 0}
+              onClick={() => onSelectFeature(result.selected - 1)}
+            >
+              ‹
+            </Button>
+            <Typography variant="caption" sx={{ flex: 1, textAlign: 'center' }}>
+              {result.selected + 1} из {count}
+            </Typography>
+            <Button
+              size="small"
+              disabled={result.selected === count - 1}
+              onClick={() => onSelectFeature(result.selected + 1)}
+            >
+              ›
+            </Button>
+          </Stack>
+        )}
+        <Typography variant="caption" sx={{ fontWeight: 'bold' }}>
+          {feature.title}
+        </Typography>
+        {feature.html ? (
+          // шаблон проекта — как и HTML сервера, в фрейме без скриптов
+          <Box
+            component="iframe"
+            title={feature.title}
+            sandbox=""
+            srcDoc={feature.html}
+            sx={{ width: '100%', height: 220, border: 0 }}
+          />
+        ) : entries.length ? (
+          <Box
+            component="table"
+            sx={{ fontSize: 12, borderCollapse: 'collapse', width: '100%' }}
+          >
+            <tbody>
+              {entries.map(([key, value]) => (
+                <tr key={key}>
+                  <Box
+                    component="td"
+                    sx={{ pr: 1, verticalAlign: 'top', fontWeight: 'bold' }}
+                  >
+                    {key}
+                  </Box>
+                  <Box component="td" sx={{ wordBreak: 'break-word' }}>
+                    {formatAttributeValue(value, result.schema, key)}
+                  </Box>
+                </tr>
+              ))}
+            </tbody>
+          </Box>
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            Нет атрибутов
+          </Typography>
+        )}
+      </Stack>
+    );
+  }
+
+  // HTML сервера показывается в изолированном фрейме: без скриптов и стилей страницы
+  if (result.html)
+    return (
+      <Box
+        component="iframe"
+        title={result.label}
+        sandbox=""
+        srcDoc={result.html}
+        sx={{ width: '100%', height: 220, border: 0 }}
+      />
+    );
+  if (result.text)
+    return (
+      <Box
+        component="pre"
+        sx={{ fontSize: 12, whiteSpace: 'pre-wrap', m: 0, maxHeight: 220 }}
+      >
+        {result.text}
+      </Box>
+    );
+  return (
+    <Typography variant="caption" color="text.secondary">
+      Объекты не найдены
+    </Typography>
+  );
+};
+
+const IdentifyPanel: React.FC<IdentifyPanelProps> = ({
+  location,
+  results,
+  activeId,
+  onSelectTab,
+  onSelectFeature,
+  onClose,
+}) => {
+  if (!location) return null;
+  const active = results.find((r) => r.id === activeId) ?? results[0];
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 360 }}>
+      <Stack spacing={1}>
+        <Stack direction="row" alignItems="center">
+          <Typography variant="subtitle2" sx={{ flex: 1 }}>
+            Объекты в точке {location.lat.toFixed(5)}, {location.lng.toFixed(5)}
+          </Typography>
+          <Button size="small" onClick={onClose}>
+            Закрыть
+          </Button>
+        </Stack>
+        {results.length ? (
+          <>
+            <Tabs
+              value={active.id}
+              variant="scrollable"
+              scrollButtons="auto"
+              onChange={(_, id) => onSelectTab(id)}
+              sx={{ minHeight: 32 }}
+            >
+              {results.map((r) => (
+                <Tab
+                  key={r.id}
+                  value={r.id}
+                  label={tabLabel(r)}
+                  sx={{ minHeight: 32, py: 0.5, textTransform: 'none' }}
+                />
+              ))}
+            </Tabs>
+            <Box sx={{ maxHeight: 300, overflowY: 'auto' }}>
+              <ResultBody
+                result={active}
+                onSelectFeature={(index) => onSelectFeature(active.id, index)}
+              />
+            </Box>
+          </>
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            Нет видимых слоёв, поддерживающих запрос информации
+          </Typography>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default IdentifyPanel;
@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  LinearProgress,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { IMPORT_EXTENSIONS } from '../utils/featureImport';
+import { ImportedLayerInfo, ImportFileError } from '../hooks/useImportedLayers';
+
+interface ImportPanelProps {
+  layers: ImportedLayerInfo[];
+  errors: ImportFileError[];
+  loading: boolean;
+  onImport: (files: File[]) => void;
+  onZoomTo: (id: number) => void;
+  onRemove: (id: number) => void;
+}
+
+const ImportPanel: React.FC<ImportPanelProps> = ({
+  layers,
+  errors,
+  loading,
+  onImport,
+  onZoomTo,
+  onRemove,
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Импорт файлов</Typography>
+        <Typography variant="caption">
+          GeoJSON, KML, GPX или CSV с колонками lon/lat либо WKT — перетащите
+          файлы на карту или выберите
+        </Typography>
+        <Button
+          size="small"
+          variant="outlined"
+          disabled={loading}
+          onClick={() => inputRef.current?.click()}
+        >
+          Выбрать файлы
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          accept={IMPORT_EXTENSIONS.join(',')}
+          onChange={(e) => {
+            onImport(Array.from(e.target.files ?? []));
+            // повторный выбор того же файла тоже должен сработать
+            e.target.value = '';
+          }}
+        />
+        {loading && <LinearProgress />}
+        {errors.map((err) => (
+          <Alert key={err.fileName} severity="error">
+            {err.fileName}: {err.message}
+          </Alert>
+        ))}
+
+        {layers.map((layer) => (
+          <Stack
+            key={layer.id}
+            direction="row"
+            alignItems="center"
+            spacing={0.5}
+          >
+            <Box
+              sx={{
+                width: 10,
+                height: 10,
+                borderRadius: '50%',
+                bgcolor: layer.color,
+                flexShrink: 0,
+              }}
+            />
+            <Typography
+              variant="caption"
+              sx={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}
+            >
+              {layer.name} ({layer.count})
+            </Typography>
+            <Button size="small" onClick={() => onZoomTo(layer.id)}>
+              Показать
+            </Button>
+            <Button
+              size="small"
+              color="error"
+              onClick={() => onRemove(layer.id)}
+            >
+              Удалить
+            </Button>
+          </Stack>
+        ))}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ImportPanel;
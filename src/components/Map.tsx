@@ -1,12 +1,71 @@
-import React, { useEffect, useRef, useCallback } from 'react';
+import React, {
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useState,
+} from 'react';
 import L from 'leaflet';
+import { Alert, Box, Typography } from '@mui/material';
 import 'leaflet/dist/leaflet.css';
+import '@geoman-io/leaflet-geoman-free/dist/leaflet-geoman.css';
 import { ZWSLayer } from '../Layer/ZWSLayer';
-import { ZWSService, ZWSField } from '../services/ZWSService';
+import {
+  ZWSService,
+  ZWSElement,
+  ZWSField,
+  ZWSLayerInfo,
+} from '../services/ZWSService';
 import { useWfsLayer } from '../hooks/useWfsLayer';
-import { DEFAULTS, WINDOW_POPUP } from './defaults';
-import { escapeHtml } from '../utils/escapeHtml';
-import { parseCoordinates, findCoordinatesField, coordinatesToLeaflet, isValidPolygon } from '../utils/geometryUtils';
+import { useWfsEditing } from '../hooks/useWfsEditing';
+import { useSketchLayer } from '../hooks/useSketchLayer';
+import { useMeasureTool } from '../hooks/useMeasureTool';
+import { useImportedLayers } from '../hooks/useImportedLayers';
+import { useWmsLayers, WmsInitialLayer } from '../hooks/useWmsLayers';
+import { useProjectLayers } from '../hooks/useProjectLayers';
+import { useTimeline } from '../hooks/useTimeline';
+import { useIdentify } from '../hooks/useIdentify';
+import { DEFAULTS } from './defaults';
+import { parseGeometry, findCoordinatesField } from '../utils/geometryUtils';
+import { TileCache } from '../services/TileCache';
+import { wmsTimeDimension } from '../utils/wmsCapabilities';
+import {
+  MapProject,
+  projectService,
+  ProjectVectorLayer,
+  ProjectWfsLayer,
+  ProjectWmsLayer,
+  ProjectZwsLayer,
+} from '../utils/mapProject';
+import {
+  featuresAt,
+  groundResolution,
+  IdentifyFeature,
+  identifyFeatures,
+  IdentifySource,
+  withPopupTemplate,
+} from '../utils/identify';
+import {
+  parseTimeExtent,
+  temporalAttributes,
+  wfsTimeFilter,
+  wmsTimeParam,
+} from '../utils/timeDimension';
+import { DEFAULT_VECTOR_STYLE, VectorStyle } from '../utils/vectorStyle';
+import ZWSLayerPicker from './ZWSLayerPicker';
+import OfflineDownloadPanel from './OfflineDownloadPanel';
+import QueryBuilderPanel, { QueryArea } from './QueryBuilderPanel';
+import SketchPanel from './SketchPanel';
+import MeasurePanel from './MeasurePanel';
+import ExportPanel, { ExportScope, ExportSource } from './ExportPanel';
+import ImportPanel from './ImportPanel';
+import WfsEditPanel from './WfsEditPanel';
+import WfsLoadProgress from './WfsLoadProgress';
+import StylePanel from './StylePanel';
+import WmsLayerBrowser from './WmsLayerBrowser';
+import WmsLegendPanel from './WmsLegendPanel';
+import TimelinePanel from './TimelinePanel';
+import IdentifyPanel from './IdentifyPanel';
 
 // fix Leaflet default icons in React environments
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -20,316 +79,749 @@ L.Icon.Default.mergeOptions({
 });
 
 interface MapProps {
-  center?: [number, number];
-  zoom?: number;
+  // base maps, services, layers and the initial view (see utils/mapProject)
+  project: MapProject;
   height?: string;
+}
 
-  // ZWS
-  zwsLayerName?: string;
-  zwsEndpoint?: string;
-  zwsAuth?: { user: string; pass: string };
-
-  // WMS (tile)
-  wmsUrl?: string;
-  wmsLayerName?: string;
-  wmsOptions?: L.WMSOptions;
-
-  // WFS (XML/GML)
-  wfsUrl?: string;
-  wfsTypeName?: string;
-
-  // Highlight area options
-  highlightOptions?: {
-    color?: string;
-    weight?: number;
-    opacity?: number;
-    fillColor?: string;
-    fillOpacity?: number;
-  };
+// ZWS layer on the map with the service that answers identify requests
+interface ZwsOverlay {
+  name: string;
+  layer: ZWSLayer;
+  service: ZWSService;
 }
 
-const Map: React.FC<MapProps> = ({
-  center = DEFAULTS.center,
-  zoom = DEFAULTS.zoom,
-  height = DEFAULTS.height,
-  zwsLayerName = DEFAULTS.zwsLayerName,
-  zwsEndpoint = DEFAULTS.zwsEndpoint,
-  zwsAuth = DEFAULTS.zwsAuth,
-  wmsUrl,
-  wmsLayerName,
-  wmsOptions,
-  wfsUrl,
-  wfsTypeName,
-  highlightOptions = {
-    color: '#ff0000',
-    weight: 3,
-    opacity: 0.8,
-    fillColor: '#ff0000',
-    fillOpacity: 0.2,
-  },
-}) => {
+// vector layers of the project are drawn in their own panes above the
+// raster tile pane (200) and below the overlay pane (400) with user layers
+const VECTOR_PANE_Z_INDEX = 300;
+const projectPane = (id: string) => `project-${id}`;
+
+// допуск клика в градусах: столько пикселей на текущем масштабе
+const clickTolerance = (map: L.Map, latlng: L.LatLng, px = 5) => {
+  const corner = map.containerPointToLatLng(
+    map.latLngToContainerPoint(latlng).add([px, -px])
+  );
+  return {
+    lng: Math.abs(corner.lng - latlng.lng),
+    lat: Math.abs(corner.lat - latlng.lat),
+  };
+};
+
+const Map: React.FC<MapProps> = ({ project, height = DEFAULTS.height }) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<L.Map | null>(null);
 
-  // layer refs
-  const zwsLayerRef = useRef<ZWSLayer | null>(null);
-  const wmsLayerRef = useRef<L.TileLayer.WMS | null>(null);
-  const wfsLayerRef = useRef<L.GeoJSON | null>(null);
+  // слои проекта по видам; первый слой WFS — с запросами, правкой и стилем,
+  // остальные слои WFS и локальные данные — useProjectLayers
+  const projectLayers = useMemo(() => {
+    const wfs = project.layers.filter(
+      (l): l is ProjectWfsLayer => l.type === 'wfs'
+    );
+    return {
+      zws: project.layers.filter((l): l is ProjectZwsLayer => l.type === 'zws'),
+      wms: project.layers.filter((l): l is ProjectWmsLayer => l.type === 'wms'),
+      wfs: wfs[0] ?? null,
+      vector: project.layers.filter(
+        (l): l is ProjectVectorLayer =>
+          l.type === 'local' || (l.type === 'wfs' && l !== wfs[0])
+      ),
+    };
+  }, [project.layers]);
+  // порядок растровых слоёв: подложки внизу, затем слои в порядке проекта
+  const tileZIndex = useCallback(
+    (id: string) => project.layers.findIndex((l) => l.id === id) + 1,
+    [project.layers]
+  );
+  const highlightOptions = useMemo(
+    () => ({ ...DEFAULTS.highlight, ...project.highlight }),
+    [project.highlight]
+  );
+
+  const wfsLayer = projectLayers.wfs;
+  const wfsUrl = wfsLayer
+    ? projectService(project, wfsLayer.service)?.url
+    : undefined;
+  const wfsTypeName = wfsLayer?.typeName;
+  const wfsSrsName = wfsLayer?.srsName;
+  const wfsPopupTemplate = wfsLayer?.popup;
+  // сервис WMS слоёв проекта, иначе первый сервис OGC — для каталога слоёв
+  const wmsUrl =
+    projectService(project, projectLayers.wms[0]?.service ?? '')?.url ??
+    project.services.find((s) => s.type === 'ogc')?.url;
+  const wmsInitialLayers = useMemo<WmsInitialLayer[]>(
+    () =>
+      projectLayers.wms.map((l) => ({
+        name: l.layer,
+        title: l.title,
+        style: l.style,
+        format: l.format,
+        visible: l.visible,
+        options: { opacity: l.opacity, zIndex: tileZIndex(l.id) },
+      })),
+    [projectLayers.wms, tileZIndex]
+  );
+
   const layerControlRef = useRef<L.Control.Layers | null>(null);
+  // ZWS layers of the project and those added from the server catalog
+  const zwsOverlaysRef = useRef<ZwsOverlay[]>([]);
+  // layers of the catalog service already on the map
+  const [addedZwsLayers, setAddedZwsLayers] = useState<string[]>([]);
+  // карта и контрол слоёв созданы — хуки могут добавлять свои слои
+  const [mapReady, setMapReady] = useState(false);
 
   const markersGroupRef = useRef<L.LayerGroup | null>(null);
   const highlightGroupRef = useRef<L.LayerGroup | null>(null);
-  const abortRef = useRef<AbortController | null>(null);
+  const highlightAbortRef = useRef<AbortController | null>(null);
+
+  // ZWS services of the project; the first one is the catalog for adding layers
+  const zwsServices = useMemo(
+    () =>
+      Object.fromEntries(
+        project.services
+          .filter((s) => s.type === 'zws')
+          .map((s) => [s.id, new ZWSService(s.url, s.auth)])
+      ),
+    [project.services]
+  );
+  const catalogZws = project.services.find((s) => s.type === 'zws') ?? null;
+  const zwsService = catalogZws ? zwsServices[catalogZws.id] : null;
 
-  // zws service to fetch attributes on click
-  const zwsService = useRef(new ZWSService(zwsEndpoint!, zwsAuth)).current;
+  // persistent tile storage shared by all ZWS layers
+  const tileCache = project.tileCache ?? DEFAULTS.tileCache;
+  const tileCacheRef = useRef<TileCache | null>(
+    tileCache && TileCache.isSupported() ? new TileCache(tileCache) : null
+  );
+
+  const [wfsStyle, setWfsStyle] = useState<VectorStyle>(
+    wfsLayer?.style ?? DEFAULT_VECTOR_STYLE
+  );
+  const [mapZoom, setMapZoom] = useState(project.view.zoom);
 
-  const { fetchForBbox } = useWfsLayer({
+  const {
+    fetchForBbox,
+    identifyAt: identifyWfsAt,
+    status: wfsStatus,
+    schema: wfsSchema,
+    runQuery: runWfsQuery,
+    clearQuery: clearWfsQuery,
+    geoJsonLayer: wfsGeoJsonRef,
+    reload: reloadWfs,
+    setTimeFilter: setWfsTimeFilter,
+    setAutoReload: setWfsAutoReload,
+    cancel: cancelWfsLoad,
+    service: wfsService,
+  } = useWfsLayer({
     mapRef,
     layerControlRef,
+    mapReady,
     wfsUrl,
     wfsTypeName,
-    popupOptions: WINDOW_POPUP,
+    wfsSrsName,
+    title: wfsLayer?.title,
+    visible: wfsLayer?.visible,
+    pane: wfsLayer ? projectPane(wfsLayer.id) : undefined,
+    style: wfsStyle,
   });
 
-  const clearMarkers = useCallback(() => {
-    markersGroupRef.current?.clearLayers();
-  }, []);
+  const wfsEditing = useWfsEditing({
+    mapRef,
+    layerRef: wfsGeoJsonRef,
+    service: wfsService,
+    typeName: wfsTypeName,
+    srsName: wfsSrsName,
+    schema: wfsSchema,
+    reload: reloadWfs,
+    setAutoReload: setWfsAutoReload,
+  });
 
-  const clearHighlight = useCallback(() => {
-    highlightGroupRef.current?.clearLayers();
+  // загруженные объекты WFS — для экспорта и классификации стиля
+  const getWfsFeatures = useCallback(
+    () =>
+      (wfsGeoJsonRef.current?.toGeoJSON() as GeoJSON.FeatureCollection)
+        ?.features ?? [],
+    [wfsGeoJsonRef]
+  );
+
+  // экстент карты как полигон WGS84 — область пространственных условий запроса
+  const getMapExtent = useCallback((): GeoJSON.Polygon | null => {
+    const bounds = mapRef.current?.getBounds();
+    if (!bounds) return null;
+    const [w, s, e, n] = [
+      bounds.getWest(),
+      bounds.getSouth(),
+      bounds.getEast(),
+      bounds.getNorth(),
+    ];
+    return {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [w, s],
+          [e, s],
+          [e, n],
+          [w, n],
+          [w, s],
+        ],
+      ],
+    };
   }, []);
 
-  const addMarkerWithPopup = useCallback(
-    (latlng: L.LatLngExpression, html: string) => {
-      if (!markersGroupRef.current || !mapRef.current) return;
-      const marker = L.marker(latlng);
-      marker.bindPopup(html, WINDOW_POPUP);
-      markersGroupRef.current.addLayer(marker);
-      marker.openPopup();
-    },
-    []
+  const sketch = useSketchLayer({ mapRef, layerControlRef, mapReady });
+  const { sketches, getSketchFeature, sketchGroup, getSketchFeatures } =
+    sketch;
+  const measure = useMeasureTool({ mapRef, mapReady });
+  const imported = useImportedLayers({ mapRef, layerControlRef, mapReady });
+  const { getFeatures: getImportedFeatures, getLayer: getImportedLayer } =
+    imported;
+  const projectVector = useProjectLayers({
+    mapRef,
+    layerControlRef,
+    mapReady,
+    project,
+    layers: projectLayers.vector,
+    paneFor: projectPane,
+  });
+  const { getFeatures: getProjectFeatures, getLayer: getProjectLayer } =
+    projectVector;
+  // параметр TIME слоёв WMS — со шкалы времени, объявленной ниже
+  const [wmsTime, setWmsTime] = useState<string | null>(null);
+  const wms = useWmsLayers({
+    mapRef,
+    layerControlRef,
+    mapReady,
+    wmsUrl,
+    initialLayers: wmsInitialLayers,
+    time: wmsTime,
+  });
+  const { getFeatureInfo: getWmsFeatureInfo } = wms;
+
+  // значения TIME активных слоёв WMS; ключ по строкам, чтобы переключение
+  // видимости слоя не пересобирало шкалу
+  const wmsTimeValues = wms.layers
+    .map((l) => wmsTimeDimension(l.info)?.values)
+    .filter((v): v is string => !!v)
+    .join('\n');
+  const timeExtents = useMemo(
+    () => (wmsTimeValues ? wmsTimeValues.split('\n').map(parseTimeExtent) : []),
+    [wmsTimeValues]
+  );
+  const timeline = useTimeline({ extents: timeExtents });
+  const { selection: timeSelection } = timeline;
+  const wfsTimeAttributes = useMemo(
+    () => temporalAttributes(wfsSchema),
+    [wfsSchema]
   );
+  const [wfsTimeAttribute, setWfsTimeAttribute] = useState<string | null>(
+    null
+  );
+  const activeWfsTimeAttribute =
+    wfsTimeAttributes.find((a) => a.name === wfsTimeAttribute) ??
+    wfsTimeAttributes[0] ??
+    null;
+
+  useEffect(() => {
+    setWmsTime(timeSelection ? wmsTimeParam(timeSelection) : null);
+  }, [timeSelection]);
 
-  // HTML builder for properties popup
-  const buildPropsPopupHtml = useCallback((props: Record<string, unknown>): string => {
-    const filtered = Object.entries(props).filter(([key, value]) => {
-      if (key === 'ZULU_GEOM') return false;
-      if (value === null || value === undefined) return true;
-      const t = typeof value;
-      if (t === 'string' || t === 'number' || t === 'boolean') return true;
-      // скрываем массивы/объекты (например массив координат)
-      return false;
+  useEffect(() => {
+    setWfsTimeFilter(
+      timeSelection && activeWfsTimeAttribute
+        ? wfsTimeFilter(activeWfsTimeAttribute, timeSelection)
+        : null
+    ).catch((err) => {
+      if ((err as Error)?.name !== 'AbortError')
+        console.warn('WFS time filter reload failed', err);
     });
+  }, [timeSelection, activeWfsTimeAttribute, setWfsTimeFilter]);
+  // файлы перетаскиваются над картой
+  const [dragOver, setDragOver] = useState(false);
+  // выделенный объект ZWS или WFS — для измерения и экспорта
+  const [selectedFeature, setSelectedFeature] =
+    useState<GeoJSON.Feature | null>(null);
+
+  // области для пространственных условий запроса: экстент и эскизы
+  const queryAreas = useMemo<QueryArea[]>(
+    () => [
+      { id: 'extent', label: 'Экстент карты', getGeometry: getMapExtent },
+      ...sketches.map((s) => ({
+        id: `sketch-${s.id}`,
+        label: `Эскиз: ${s.label}`,
+        getGeometry: () => getSketchFeature(s.id)?.geometry ?? null,
+      })),
+    ],
+    [getMapExtent, sketches, getSketchFeature]
+  );
 
-    if (!filtered.length) return '<div><em>Нет атрибутов</em></div>';
+  // схема читается при построении попапа, поэтому слои не пересоздаются при её загрузке
+  const wfsSchemaRef = useRef(wfsSchema);
+  wfsSchemaRef.current = wfsSchema;
 
-    return `<div>${filtered
-      .map(([k, v]) => `<strong>${escapeHtml(String(k))}:</strong> ${escapeHtml(String(v as any))}`)
-      .join('<br/>')}</div>`;
+  const clearMarkers = useCallback(() => {
+    markersGroupRef.current?.clearLayers();
   }, []);
 
-  // Convenience: show properties popup at location via marker
-  const showPropsPopupAt = useCallback(
-    (latlng: L.LatLngExpression, props: Record<string, unknown>) => {
-      const html = buildPropsPopupHtml(props);
-      addMarkerWithPopup(latlng, html);
-    },
-    [buildPropsPopupHtml, addMarkerWithPopup]
-  );
+  const clearHighlight = useCallback(() => {
+    highlightGroupRef.current?.clearLayers();
+    setSelectedFeature(null);
+  }, []);
 
-  // Функция для отрисовки выделенной области по координатам
-  const drawHighlightArea = useCallback((coordinates: Array<{lng: number, lat: number}>) => {
+  // Отрисовка выделенного объекта: точки, линии, полигоны и составные геометрии
+  const drawHighlightArea = useCallback((geometry: GeoJSON.Geometry, source?: GeoJSON.Feature) => {
     if (!highlightGroupRef.current || !mapRef.current) return;
     
     // Очищаем предыдущие выделения
     clearHighlight();
     
-    // Проверяем валидность полигона
-    if (!isValidPolygon(coordinates)) {
-      console.warn('Некорректные координаты для полигона');
-      return;
-    }
-    
-    // Преобразуем координаты в формат Leaflet [lat, lng]
-    const latLngs = coordinatesToLeaflet(coordinates);
-    
-    // Создаем полигон с настраиваемыми стилями
-    const polygon = L.polygon(latLngs, highlightOptions);
+    const layer = L.geoJSON(geometry, {
+      style: () => highlightOptions,
+      pointToLayer: (_feature, latlng) =>
+        L.circleMarker(latlng, { ...highlightOptions, radius: 8 }),
+    });
     
-    // Добавляем полигон в группу выделения
-    highlightGroupRef.current.addLayer(polygon);
+    // Добавляем геометрию в группу выделения
+    highlightGroupRef.current.addLayer(layer);
+    setSelectedFeature({
+      type: 'Feature',
+      id: source?.id,
+      properties: source?.properties ?? {},
+      geometry,
+    });
     
     // Подгоняем карту к выделенной области
-    const bounds = polygon.getBounds();
-    mapRef.current.fitBounds(bounds, { padding: [20, 20] });
+    const bounds = layer.getBounds();
+    if (bounds.isValid())
+      mapRef.current.fitBounds(bounds, { padding: [20, 20], maxZoom: 17 });
   }, [clearHighlight, highlightOptions]);
 
-  // Функция для извлечения координат из ответа сервера
-  const extractCoordinatesFromFields = useCallback((fields: ZWSField[]) => {
+  // Запасной вариант: геометрия из атрибутов объекта
+  const extractGeometryFromFields = useCallback((fields: ZWSField[]) => {
     // Ищем поле с координатами
     const coordValue = findCoordinatesField(fields);
     
     if (!coordValue) return null;
     
-    // Парсим координаты
-    return parseCoordinates(coordValue);
+    // WKT/EWKT, GeoJSON или список координат контура
+    return parseGeometry(coordValue);
   }, []);
 
-  // load WFS around a point (small bbox)
+  // объект ZWS для панели определения; геометрия запрашивается при подсветке
+  const zwsIdentifyFeature = useCallback(
+    (
+      service: ZWSService,
+      element: ZWSElement,
+      index: number
+    ): IdentifyFeature => {
+      const { id, layer, fields } = element;
+      const properties = Object.fromEntries(
+        fields.map((f) => [f.userName, f.value])
+      );
+      // без ElemID запросить геометрию не по чему — только из атрибутов
+      if (id === null)
+        return {
+          id: String(index + 1),
+          title: `${layer} ${index + 1}`,
+          properties,
+          geometry: extractGeometryFromFields(fields),
+        };
+      return {
+        id,
+        title: `${layer}, ID ${id}`,
+        properties,
+        geometry: null,
+        loadGeometry: async (signal) => {
+          try {
+            const geometry = await service.getElementGeometry(
+              layer,
+              id,
+              signal
+            );
+            if (geometry) return geometry;
+          } catch (err) {
+            if ((err as Error)?.name === 'AbortError') throw err;
+            console.warn('ZWS geometry error', err);
+          }
+          return extractGeometryFromFields(fields);
+        },
+      };
+    },
+    [extractGeometryFromFields]
+  );
+
+  // подсветка выбранного в панели объекта; геометрия ZWS догружается
+  const highlightIdentified = useCallback(
+    async (feature: IdentifyFeature) => {
+      highlightAbortRef.current?.abort();
+      const controller = new AbortController();
+      highlightAbortRef.current = controller;
+      clearHighlight();
+
+      let geometry = feature.geometry;
+      if (!geometry && feature.loadGeometry) {
+        try {
+          geometry = await feature.loadGeometry(controller.signal);
+        } catch (err) {
+          if ((err as Error)?.name !== 'AbortError')
+            console.warn('Identify geometry error', err);
+        }
+      }
+      if (controller.signal.aborted || !geometry) return;
+      drawHighlightArea(geometry, {
+        type: 'Feature',
+        id: feature.id,
+        properties: feature.properties,
+        geometry,
+      });
+    },
+    [drawHighlightArea, clearHighlight]
+  );
+
+  // WFS objects at a point: from the loaded layer if it covers the point,
+  // otherwise a small bbox request
   const loadWfsAtPoint = useCallback(
-    async (lat: number, lng: number) => {
+    async (lat: number, lng: number, signal?: AbortSignal) => {
       if (!wfsUrl || !wfsTypeName) return null;
+      const local = identifyWfsAt(L.latLng(lat, lng));
+      if (local) return local;
       const delta = 0.0007; // ~ small bbox (~70m)
       const bbox = `${lng - delta},${lat - delta},${lng + delta},${
         lat + delta
       }`;
-      try {
-        const geojson = await fetchForBbox(bbox);
-        return geojson;
-      } catch (err) {
-        console.warn('WFS point fetch error', err);
-        return null;
+      return fetchForBbox(bbox, signal);
+    },
+    [wfsUrl, wfsTypeName, identifyWfsAt, fetchForBbox]
+  );
+
+  // add a layer discovered through the ZWS catalog as an overlay
+  const addZwsOverlay = useCallback(
+    (info: ZWSLayerInfo) => {
+      const map = mapRef.current;
+      if (!map || !catalogZws || !zwsService) return;
+      if (
+        zwsOverlaysRef.current.some(
+          (o) => o.service === zwsService && o.name === info.name
+        )
+      )
+        return;
+
+      const layer = new ZWSLayer({
+        zwsLayerName: info.name,
+        endpoint: catalogZws.url,
+        auth: catalogZws.auth,
+        maxZoom: 18,
+        opacity: 1,
+        // над слоями проекта
+        zIndex: project.layers.length + 1,
+        cache: tileCacheRef.current ?? undefined,
+      });
+      zwsOverlaysRef.current.push({
+        name: info.name,
+        layer,
+        service: zwsService,
+      });
+      layer.addTo(map);
+      layerControlRef.current?.addOverlay(layer, `ZWS: ${info.title}`);
+      setAddedZwsLayers((prev) => [...prev, info.name]);
+
+      // охват приходит в системе координат слоя — подгоняем карту только для WGS84
+      const extent = info.extent;
+      if (extent && (!extent.crs || extent.crs.includes('4326'))) {
+        const bounds = L.latLngBounds(
+          [extent.minY, extent.minX],
+          [extent.maxY, extent.maxX]
+        );
+        if (bounds.isValid()) map.fitBounds(bounds, { padding: [20, 20] });
       }
     },
-    [wfsUrl, wfsTypeName, fetchForBbox]
+    [catalogZws, zwsService, project.layers.length]
   );
 
-  // click handler: try ZWS -> fallback to WFS (geojson) -> show popup "not found"
-  const handleMapClick = useCallback(
-    async (e: L.LeafletMouseEvent) => {
-      e.originalEvent.preventDefault?.();
-      e.originalEvent.stopPropagation?.();
+  // ZWS layers currently visible on the map (for offline download)
+  const getVisibleZwsLayers = useCallback(() => {
+    const map = mapRef.current;
+    if (!map) return [];
+    return zwsOverlaysRef.current
+      .map((o) => o.layer)
+      .filter((l) => map.hasLayer(l));
+  }, []);
 
-      const map = mapRef.current;
-      if (!map) return;
+  // объекты, пересекающие видимую область карты
+  const filterVisible = useCallback((features: GeoJSON.Feature[]) => {
+    const bounds = mapRef.current?.getBounds();
+    if (!bounds) return features;
+    return features.filter((f) => {
+      if (!f.geometry) return false;
+      const b = L.geoJSON(f).getBounds();
+      return b.isValid() && bounds.intersects(b);
+    });
+  }, []);
 
-      // abort previous
-      abortRef.current?.abort();
-      abortRef.current = new AbortController();
+  const exportSources = useMemo<ExportSource[]>(() => {
+    const byScope =
+      (getFeatures: () => GeoJSON.Feature[]) => (scope: ExportScope) =>
+        scope === 'visible' ? filterVisible(getFeatures()) : getFeatures();
+    const sources: ExportSource[] = [];
+    if (wfsUrl && wfsTypeName)
+      sources.push({
+        id: 'wfs',
+        label: `Слой WFS ${wfsTypeName}`,
+        name: wfsTypeName,
+        schema: wfsSchema,
+        getFeatures: byScope(getWfsFeatures),
+      });
+    sources.push(
+      {
+        id: 'selection',
+        label: 'Выделенный объект',
+        name: 'selection',
+        getFeatures: byScope(() => (selectedFeature ? [selectedFeature] : [])),
+      },
+      {
+        id: 'sketches',
+        label: 'Эскизы',
+        name: 'sketches',
+        getFeatures: byScope(sketch.getSketchFeatures),
+      },
+      ...imported.layers.map((layer) => ({
+        id: `file-${layer.id}`,
+        label: `Файл: ${layer.name}`,
+        name: layer.name.replace(/\.[^.]+$/, ''),
+        getFeatures: byScope(() => getImportedFeatures(layer.id)),
+      })),
+      ...projectVector.layers.map((layer) => ({
+        id: `project-${layer.id}`,
+        label: `Слой ${layer.title}`,
+        name: layer.id,
+        getFeatures: byScope(() => getProjectFeatures(layer.id)),
+      }))
+    );
+    return sources;
+  }, [
+    wfsUrl,
+    wfsTypeName,
+    wfsSchema,
+    getWfsFeatures,
+    selectedFeature,
+    sketch.getSketchFeatures,
+    imported.layers,
+    getImportedFeatures,
+    projectVector.layers,
+    getProjectFeatures,
+    filterVisible,
+  ]);
 
-      const z = map.getZoom();
-      const scale = (2 * Math.PI * 6378137.0) / (256 * Math.pow(2, z ?? zoom));
+  const identify = useIdentify();
+  const { identify: runIdentify, clear: clearIdentify } = identify;
 
-      // clear previous marker and highlight (variant 1 behavior)
-      clearMarkers();
-      clearHighlight();
+  // источники определения: видимые слои ZWS, слои WMS с GetFeatureInfo, WFS
+  // и векторные слои, загруженные в браузер
+  const buildIdentifySources = useCallback((): IdentifySource[] => {
+    const map = mapRef.current;
+    if (!map) return [];
+    const sources: IdentifySource[] = [];
 
-      try {
-        const fields = await zwsService.selectByXY(
-          zwsLayerName!,
-          e.latlng.lat,
-          e.latlng.lng,
-          scale,
-          abortRef.current.signal
-        );
+    zwsOverlaysRef.current.forEach(({ name, layer, service }) => {
+      if (!map.hasLayer(layer)) return;
+      sources.push({
+        id: `zws-${L.stamp(layer)}`,
+        label: `ZWS: ${name}`,
+        identify: async ({ lat, lng }, signal) => {
+          // размер пикселя на широте клика: к полюсам он уменьшается
+          const scale = groundResolution(lat, map.getZoom());
+          const elements = await service.selectByXY(
+            name,
+            lat,
+            lng,
+            scale,
+            signal
+          );
+          return {
+            features: elements.map((e, i) => zwsIdentifyFeature(service, e, i)),
+          };
+        },
+      });
+    });
 
-        if (fields === null) {
-          // try WFS fallback (small bbox)
-          const wfsGeo = await loadWfsAtPoint(e.latlng.lat, e.latlng.lng);
-          if (wfsGeo && wfsGeo.features && wfsGeo.features.length > 0) {
-            const feature = wfsGeo.features[0];
-            const props = feature.properties ?? {};
-            showPropsPopupAt(e.latlng, props);
-            // Если пришла геометрия (GeoJSON), отрисуем её
-            if (feature.geometry && feature.geometry.type === 'Polygon') {
-              const rings = feature.geometry.coordinates?.[0] as number[][] | undefined;
-              if (Array.isArray(rings) && rings.length) {
-                const coords = rings.map((p) => ({ lng: p[0], lat: p[1] }));
-                drawHighlightArea(coords);
-              }
-            }
-            return;
-          }
+    if (wms.infoFormat)
+      wms.layers.forEach((layer) => {
+        if (!layer.visible || !layer.info.queryable) return;
+        sources.push({
+          id: `wms-${layer.id}`,
+          label: `WMS: ${layer.info.title}`,
+          identify: async ({ lat, lng }, signal) => {
+            const info = await getWmsFeatureInfo(
+              layer.id,
+              L.latLng(lat, lng),
+              signal
+            );
+            return {
+              features: identifyFeatures(
+                info?.features ?? [],
+                layer.info.title
+              ),
+              html: info?.html,
+              text: info?.text,
+            };
+          },
+        });
+      });
 
-          L.popup()
-            .setLatLng(e.latlng)
-            .setContent('<div><em>Объект не найден</em></div>')
-            .openOn(map);
-          return;
-        }
+    const wfsLayer = wfsGeoJsonRef.current;
+    if (wfsTypeName && wfsLayer && map.hasLayer(wfsLayer))
+      sources.push({
+        id: 'wfs',
+        label: `WFS: ${wfsTypeName}`,
+        schema: wfsSchemaRef.current,
+        // объекты из загруженного слоя, иначе запрос небольшой области
+        identify: async ({ lat, lng }, signal) => {
+          const geojson = await loadWfsAtPoint(lat, lng, signal);
+          return {
+            features: withPopupTemplate(
+              identifyFeatures(geojson?.features ?? [], wfsTypeName),
+              wfsPopupTemplate,
+              wfsSchemaRef.current
+            ),
+          };
+        },
+      });
 
-        // build popup from fields
-        const popupHtml =
-          fields.length === 0
-            ? '<div><em>Объект найден, но атрибуты недоступны</em></div>'
-            : `<div>${fields
-                .map(
-                  (f) =>
-                    `<strong>${escapeHtml(f.userName)}:</strong> ${escapeHtml(
-                      f.value
-                    )}`
-                )
-                .join('<br/>')}</div>`;
-
-        addMarkerWithPopup(e.latlng, popupHtml);
-
-        // Пытаемся извлечь координаты для отрисовки выделенной области
-        const coordinates = extractCoordinatesFromFields(fields);
-        if (coordinates && coordinates.length > 0) {
-          drawHighlightArea(coordinates);
-        }
-      } catch (err) {
-        if ((err as any)?.name === 'AbortError') {
-          console.info('ZWS aborted');
-          return;
-        }
-        console.error('ZWS error', err);
+    // объекты уже на карте: попадание проверяется без запросов
+    const addLocalSource = (
+      id: string,
+      label: string,
+      layer: L.Layer | null | undefined,
+      getFeatures: () => GeoJSON.Feature[],
+      fallbackTitle: string,
+      template?: string
+    ) => {
+      if (!layer || !map.hasLayer(layer)) return;
+      sources.push({
+        id,
+        label,
+        identify: async (latlng) => {
+          const hits = featuresAt(
+            getFeatures(),
+            latlng,
+            clickTolerance(map, L.latLng(latlng))
+          );
+          return {
+            features: withPopupTemplate(
+              identifyFeatures(hits, fallbackTitle),
+              template
+            ),
+          };
+        },
+      });
+    };
+    projectLayers.vector.forEach((def) =>
+      addLocalSource(
+        `project-${def.id}`,
+        `${def.type === 'wfs' ? 'WFS' : 'Данные'}: ${def.title}`,
+        getProjectLayer(def.id),
+        () => getProjectFeatures(def.id),
+        def.title,
+        def.popup
+      )
+    );
+    imported.layers.forEach((layer) =>
+      addLocalSource(
+        `file-${layer.id}`,
+        `Файл: ${layer.name}`,
+        getImportedLayer(layer.id),
+        () => getImportedFeatures(layer.id),
+        layer.name
+      )
+    );
+    addLocalSource(
+      'sketches',
+      'Эскизы',
+      sketchGroup.current,
+      getSketchFeatures,
+      'Эскиз'
+    );
+    return sources;
+  }, [
+    zwsIdentifyFeature,
+    wms.infoFormat,
+    wms.layers,
+    getWmsFeatureInfo,
+    wfsTypeName,
+    wfsGeoJsonRef,
+    wfsPopupTemplate,
+    loadWfsAtPoint,
+    projectLayers.vector,
+    getProjectLayer,
+    getProjectFeatures,
+    imported.layers,
+    getImportedLayer,
+    getImportedFeatures,
+    sketchGroup,
+    getSketchFeatures,
+  ]);
+  // обработчик клика не пересоздаётся: иначе пересоздалась бы карта
+  const buildIdentifySourcesRef = useRef(buildIdentifySources);
+  buildIdentifySourcesRef.current = buildIdentifySources;
 
-        // fallback to WFS
-        try {
-          const wfsGeo = await loadWfsAtPoint(e.latlng.lat, e.latlng.lng);
-          if (wfsGeo && wfsGeo.features && wfsGeo.features.length > 0) {
-            const feature = wfsGeo.features[0];
-            const props = feature.properties ?? {};
-            showPropsPopupAt(e.latlng, props);
-            if (feature.geometry && feature.geometry.type === 'Polygon') {
-              const rings = feature.geometry.coordinates?.[0] as number[][] | undefined;
-              if (Array.isArray(rings) && rings.length) {
-                const coords = rings.map((p) => ({ lng: p[0], lat: p[1] }));
-                drawHighlightArea(coords);
-              }
-            }
-            return;
-          }
-        } catch (wfserr) {
-          console.warn('WFS fallback error', wfserr);
-        }
+  // click handler: все видимые слои опрашиваются параллельно,
+  // ответы — по вкладкам панели определения
+  const handleMapClick = useCallback(
+    (e: L.LeafletMouseEvent) => {
+      e.originalEvent.preventDefault?.();
+      e.originalEvent.stopPropagation?.();
 
-        L.popup()
-          .setLatLng(e.latlng)
-          .setContent(
-            `<div><strong>Ошибка:</strong> ${(err as Error).message}</div>`
-          )
-          .openOn(map);
-      }
+      const map = mapRef.current;
+      if (!map) return;
+      // клики при рисовании принадлежат инструменту рисования
+      if (map.pm?.globalDrawModeEnabled()) return;
+
+      highlightAbortRef.current?.abort();
+      clearMarkers();
+      clearHighlight();
+      markersGroupRef.current?.addLayer(L.marker(e.latlng));
+      runIdentify(buildIdentifySourcesRef.current(), e.latlng);
     },
-    [
-      zwsService,
-      zwsLayerName,
-      zoom,
-      clearMarkers,
-      clearHighlight,
-      addMarkerWithPopup,
-      loadWfsAtPoint,
-      extractCoordinatesFromFields,
-      drawHighlightArea,
-    ]
+    [clearMarkers, clearHighlight, runIdentify]
   );
 
+  // выбранный объект активной вкладки подсвечивается на карте
+  const identifyActive = identify.results.find(
+    (r) => r.id === identify.activeId
+  );
+  const identifiedFeature =
+    identifyActive?.features[identifyActive.selected] ?? null;
+  const hasIdentifyResults = identify.results.length > 0;
+  useEffect(() => {
+    if (identifiedFeature) {
+      highlightIdentified(identifiedFeature);
+    } else if (hasIdentifyResults) {
+      highlightAbortRef.current?.abort();
+      clearHighlight();
+    }
+  }, [
+    identifiedFeature,
+    hasIdentifyResults,
+    highlightIdentified,
+    clearHighlight,
+  ]);
+
+  const closeIdentify = useCallback(() => {
+    highlightAbortRef.current?.abort();
+    clearIdentify();
+    clearMarkers();
+    clearHighlight();
+  }, [clearIdentify, clearMarkers, clearHighlight]);
+
   // initialize map and layers
   useEffect(() => {
     if (!containerRef.current) return;
     if (mapRef.current) return;
 
-    const map = L.map(containerRef.current).setView(center, zoom);
+    const { view } = project;
+    const map = L.map(containerRef.current, {
+      ...(view.minZoom !== undefined ? { minZoom: view.minZoom } : {}),
+      ...(view.maxZoom !== undefined ? { maxZoom: view.maxZoom } : {}),
+    }).setView(view.center, view.zoom);
     mapRef.current = map;
 
-    // base OSM
-    const osm = L.tileLayer(
-      'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
-    ).addTo(map);
-
     // markers group for click-selected markers
     markersGroupRef.current = L.layerGroup().addTo(map);
     
@@ -338,95 +830,68 @@ const Map: React.FC<MapProps> = ({
 
     // create overlays map for LayerControl
     const overlays: Record<string, L.Layer> = {};
-    const baseLayers: Record<string, L.Layer> = {
-      OpenStreetMap: osm,
-    };
+    const baseLayers: Record<string, L.Layer> = {};
 
-    // 1) ZWS layer (raster tiles via custom GridLayer)
-    try {
-      const zwsLayer = new ZWSLayer({
-        zwsLayerName,
-        endpoint: zwsEndpoint,
-        auth: zwsAuth,
-        maxZoom: 18,
-        opacity: 1,
+    // base maps: the project's default one is shown, the rest are in the control
+    const baseMapId = project.baseMap ?? project.baseMaps[0]?.id;
+    project.baseMaps.forEach((baseMap) => {
+      const tiles = L.tileLayer(baseMap.url, {
+        attribution: baseMap.attribution,
+        maxZoom: baseMap.maxZoom,
+        subdomains: baseMap.subdomains,
+        zIndex: 0,
       });
-      zwsLayerRef.current = zwsLayer;
-      // add to map initially
-      zwsLayer.addTo(map);
-      overlays['ZuluGIS (ZWS)'] = zwsLayer;
-    } catch (err) {
-      console.warn('Failed to add ZWSLayer', err);
-    }
+      baseLayers[baseMap.title] = tiles;
+      if (baseMap.id === baseMapId) tiles.addTo(map);
+    });
 
-    // 2) WMS layer (if provided) — raster overlay
-    if (wmsUrl && wmsLayerName) {
-      const defaultWmsOptions: L.WMSOptions = {
-        layers: wmsLayerName,
-        format: 'image/png',
-        transparent: true,
-        version: '1.1.1',
-      };
-      const combinedWmsOptions = {
-        ...(defaultWmsOptions as any),
-        ...(wmsOptions || {}),
-      };
-      const wmsLayer = L.tileLayer.wms(wmsUrl, combinedWmsOptions);
-      wmsLayerRef.current = wmsLayer;
-      // do not add automatically — add option to overlays; uncomment next line to show by default:
-      // wmsLayer.addTo(map);
-      overlays['WMS Layer'] = wmsLayer;
-    }
+    // 1) ZWS layers of the project (raster tiles via custom GridLayer)
+    projectLayers.zws.forEach((def) => {
+      const service = projectService(project, def.service);
+      if (!service) return;
+      try {
+        const layer = new ZWSLayer({
+          zwsLayerName: def.layer,
+          endpoint: service.url,
+          auth: service.auth,
+          maxZoom: 18,
+          opacity: def.opacity,
+          zIndex: tileZIndex(def.id),
+          cache: tileCacheRef.current ?? undefined,
+        });
+        zwsOverlaysRef.current.push({
+          name: def.layer,
+          layer,
+          service: zwsServices[def.service],
+        });
+        if (def.visible) layer.addTo(map);
+        overlays[`ZWS: ${def.title}`] = layer;
+      } catch (err) {
+        console.warn('Failed to add ZWSLayer', def.layer, err);
+      }
+    });
+    setAddedZwsLayers(
+      projectLayers.zws
+        .filter((def) => def.service === catalogZws?.id)
+        .map((def) => def.layer)
+    );
 
-    // 3) WFS layer: fetch and create GeoJSON layer (toggleable)
-    if (wfsUrl && wfsTypeName) {
-      // create empty geojson layer (will be populated)
-      const geoJsonLayer = L.geoJSON(null, {
-        onEachFeature: (feature, layer) => {
-          const props = (feature.properties || {}) as Record<string, unknown>;
-          const html = buildPropsPopupHtml(props);
-          layer.bindPopup(html, WINDOW_POPUP);
-        },
-        style: () => ({
-          color: '#ff7800',
-          weight: 2,
-          opacity: 0.9,
-          fillOpacity: 0.2,
-        }),
-      });
-      wfsLayerRef.current = geoJsonLayer;
-      overlays['WFS (GeoJSON)'] = geoJsonLayer;
+    // 2) WMS layers are managed by useWmsLayers (capabilities, styles, legends)
+
+    // 3) WFS and local vector layers are managed by useWfsLayer and
+    // useProjectLayers; each gets a pane for its draw order and opacity
+    project.layers.forEach((def, i) => {
+      if (def.type !== 'wfs' && def.type !== 'local') return;
+      const pane = map.createPane(projectPane(def.id));
+      pane.style.zIndex = String(VECTOR_PANE_Z_INDEX + i);
+      pane.style.opacity = String(def.opacity);
+    });
 
     // 4) Highlight overlay (toggleable)
     if (highlightGroupRef.current) {
       overlays['Highlight'] = highlightGroupRef.current;
     }
 
-      // optional: load features in current map bounds to keep payload small
-      (async () => {
-        try {
-          const bounds = map.getBounds();
-          const ne = bounds.getNorthEast();
-          const sw = bounds.getSouthWest();
-          const bbox = `${sw.lng},${sw.lat},${ne.lng},${ne.lat}`;
-          const geojson = await fetchForBbox(bbox);
-          if (geojson) {
-            geoJsonLayer.addData(geojson);
-            // auto-fit to loaded data
-            try {
-              const b = geoJsonLayer.getBounds();
-              if (b && b.isValid())
-                map.fitBounds(b, { padding: [40, 40], maxZoom: 16 });
-            } catch (fitErr) {
-              console.warn('fitBounds error', fitErr);
-            }
-          }
-        } catch (err) {
-          console.warn('Failed to load WFS initial data', err);
-        }
-      })();
-    }
-
     // add Layer control (baseLayers + overlays)
     layerControlRef.current = L.control
       .layers(baseLayers, overlays, { collapsed: false })
@@ -434,10 +899,12 @@ const Map: React.FC<MapProps> = ({
 
     // click handler
     map.on('click', handleMapClick);
+    setMapReady(true);
 
     // cleanup on unmount
     return () => {
-      abortRef.current?.abort();
+      setMapReady(false);
+      highlightAbortRef.current?.abort();
       map.off('click', handleMapClick);
 
       // remove control
@@ -447,24 +914,15 @@ const Map: React.FC<MapProps> = ({
       }
 
       // remove overlays if added
-      if (zwsLayerRef.current) {
-        try {
-          map.removeLayer(zwsLayerRef.current);
-        } catch (e) {}
-        zwsLayerRef.current = null;
-      }
-      if (wmsLayerRef.current) {
+      zwsOverlaysRef.current.forEach(({ layer }) => {
         try {
-          map.removeLayer(wmsLayerRef.current);
-        } catch (e) {}
-        wmsLayerRef.current = null;
-      }
-      if (wfsLayerRef.current) {
-        try {
-          map.removeLayer(wfsLayerRef.current);
-        } catch (e) {}
-        wfsLayerRef.current = null;
-      }
+          map.removeLayer(layer);
+        } catch (e) {
+          // layer already detached
+        }
+      });
+      zwsOverlaysRef.current = [];
+      setAddedZwsLayers([]);
 
       // remove markers group and map
       if (markersGroupRef.current) {
@@ -486,23 +944,271 @@ const Map: React.FC<MapProps> = ({
       mapRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [
-    center,
-    zoom,
-    zwsLayerName,
-    zwsEndpoint,
-    zwsAuth,
-    wmsUrl,
-    wmsLayerName,
-    wmsOptions,
-    wfsUrl,
-    wfsTypeName,
-    handleMapClick,
-  ]);
+  }, [project, projectLayers, zwsServices, handleMapClick]);
+
+  // масштаб для легенды стиля; объекты перекрашивают хуки их слоёв
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const onZoomEnd = () => setMapZoom(map.getZoom());
+    setMapZoom(map.getZoom());
+    map.on('zoomend', onZoomEnd);
+    return () => {
+      map.off('zoomend', onZoomEnd);
+    };
+  }, [mapReady]);
 
   return (
-    <div style={{ width: '100%' }}>
+    <div
+      style={{ width: '100%', position: 'relative' }}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        // уход на дочерний элемент — не уход с карты
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null))
+          setDragOver(false);
+      }}
+      onDrop={(e) => {
+        if (!e.dataTransfer.files.length) return;
+        e.preventDefault();
+        setDragOver(false);
+        imported.importFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
       <div ref={containerRef} style={{ height, width: '100%' }} />
+      {dragOver && (
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 1100,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            bgcolor: 'rgba(25, 118, 210, 0.15)',
+            border: '3px dashed #1976d2',
+            pointerEvents: 'none',
+          }}
+        >
+          <Typography variant="h6">Отпустите файлы для импорта</Typography>
+        </Box>
+      )}
+      {identify.location && (
+        <Box sx={{ position: 'absolute', top: 10, left: 54, zIndex: 1000 }}>
+          <IdentifyPanel
+            location={identify.location}
+            results={identify.results}
+            activeId={identify.activeId}
+            onSelectTab={identify.selectTab}
+            onSelectFeature={identify.selectFeature}
+            onClose={closeIdentify}
+          />
+        </Box>
+      )}
+      <Box
+        sx={{
+          position: 'absolute',
+          top: 10,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: 1,
+        }}
+      >
+        {wfsStatus.loading && (
+          <WfsLoadProgress status={wfsStatus} onCancel={cancelWfsLoad} />
+        )}
+        {wfsStatus.limited && wfsStatus.total !== null && (
+          <Alert severity="warning">
+            {wfsStatus.filtered ? 'По запросу найдено' : 'В области'}{' '}
+            {wfsStatus.total} объектов, показаны первые {wfsStatus.loaded}
+          </Alert>
+        )}
+        {projectVector.layers
+          .filter((layer) => layer.truncated && !layer.error)
+          .map((layer) => (
+            <Alert key={layer.id} severity="warning">
+              Слой «{layer.title}»: в области показаны первые {layer.count}{' '}
+              объектов
+            </Alert>
+          ))}
+        {projectVector.layers
+          .filter((layer) => layer.error)
+          .map((layer) => (
+            <Alert key={layer.id} severity="error">
+              Слой «{layer.title}» не загружен: {layer.error}
+            </Alert>
+          ))}
+      </Box>
+      <Box
+        sx={{
+          position: 'absolute',
+          left: 10,
+          bottom: 24,
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+        }}
+      >
+        {zwsService && (
+          <ZWSLayerPicker
+            service={zwsService}
+            addedLayers={addedZwsLayers}
+            onAdd={addZwsOverlay}
+          />
+        )}
+        {wmsUrl && (
+          <WmsLayerBrowser
+            capabilities={wms.capabilities}
+            loading={wms.loading}
+            error={wms.error}
+            addedLayers={wms.layers.flatMap((l) =>
+              l.info.name ? [l.info.name] : []
+            )}
+            onAdd={wms.addLayer}
+          />
+        )}
+        <SketchPanel
+          sketches={sketch.sketches}
+          drawing={sketch.drawing}
+          selectedId={sketch.selectedId}
+          snapping={sketch.snapping}
+          onDraw={sketch.startDraw}
+          onCancelDraw={sketch.cancelDraw}
+          onSelect={sketch.select}
+          onRemove={sketch.remove}
+          onClear={sketch.clear}
+          onSnappingChange={sketch.setSnapping}
+          getFeatures={sketch.getSketchFeatures}
+        />
+        <MeasurePanel
+          measurements={measure.measurements}
+          mode={measure.mode}
+          units={measure.units}
+          highlighted={selectedFeature?.geometry ?? null}
+          onStart={measure.start}
+          onCancel={measure.cancel}
+          onMeasureFeature={measure.measureFeature}
+          onRemove={measure.remove}
+          onClear={measure.clear}
+          onUnitsChange={measure.setUnits}
+        />
+        <ImportPanel
+          layers={imported.layers}
+          errors={imported.errors}
+          loading={imported.loading}
+          onImport={imported.importFiles}
+          onZoomTo={imported.zoomTo}
+          onRemove={imported.remove}
+        />
+        <ExportPanel sources={exportSources} />
+        {tileCacheRef.current && (
+          <OfflineDownloadPanel
+            mapRef={mapRef}
+            cache={tileCacheRef.current}
+            getLayers={getVisibleZwsLayers}
+          />
+        )}
+      </Box>
+      {(timeExtents.length > 0 || wfsTimeAttributes.length > 0) && (
+        <Box
+          sx={{
+            position: 'absolute',
+            left: '50%',
+            bottom: 24,
+            transform: 'translateX(-50%)',
+            zIndex: 1000,
+          }}
+        >
+          <TimelinePanel
+            enabled={timeline.enabled}
+            onEnabledChange={timeline.setEnabled}
+            mode={timeline.mode}
+            onModeChange={timeline.setMode}
+            period={timeline.period}
+            hasServerValues={timeline.hasServerValues}
+            onPeriodChange={timeline.setPeriod}
+            domain={timeline.domain}
+            onDomainChange={timeline.setDomain}
+            steps={timeline.steps}
+            position={timeline.position}
+            onPositionChange={timeline.setPosition}
+            selection={timeSelection}
+            playing={timeline.playing}
+            onPlay={timeline.play}
+            onPause={timeline.pause}
+            onStep={timeline.step}
+            speed={timeline.speed}
+            onSpeedChange={timeline.setSpeed}
+            loop={timeline.loop}
+            onLoopChange={timeline.setLoop}
+            attributes={wfsTimeAttributes}
+            attribute={activeWfsTimeAttribute?.name ?? null}
+            onAttributeChange={setWfsTimeAttribute}
+          />
+        </Box>
+      )}
+      <Box
+        sx={{
+          position: 'absolute',
+          right: 10,
+          bottom: 24,
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+        }}
+      >
+        {wms.layers.length > 0 && (
+          <WmsLegendPanel
+            layers={wms.layers}
+            formats={wms.capabilities?.formats ?? []}
+            legendUrl={wms.legendUrl}
+            onUpdate={wms.updateLayer}
+            onRemove={wms.removeLayer}
+          />
+        )}
+        {wfsUrl && wfsTypeName && (
+          <>
+            <StylePanel
+              style={wfsStyle}
+              schema={wfsSchema}
+              zoom={mapZoom}
+              srsName={wfsSrsName}
+              getFeatures={getWfsFeatures}
+              onChange={setWfsStyle}
+            />
+            <QueryBuilderPanel
+              schema={wfsSchema}
+              status={wfsStatus}
+              areas={queryAreas}
+              onRun={runWfsQuery}
+              onClear={clearWfsQuery}
+            />
+            <WfsEditPanel
+              schema={wfsSchema}
+              editing={wfsEditing.editing}
+              onEditingChange={wfsEditing.setEditing}
+              selected={wfsEditing.selected}
+              pendingCounts={wfsEditing.pendingCounts}
+              saving={wfsEditing.saving}
+              error={wfsEditing.error}
+              onApplyAttributes={wfsEditing.applyAttributes}
+              onDeleteSelected={wfsEditing.deleteSelected}
+              onStartInsert={wfsEditing.startInsert}
+              onCommit={wfsEditing.commit}
+              onDiscard={wfsEditing.discard}
+            />
+          </>
+        )}
+      </Box>
     </div>
   );
 };
@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  Button,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Measurement,
+  measurementParts,
+  MeasureMode,
+  MeasureUnits,
+} from '../hooks/useMeasureTool';
+import {
+  AREA_UNIT_LABELS,
+  AreaUnit,
+  LENGTH_UNIT_LABELS,
+  LengthUnit,
+} from '../utils/geometryUtils';
+
+interface MeasurePanelProps {
+  measurements: Measurement[];
+  mode: MeasureMode | null;
+  units: MeasureUnits;
+  // геометрия выделенного объекта ZWS или WFS
+  highlighted: GeoJSON.Geometry | null;
+  onStart: (mode: MeasureMode) => void;
+  onCancel: () => void;
+  onMeasureFeature: (geometry: GeoJSON.Geometry) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+  onUnitsChange: (units: MeasureUnits) => void;
+}
+
+const MODE_LABELS: Record<MeasureMode, string> = {
+  distance: 'Расстояние',
+  area: 'Площадь',
+};
+
+const KIND_LABELS: Record<Measurement['kind'], string> = {
+  ...MODE_LABELS,
+  feature: 'Объект',
+};
+
+const MeasurePanel: React.FC<MeasurePanelProps> = ({
+  measurements,
+  mode,
+  units,
+  highlighted,
+  onStart,
+  onCancel,
+  onMeasureFeature,
+  onRemove,
+  onClear,
+  onUnitsChange,
+}) => (
+  <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+    <Stack spacing={1}>
+      <Typography variant="subtitle2">Измерения</Typography>
+      <Stack direction="row" spacing={0.5}>
+        {(Object.keys(MODE_LABELS) as MeasureMode[]).map((m) => (
+          <Button
+            key={m}
+            size="small"
+            variant={mode === m ? 'contained' : 'outlined'}
+            onClick={() => (mode === m ? onCancel() : onStart(m))}
+          >
+            {MODE_LABELS[m]}
+          </Button>
+        ))}
+      </Stack>
+      <Button
+        size="small"
+        disabled={!highlighted}
+        onClick={() => highlighted && onMeasureFeature(highlighted)}
+      >
+        Измерить выделенный объект
+      </Button>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          select
+          size="small"
+          label="Длина"
+          value={units.length}
+          onChange={(e) =>
+            onUnitsChange({ ...units, length: e.target.value as LengthUnit })
+          }
+          sx={{ flex: 1 }}
+        >
+          {(Object.keys(LENGTH_UNIT_LABELS) as LengthUnit[]).map((u) => (
+            <MenuItem key={u} value={u}>
+              {LENGTH_UNIT_LABELS[u]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Площадь"
+          value={units.area}
+          onChange={(e) =>
+            onUnitsChange({ ...units, area: e.target.value as AreaUnit })
+          }
+          sx={{ flex: 1 }}
+        >
+          {(Object.keys(AREA_UNIT_LABELS) as AreaUnit[]).map((u) => (
+            <MenuItem key={u} value={u}>
+              {AREA_UNIT_LABELS[u]}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+
+      {measurements.map((m) => (
+        <Stack key={m.id} direction="row" alignItems="center" spacing={0.5}>
+          <Typography variant="caption" sx={{ flex: 1 }}>
+            {KIND_LABELS[m.kind]}:{' '}
+            {measurementParts(m.measure, m.bearing, units).join(', ') || '—'}
+          </Typography>
+          <Button size="small" color="error" onClick={() => onRemove(m.id)}>
+            Удалить
+          </Button>
+        </Stack>
+      ))}
+      {measurements.length > 0 && (
+        <Button size="small" color="error" onClick={onClear}>
+          Удалить все
+        </Button>
+      )}
+    </Stack>
+  </Paper>
+);
+
+export default MeasurePanel;
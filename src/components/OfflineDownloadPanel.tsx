@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import {
+  Button,
+  LinearProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ZWSLayer,
+  DownloadAreaProgress,
+  DEFAULT_MAX_DOWNLOAD_TILES,
+} from '../Layer/ZWSLayer';
+import { TileCache, TileCacheUsage } from '../services/TileCache';
+
+interface OfflineDownloadPanelProps {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  cache: TileCache;
+  // ZWS layers currently shown on the map
+  getLayers: () => ZWSLayer[];
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} КБ`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+};
+
+const OfflineDownloadPanel: React.FC<OfflineDownloadPanelProps> = ({
+  mapRef,
+  cache,
+  getLayers,
+}) => {
+  const [minZoom, setMinZoom] = useState(12);
+  const [maxZoom, setMaxZoom] = useState(16);
+  const [progress, setProgress] = useState<DownloadAreaProgress | null>(null);
+  const [usage, setUsage] = useState<TileCacheUsage | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshUsage = useCallback(() => {
+    cache
+      .usage()
+      .then(setUsage)
+      .catch((err) => console.warn('Tile cache usage error', err));
+  }, [cache]);
+
+  useEffect(() => {
+    refreshUsage();
+    return () => abortRef.current?.abort();
+  }, [refreshUsage]);
+
+  const handleDownload = useCallback(async () => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layers = getLayers();
+    if (!layers.length) {
+      setMessage('Нет видимых слоёв ZWS');
+      return;
+    }
+
+    const bounds = map.getBounds();
+    const from = Math.min(minZoom, maxZoom);
+    const to = Math.max(minZoom, maxZoom);
+
+    const total = layers.reduce(
+      (acc, l) => acc + l.countTiles(bounds, from, to),
+      0
+    );
+    // иначе первые слои успели бы загрузиться до отказа на следующем
+    if (total > DEFAULT_MAX_DOWNLOAD_TILES) {
+      setMessage(
+        `Слишком много тайлов: ${total} (не больше ${DEFAULT_MAX_DOWNLOAD_TILES}), уменьшите область или диапазон масштабов`
+      );
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    let finished = 0;
+    let failed = 0;
+    setProgress({ total, done: 0, failed: 0 });
+
+    try {
+      for (const layer of layers) {
+        const result = await layer.downloadArea(bounds, from, to, {
+          signal: controller.signal,
+          onProgress: (p) =>
+            setProgress({
+              total,
+              done: finished + p.done,
+              failed: failed + p.failed,
+            }),
+        });
+        finished += result.done;
+        failed += result.failed;
+      }
+      setMessage(
+        failed
+          ? `Загружено тайлов: ${finished - failed}, ошибок: ${failed}`
+          : `Загружено тайлов: ${finished}`
+      );
+    } catch (err) {
+      setMessage(
+        (err as Error)?.name === 'AbortError'
+          ? 'Загрузка отменена'
+          : `Ошибка: ${(err as Error).message}`
+      );
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshUsage();
+    }
+  }, [mapRef, getLayers, minZoom, maxZoom, refreshUsage]);
+
+  const handleClear = useCallback(async () => {
+    try {
+      await cache.clear();
+      setMessage('Кэш очищен');
+    } catch (err) {
+      console.warn('Tile cache clear error', err);
+    }
+    refreshUsage();
+  }, [cache, refreshUsage]);
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Офлайн-режим</Typography>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            type="number"
+            label="Масштаб от"
+            value={minZoom}
+            inputProps={{ min: 0, max: 18 }}
+            onChange={(e) => setMinZoom(Number(e.target.value))}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="до"
+            value={maxZoom}
+            inputProps={{ min: 0, max: 18 }}
+            onChange={(e) => setMaxZoom(Number(e.target.value))}
+          />
+        </Stack>
+
+        {progress ? (
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={progress.total ? (progress.done / progress.total) * 100 : 0}
+            />
+            <Typography variant="caption">
+              {progress.done} / {progress.total}
+            </Typography>
+            <Button
+              size="small"
+              color="warning"
+              onClick={() => abortRef.current?.abort()}
+            >
+              Отменить
+            </Button>
+          </>
+        ) : (
+          <Button variant="contained" size="small" onClick={handleDownload}>
+            Скачать видимую область
+          </Button>
+        )}
+
+        {message && <Typography variant="caption">{message}</Typography>}
+
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="caption">
+            {usage
+              ? `В кэше: ${usage.count} тайлов, ${formatBytes(usage.bytes)}`
+              : 'Кэш недоступен'}
+          </Typography>
+          <Button size="small" onClick={handleClear} disabled={!!progress}>
+            Очистить
+          </Button>
+        </Stack>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default OfflineDownloadPanel;
@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  LinearProgress,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { MapProjectLoadError } from '../hooks/useMapProject';
+
+interface ProjectStartPanelProps {
+  // адрес загружаемого проекта
+  loadingSource: string | null;
+  error: MapProjectLoadError | null;
+  onOpenFile: (file: File) => void;
+}
+
+const ProjectStartPanel: React.FC<ProjectStartPanelProps> = ({
+  loadingSource,
+  error,
+  onOpenFile,
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <Box
+      sx={{
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      <Paper elevation={3} sx={{ p: 2, width: 480 }}>
+        <Stack spacing={1.5}>
+          <Typography variant="h6">Проект карты</Typography>
+          {loadingSource && (
+            <>
+              <Typography variant="body2">
+                Загрузка проекта {loadingSource}
+              </Typography>
+              <LinearProgress />
+            </>
+          )}
+          {error && (
+            <Alert severity="error">
+              <Typography variant="body2" sx={{ mb: 0.5 }}>
+                Не удалось открыть проект {error.source}
+              </Typography>
+              <Box component="ul" sx={{ m: 0, pl: 2, fontSize: 13 }}>
+                {error.problems.map((problem, i) => (
+                  <li key={i}>{problem}</li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+          <Typography variant="caption" color="text.secondary">
+            Проект задаётся параметром адреса ?project=… (на этом же сервере)
+            или файлом JSON
+          </Typography>
+          <Button variant="outlined" onClick={() => inputRef.current?.click()}>
+            Открыть файл проекта
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            hidden
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onOpenFile(file);
+              // повторный выбор того же файла тоже должен сработать
+              e.target.value = '';
+            }}
+          />
+        </Stack>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ProjectStartPanel;
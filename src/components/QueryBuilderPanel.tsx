@@ -0,0 +1,522 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  AttributeSchema,
+  attributeInputType,
+  FeatureTypeSchema,
+} from '../utils/featureSchema';
+import {
+  ComparisonFilter,
+  ComparisonOperator,
+  FilterNode,
+  LogicalFilter,
+  LogicalOperator,
+  normalizeFilter,
+  SpatialFilter,
+  SpatialOperator,
+} from '../utils/ogcFilter';
+import { WfsLoadStatus } from '../hooks/useWfsLayer';
+
+// источник геометрии пространственного условия: экстент карты, эскиз
+export interface QueryArea {
+  id: string;
+  label: string;
+  // геометрия в WGS84 на момент вызова
+  getGeometry: () => GeoJSON.Geometry | null;
+}
+
+interface QueryBuilderPanelProps {
+  schema: FeatureTypeSchema | null;
+  status: WfsLoadStatus;
+  // первая область используется по умолчанию
+  areas: QueryArea[];
+  onRun: (filter: FilterNode) => Promise<unknown>;
+  onClear: () => void;
+}
+
+const COMPARISON_LABELS: Record<ComparisonOperator, string> = {
+  eq: '=',
+  ne: '≠',
+  lt: '<',
+  le: '≤',
+  gt: '>',
+  ge: '≥',
+  like: 'похоже на',
+  between: 'между',
+  isNull: 'пусто',
+};
+
+const SPATIAL_LABELS: Record<SpatialOperator, string> = {
+  bbox: 'в охвате',
+  intersects: 'пересекает',
+  within: 'внутри',
+  contains: 'содержит',
+  disjoint: 'не пересекает',
+  dwithin: 'в пределах, м',
+};
+
+const LOGICAL_LABELS: Record<LogicalOperator, string> = {
+  and: 'Все условия (И)',
+  or: 'Любое условие (ИЛИ)',
+  not: 'Не (НЕ)',
+};
+
+// операторы, применимые к типу атрибута
+const operatorsFor = (
+  attr: AttributeSchema | undefined
+): ComparisonOperator[] => {
+  switch (attr?.type) {
+    case 'boolean':
+      return ['eq', 'isNull'];
+    case 'integer':
+    case 'number':
+    case 'date':
+    case 'dateTime':
+    case 'time':
+      return ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'between', 'isNull'];
+    default:
+      return ['eq', 'ne', 'like', 'isNull'];
+  }
+};
+
+// значение из поля ввода в тип атрибута
+const toFilterValue = (raw: string, attr: AttributeSchema | undefined) => {
+  if (raw === '') return raw;
+  if (attr?.type === 'integer' || attr?.type === 'number') {
+    const n = Number(raw);
+    return isNaN(n) ? raw : n;
+  }
+  if (attr?.type === 'boolean') return raw === 'true';
+  return raw;
+};
+
+const emptyGroup = (): LogicalFilter => ({
+  type: 'logical',
+  op: 'and',
+  filters: [],
+});
+
+interface ComparisonRowProps {
+  node: ComparisonFilter;
+  attributes: AttributeSchema[];
+  onChange: (node: ComparisonFilter) => void;
+}
+
+const ComparisonRow: React.FC<ComparisonRowProps> = ({
+  node,
+  attributes,
+  onChange,
+}) => {
+  const attr = attributes.find((a) => a.name === node.property);
+  const operators = operatorsFor(attr);
+  const inputType = attributeInputType(attr);
+
+  const setProperty = (property: string) => {
+    const next = attributes.find((a) => a.name === property);
+    // оператор и значение сбрасываются, если не подходят новому типу
+    const op = operatorsFor(next).includes(node.op) ? node.op : 'eq';
+    const sameType = next?.type === attr?.type;
+    onChange({
+      ...node,
+      property,
+      op,
+      value: sameType ? node.value : undefined,
+      upper: sameType ? node.upper : undefined,
+    });
+  };
+
+  const valueField = (key: 'value' | 'upper', label: string) =>
+    attr?.type === 'boolean' ? (
+      <TextField
+        select
+        size="small"
+        label={label}
+        value={node[key] === undefined ? '' : String(node[key])}
+        onChange={(e) =>
+          onChange({ ...node, [key]: toFilterValue(e.target.value, attr) })
+        }
+        sx={{ minWidth: 90 }}
+      >
+        <MenuItem value="true">да</MenuItem>
+        <MenuItem value="false">нет</MenuItem>
+      </TextField>
+    ) : (
+      <TextField
+        size="small"
+        label={label}
+        type={inputType}
+        value={node[key] === undefined ? '' : String(node[key])}
+        onChange={(e) =>
+          onChange({ ...node, [key]: toFilterValue(e.target.value, attr) })
+        }
+        InputLabelProps={inputType === 'text' ? undefined : { shrink: true }}
+        helperText={
+          node.op === 'like' && key === 'value'
+            ? '* — любые символы, ? — один символ'
+            : undefined
+        }
+        fullWidth
+      />
+    );
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          select
+          size="small"
+          label="Атрибут"
+          value={attr ? node.property : ''}
+          onChange={(e) => setProperty(e.target.value)}
+          sx={{ flex: 1 }}
+        >
+          {attributes.map((a) => (
+            <MenuItem key={a.name} value={a.name}>
+              {a.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Условие"
+          value={node.op}
+          onChange={(e) =>
+            onChange({ ...node, op: e.target.value as ComparisonOperator })
+          }
+          sx={{ width: 110 }}
+        >
+          {operators.map((op) => (
+            <MenuItem key={op} value={op}>
+              {COMPARISON_LABELS[op]}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      {node.op !== 'isNull' && (
+        <Stack direction="row" spacing={1}>
+          {valueField('value', node.op === 'between' ? 'От' : 'Значение')}
+          {node.op === 'between' && valueField('upper', 'До')}
+        </Stack>
+      )}
+      {attr?.type === 'string' && (node.op === 'eq' || node.op === 'like') && (
+        <TextField
+          select
+          size="small"
+          label="Регистр"
+          value={node.matchCase === false ? 'ignore' : 'match'}
+          onChange={(e) =>
+            onChange({ ...node, matchCase: e.target.value === 'match' })
+          }
+        >
+          <MenuItem value="match">с учётом регистра</MenuItem>
+          <MenuItem value="ignore">без учёта регистра</MenuItem>
+        </TextField>
+      )}
+    </Stack>
+  );
+};
+
+interface SpatialRowProps {
+  node: SpatialFilter;
+  areas: QueryArea[];
+  onChange: (node: SpatialFilter) => void;
+}
+
+const SpatialRow: React.FC<SpatialRowProps> = ({ node, areas, onChange }) => {
+  const [areaId, setAreaId] = useState(areas[0]?.id ?? '');
+  const area = areas.find((a) => a.id === areaId);
+
+  const applyArea = (next: QueryArea | undefined) => {
+    const geometry = next?.getGeometry();
+    if (next) setAreaId(next.id);
+    if (geometry) onChange({ ...node, geometry });
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Геометрия"
+          value={node.op}
+          onChange={(e) =>
+            onChange({ ...node, op: e.target.value as SpatialOperator })
+          }
+          sx={{ flex: 1 }}
+        >
+          {(Object.keys(SPATIAL_LABELS) as SpatialOperator[]).map((op) => (
+            <MenuItem key={op} value={op}>
+              {SPATIAL_LABELS[op]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {node.op === 'dwithin' && (
+          <TextField
+            size="small"
+            type="number"
+            label="Метры"
+            value={node.distance ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...node,
+                distance:
+                  e.target.value === '' ? undefined : Number(e.target.value),
+              })
+            }
+            sx={{ width: 90 }}
+          />
+        )}
+      </Stack>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Область"
+          value={area ? areaId : ''}
+          onChange={(e) => applyArea(areas.find((a) => a.id === e.target.value))}
+          sx={{ flex: 1 }}
+        >
+          {areas.map((a) => (
+            <MenuItem key={a.id} value={a.id}>
+              {a.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        {/* геометрия запоминается при выборе; после правки эскиза её нужно обновить */}
+        <Button size="small" disabled={!area} onClick={() => applyArea(area)}>
+          Обновить
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
+
+interface FilterGroupEditorProps {
+  node: LogicalFilter;
+  attributes: AttributeSchema[];
+  areas: QueryArea[];
+  onChange: (node: LogicalFilter) => void;
+  onRemove?: () => void;
+}
+
+const FilterGroupEditor: React.FC<FilterGroupEditorProps> = ({
+  node,
+  attributes,
+  areas,
+  onChange,
+  onRemove,
+}) => {
+  // НЕ применяется к одному вложенному условию
+  const canAdd = node.op !== 'not' || node.filters.length === 0;
+
+  const setChild = (index: number, child: FilterNode) =>
+    onChange({
+      ...node,
+      filters: node.filters.map((f, i) => (i === index ? child : f)),
+    });
+  const removeChild = (index: number) =>
+    onChange({ ...node, filters: node.filters.filter((_, i) => i !== index) });
+  const addChild = (child: FilterNode) =>
+    onChange({ ...node, filters: [...node.filters, child] });
+
+  const addSpatial = () => {
+    const geometry = areas[0]?.getGeometry();
+    if (geometry) addChild({ type: 'spatial', op: 'intersects', geometry });
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          size="small"
+          value={node.op}
+          onChange={(e) =>
+            onChange({ ...node, op: e.target.value as LogicalOperator })
+          }
+          sx={{ flex: 1 }}
+        >
+          {(Object.keys(LOGICAL_LABELS) as LogicalOperator[]).map((op) => (
+            <MenuItem key={op} value={op}>
+              {LOGICAL_LABELS[op]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {onRemove && (
+          <Button size="small" color="error" onClick={onRemove}>
+            Удалить
+          </Button>
+        )}
+      </Stack>
+
+      {node.filters.map((child, index) => (
+        <Box key={index} sx={{ pl: 1, borderLeft: 2, borderColor: 'divider' }}>
+          {child.type === 'logical' ? (
+            <FilterGroupEditor
+              node={child}
+              attributes={attributes}
+              areas={areas}
+              onChange={(next) => setChild(index, next)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <Stack spacing={0.5}>
+              {child.type === 'comparison' && (
+                <ComparisonRow
+                  node={child}
+                  attributes={attributes}
+                  onChange={(next) => setChild(index, next)}
+                />
+              )}
+              {child.type === 'spatial' && (
+                <SpatialRow
+                  node={child}
+                  areas={areas}
+                  onChange={(next) => setChild(index, next)}
+                />
+              )}
+              <Button
+                size="small"
+                color="error"
+                sx={{ alignSelf: 'flex-end' }}
+                onClick={() => removeChild(index)}
+              >
+                Удалить условие
+              </Button>
+            </Stack>
+          )}
+        </Box>
+      ))}
+
+      {canAdd && (
+        <Stack direction="row" spacing={0.5} flexWrap="wrap">
+          <Button
+            size="small"
+            disabled={!attributes.length}
+            onClick={() =>
+              addChild({
+                type: 'comparison',
+                op: 'eq',
+                property: attributes[0]?.name ?? '',
+              })
+            }
+          >
+            + Условие
+          </Button>
+          <Button size="small" onClick={addSpatial}>
+            + Область
+          </Button>
+          <Button size="small" onClick={() => addChild(emptyGroup())}>
+            + Группа
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+};
+
+const QueryBuilderPanel: React.FC<QueryBuilderPanelProps> = ({
+  schema,
+  status,
+  areas,
+  onRun,
+  onClear,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [root, setRoot] = useState<LogicalFilter>(emptyGroup);
+  const [error, setError] = useState<string | null>(null);
+
+  const attributes = schema?.attributes ?? [];
+  const filter = normalizeFilter(root);
+
+  const run = () => {
+    if (!filter) return;
+    setError(null);
+    onRun(filter).catch((err) => {
+      console.warn('WFS query failed', err);
+      setError((err as Error)?.message ?? 'Ошибка запроса');
+    });
+  };
+
+  const clear = () => {
+    setRoot(emptyGroup());
+    setError(null);
+    onClear();
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 360 }}>
+      <Stack spacing={1}>
+        <Stack direction="row" alignItems="center">
+          <Typography variant="subtitle2" sx={{ flex: 1 }}>
+            Запрос к слою WFS
+          </Typography>
+          <Button size="small" onClick={() => setExpanded((v) => !v)}>
+            {expanded ? 'Свернуть' : 'Развернуть'}
+          </Button>
+        </Stack>
+
+        <Collapse in={expanded}>
+          <Box sx={{ maxHeight: '50vh', overflowY: 'auto', pt: 1 }}>
+            {!schema && (
+              <Typography variant="caption" component="div" sx={{ mb: 1 }}>
+                Схема слоя не загружена — доступны только условия по области
+              </Typography>
+            )}
+            <FilterGroupEditor
+              node={root}
+              attributes={attributes}
+              areas={areas}
+              onChange={setRoot}
+            />
+          </Box>
+        </Collapse>
+
+        {status.loading && <LinearProgress />}
+        {status.filtered && !status.loading && (
+          <Typography variant="caption">
+            Найдено: {status.total ?? status.loaded}
+            {status.limited && `, показаны первые ${status.loaded}`}
+          </Typography>
+        )}
+        {error && (
+          <Typography variant="caption" color="error">
+            {error}
+          </Typography>
+        )}
+
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            size="small"
+            disabled={!filter || status.loading}
+            onClick={run}
+          >
+            Выполнить
+          </Button>
+          <Button
+            size="small"
+            disabled={!status.filtered && !root.filters.length}
+            onClick={clear}
+          >
+            Сбросить
+          </Button>
+        </Stack>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default QueryBuilderPanel;
@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Button,
+  FormControlLabel,
+  Paper,
+  Stack,
+  Switch,
+  Typography,
+} from '@mui/material';
+import {
+  SKETCH_SHAPE_LABELS,
+  SketchInfo,
+  SketchShape,
+} from '../hooks/useSketchLayer';
+import { downloadBlob } from '../utils/download';
+
+interface SketchPanelProps {
+  sketches: SketchInfo[];
+  drawing: SketchShape | null;
+  selectedId: number | null;
+  snapping: boolean;
+  onDraw: (shape: SketchShape) => void;
+  onCancelDraw: () => void;
+  onSelect: (id: number | null) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+  onSnappingChange: (enabled: boolean) => void;
+  getFeatures: () => GeoJSON.Feature[];
+}
+
+const SHAPES = Object.keys(SKETCH_SHAPE_LABELS) as SketchShape[];
+
+const SketchPanel: React.FC<SketchPanelProps> = ({
+  sketches,
+  drawing,
+  selectedId,
+  snapping,
+  onDraw,
+  onCancelDraw,
+  onSelect,
+  onRemove,
+  onClear,
+  onSnappingChange,
+  getFeatures,
+}) => {
+  const download = () => {
+    const collection: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: getFeatures(),
+    };
+    downloadBlob(
+      new Blob([JSON.stringify(collection, null, 2)], {
+        type: 'application/geo+json',
+      }),
+      'sketches.geojson'
+    );
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Эскизы</Typography>
+        <Stack direction="row" flexWrap="wrap" gap={0.5}>
+          {SHAPES.map((shape) => (
+            <Button
+              key={shape}
+              size="small"
+              variant={drawing === shape ? 'contained' : 'outlined'}
+              onClick={() =>
+                drawing === shape ? onCancelDraw() : onDraw(shape)
+              }
+            >
+              {SKETCH_SHAPE_LABELS[shape]}
+            </Button>
+          ))}
+        </Stack>
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={snapping}
+              onChange={(e) => onSnappingChange(e.target.checked)}
+            />
+          }
+          label={
+            <Typography variant="caption">Привязка к объектам карты</Typography>
+          }
+        />
+
+        {sketches.map((sketch) => (
+          <Stack
+            key={sketch.id}
+            direction="row"
+            alignItems="center"
+            spacing={0.5}
+          >
+            <Typography
+              variant="caption"
+              sx={{
+                flex: 1,
+                fontWeight: sketch.id === selectedId ? 'bold' : undefined,
+              }}
+            >
+              {sketch.label}
+            </Typography>
+            <Button
+              size="small"
+              onClick={() =>
+                onSelect(sketch.id === selectedId ? null : sketch.id)
+              }
+            >
+              {sketch.id === selectedId ? 'Готово' : 'Править'}
+            </Button>
+            <Button
+              size="small"
+              color="error"
+              onClick={() => onRemove(sketch.id)}
+            >
+              Удалить
+            </Button>
+          </Stack>
+        ))}
+
+        {sketches.length > 0 && (
+          <Stack direction="row" spacing={1}>
+            <Button size="small" variant="outlined" onClick={download}>
+              Скачать GeoJSON
+            </Button>
+            <Button size="small" color="error" onClick={onClear}>
+              Удалить все
+            </Button>
+          </Stack>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default SketchPanel;
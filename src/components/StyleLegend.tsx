@@ -0,0 +1,118 @@
+import React from 'react';
+import { Stack, Typography } from '@mui/material';
+import { markerShapePath } from '../utils/leafletStyle';
+import { LegendItem } from '../utils/vectorStyle';
+
+interface StyleLegendProps {
+  items: LegendItem[];
+}
+
+const SWATCH_WIDTH = 22;
+const SWATCH_HEIGHT = 16;
+
+// образец оформления правила в виде маленького SVG
+const Swatch: React.FC<{ item: LegendItem }> = ({ item }) => {
+  const { symbolizer, kind } = item;
+  const stroke = symbolizer.stroke;
+  const fill = symbolizer.fill;
+  const strokeProps = stroke
+    ? {
+        stroke: stroke.color,
+        strokeWidth: Math.min(stroke.width ?? 1, 4),
+        strokeOpacity: stroke.opacity ?? 1,
+        strokeDasharray: stroke.dashArray,
+      }
+    : { stroke: 'none' };
+
+  let content: React.ReactNode;
+  if (kind === 'point') {
+    const point = symbolizer.point ?? {
+      shape: 'circle' as const,
+      size: 12,
+      fill,
+      stroke,
+    };
+    const r = Math.min(point.size, SWATCH_HEIGHT - 2) / 2;
+    const cx = SWATCH_WIDTH / 2;
+    const cy = SWATCH_HEIGHT / 2;
+    const props = {
+      fill: point.fill?.color ?? 'none',
+      fillOpacity: point.fill?.opacity ?? 1,
+      stroke: point.stroke?.color ?? 'none',
+      strokeWidth: Math.min(point.stroke?.width ?? 1, 2),
+      strokeOpacity: point.stroke?.opacity ?? 1,
+    };
+    const d = markerShapePath(point.shape, cx, cy, r, point.rotation);
+    content = d ? (
+      <path d={d} {...props} />
+    ) : (
+      <circle cx={cx} cy={cy} r={r} {...props} />
+    );
+  } else if (kind === 'line') {
+    content = (
+      <line
+        x1={2}
+        y1={SWATCH_HEIGHT - 3}
+        x2={SWATCH_WIDTH - 2}
+        y2={3}
+        {...strokeProps}
+      />
+    );
+  } else {
+    content = (
+      <rect
+        x={2}
+        y={2}
+        width={SWATCH_WIDTH - 4}
+        height={SWATCH_HEIGHT - 4}
+        fill={fill?.color ?? 'none'}
+        fillOpacity={fill?.opacity ?? 1}
+        {...strokeProps}
+      />
+    );
+  }
+
+  return (
+    <svg
+      width={SWATCH_WIDTH}
+      height={SWATCH_HEIGHT}
+      style={{ flexShrink: 0 }}
+      aria-hidden
+    >
+      {content}
+    </svg>
+  );
+};
+
+/**
+ * Легенда активного стиля: по строке на правило; правила, не действующие
+ * на текущем масштабе, приглушены
+ */
+const StyleLegend: React.FC<StyleLegendProps> = ({ items }) => {
+  if (!items.length)
+    return <Typography variant="caption">Нет правил оформления</Typography>;
+
+  return (
+    <Stack spacing={0.5}>
+      {items.map((item, i) => (
+        <Stack
+          key={i}
+          direction="row"
+          alignItems="center"
+          spacing={1}
+          sx={{ opacity: item.inactive ? 0.4 : 1 }}
+        >
+          <Swatch item={item} />
+          <Typography
+            variant="caption"
+            sx={{ overflow: 'hidden', textOverflow: 'ellipsis' }}
+          >
+            {item.label}
+          </Typography>
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default StyleLegend;
@@ -0,0 +1,315 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Button,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import StyleLegend from './StyleLegend';
+import { FeatureTypeSchema } from '../utils/featureSchema';
+import { fetchStyles, parseStyleText } from '../utils/sldParser';
+import {
+  buildLegend,
+  ClassificationMethod,
+  classifyStyle,
+  COLOR_RAMP_LABELS,
+  DEFAULT_SYMBOLIZER,
+  DEFAULT_VECTOR_STYLE,
+  VectorStyle,
+} from '../utils/vectorStyle';
+import { downloadBlob } from '../utils/download';
+
+interface StylePanelProps {
+  style: VectorStyle;
+  schema: FeatureTypeSchema | null;
+  // текущий масштаб карты — для легенды правил с диапазоном масштабов
+  zoom: number;
+  // система координат геометрий в фильтрах SLD без srsName
+  srsName?: string;
+  // объекты слоя для классификации
+  getFeatures: () => GeoJSON.Feature[];
+  onChange: (style: VectorStyle) => void;
+}
+
+type ClassificationType = 'graduated' | 'categorized';
+
+const METHOD_LABELS: Record<ClassificationMethod, string> = {
+  equalInterval: 'Равные интервалы',
+  quantile: 'Квантили',
+  naturalBreaks: 'Естественные границы',
+};
+
+const StylePanel: React.FC<StylePanelProps> = ({
+  style,
+  schema,
+  zoom,
+  srsName,
+  getFeatures,
+  onChange,
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  // стили последнего импортированного документа
+  const [imported, setImported] = useState<VectorStyle[]>([]);
+
+  const [type, setType] = useState<ClassificationType>('graduated');
+  const [property, setProperty] = useState('');
+  const [method, setMethod] = useState<ClassificationMethod>('naturalBreaks');
+  const [classes, setClasses] = useState(5);
+  const [ramp, setRamp] = useState('ylOrRd');
+
+  const attributes = (schema?.attributes ?? []).filter(
+    (a) =>
+      type === 'categorized' || a.type === 'integer' || a.type === 'number'
+  );
+
+  const applyImported = (styles: VectorStyle[], messages: string[]) => {
+    setImported(styles);
+    setWarnings(messages);
+    if (!styles.length) return;
+    // стиль с классификацией без правил рассчитывается по объектам слоя
+    onChange(
+      styles[0].rules.length
+        ? styles[0]
+        : classifyStyle(styles[0], getFeatures())
+    );
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const result = parseStyleText(await file.text(), { srsName });
+      applyImported(result.styles, result.warnings);
+    } catch (err) {
+      setError(`${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const importUrl = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const result = await fetchStyles(url.trim(), { srsName });
+      applyImported(result.styles, result.warnings);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const classify = () => {
+    setError(null);
+    const classified = classifyStyle(
+      {
+        name: `${type}-${property}`,
+        title: property,
+        rules: [],
+        base: DEFAULT_SYMBOLIZER,
+        classification:
+          type === 'graduated'
+            ? { type, property, method, classes, ramp }
+            : { type, property, ramp },
+      },
+      getFeatures()
+    );
+    // кроме правила else для объектов без значения
+    if (!classified.rules.some((rule) => !rule.else)) {
+      setError(`Нет значений атрибута ${property} у загруженных объектов`);
+      return;
+    }
+    onChange(classified);
+  };
+
+  const saveJson = () =>
+    downloadBlob(
+      new Blob([JSON.stringify(style, null, 2)], { type: 'application/json' }),
+      `${style.name || 'style'}.json`
+    );
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">
+          Стиль WFS: {style.title || style.name}
+        </Typography>
+        <StyleLegend items={buildLegend(style, zoom)} />
+
+        <Stack direction="row" spacing={1}>
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => inputRef.current?.click()}
+          >
+            Импорт
+          </Button>
+          <Button size="small" onClick={saveJson}>
+            Сохранить
+          </Button>
+          <Button
+            size="small"
+            onClick={() => {
+              setImported([]);
+              setWarnings([]);
+              onChange(DEFAULT_VECTOR_STYLE);
+            }}
+          >
+            Сбросить
+          </Button>
+        </Stack>
+        <input
+          ref={inputRef}
+          type="file"
+          hidden
+          accept=".sld,.se,.xml,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            label="URL стиля SLD"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <Button
+            size="small"
+            disabled={!url.trim() || loading}
+            onClick={importUrl}
+          >
+            Загрузить
+          </Button>
+        </Stack>
+        {loading && <LinearProgress />}
+        {imported.length > 1 && (
+          <TextField
+            select
+            size="small"
+            label="Стиль документа"
+            value={Math.max(0, imported.indexOf(style))}
+            onChange={(e) => onChange(imported[Number(e.target.value)])}
+          >
+            {imported.map((s, i) => (
+              <MenuItem key={i} value={i}>
+                {s.title || s.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        {error && <Alert severity="error">{error}</Alert>}
+        {warnings.length > 0 && (
+          <Alert severity="warning">
+            {warnings.map((w) => (
+              <div key={w}>{w}</div>
+            ))}
+          </Alert>
+        )}
+
+        <Typography variant="caption">Тематическая карта</Typography>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            select
+            size="small"
+            label="Вид"
+            value={type}
+            onChange={(e) => setType(e.target.value as ClassificationType)}
+            sx={{ flex: 1 }}
+          >
+            <MenuItem value="graduated">Градуированная</MenuItem>
+            <MenuItem value="categorized">Категории</MenuItem>
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Шкала"
+            value={ramp}
+            onChange={(e) => setRamp(e.target.value)}
+            sx={{ flex: 1 }}
+          >
+            {Object.entries(COLOR_RAMP_LABELS).map(([name, label]) => (
+              <MenuItem key={name} value={name}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+        {attributes.length ? (
+          <TextField
+            select
+            size="small"
+            label="Атрибут"
+            value={attributes.some((a) => a.name === property) ? property : ''}
+            onChange={(e) => setProperty(e.target.value)}
+          >
+            {attributes.map((a) => (
+              <MenuItem key={a.name} value={a.name}>
+                {a.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        ) : (
+          <TextField
+            size="small"
+            label="Атрибут"
+            value={property}
+            onChange={(e) => setProperty(e.target.value)}
+          />
+        )}
+        {type === 'graduated' && (
+          <Stack direction="row" spacing={1}>
+            <TextField
+              select
+              size="small"
+              label="Метод"
+              value={method}
+              onChange={(e) =>
+                setMethod(e.target.value as ClassificationMethod)
+              }
+              sx={{ flex: 1 }}
+            >
+              {(Object.keys(METHOD_LABELS) as ClassificationMethod[]).map(
+                (m) => (
+                  <MenuItem key={m} value={m}>
+                    {METHOD_LABELS[m]}
+                  </MenuItem>
+                )
+              )}
+            </TextField>
+            <TextField
+              size="small"
+              type="number"
+              label="Классов"
+              value={classes}
+              inputProps={{ min: 2, max: 10 }}
+              onChange={(e) =>
+                setClasses(Math.max(2, Math.min(10, Number(e.target.value))))
+              }
+              sx={{ width: 80 }}
+            />
+          </Stack>
+        )}
+        <Button
+          size="small"
+          variant="contained"
+          disabled={!property}
+          onClick={classify}
+        >
+          Классифицировать
+        </Button>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default StylePanel;
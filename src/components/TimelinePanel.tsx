@@ -0,0 +1,272 @@
+import React from 'react';
+import {
+  Button,
+  FormControlLabel,
+  MenuItem,
+  Paper,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { AUTO_PERIOD, TimelineMode } from '../hooks/useTimeline';
+import { AttributeSchema } from '../utils/featureSchema';
+import {
+  formatTimeLabel,
+  TIME_PERIODS,
+  TimeSelection,
+} from '../utils/timeDimension';
+
+interface TimelinePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  mode: TimelineMode;
+  onModeChange: (mode: TimelineMode) => void;
+  period: string;
+  // слои WMS перечисляют допустимые значения — доступен шаг по ним
+  hasServerValues: boolean;
+  onPeriodChange: (period: string) => void;
+  domain: [Date, Date];
+  onDomainChange: (domain: [Date, Date]) => void;
+  steps: Date[];
+  position: [number, number];
+  onPositionChange: (position: [number, number]) => void;
+  selection: TimeSelection | null;
+  playing: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: (delta: number) => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  // атрибуты времени типа WFS; пусто — слой WFS по времени не фильтруется
+  attributes: AttributeSchema[];
+  attribute: string | null;
+  onAttributeChange: (name: string) => void;
+}
+
+const SPEEDS = [500, 1000, 2000, 5000];
+
+// поле datetime-local без зоны; шкала показывается в UTC
+const toInputValue = (date: Date) => date.toISOString().slice(0, 16);
+
+const fromInputValue = (value: string) => {
+  const time = Date.parse(`${value}Z`);
+  return isNaN(time) ? null : new Date(time);
+};
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  enabled,
+  onEnabledChange,
+  mode,
+  onModeChange,
+  period,
+  hasServerValues,
+  onPeriodChange,
+  domain,
+  onDomainChange,
+  steps,
+  position,
+  onPositionChange,
+  selection,
+  playing,
+  onPlay,
+  onPause,
+  onStep,
+  speed,
+  onSpeedChange,
+  loop,
+  onLoopChange,
+  attributes,
+  attribute,
+  onAttributeChange,
+}) => {
+  const last = steps.length - 1;
+  const label = (i: number) => (steps[i] ? formatTimeLabel(steps[i]) : '');
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 420 }}>
+      <Stack spacing={1}>
+        <Stack direction="row" alignItems="center" spacing={1}>
+          <FormControlLabel
+            sx={{ flex: 1 }}
+            control={
+              <Switch
+                size="small"
+                checked={enabled}
+                onChange={(e) => onEnabledChange(e.target.checked)}
+              />
+            }
+            label={<Typography variant="subtitle2">Шкала времени</Typography>}
+          />
+          <Button
+            size="small"
+            variant={mode === 'instant' ? 'contained' : 'outlined'}
+            onClick={() => onModeChange('instant')}
+          >
+            Момент
+          </Button>
+          <Button
+            size="small"
+            variant={mode === 'range' ? 'contained' : 'outlined'}
+            onClick={() => onModeChange('range')}
+          >
+            Интервал
+          </Button>
+        </Stack>
+
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="С (UTC)"
+            InputLabelProps={{ shrink: true }}
+            value={toInputValue(domain[0])}
+            onChange={(e) => {
+              const start = fromInputValue(e.target.value);
+              if (start && start <= domain[1])
+                onDomainChange([start, domain[1]]);
+            }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="По (UTC)"
+            InputLabelProps={{ shrink: true }}
+            value={toInputValue(domain[1])}
+            onChange={(e) => {
+              const end = fromInputValue(e.target.value);
+              if (end && end >= domain[0]) onDomainChange([domain[0], end]);
+            }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Шаг"
+            value={period}
+            onChange={(e) => onPeriodChange(e.target.value)}
+            sx={{ width: 110 }}
+          >
+            {hasServerValues && (
+              <MenuItem value={AUTO_PERIOD}>По данным</MenuItem>
+            )}
+            {TIME_PERIODS.map((p) => (
+              <MenuItem key={p.value} value={p.value}>
+                {p.label}
+              </MenuItem>
+            ))}
+            {/* период из capabilities, которого нет в списке */}
+            {period !== AUTO_PERIOD &&
+              !TIME_PERIODS.some((p) => p.value === period) && (
+                <MenuItem value={period}>{period}</MenuItem>
+              )}
+          </TextField>
+        </Stack>
+
+        {steps.length ? (
+          <Slider
+            size="small"
+            min={0}
+            max={Math.max(last, 0)}
+            step={1}
+            value={mode === 'range' ? position : position[0]}
+            valueLabelDisplay="auto"
+            valueLabelFormat={label}
+            onChange={(_, value) =>
+              onPositionChange(
+                Array.isArray(value) ? [value[0], value[1]] : [value, value]
+              )
+            }
+          />
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            В выбранном промежутке нет значений времени
+          </Typography>
+        )}
+
+        <Stack direction="row" alignItems="center" spacing={1}>
+          <Button
+            size="small"
+            variant="outlined"
+            disabled={!steps.length}
+            onClick={() => onStep(-1)}
+          >
+            ◀
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            disabled={last < 1}
+            onClick={playing ? onPause : onPlay}
+          >
+            {playing ? 'Пауза' : 'Пуск'}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            disabled={!steps.length}
+            onClick={() => onStep(1)}
+          >
+            ▶
+          </Button>
+          <TextField
+            select
+            size="small"
+            label="Скорость"
+            value={speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+            sx={{ width: 100 }}
+          >
+            {SPEEDS.map((s) => (
+              <MenuItem key={s} value={s}>
+                {s / 1000} с/шаг
+              </MenuItem>
+            ))}
+          </TextField>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={loop}
+                onChange={(e) => onLoopChange(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">По кругу</Typography>}
+          />
+        </Stack>
+
+        {attributes.length > 0 && (
+          <TextField
+            select
+            size="small"
+            label="Атрибут времени WFS"
+            value={attribute ?? ''}
+            onChange={(e) => onAttributeChange(e.target.value)}
+          >
+            {attributes.map((a) => (
+              <MenuItem key={a.name} value={a.name}>
+                {a.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        <Typography variant="caption" color="text.secondary">
+          {selection
+            ? selection.instant
+              ? `Выбрано: ${formatTimeLabel(selection.start)}`
+              : `Выбрано: ${formatTimeLabel(
+                  selection.start
+                )} – ${formatTimeLabel(selection.end)}`
+            : 'Время не учитывается: слои показывают значения по умолчанию'}
+        </Typography>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default TimelinePanel;
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  attributeInputType,
+  attributeInputValue,
+  convertAttributeValue,
+  FeatureTypeSchema,
+} from '../utils/featureSchema';
+import { WfsTransactionError } from '../utils/wfsTransaction';
+import { WfsEditSelection, WfsPendingCounts } from '../hooks/useWfsEditing';
+
+interface WfsEditPanelProps {
+  schema: FeatureTypeSchema | null;
+  editing: boolean;
+  onEditingChange: (enabled: boolean) => void;
+  selected: WfsEditSelection | null;
+  pendingCounts: WfsPendingCounts;
+  saving: boolean;
+  error: Error | null;
+  onApplyAttributes: (values: Record<string, unknown>) => void;
+  onDeleteSelected: () => void;
+  onStartInsert: () => void;
+  onCommit: (force?: boolean) => void;
+  onDiscard: () => void;
+}
+
+const WfsEditPanel: React.FC<WfsEditPanelProps> = ({
+  schema,
+  editing,
+  onEditingChange,
+  selected,
+  pendingCounts,
+  saving,
+  error,
+  onApplyAttributes,
+  onDeleteSelected,
+  onStartInsert,
+  onCommit,
+  onDiscard,
+}) => {
+  const attributes = useMemo(() => schema?.attributes ?? [], [schema]);
+  // значения полей формы в виде строк ввода
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [initial, setInitial] = useState<Record<string, string>>({});
+
+  // форма заполняется заново при выборе другого объекта и при смене его
+  // свойств после сохранения или перезагрузки
+  useEffect(() => {
+    if (!selected) {
+      setValues({});
+      setInitial({});
+      return;
+    }
+    const next: Record<string, string> = {};
+    attributes.forEach((a) => {
+      next[a.name] = attributeInputValue(selected.properties[a.name], a);
+    });
+    setValues(next);
+    setInitial(next);
+  }, [selected, attributes]);
+
+  const pendingTotal =
+    pendingCounts.insert + pendingCounts.update + pendingCounts.delete;
+  const conflict =
+    error instanceof WfsTransactionError && error.kind === 'conflict';
+
+  // в объект попадают только изменённые поля
+  const apply = () => {
+    const typed: Record<string, unknown> = {};
+    attributes.forEach((a) => {
+      const raw = values[a.name] ?? '';
+      if (raw === initial[a.name]) return;
+      // поле datetime-local без зоны; значения показываются в UTC
+      typed[a.name] = convertAttributeValue(
+        a.type === 'dateTime' && raw ? `${raw}Z` : raw,
+        a.type
+      );
+    });
+    onApplyAttributes(typed);
+    setInitial(values);
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 360 }}>
+      <Stack spacing={1}>
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={editing}
+              // выйти из режима можно только сохранив или отменив правки
+              disabled={editing && pendingTotal > 0}
+              onChange={(e) => onEditingChange(e.target.checked)}
+            />
+          }
+          label={
+            <Typography variant="subtitle2">Редактирование WFS</Typography>
+          }
+        />
+
+        {editing && (
+          <>
+            {!schema && (
+              <Typography variant="caption" color="error">
+                Схема слоя не загружена — атрибуты недоступны
+              </Typography>
+            )}
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={!schema || saving}
+              onClick={onStartInsert}
+            >
+              Новый объект
+            </Button>
+
+            {selected ? (
+              <Stack spacing={1}>
+                <Typography variant="caption">
+                  {selected.isNew
+                    ? 'Новый объект'
+                    : `Объект ${selected.id ?? ''}`}{' '}
+                  — вершины можно перетаскивать, добавлять и удалять правой
+                  кнопкой
+                </Typography>
+                {attributes.map((a) =>
+                  a.type === 'boolean' ? (
+                    <TextField
+                      key={a.name}
+                      select
+                      size="small"
+                      label={a.name}
+                      value={values[a.name] ?? ''}
+                      onChange={(e) =>
+                        setValues((v) => ({ ...v, [a.name]: e.target.value }))
+                      }
+                    >
+                      <MenuItem value="">—</MenuItem>
+                      <MenuItem value="true">да</MenuItem>
+                      <MenuItem value="false">нет</MenuItem>
+                    </TextField>
+                  ) : (
+                    <TextField
+                      key={a.name}
+                      size="small"
+                      label={a.name}
+                      type={attributeInputType(a)}
+                      required={!a.nillable}
+                      value={values[a.name] ?? ''}
+                      onChange={(e) =>
+                        setValues((v) => ({ ...v, [a.name]: e.target.value }))
+                      }
+                      InputLabelProps={
+                        attributeInputType(a) === 'text'
+                          ? undefined
+                          : { shrink: true }
+                      }
+                    />
+                  )
+                )}
+                <Stack direction="row" spacing={1}>
+                  <Button size="small" variant="contained" onClick={apply}>
+                    Применить
+                  </Button>
+                  <Button size="small" color="error" onClick={onDeleteSelected}>
+                    Удалить объект
+                  </Button>
+                </Stack>
+              </Stack>
+            ) : (
+              <Typography variant="caption">
+                Выберите объект слоя на карте
+              </Typography>
+            )}
+
+            <Typography variant="caption">
+              Несохранённые правки: добавлено {pendingCounts.insert}, изменено{' '}
+              {pendingCounts.update}, удалено {pendingCounts.delete}
+            </Typography>
+            {saving && <LinearProgress />}
+            {error && (
+              <Alert severity={conflict ? 'warning' : 'error'}>
+                {error.message}
+                {conflict && (
+                  <>
+                    {' '}
+                    Отмените правки, чтобы загрузить актуальные данные, или
+                    сохраните поверх.
+                  </>
+                )}
+              </Alert>
+            )}
+            <Stack direction="row" spacing={1}>
+              <Button
+                size="small"
+                variant="contained"
+                disabled={!pendingTotal || saving}
+                onClick={() => onCommit()}
+              >
+                Сохранить
+              </Button>
+              {conflict && (
+                <Button
+                  size="small"
+                  color="warning"
+                  disabled={saving}
+                  onClick={() => onCommit(true)}
+                >
+                  Сохранить поверх
+                </Button>
+              )}
+              <Button
+                size="small"
+                disabled={!pendingTotal || saving}
+                onClick={onDiscard}
+              >
+                Отменить правки
+              </Button>
+            </Stack>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WfsEditPanel;
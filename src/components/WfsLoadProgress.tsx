@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  Button,
+  LinearProgress,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { WfsLoadStatus } from '../hooks/useWfsLayer';
+
+interface WfsLoadProgressProps {
+  status: WfsLoadStatus;
+  onCancel: () => void;
+}
+
+const WfsLoadProgress: React.FC<WfsLoadProgressProps> = ({
+  status,
+  onCancel,
+}) => (
+  <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+    <Stack spacing={1}>
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Typography variant="caption" sx={{ flex: 1 }}>
+          Загрузка WFS: {status.loaded}
+          {status.total !== null && ` из ${status.total}`} объектов
+        </Typography>
+        <Button size="small" color="error" onClick={onCancel}>
+          Отменить
+        </Button>
+      </Stack>
+      {status.progress !== null ? (
+        <LinearProgress
+          variant="determinate"
+          value={Math.round(status.progress * 100)}
+        />
+      ) : (
+        <LinearProgress />
+      )}
+    </Stack>
+  </Paper>
+);
+
+export default WfsLoadProgress;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  WmsCapabilities,
+  wmsImageFormats,
+  WmsLayerInfo,
+  wmsScaleRange,
+} from '../utils/wmsCapabilities';
+import { WmsLayerSettings } from '../hooks/useWmsLayers';
+
+interface WmsLayerBrowserProps {
+  capabilities: WmsCapabilities | null;
+  loading: boolean;
+  error: string | null;
+  // имена слоёв, уже добавленных на карту
+  addedLayers: string[];
+  onAdd: (info: WmsLayerInfo, settings: WmsLayerSettings) => void;
+}
+
+interface TreeProps {
+  layers: WmsLayerInfo[];
+  depth: number;
+  selected: WmsLayerInfo | null;
+  onSelect: (info: WmsLayerInfo) => void;
+}
+
+// дерево слоёв; группы без имени раскрываются, но не выбираются
+const LayerTree: React.FC<TreeProps> = ({
+  layers,
+  depth,
+  selected,
+  onSelect,
+}) => {
+  // корень сервиса раскрыт сразу
+  const [expanded, setExpanded] = useState<Set<WmsLayerInfo>>(
+    () => new Set(depth === 0 ? layers : [])
+  );
+  const toggle = (info: WmsLayerInfo) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(info)) next.delete(info);
+      else next.add(info);
+      return next;
+    });
+
+  return (
+    <>
+      {layers.map((info, i) => (
+        <React.Fragment key={`${info.name ?? info.title}-${i}`}>
+          <Stack
+            direction="row"
+            alignItems="center"
+            sx={{
+              pl: depth * 1.5,
+              cursor: info.name ? 'pointer' : 'default',
+              bgcolor: info === selected ? 'action.selected' : undefined,
+            }}
+            onClick={() => (info.name ? onSelect(info) : toggle(info))}
+          >
+            <Box
+              component="span"
+              sx={{ width: 16, flexShrink: 0, cursor: 'pointer' }}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggle(info);
+              }}
+            >
+              {info.children.length ? (expanded.has(info) ? '▾' : '▸') : ''}
+            </Box>
+            <Typography
+              variant="caption"
+              noWrap
+              sx={{ fontWeight: info.name ? 'normal' : 'bold' }}
+              title={info.name ?? info.title}
+            >
+              {info.title}
+            </Typography>
+          </Stack>
+          {expanded.has(info) && info.children.length > 0 && (
+            <LayerTree
+              layers={info.children}
+              depth={depth + 1}
+              selected={selected}
+              onSelect={onSelect}
+            />
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+const WmsLayerBrowser: React.FC<WmsLayerBrowserProps> = ({
+  capabilities,
+  loading,
+  error,
+  addedLayers,
+  onAdd,
+}) => {
+  const [selected, setSelected] = useState<WmsLayerInfo | null>(null);
+  const [style, setStyle] = useState('');
+  const [format, setFormat] = useState('image/png');
+  const formats = wmsImageFormats(capabilities?.formats ?? []);
+
+  const select = (info: WmsLayerInfo) => {
+    setSelected(info);
+    setStyle(info.styles[0]?.name ?? '');
+  };
+
+  const alreadyAdded = !!selected?.name && addedLayers.includes(selected.name);
+  const scaleRange = selected && wmsScaleRange(selected);
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">
+          Слои WMS{capabilities?.title ? `: ${capabilities.title}` : ''}
+        </Typography>
+        {loading && <CircularProgress size={18} />}
+        {error && (
+          <Typography variant="caption" color="error">
+            {error}
+          </Typography>
+        )}
+        {capabilities && (
+          <Box sx={{ maxHeight: 180, overflowY: 'auto' }}>
+            <LayerTree
+              layers={capabilities.layers}
+              depth={0}
+              selected={selected}
+              onSelect={select}
+            />
+          </Box>
+        )}
+
+        {selected && (
+          <>
+            <Typography variant="caption" component="div">
+              <div>
+                <strong>Имя:</strong> {selected.name}
+              </div>
+              {scaleRange && (
+                <div>
+                  <strong>Масштабы:</strong> {scaleRange}
+                </div>
+              )}
+              {selected.queryable && <div>Поддерживает запрос информации</div>}
+              {selected.abstract && (
+                <Box sx={{ maxHeight: 60, overflowY: 'auto', mt: 0.5 }}>
+                  {selected.abstract}
+                </Box>
+              )}
+            </Typography>
+            <Stack direction="row" spacing={1}>
+              <TextField
+                select
+                size="small"
+                label="Стиль"
+                value={style}
+                disabled={!selected.styles.length}
+                onChange={(e) => setStyle(e.target.value)}
+                sx={{ flex: 1 }}
+              >
+                {selected.styles.length ? (
+                  selected.styles.map((s) => (
+                    <MenuItem key={s.name} value={s.name}>
+                      {s.title}
+                    </MenuItem>
+                  ))
+                ) : (
+                  <MenuItem value="">По умолчанию</MenuItem>
+                )}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="Формат"
+                value={formats.includes(format) ? format : formats[0]}
+                onChange={(e) => setFormat(e.target.value)}
+                sx={{ flex: 1 }}
+              >
+                {formats.map((f) => (
+                  <MenuItem key={f} value={f}>
+                    {f.replace('image/', '')}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+          </>
+        )}
+
+        <Button
+          variant="contained"
+          size="small"
+          disabled={!selected?.name || alreadyAdded}
+          onClick={() =>
+            selected &&
+            onAdd(selected, {
+              style,
+              format: formats.includes(format) ? format : formats[0],
+            })
+          }
+        >
+          {alreadyAdded ? 'Уже на карте' : 'Добавить на карту'}
+        </Button>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WmsLayerBrowser;
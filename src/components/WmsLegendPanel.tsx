@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { WmsActiveLayer, WmsLayerSettings } from '../hooks/useWmsLayers';
+import { wmsImageFormats } from '../utils/wmsCapabilities';
+
+interface WmsLegendPanelProps {
+  layers: WmsActiveLayer[];
+  // форматы GetMap сервера
+  formats: string[];
+  legendUrl: (layer: WmsActiveLayer) => string | null;
+  onUpdate: (id: number, settings: WmsLayerSettings) => void;
+  onRemove: (id: number) => void;
+}
+
+const WmsLegendPanel: React.FC<WmsLegendPanelProps> = ({
+  layers,
+  formats,
+  legendUrl,
+  onUpdate,
+  onRemove,
+}) => {
+  // легенды, которые сервер не отдал: вместо картинки — подпись
+  const [failed, setFailed] = useState<string[]>([]);
+  const imageFormats = wmsImageFormats(formats);
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Легенда WMS</Typography>
+        {layers.map((layer) => {
+          const url = legendUrl(layer);
+          return (
+            <Stack key={layer.id} spacing={0.5}>
+              <Stack direction="row" alignItems="center" spacing={0.5}>
+                <Typography
+                  variant="caption"
+                  sx={{
+                    flex: 1,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    fontWeight: 'bold',
+                  }}
+                >
+                  {layer.info.title}
+                </Typography>
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => onRemove(layer.id)}
+                >
+                  Удалить
+                </Button>
+              </Stack>
+              <Stack direction="row" spacing={1}>
+                {layer.info.styles.length > 1 && (
+                  <TextField
+                    select
+                    size="small"
+                    label="Стиль"
+                    value={layer.style}
+                    onChange={(e) =>
+                      onUpdate(layer.id, { style: e.target.value })
+                    }
+                    sx={{ flex: 1 }}
+                  >
+                    {layer.info.styles.map((s) => (
+                      <MenuItem key={s.name} value={s.name}>
+                        {s.title}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                {imageFormats.length > 1 && (
+                  <TextField
+                    select
+                    size="small"
+                    label="Формат"
+                    value={layer.format}
+                    onChange={(e) =>
+                      onUpdate(layer.id, { format: e.target.value })
+                    }
+                    sx={{ flex: 1 }}
+                  >
+                    {imageFormats.map((f) => (
+                      <MenuItem key={f} value={f}>
+                        {f.replace('image/', '')}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              </Stack>
+              {!layer.visible ? (
+                <Typography variant="caption" color="text.secondary">
+                  Слой выключен
+                </Typography>
+              ) : url && !failed.includes(url) ? (
+                <Box sx={{ maxHeight: 200, overflow: 'auto' }}>
+                  <img
+                    src={url}
+                    alt={`Легенда: ${layer.info.title}`}
+                    onError={() => setFailed((prev) => [...prev, url])}
+                  />
+                </Box>
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  Сервер не предоставил легенду
+                </Typography>
+              )}
+            </Stack>
+          );
+        })}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default WmsLegendPanel;
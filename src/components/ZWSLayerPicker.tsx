@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import {
+  ZWSService,
+  ZWSLayerInfo,
+  ZWSLayerSummary,
+} from '../services/ZWSService';
+
+interface ZWSLayerPickerProps {
+  service: ZWSService;
+  // имена слоёв, уже добавленных на карту
+  addedLayers: string[];
+  onAdd: (info: ZWSLayerInfo) => void;
+}
+
+const ZWSLayerPicker: React.FC<ZWSLayerPickerProps> = ({
+  service,
+  addedLayers,
+  onAdd,
+}) => {
+  const [layers, setLayers] = useState<ZWSLayerSummary[]>([]);
+  const [selected, setSelected] = useState('');
+  const [info, setInfo] = useState<ZWSLayerInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // список слоёв сервера
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    service
+      .getLayerList(controller.signal)
+      .then((list) => {
+        setLayers(list);
+        setError(null);
+      })
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        console.warn('ZWS layer list error', err);
+        setError('Не удалось получить список слоёв');
+      })
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [service]);
+
+  // метаданные выбранного слоя
+  useEffect(() => {
+    if (!selected) {
+      setInfo(null);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    service
+      .getLayerInfo(selected, controller.signal)
+      .then((layerInfo) => {
+        setInfo(layerInfo);
+        setError(null);
+      })
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        console.warn('ZWS layer info error', err);
+        // метаданные необязательны — слой всё равно можно добавить
+        const summary = layers.find((l) => l.name === selected);
+        setInfo({
+          name: selected,
+          title: summary?.title ?? selected,
+          extent: null,
+          geometryType: null,
+          fields: [],
+        });
+      })
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [service, selected, layers]);
+
+  const alreadyAdded = !!info && addedLayers.includes(info.name);
+
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, width: 280 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Слои ZuluGIS</Typography>
+        <FormControl size="small" fullWidth disabled={!layers.length}>
+          <InputLabel id="zws-layer-picker-label">Слой</InputLabel>
+          <Select
+            labelId="zws-layer-picker-label"
+            label="Слой"
+            value={selected}
+            onChange={(e) => setSelected(String(e.target.value))}
+          >
+            {layers.map((l) => (
+              <MenuItem key={l.name} value={l.name}>
+                {l.title}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {loading && <CircularProgress size={18} />}
+        {error && (
+          <Typography variant="caption" color="error">
+            {error}
+          </Typography>
+        )}
+
+        {info && (
+          <Typography variant="caption" component="div">
+            <div>
+              <strong>Имя:</strong> {info.name}
+            </div>
+            {info.geometryType && (
+              <div>
+                <strong>Геометрия:</strong> {info.geometryType}
+              </div>
+            )}
+            {info.extent && (
+              <div>
+                <strong>Охват:</strong>{' '}
+                {[
+                  info.extent.minX,
+                  info.extent.minY,
+                  info.extent.maxX,
+                  info.extent.maxY,
+                ]
+                  .map((n) => n.toFixed(4))
+                  .join(', ')}
+              </div>
+            )}
+            {info.fields.length > 0 && (
+              <div>
+                <strong>Атрибуты:</strong>{' '}
+                {info.fields.map((f) => f.userName).join(', ')}
+              </div>
+            )}
+          </Typography>
+        )}
+
+        <Button
+          variant="contained"
+          size="small"
+          disabled={!info || alreadyAdded}
+          onClick={() => info && onAdd(info)}
+        >
+          {alreadyAdded ? 'Уже на карте' : 'Добавить на карту'}
+        </Button>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ZWSLayerPicker;
@@ -1,16 +1,17 @@
+// значения, которые проект карты (utils/mapProject) может не задавать
 const DEFAULTS = {
-  center: [42.3231, 69.5851] as [number, number],
-  zoom: 13,
   height: '100vh',
-  zwsLayerName: 'example:demo',
-  zwsEndpoint: 'http://zs.zulugis.ru:6473/zws',
-  zwsAuth: { user: 'mo', pass: 'mo' },
+  tileCache: {
+    maxBytes: 200 * 1024 * 1024,
+    maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  },
+  highlight: {
+    color: '#ff0000',
+    weight: 3,
+    opacity: 0.8,
+    fillColor: '#ff0000',
+    fillOpacity: 0.2,
+  },
 };
 
-const WINDOW_POPUP = {
-  maxHeight: 250,
-  maxWidth: 400,
-  autoPan: true,
-};
-
-export { DEFAULTS, WINDOW_POPUP };
+export { DEFAULTS };
@@ -0,0 +1,117 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  IdentifyResponse,
+  IdentifyResult,
+  IdentifySource,
+  IdentifyTimeoutError,
+  withTimeout,
+} from '../utils/identify';
+
+const DEFAULT_TIMEOUT = 10000;
+
+const hasContent = (r: IdentifyResponse) =>
+  r.features.length > 0 || !!r.html || !!r.text;
+
+/**
+ * Определение по клику во всех источниках сразу: у каждого свой предел
+ * времени, статус и выбранный объект. Новый клик отменяет прежние запросы
+ */
+export const useIdentify = (options: { timeout?: number } = {}) => {
+  const { timeout = DEFAULT_TIMEOUT } = options;
+  const [results, setResults] = useState<IdentifyResult[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(
+    null
+  );
+  const abortRef = useRef<AbortController | null>(null);
+  // вкладку выбрал пользователь или первый ответ с объектами
+  const tabChosenRef = useRef(false);
+
+  const update = useCallback(
+    (id: string, patch: Partial<IdentifyResult>) =>
+      setResults((prev) =>
+        prev.map((r) => (r.id === id ? { ...r, ...patch } : r))
+      ),
+    []
+  );
+
+  const identify = useCallback(
+    async (sources: IdentifySource[], latlng: { lat: number; lng: number }) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      tabChosenRef.current = false;
+      setLocation(latlng);
+      setActiveId(sources[0]?.id ?? null);
+      setResults(
+        sources.map((s) => ({
+          id: s.id,
+          label: s.label,
+          schema: s.schema ?? null,
+          status: 'loading',
+          error: null,
+          features: [],
+          html: null,
+          text: null,
+          selected: 0,
+        }))
+      );
+
+      await Promise.all(
+        sources.map(async (source) => {
+          try {
+            const response = await withTimeout(
+              (signal) => source.identify(latlng, signal),
+              source.timeout ?? timeout,
+              controller.signal
+            );
+            if (controller.signal.aborted) return;
+            update(source.id, { ...response, status: 'done' });
+            // вкладка первого источника, нашедшего объекты
+            if (!tabChosenRef.current && hasContent(response)) {
+              tabChosenRef.current = true;
+              setActiveId(source.id);
+            }
+          } catch (err) {
+            if (controller.signal.aborted) return;
+            const timedOut = err instanceof IdentifyTimeoutError;
+            if (!timedOut) console.warn('Identify failed', source.id, err);
+            update(source.id, {
+              status: timedOut ? 'timeout' : 'error',
+              error: (err as Error).message,
+            });
+          }
+        })
+      );
+    },
+    [timeout, update]
+  );
+
+  const selectTab = useCallback((id: string) => {
+    tabChosenRef.current = true;
+    setActiveId(id);
+  }, []);
+
+  const selectFeature = useCallback(
+    (id: string, index: number) => update(id, { selected: index }),
+    [update]
+  );
+
+  const clear = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setResults([]);
+    setActiveId(null);
+    setLocation(null);
+  }, []);
+
+  return {
+    results,
+    activeId,
+    location,
+    identify,
+    selectTab,
+    selectFeature,
+    clear,
+  };
+};
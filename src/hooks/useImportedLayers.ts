@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { parseImportFile } from '../utils/featureImport';
+import { removeFromLayerControl } from '../utils/layerControl';
+
+export interface ImportedLayerInfo {
+  // L.stamp оверлея
+  id: number;
+  name: string;
+  count: number;
+  color: string;
+}
+
+export interface ImportFileError {
+  fileName: string;
+  message: string;
+}
+
+// цвета оверлеев по очереди, чтобы соседние файлы различались
+const PALETTE = ['#1976d2', '#2e7d32', '#c2185b', '#f57c00', '#5d4037'];
+
+/**
+ * Локальные файлы как оверлеи карты: разбор в браузере, отдельная запись
+ * в контроле слоёв; свойства объектов — через определение по клику
+ */
+export const useImportedLayers = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  layerControlRef: React.MutableRefObject<L.Control.Layers | null>;
+  mapReady?: boolean;
+}) => {
+  const { mapRef, layerControlRef, mapReady } = options;
+  const layersRef = useRef(new Map<number, L.GeoJSON>());
+  const counterRef = useRef(0);
+  const [layers, setLayers] = useState<ImportedLayerInfo[]>([]);
+  const [errors, setErrors] = useState<ImportFileError[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // оверлеи живут вместе с картой
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const control = layerControlRef.current;
+    const imported = layersRef.current;
+    return () => {
+      imported.forEach((layer) => {
+        removeFromLayerControl(control, layer);
+        layer.remove();
+      });
+      imported.clear();
+      setLayers([]);
+    };
+  }, [mapRef, layerControlRef, mapReady]);
+
+  const addCollection = useCallback(
+    (name: string, collection: GeoJSON.FeatureCollection) => {
+      const map = mapRef.current;
+      if (!map) return null;
+      const color = PALETTE[counterRef.current++ % PALETTE.length];
+      const layer = L.geoJSON(collection, {
+        style: () => ({ color, weight: 2, opacity: 0.9, fillOpacity: 0.2 }),
+        pointToLayer: (_feature, latlng) =>
+          L.circleMarker(latlng, {
+            radius: 6,
+            color,
+            weight: 2,
+            fillOpacity: 0.6,
+          }),
+      }).addTo(map);
+      layerControlRef.current?.addOverlay(layer, `Файл: ${name}`);
+
+      const id = L.stamp(layer);
+      layersRef.current.set(id, layer);
+      setLayers((prev) => [
+        ...prev,
+        { id, name, count: collection.features.length, color },
+      ]);
+      return layer;
+    },
+    [mapRef, layerControlRef]
+  );
+
+  /**
+   * Разбор и добавление файлов; ошибки собираются по каждому файлу
+   */
+  const importFiles = useCallback(
+    async (files: File[]) => {
+      if (!files.length) return;
+      setLoading(true);
+      setErrors([]);
+      const failed: ImportFileError[] = [];
+      const bounds = L.latLngBounds([]);
+      for (const file of files) {
+        try {
+          const collection = parseImportFile(file.name, await file.text());
+          if (!collection.features.length)
+            throw new Error('В файле нет объектов с геометрией');
+          const layer = addCollection(file.name, collection);
+          if (layer) bounds.extend(layer.getBounds());
+        } catch (err) {
+          console.warn('Import failed', file.name, err);
+          failed.push({ fileName: file.name, message: (err as Error).message });
+        }
+      }
+      setErrors(failed);
+      setLoading(false);
+      if (bounds.isValid())
+        mapRef.current?.fitBounds(bounds, { padding: [20, 20], maxZoom: 17 });
+    },
+    [mapRef, addCollection]
+  );
+
+  const zoomTo = useCallback(
+    (id: number) => {
+      const map = mapRef.current;
+      const layer = layersRef.current.get(id);
+      if (!map || !layer) return;
+      if (!map.hasLayer(layer)) layer.addTo(map);
+      const bounds = layer.getBounds();
+      if (bounds.isValid())
+        map.fitBounds(bounds, { padding: [20, 20], maxZoom: 17 });
+    },
+    [mapRef]
+  );
+
+  const remove = useCallback(
+    (id: number) => {
+      const layer = layersRef.current.get(id);
+      if (!layer) return;
+      layerControlRef.current?.removeLayer(layer);
+      layer.remove();
+      layersRef.current.delete(id);
+      setLayers((prev) => prev.filter((l) => l.id !== id));
+    },
+    [layerControlRef]
+  );
+
+  /**
+   * Объекты оверлея — для экспорта и запросов
+   */
+  const getFeatures = useCallback(
+    (id: number): GeoJSON.Feature[] =>
+      (
+        layersRef.current.get(id)?.toGeoJSON() as
+          | GeoJSON.FeatureCollection
+          | undefined
+      )?.features ?? [],
+    []
+  );
+
+  // оверлей файла — его видимость на карте
+  const getLayer = useCallback(
+    (id: number): L.GeoJSON | undefined => layersRef.current.get(id),
+    []
+  );
+
+  return {
+    layers,
+    errors,
+    loading,
+    importFiles,
+    zoomTo,
+    remove,
+    getFeatures,
+    getLayer,
+  };
+};
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { registerCrs } from '../utils/crs';
+import {
+  MapProject,
+  MapProjectError,
+  parseMapProjectText,
+} from '../utils/mapProject';
+
+export interface MapProjectLoadError {
+  // адрес или имя файла проекта
+  source: string;
+  problems: string[];
+}
+
+// проект задаёт адреса запросов и шаблоны карты — только со своего сервера
+const isSameOrigin = (url: string) => {
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Проект карты из файла или по адресу, с проверкой; каждый успешно
+ * открытый проект получает новый номер — по нему карта создаётся заново
+ */
+export const useMapProject = (initialUrl?: string | null) => {
+  const [project, setProject] = useState<MapProject | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [source, setSource] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MapProjectLoadError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const open = useCallback((name: string, text: string) => {
+    try {
+      const next = parseMapProjectText(text);
+      // системы координат известны до первых запросов WFS карты
+      next.crs.forEach(registerCrs);
+      setProject(next);
+      setRevision((r) => r + 1);
+      setSource(name);
+      setError(null);
+    } catch (err) {
+      setError({
+        source: name,
+        problems:
+          err instanceof MapProjectError
+            ? err.problems
+            : [(err as Error).message],
+      });
+    }
+  }, []);
+
+  const loadUrl = useCallback(
+    async (url: string) => {
+      abortRef.current?.abort();
+      if (!isSameOrigin(url)) {
+        setError({
+          source: url,
+          problems: ['проект загружается только с адреса этого приложения'],
+        });
+        setLoading(false);
+        return;
+      }
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setLoading(true);
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok)
+          throw new Error(
+            `сервер ответил ${response.status} ${response.statusText}`
+          );
+        open(url, await response.text());
+      } catch (err) {
+        if ((err as Error)?.name === 'AbortError') return;
+        console.warn('Map project load failed', url, err);
+        setError({
+          source: url,
+          problems: [`не удалось загрузить проект: ${(err as Error).message}`],
+        });
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    },
+    [open]
+  );
+
+  const loadFile = useCallback(
+    async (file: File) => {
+      // файл заменяет ещё не пришедший проект по адресу
+      abortRef.current?.abort();
+      setLoading(false);
+      open(file.name, await file.text());
+    },
+    [open]
+  );
+
+  useEffect(() => {
+    if (initialUrl) loadUrl(initialUrl);
+    return () => abortRef.current?.abort();
+  }, [initialUrl, loadUrl]);
+
+  return { project, revision, source, loading, error, loadUrl, loadFile };
+};
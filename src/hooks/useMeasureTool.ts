@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import '@geoman-io/leaflet-geoman-free';
+import {
+  AreaUnit,
+  Coordinate,
+  formatArea,
+  formatBearing,
+  formatLength,
+  geodesicBearing,
+  GeometryMeasure,
+  LengthUnit,
+  measureGeometry,
+} from '../utils/geometryUtils';
+
+export type MeasureMode = 'distance' | 'area';
+
+export interface Measurement {
+  // L.stamp слоя измерения
+  id: number;
+  kind: MeasureMode | 'feature';
+  measure: GeometryMeasure;
+  // азимут отрезка из двух точек
+  bearing: number | null;
+}
+
+export interface MeasureUnits {
+  length: LengthUnit;
+  area: AreaUnit;
+}
+
+interface MeasureEntry {
+  kind: Measurement['kind'];
+  layer: L.Layer;
+  // геометрия измеряемого объекта; у нарисованных — из слоя
+  geometry?: GeoJSON.Geometry;
+}
+
+const MEASURE_STYLE: L.PathOptions = {
+  color: '#00796b',
+  weight: 3,
+  dashArray: '6 4',
+  fillOpacity: 0.1,
+};
+
+const toCoordinate = (latlng: L.LatLng): Coordinate => ({
+  lng: latlng.lng,
+  lat: latlng.lat,
+});
+
+const bearingOf = (geometry: GeoJSON.Geometry): number | null =>
+  geometry.type === 'LineString' && geometry.coordinates.length === 2
+    ? geodesicBearing(
+        { lng: geometry.coordinates[0][0], lat: geometry.coordinates[0][1] },
+        { lng: geometry.coordinates[1][0], lat: geometry.coordinates[1][1] }
+      )
+    : null;
+
+/**
+ * Строки подписи измерения: площадь, периметр, длина и азимут
+ */
+export const measurementParts = (
+  measure: GeometryMeasure,
+  bearing: number | null,
+  units: MeasureUnits
+): string[] => {
+  const parts: string[] = [];
+  if (measure.area > 0 || measure.perimeter > 0) {
+    parts.push(`S = ${formatArea(measure.area, units.area)}`);
+    parts.push(`P = ${formatLength(measure.perimeter, units.length)}`);
+  }
+  if (measure.length > 0)
+    parts.push(`L = ${formatLength(measure.length, units.length)}`);
+  if (bearing !== null) parts.push(`Az = ${formatBearing(bearing)}`);
+  return parts;
+};
+
+/**
+ * Измерение расстояний, площадей и азимутов на эллипсоиде WGS84:
+ * рисование средствами geoman с подписью, обновляемой на лету
+ */
+export const useMeasureTool = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  mapReady?: boolean;
+}) => {
+  const { mapRef, mapReady } = options;
+  const groupRef = useRef<L.FeatureGroup | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [mode, setMode] = useState<MeasureMode | null>(null);
+  const [units, setUnitsState] = useState<MeasureUnits>({
+    length: 'm',
+    area: 'm2',
+  });
+  // единицы читаются обработчиками geoman, подключёнными до их смены
+  const unitsRef = useRef(units);
+  const entriesRef = useRef(new Map<number, MeasureEntry>());
+
+  // пересчёт и подписи всех измерений
+  const relabel = useCallback(() => {
+    const next: Measurement[] = [];
+    entriesRef.current.forEach((entry, id) => {
+      const geometry =
+        entry.geometry ??
+        (entry.layer as L.Polyline).toGeoJSON?.().geometry ??
+        null;
+      if (!geometry) return;
+      const measurement: Measurement = {
+        id,
+        kind: entry.kind,
+        measure: measureGeometry(geometry),
+        bearing: bearingOf(geometry),
+      };
+      const label = measurementParts(
+        measurement.measure,
+        measurement.bearing,
+        unitsRef.current
+      ).join('<br/>');
+      if (entry.layer.getTooltip()) entry.layer.setTooltipContent(label);
+      else
+        entry.layer.bindTooltip(label, {
+          permanent: true,
+          direction: 'center',
+        });
+      next.push(measurement);
+    });
+    setMeasurements(next);
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const group = L.featureGroup().addTo(map);
+    groupRef.current = group;
+    const entries = entriesRef.current;
+    return () => {
+      group.remove();
+      groupRef.current = null;
+      entries.clear();
+      setMeasurements([]);
+    };
+  }, [mapRef, mapReady]);
+
+  const add = useCallback(
+    (entry: MeasureEntry) => {
+      groupRef.current?.addLayer(entry.layer);
+      entriesRef.current.set(L.stamp(entry.layer), entry);
+      relabel();
+    },
+    [relabel]
+  );
+
+  const cancel = useCallback(() => {
+    mapRef.current?.pm.disableDraw();
+    setMode(null);
+  }, [mapRef]);
+
+  const start = useCallback(
+    (next: MeasureMode) => {
+      const map = mapRef.current;
+      const group = groupRef.current;
+      if (!map || !group) return;
+
+      // рабочий слой приходит в pm:drawstart, который срабатывает внутри enableDraw
+      let working: L.Polyline | null = null;
+      const onDrawStart = (e: L.LeafletEvent & { workingLayer?: L.Layer }) => {
+        working = (e.workingLayer as L.Polyline | undefined) ?? null;
+      };
+      map.on('pm:drawstart', onDrawStart);
+
+      // включение рисования завершает предыдущий режим и его pm:drawend
+      map.pm.enableDraw(next === 'distance' ? 'Line' : 'Polygon', {
+        snappable: true,
+        continueDrawing: false,
+        pathOptions: MEASURE_STYLE,
+        templineStyle: MEASURE_STYLE,
+        hintlineStyle: { ...MEASURE_STYLE, weight: 2 },
+      });
+      setMode(next);
+
+      // подсказка у курсора: размер с учётом текущего положения мыши
+      const tooltip = L.tooltip({
+        direction: 'right',
+        offset: [12, 0],
+      });
+      const onMove = (e: L.LeafletMouseEvent) => {
+        const vertices = working
+          ? (working.getLatLngs() as L.LatLng[]).map(toCoordinate)
+          : [];
+        if (!vertices.length) return;
+        const coords = [...vertices, toCoordinate(e.latlng)];
+        const positions = coords.map((c) => [c.lng, c.lat]);
+        const geometry: GeoJSON.Geometry =
+          next === 'area' && coords.length >= 3
+            ? { type: 'Polygon', coordinates: [[...positions, positions[0]]] }
+            : { type: 'LineString', coordinates: positions };
+        tooltip.setLatLng(e.latlng).setContent(
+          measurementParts(
+            measureGeometry(geometry),
+            // азимут текущего отрезка
+            geodesicBearing(
+              coords[coords.length - 2],
+              coords[coords.length - 1]
+            ),
+            unitsRef.current
+          ).join('<br/>')
+        );
+        if (!map.hasLayer(tooltip)) tooltip.addTo(map);
+      };
+      const onCreate = (e: { layer: L.Layer }) => {
+        map.removeLayer(e.layer);
+        add({ kind: next, layer: e.layer });
+      };
+      const onDrawEnd = () => {
+        map.off('pm:drawstart', onDrawStart);
+        map.off('pm:create', onCreate);
+        map.off('mousemove', onMove);
+        tooltip.remove();
+        setMode(null);
+      };
+      map.on('pm:create', onCreate);
+      map.on('mousemove', onMove);
+      map.once('pm:drawend', onDrawEnd);
+    },
+    [mapRef, add]
+  );
+
+  /**
+   * Измерение готовой геометрии — выделенного объекта ZWS или WFS
+   */
+  const measureFeature = useCallback(
+    (geometry: GeoJSON.Geometry) => {
+      add({
+        kind: 'feature',
+        geometry,
+        layer: L.geoJSON(geometry, {
+          style: () => MEASURE_STYLE,
+          pointToLayer: (_feature, latlng) =>
+            L.circleMarker(latlng, { ...MEASURE_STYLE, radius: 6 }),
+        }),
+      });
+    },
+    [add]
+  );
+
+  const remove = useCallback(
+    (id: number) => {
+      const entry = entriesRef.current.get(id);
+      if (!entry) return;
+      groupRef.current?.removeLayer(entry.layer);
+      entriesRef.current.delete(id);
+      relabel();
+    },
+    [relabel]
+  );
+
+  const clear = useCallback(() => {
+    groupRef.current?.clearLayers();
+    entriesRef.current.clear();
+    relabel();
+  }, [relabel]);
+
+  const setUnits = useCallback(
+    (next: MeasureUnits) => {
+      unitsRef.current = next;
+      setUnitsState(next);
+      relabel();
+    },
+    [relabel]
+  );
+
+  return {
+    measurements,
+    mode,
+    units,
+    start,
+    cancel,
+    measureFeature,
+    remove,
+    clear,
+    setUnits,
+  };
+};
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { WFSService } from '../services/WFSService';
+import { parseImportFile } from '../utils/featureImport';
+import { restyleGeoJson, styledGeoJsonOptions } from '../utils/leafletStyle';
+import { removeFromLayerControl } from '../utils/layerControl';
+import {
+  MapProject,
+  ProjectVectorLayer,
+  projectService,
+} from '../utils/mapProject';
+import { DEFAULT_VECTOR_STYLE, styleDependsOnZoom } from '../utils/vectorStyle';
+
+export interface ProjectLayerStatus {
+  id: string;
+  title: string;
+  loading: boolean;
+  count: number;
+  error: string | null;
+  // в области карты объектов слоя WFS больше, чем показано
+  truncated: boolean;
+}
+
+// объектов дополнительного слоя WFS в одном запросе по области карты
+const WFS_MAX_FEATURES = 2000;
+
+/**
+ * Векторные слои проекта, кроме первого слоя WFS: локальные данные
+ * загружаются один раз, остальные слои WFS — по области карты после каждого
+ * сдвига. Запросы, правка и фильтр по времени есть только у первого слоя
+ * WFS, его обслуживает useWfsLayer
+ */
+export const useProjectLayers = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  layerControlRef: React.MutableRefObject<L.Control.Layers | null>;
+  mapReady?: boolean;
+  project: MapProject;
+  layers: ProjectVectorLayer[];
+  // панель карты слоя: порядок отрисовки и прозрачность
+  paneFor: (id: string) => string;
+}) => {
+  const { mapRef, layerControlRef, mapReady, project, layers, paneFor } =
+    options;
+  const overlaysRef = useRef<Record<string, L.GeoJSON>>({});
+  const [statuses, setStatuses] = useState<ProjectLayerStatus[]>([]);
+
+  const load = useCallback(
+    async (
+      layer: ProjectVectorLayer,
+      bounds: L.LatLngBounds,
+      signal: AbortSignal
+    ): Promise<GeoJSON.FeatureCollection> => {
+      if (layer.type === 'local') {
+        if (layer.data) return layer.data;
+        const response = await fetch(layer.url!, { signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        // формат — по расширению в адресе, без параметров запроса
+        return parseImportFile(
+          new URL(layer.url!, window.location.href).pathname,
+          await response.text()
+        );
+      }
+      const service = new WFSService(
+        projectService(project, layer.service)!.url
+      );
+      const { collection } = await service.getFeatures(
+        {
+          typeName: layer.typeName,
+          srsName: layer.srsName,
+          bbox: [
+            bounds.getWest(),
+            bounds.getSouth(),
+            bounds.getEast(),
+            bounds.getNorth(),
+          ],
+        },
+        { count: WFS_MAX_FEATURES, signal }
+      );
+      return collection;
+    },
+    [project]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !layers.length) return;
+    const control = layerControlRef.current;
+    const overlays = overlaysRef.current;
+    // запрос слоя отменяется следующим запросом того же слоя
+    const controllers: Record<string, AbortController> = {};
+
+    const update = (id: string, patch: Partial<ProjectLayerStatus>) =>
+      setStatuses((prev) =>
+        prev.map((s) => (s.id === id ? { ...s, ...patch } : s))
+      );
+    setStatuses(
+      layers.map((l) => ({
+        id: l.id,
+        title: l.title,
+        loading: false,
+        count: 0,
+        error: null,
+        truncated: false,
+      }))
+    );
+
+    const refresh = (def: ProjectVectorLayer) => {
+      controllers[def.id]?.abort();
+      const controller = new AbortController();
+      controllers[def.id] = controller;
+      update(def.id, { loading: true, error: null });
+      load(def, map.getBounds(), controller.signal)
+        .then((collection) => {
+          if (controller.signal.aborted) return;
+          overlays[def.id].clearLayers();
+          overlays[def.id].addData(collection);
+          update(def.id, {
+            loading: false,
+            count: collection.features.length,
+            truncated:
+              def.type === 'wfs' &&
+              collection.features.length >= WFS_MAX_FEATURES,
+          });
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.warn('Project layer load failed', def.id, err);
+          update(def.id, { loading: false, error: (err as Error).message });
+        });
+    };
+    // слои WFS запрашиваются, только пока они видны
+    const shown = (def: ProjectVectorLayer) =>
+      def.type === 'wfs' && map.hasLayer(overlays[def.id]);
+
+    layers.forEach((def) => {
+      const style = def.style ?? DEFAULT_VECTOR_STYLE;
+      const overlay = L.geoJSON(
+        null,
+        styledGeoJsonOptions(
+          () => style,
+          () => map.getZoom(),
+          { pane: paneFor(def.id) }
+        )
+      );
+      overlays[def.id] = overlay;
+      control?.addOverlay(
+        overlay,
+        `${def.type === 'wfs' ? 'WFS' : 'Данные'}: ${def.title}`
+      );
+      if (def.visible) overlay.addTo(map);
+      if (def.type === 'local' || shown(def)) refresh(def);
+    });
+
+    const onMoveEnd = () => layers.filter(shown).forEach(refresh);
+    const onOverlayAdd = (e: L.LayersControlEvent) => {
+      const def = layers.find((l) => overlays[l.id] === e.layer);
+      if (def && shown(def)) refresh(def);
+    };
+    map.on('moveend', onMoveEnd);
+    map.on('overlayadd', onOverlayAdd);
+
+    // правила с диапазонами масштаба пересчитываются после смены масштаба
+    const onZoomEnd = () =>
+      layers.forEach((def) => {
+        const style = def.style ?? DEFAULT_VECTOR_STYLE;
+        if (overlays[def.id] && styleDependsOnZoom(style))
+          restyleGeoJson(overlays[def.id], style, map.getZoom());
+      });
+    map.on('zoomend', onZoomEnd);
+
+    return () => {
+      Object.values(controllers).forEach((c) => c.abort());
+      map.off('moveend', onMoveEnd);
+      map.off('overlayadd', onOverlayAdd);
+      map.off('zoomend', onZoomEnd);
+      Object.values(overlays).forEach((overlay) => {
+        removeFromLayerControl(control, overlay);
+        overlay.remove();
+      });
+      overlaysRef.current = {};
+      setStatuses([]);
+    };
+  }, [mapRef, layerControlRef, mapReady, layers, paneFor, load]);
+
+  /**
+   * Объекты слоя — для экспорта
+   */
+  const getFeatures = useCallback(
+    (id: string): GeoJSON.Feature[] =>
+      (
+        overlaysRef.current[id]?.toGeoJSON() as
+          | GeoJSON.FeatureCollection
+          | undefined
+      )?.features ?? [],
+    []
+  );
+
+  // оверлей слоя — его видимость на карте
+  const getLayer = useCallback(
+    (id: string): L.GeoJSON | undefined => overlaysRef.current[id],
+    []
+  );
+
+  return { layers: statuses, getFeatures, getLayer };
+};
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import '@geoman-io/leaflet-geoman-free';
+import { circleToPolygon } from '../utils/geometryUtils';
+import { removeFromLayerControl } from '../utils/layerControl';
+
+export type SketchShape =
+  | 'Marker'
+  | 'Line'
+  | 'Polygon'
+  | 'Rectangle'
+  | 'Circle';
+
+export interface SketchInfo {
+  // L.stamp слоя эскиза
+  id: number;
+  label: string;
+  shape: SketchShape;
+}
+
+export const SKETCH_SHAPE_LABELS: Record<SketchShape, string> = {
+  Marker: 'Точка',
+  Line: 'Линия',
+  Polygon: 'Полигон',
+  Rectangle: 'Прямоугольник',
+  Circle: 'Круг',
+};
+
+type SketchLayer = L.Layer & {
+  pm?: L.PM.PMLayer;
+  toGeoJSON?: () => GeoJSON.Feature;
+};
+
+const SKETCH_STYLE: L.PathOptions = {
+  color: '#7b1fa2',
+  weight: 2,
+  fillOpacity: 0.15,
+};
+
+/**
+ * Геометрия эскиза в WGS84; круг — полигоном, GeoJSON окружностей не знает
+ */
+export const sketchToFeature = (
+  layer: L.Layer,
+  info: SketchInfo
+): GeoJSON.Feature | null => {
+  const properties = { name: info.label, shape: info.shape };
+  if (layer instanceof L.Circle) {
+    const c = layer.getLatLng();
+    return {
+      type: 'Feature',
+      properties: { ...properties, radius: layer.getRadius() },
+      geometry: circleToPolygon({ lng: c.lng, lat: c.lat }, layer.getRadius()),
+    };
+  }
+  const feature = (layer as SketchLayer).toGeoJSON?.();
+  return feature ? { ...feature, properties } : null;
+};
+
+/**
+ * Эскизы: рисование средствами geoman с привязкой к объектам на карте,
+ * отдельный оверлей в контроле слоёв
+ */
+export const useSketchLayer = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  layerControlRef: React.MutableRefObject<L.Control.Layers | null>;
+  mapReady?: boolean;
+}) => {
+  const { mapRef, layerControlRef, mapReady } = options;
+  const groupRef = useRef<L.FeatureGroup | null>(null);
+  const infoRef = useRef(new Map<number, SketchInfo>());
+  const counterRef = useRef(0);
+  const [sketches, setSketches] = useState<SketchInfo[]>([]);
+  const [drawing, setDrawing] = useState<SketchShape | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [snapping, setSnappingState] = useState(true);
+
+  const refresh = useCallback(() => {
+    setSketches(Array.from(infoRef.current.values()));
+  }, []);
+
+  const findLayer = useCallback(
+    (id: number) =>
+      (groupRef.current?.getLayers() ?? []).find((l) => L.stamp(l) === id) as
+        | SketchLayer
+        | undefined,
+    []
+  );
+
+  const selectedRef = useRef<number | null>(null);
+  const select = useCallback(
+    (id: number | null) => {
+      const prev = selectedRef.current;
+      if (prev === id) return;
+      if (prev !== null) findLayer(prev)?.pm?.disable();
+      if (id !== null)
+        findLayer(id)?.pm?.enable({
+          snappable: true,
+          allowSelfIntersection: false,
+        });
+      selectedRef.current = id;
+      setSelectedId(id);
+    },
+    [findLayer]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+
+    const group = L.featureGroup().addTo(map);
+    groupRef.current = group;
+    const control = layerControlRef.current;
+    const info = infoRef.current;
+    control?.addOverlay(group, 'Эскизы');
+
+    // клик по эскизу включает правку его вершин и доходит до карты —
+    // эскиз попадает и в определение объектов
+    const onClick = (e: L.LeafletMouseEvent) =>
+      select(L.stamp(e.propagatedFrom));
+    group.on('click', onClick);
+
+    return () => {
+      group.off('click', onClick);
+      removeFromLayerControl(control, group);
+      group.remove();
+      groupRef.current = null;
+      selectedRef.current = null;
+      info.clear();
+      setSketches([]);
+    };
+  }, [mapRef, layerControlRef, mapReady, select]);
+
+  const cancelDraw = useCallback(() => {
+    mapRef.current?.pm.disableDraw();
+    setDrawing(null);
+  }, [mapRef]);
+
+  const startDraw = useCallback(
+    (shape: SketchShape) => {
+      const map = mapRef.current;
+      const group = groupRef.current;
+      if (!map || !group) return;
+      select(null);
+      if (!map.hasLayer(group)) group.addTo(map);
+
+      // включение рисования завершает предыдущий режим и его pm:drawend
+      map.pm.enableDraw(shape, {
+        snappable: snapping,
+        snapDistance: 15,
+        continueDrawing: false,
+        pathOptions: SKETCH_STYLE,
+        templineStyle: SKETCH_STYLE,
+      });
+      setDrawing(shape);
+
+      const onCreate = (e: { layer: L.Layer }) => {
+        map.removeLayer(e.layer);
+        group.addLayer(e.layer);
+        const id = L.stamp(e.layer);
+        counterRef.current += 1;
+        infoRef.current.set(id, {
+          id,
+          shape,
+          label: `${SKETCH_SHAPE_LABELS[shape]} ${counterRef.current}`,
+        });
+        refresh();
+      };
+      const onDrawEnd = () => {
+        map.off('pm:create', onCreate);
+        setDrawing(null);
+      };
+      map.on('pm:create', onCreate);
+      map.once('pm:drawend', onDrawEnd);
+    },
+    [mapRef, snapping, select, refresh]
+  );
+
+  const remove = useCallback(
+    (id: number) => {
+      const layer = findLayer(id);
+      if (!layer) return;
+      if (selectedRef.current === id) select(null);
+      groupRef.current?.removeLayer(layer);
+      infoRef.current.delete(id);
+      refresh();
+    },
+    [findLayer, select, refresh]
+  );
+
+  const clear = useCallback(() => {
+    select(null);
+    groupRef.current?.clearLayers();
+    infoRef.current.clear();
+    refresh();
+  }, [select, refresh]);
+
+  const setSnapping = useCallback(
+    (enabled: boolean) => {
+      setSnappingState(enabled);
+      mapRef.current?.pm.setGlobalOptions({ snappable: enabled });
+    },
+    [mapRef]
+  );
+
+  const getSketchFeature = useCallback(
+    (id: number): GeoJSON.Feature | null => {
+      const info = infoRef.current.get(id);
+      const layer = findLayer(id);
+      return info && layer ? sketchToFeature(layer, info) : null;
+    },
+    [findLayer]
+  );
+
+  /**
+   * Эскизы как объекты GeoJSON — для запросов и экспорта
+   */
+  const getSketchFeatures = useCallback((): GeoJSON.Feature[] => {
+    const features: GeoJSON.Feature[] = [];
+    infoRef.current.forEach((info, id) => {
+      const layer = findLayer(id);
+      const feature = layer && sketchToFeature(layer, info);
+      if (feature) features.push(feature);
+    });
+    return features;
+  }, [findLayer]);
+
+  return {
+    sketchGroup: groupRef,
+    sketches,
+    drawing,
+    selectedId,
+    snapping,
+    startDraw,
+    cancelDraw,
+    select,
+    remove,
+    clear,
+    setSnapping,
+    getSketchFeature,
+    getSketchFeatures,
+  };
+};
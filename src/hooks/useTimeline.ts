@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  addDuration,
+  discreteTimeValues,
+  extentPeriod,
+  IsoDuration,
+  parseIsoDuration,
+  TimeExtent,
+  timeExtentRange,
+  TimeSelection,
+  timeSteps,
+} from '../utils/timeDimension';
+
+export type TimelineMode = 'instant' | 'range';
+
+// шаг по допустимым значениям измерения WMS вместо равного периода
+export const AUTO_PERIOD = 'auto';
+
+const DAY: IsoDuration = { years: 0, months: 0, days: 1, millis: 0 };
+// шкала без значений от сервера: последние 30 дней
+const DEFAULT_DAYS = 30;
+
+const defaultDomain = (): [Date, Date] => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return [addDuration(today, DAY, -DEFAULT_DAYS), today];
+};
+
+/**
+ * Шкала времени: шаги по значениям измерения или по периоду, выбранный
+ * момент или интервал и его воспроизведение
+ */
+export const useTimeline = (options: {
+  // значения измерения TIME слоёв WMS
+  extents: TimeExtent[];
+}) => {
+  const { extents } = options;
+  const [enabled, setEnabled] = useState(false);
+  const [mode, setModeState] = useState<TimelineMode>('instant');
+  // null — шаг по умолчанию для текущих слоёв
+  const [period, setPeriod] = useState<string | null>(null);
+  // null — охват значений сервера либо последние дни
+  const [domain, setDomain] = useState<[Date, Date] | null>(null);
+  // индексы шагов: момент — первый, интервал — оба
+  const [position, setPositionState] = useState<[number, number]>([0, 0]);
+  const [playing, setPlaying] = useState(false);
+  // пауза между шагами воспроизведения, мс
+  const [speed, setSpeed] = useState(1000);
+  const [loop, setLoop] = useState(false);
+
+  const serverValues = useMemo(() => discreteTimeValues(extents), [extents]);
+  const serverDomain = useMemo(() => timeExtentRange(extents), [extents]);
+  const fallbackDomain = useMemo(defaultDomain, []);
+  const hasServerValues = serverValues.length > 1;
+
+  const defaultPeriod = hasServerValues
+    ? AUTO_PERIOD
+    : extentPeriod(extents) ?? 'P1D';
+  const activePeriod =
+    period === null || (period === AUTO_PERIOD && !hasServerValues)
+      ? defaultPeriod
+      : period;
+  const activeDomain = domain ?? serverDomain ?? fallbackDomain;
+  const duration = useMemo(
+    () =>
+      activePeriod === AUTO_PERIOD ? null : parseIsoDuration(activePeriod),
+    [activePeriod]
+  );
+
+  const steps = useMemo(() => {
+    const [start, end] = activeDomain;
+    if (!duration) return serverValues.filter((d) => d >= start && d <= end);
+    return timeSteps(start, end, duration);
+  }, [activeDomain, duration, serverValues]);
+  const last = steps.length - 1;
+
+  // индексы в пределах шкалы, конец интервала не раньше начала
+  const from = Math.max(0, Math.min(position[0], last));
+  const to = Math.max(from, Math.min(position[1], last));
+
+  const selection = useMemo((): TimeSelection | null => {
+    if (!enabled || !steps.length) return null;
+    const start = steps[from];
+    if (mode === 'range') return { start, end: steps[to], instant: false };
+    // момент длится до следующего шага; последний — столько же, сколько предыдущий
+    const end =
+      steps[from + 1] ??
+      (duration
+        ? addDuration(start, duration)
+        : from > 0
+        ? new Date(2 * start.getTime() - steps[from - 1].getTime())
+        : addDuration(start, DAY));
+    return { start, end, instant: true };
+  }, [enabled, steps, mode, from, to, duration]);
+
+  const setPosition = useCallback((next: [number, number]) => {
+    setPositionState(next);
+    setEnabled(true);
+  }, []);
+
+  const setMode = useCallback(
+    (next: TimelineMode) => {
+      setModeState(next);
+      // интервал по умолчанию — от выбранного шага до следующего
+      if (next === 'range' && to <= from)
+        setPositionState([from, Math.min(from + 1, last)]);
+    },
+    [from, to, last]
+  );
+
+  /**
+   * Сдвиг момента или интервала на delta шагов; false — дальше шкалы
+   */
+  const step = useCallback(
+    (delta: number) => {
+      const width = mode === 'range' ? to - from : 0;
+      let start = from + delta;
+      if (start < 0 || start + width > last) {
+        if (!loop || last < 0) return false;
+        start = delta > 0 ? 0 : last - width;
+      }
+      setPositionState([start, start + width]);
+      setEnabled(true);
+      return true;
+    },
+    [mode, from, to, last, loop]
+  );
+
+  // воспроизведение: шаг по таймеру до конца шкалы или по кругу
+  const stepRef = useRef(step);
+  stepRef.current = step;
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      if (!stepRef.current(1)) setPlaying(false);
+    }, speed);
+    return () => clearInterval(timer);
+  }, [playing, speed]);
+
+  // с конца шкалы воспроизведение начинается заново
+  const play = useCallback(() => {
+    if (to >= last) setPositionState([0, to - from]);
+    setEnabled(true);
+    setPlaying(true);
+  }, [from, to, last]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  // без шкалы воспроизводить нечего
+  useEffect(() => {
+    if (!enabled || last < 1) setPlaying(false);
+  }, [enabled, last]);
+
+  return {
+    enabled,
+    setEnabled,
+    mode,
+    setMode,
+    period: activePeriod,
+    setPeriod,
+    hasServerValues,
+    domain: activeDomain,
+    setDomain,
+    steps,
+    position: [from, to] as [number, number],
+    setPosition,
+    selection,
+    step,
+    playing,
+    play,
+    pause,
+    speed,
+    setSpeed,
+    loop,
+    setLoop,
+  };
+};
@@ -0,0 +1,402 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import '@geoman-io/leaflet-geoman-free';
+import { WFSService } from '../services/WFSService';
+import { FeatureTypeSchema } from '../utils/featureSchema';
+import {
+  WfsEdit,
+  WfsTransactionError,
+  WfsTransactionResult,
+} from '../utils/wfsTransaction';
+
+// слой объекта L.geoJSON: Path или Marker
+type FeatureLayer = L.Layer & {
+  feature?: GeoJSON.Feature;
+  toGeoJSON?: () => GeoJSON.Feature;
+  pm?: L.PM.PMLayer;
+};
+
+interface PendingEdit {
+  kind: 'insert' | 'update' | 'delete';
+  layer: FeatureLayer;
+  // изменённые атрибуты (для insert — все)
+  properties: Record<string, unknown>;
+  geometryChanged: boolean;
+}
+
+export interface WfsEditSelection {
+  // L.stamp слоя объекта
+  key: number;
+  id: string | null;
+  properties: Record<string, unknown>;
+  isNew: boolean;
+}
+
+export interface WfsPendingCounts {
+  insert: number;
+  update: number;
+  delete: number;
+}
+
+const NO_PENDING: WfsPendingCounts = { insert: 0, update: 0, delete: 0 };
+
+// режим рисования geoman для типа геометрии из схемы
+const drawShapeFor = (geometryType: string | null) => {
+  if (!geometryType || /Point/i.test(geometryType)) return 'Marker';
+  if (/Curve|LineString/i.test(geometryType)) return 'Line';
+  return 'Polygon';
+};
+
+// слой схемы с Multi-геометрией не примет одиночную
+const toSchemaGeometry = (
+  geometry: GeoJSON.Geometry,
+  geometryType: string | null
+): GeoJSON.Geometry => {
+  if (!geometryType || !/^Multi/i.test(geometryType)) return geometry;
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'MultiPoint', coordinates: [geometry.coordinates] };
+    case 'LineString':
+      return { type: 'MultiLineString', coordinates: [geometry.coordinates] };
+    case 'Polygon':
+      return { type: 'MultiPolygon', coordinates: [geometry.coordinates] };
+    default:
+      return geometry;
+  }
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() === b.getTime()
+    : (a ?? null) === (b ?? null);
+
+/**
+ * Редактирование объектов слоя WFS: правки копятся локально
+ * и записываются одной транзакцией WFS-T
+ */
+export const useWfsEditing = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  layerRef: React.MutableRefObject<L.GeoJSON | null>;
+  service: WFSService | null;
+  typeName?: string;
+  srsName?: string;
+  schema: FeatureTypeSchema | null;
+  // перезагрузка слоя после записи или отмены правок
+  reload: () => Promise<unknown>;
+  setAutoReload: (enabled: boolean) => void;
+}) => {
+  const {
+    mapRef,
+    layerRef,
+    service,
+    typeName,
+    srsName = 'EPSG:4326',
+    schema,
+    reload,
+    setAutoReload,
+  } = options;
+
+  const [editing, setEditingState] = useState(false);
+  const [selected, setSelected] = useState<WfsEditSelection | null>(null);
+  const [pendingCounts, setPendingCounts] = useState(NO_PENDING);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const pendingRef = useRef(new Map<number, PendingEdit>());
+  // атрибуты объектов до первой правки — для проверки конфликтов
+  const originalsRef = useRef(new Map<number, Record<string, unknown>>());
+  const selectedLayerRef = useRef<FeatureLayer | null>(null);
+
+  const refreshCounts = useCallback(() => {
+    const counts = { ...NO_PENDING };
+    pendingRef.current.forEach((p) => counts[p.kind]++);
+    setPendingCounts(counts);
+    // с несохранёнными правками слой не перезагружается при перемещении карты
+    setAutoReload(pendingRef.current.size === 0);
+  }, [setAutoReload]);
+
+  const pendingFor = useCallback((layer: FeatureLayer): PendingEdit => {
+    const key = L.stamp(layer);
+    let pending = pendingRef.current.get(key);
+    if (!pending) {
+      originalsRef.current.set(key, { ...(layer.feature?.properties ?? {}) });
+      pending = {
+        kind: 'update',
+        layer,
+        properties: {},
+        geometryChanged: false,
+      };
+      pendingRef.current.set(key, pending);
+    }
+    return pending;
+  }, []);
+
+  const describe = useCallback((layer: FeatureLayer): WfsEditSelection => {
+    const key = L.stamp(layer);
+    return {
+      key,
+      id: layer.feature?.id != null ? String(layer.feature.id) : null,
+      properties: { ...(layer.feature?.properties ?? {}) },
+      isNew: pendingRef.current.get(key)?.kind === 'insert',
+    };
+  }, []);
+
+  const onGeometryEdit = useCallback(
+    (e: L.LeafletEvent) => {
+      pendingFor(e.target as FeatureLayer).geometryChanged = true;
+      refreshCounts();
+    },
+    [pendingFor, refreshCounts]
+  );
+
+  const deselect = useCallback(() => {
+    const layer = selectedLayerRef.current;
+    if (layer) {
+      layer.off('pm:edit', onGeometryEdit);
+      layer.pm?.disable();
+    }
+    selectedLayerRef.current = null;
+    setSelected(null);
+  }, [onGeometryEdit]);
+
+  const select = useCallback(
+    (layer: FeatureLayer) => {
+      if (selectedLayerRef.current === layer) return;
+      deselect();
+      selectedLayerRef.current = layer;
+      // перетаскивание вершин; новая вершина — за средний маркер, удаление — правой кнопкой
+      layer.pm?.enable({
+        snappable: true,
+        allowSelfIntersection: false,
+      });
+      layer.on('pm:edit', onGeometryEdit);
+      setSelected(describe(layer));
+    },
+    [deselect, describe, onGeometryEdit]
+  );
+
+  // клик по объекту в режиме правки выбирает его вместо определения объектов
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!editing || !layer) return;
+    const onClick = (e: L.LeafletMouseEvent) => {
+      L.DomEvent.stopPropagation(e);
+      select(e.propagatedFrom as FeatureLayer);
+    };
+    layer.on('click', onClick);
+    return () => {
+      layer.off('click', onClick);
+    };
+  }, [editing, layerRef, select]);
+
+  const setEditing = useCallback(
+    (enabled: boolean) => {
+      if (!enabled) {
+        deselect();
+        mapRef.current?.pm.disableDraw();
+      }
+      setEditingState(enabled);
+    },
+    [deselect, mapRef]
+  );
+
+  const applyAttributes = useCallback(
+    (values: Record<string, unknown>) => {
+      const layer = selectedLayerRef.current;
+      if (!layer?.feature) return;
+      const pending = pendingFor(layer);
+      const props = layer.feature.properties ?? {};
+      Object.entries(values).forEach(([name, value]) => {
+        if (sameValue(props[name], value)) return;
+        props[name] = value;
+        pending.properties[name] = value;
+      });
+      layer.feature.properties = props;
+      refreshCounts();
+      setSelected(describe(layer));
+    },
+    [pendingFor, refreshCounts, describe]
+  );
+
+  const deleteSelected = useCallback(() => {
+    const layer = selectedLayerRef.current;
+    if (!layer) return;
+    const key = L.stamp(layer);
+    deselect();
+    layerRef.current?.removeLayer(layer);
+    // несохранённый новый объект просто забываем
+    if (pendingRef.current.get(key)?.kind === 'insert')
+      pendingRef.current.delete(key);
+    else pendingFor(layer).kind = 'delete';
+    refreshCounts();
+  }, [deselect, layerRef, pendingFor, refreshCounts]);
+
+  /**
+   * Рисование нового объекта; тип геометрии — по схеме слоя
+   */
+  const startInsert = useCallback(() => {
+    const map = mapRef.current;
+    const group = layerRef.current;
+    if (!map || !group) return;
+    deselect();
+    if (!map.hasLayer(group)) group.addTo(map);
+
+    // включение рисования завершает предыдущий режим и его pm:drawend,
+    // поэтому обработчики подключаются после
+    map.pm.enableDraw(drawShapeFor(schema?.geometryType ?? null), {
+      snappable: true,
+      continueDrawing: false,
+    });
+
+    const onCreate = (e: { layer: L.Layer }) => {
+      const drawn = e.layer as FeatureLayer;
+      const geometry = drawn.toGeoJSON?.().geometry;
+      map.removeLayer(drawn);
+      if (!geometry) return;
+
+      const feature: GeoJSON.Feature = {
+        type: 'Feature',
+        properties: {},
+        geometry: toSchemaGeometry(geometry, schema?.geometryType ?? null),
+      };
+      group.addData(feature);
+      const layers = group.getLayers() as FeatureLayer[];
+      const created = layers[layers.length - 1];
+      pendingRef.current.set(L.stamp(created), {
+        kind: 'insert',
+        layer: created,
+        properties: {},
+        geometryChanged: true,
+      });
+      refreshCounts();
+      select(created);
+    };
+    map.on('pm:create', onCreate);
+    map.once('pm:drawend', () => map.off('pm:create', onCreate));
+  }, [mapRef, layerRef, schema, deselect, refreshCounts, select]);
+
+  const buildEdits = useCallback((): WfsEdit[] => {
+    const edits: WfsEdit[] = [];
+    pendingRef.current.forEach((pending) => {
+      const { layer } = pending;
+      const id = layer.feature?.id != null ? String(layer.feature.id) : null;
+      switch (pending.kind) {
+        case 'insert': {
+          const geometry = layer.toGeoJSON?.().geometry;
+          if (!geometry) break;
+          edits.push({
+            type: 'insert',
+            feature: {
+              type: 'Feature',
+              properties: layer.feature?.properties ?? {},
+              geometry: toSchemaGeometry(
+                geometry,
+                schema?.geometryType ?? null
+              ),
+            },
+          });
+          break;
+        }
+        case 'update':
+          if (!id) break;
+          if (
+            !pending.geometryChanged &&
+            !Object.keys(pending.properties).length
+          )
+            break;
+          edits.push({
+            type: 'update',
+            id,
+            properties: pending.properties,
+            geometry: pending.geometryChanged
+              ? layer.toGeoJSON?.().geometry
+              : undefined,
+          });
+          break;
+        case 'delete':
+          if (id) edits.push({ type: 'delete', id });
+          break;
+      }
+    });
+    return edits;
+  }, [schema]);
+
+  const resetPending = useCallback(() => {
+    pendingRef.current.clear();
+    originalsRef.current.clear();
+    refreshCounts();
+  }, [refreshCounts]);
+
+  /**
+   * Запись правок. force — без сверки с сервером (после конфликта).
+   */
+  const commit = useCallback(
+    async (force = false): Promise<WfsTransactionResult | null> => {
+      if (!service || !typeName) return null;
+      const edits = buildEdits();
+      if (!edits.length) {
+        resetPending();
+        return null;
+      }
+
+      const originals: Record<string, Record<string, unknown>> = {};
+      pendingRef.current.forEach((pending, key) => {
+        const id = pending.layer.feature?.id;
+        const original = originalsRef.current.get(key);
+        if (pending.kind !== 'insert' && id != null && original)
+          originals[String(id)] = original;
+      });
+
+      setSaving(true);
+      setError(null);
+      try {
+        const result = await service.transaction(typeName, edits, {
+          srsName,
+          originals: force ? undefined : originals,
+        });
+        deselect();
+        resetPending();
+        await reload();
+        return result;
+      } catch (err) {
+        console.warn('WFS transaction failed', err);
+        setError(err as Error);
+        // при расхождении сводки часть правок могла примениться — показываем данные сервера
+        if (err instanceof WfsTransactionError && err.kind === 'mismatch') {
+          deselect();
+          resetPending();
+          await reload().catch(() => null);
+        }
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [service, typeName, srsName, buildEdits, deselect, resetPending, reload]
+  );
+
+  // отмена: локальные правки сбрасываются, объекты перечитываются с сервера
+  const discard = useCallback(async () => {
+    deselect();
+    mapRef.current?.pm.disableDraw();
+    resetPending();
+    setError(null);
+    await reload().catch((err) => {
+      console.warn('WFS reload failed', err);
+    });
+  }, [deselect, mapRef, resetPending, reload]);
+
+  return {
+    editing,
+    setEditing,
+    selected,
+    pendingCounts,
+    saving,
+    error,
+    applyAttributes,
+    deleteSelected,
+    startInsert,
+    commit,
+    discard,
+  };
+};
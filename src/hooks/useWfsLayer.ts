@@ -1,88 +1,737 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import L from 'leaflet';
-import { parseWfsXmlToGeoJson } from '../utils/wfsParser';
+import { WFSService, WfsQuery } from '../services/WFSService';
+import { FeatureTypeSchema } from '../utils/featureSchema';
+import { andFilters, FilterNode, normalizeFilter } from '../utils/ogcFilter';
+import { FeatureIndex } from '../utils/spatialIndex';
+import { restyleGeoJson, styledGeoJsonOptions } from '../utils/leafletStyle';
+import {
+  DEFAULT_VECTOR_STYLE,
+  styleDependsOnZoom,
+  VectorStyle,
+} from '../utils/vectorStyle';
+import {
+  FeatureGridCache,
+  GridCell,
+  gridCells,
+  gridLevel,
+} from '../utils/featureGrid';
+
+export interface WfsLoadStatus {
+  loading: boolean;
+  loaded: number;
+  // всего объектов в области по resultType=hits; null — неизвестно
+  total: number | null;
+  // загружена только часть объектов области
+  limited: boolean;
+  // в слое результат запроса по фильтру, а не объекты экстента
+  filtered: boolean;
+  // доля выполненной загрузки 0..1; null — оценить нельзя
+  progress: number | null;
+}
+
+const IDLE_STATUS: WfsLoadStatus = {
+  loading: false,
+  loaded: 0,
+  total: null,
+  limited: false,
+  filtered: false,
+  progress: null,
+};
+
+// одновременных запросов ячеек кэша
+const CELL_CONCURRENCY = 3;
+
+type WfsRenderMode = 'svg' | 'canvas';
+
+// smoothFactor линий в режиме Canvas — вдвое больше умолчания Leaflet (1):
+// своего упрощения слой не делает, Leaflet прореживает контуры сам
+const CANVAS_SMOOTH_FACTOR = 2;
+// обратно в SVG — только заметно ниже порога, чтобы не переключаться туда-обратно
+const SVG_RETURN_RATIO = 0.75;
+
+// объекты до повторной загрузки после сброса кэша: заменяются по идентификатору,
+// не пришедшие заново убираются по окончании загрузки
+interface StaleFeatures {
+  byId: Map<string, L.Layer>;
+  layers: Set<L.Layer>;
+}
+
+// gml:id; у объектов без идентификатора ключом служит геометрия
+const featureKey = (feature: GeoJSON.Feature) =>
+  feature.id != null ? String(feature.id) : JSON.stringify(feature.geometry);
+
+// addData не возвращает созданный слой — ловим его по layeradd
+const addFeatureLayer = (group: L.GeoJSON, feature: GeoJSON.Feature) => {
+  const added: L.Layer[] = [];
+  const capture = (ev: L.LayerEvent) => added.push(ev.layer);
+  group.on('layeradd', capture);
+  group.addData(feature);
+  group.off('layeradd', capture);
+  return added[0];
+};
+
+const boundsToBbox = (b: L.LatLngBounds): [number, number, number, number] => [
+  b.getWest(),
+  b.getSouth(),
+  b.getEast(),
+  b.getNorth(),
+];
 
 export const useWfsLayer = (options: {
   mapRef: React.MutableRefObject<L.Map | null>;
   layerControlRef: React.MutableRefObject<L.Control.Layers | null>;
+  // true once the map and the layer control exist
+  mapReady?: boolean;
   wfsUrl?: string;
   wfsTypeName?: string;
-  popupOptions?: L.PopupOptions;
+  // CRS requested from the server; features are reprojected to WGS84 on parse
+  wfsSrsName?: string;
+  // overlay name in the layer control, the type name by default
+  title?: string;
+  // show the layer (and load it) right after the map is created
+  visible?: boolean;
+  // map pane of the features: draw order and opacity of the layer
+  pane?: string;
+  // features per GetFeature page and the cap for one cache cell
+  pageSize?: number;
+  maxFeatures?: number;
+  // features kept in the cell cache before off-screen cells are evicted
+  cacheBudget?: number;
+  // above this many features the layer is drawn on Canvas with a coarser smoothFactor
+  canvasThreshold?: number;
+  // rule-based style of the features, evaluated on the client
+  style?: VectorStyle;
 }) => {
-  const { mapRef, layerControlRef, wfsUrl, wfsTypeName, popupOptions } =
-    options;
+  const {
+    mapRef,
+    layerControlRef,
+    mapReady,
+    wfsUrl,
+    wfsTypeName,
+    wfsSrsName = 'EPSG:4326',
+    title,
+    visible = false,
+    pane,
+    pageSize = 500,
+    maxFeatures = 2000,
+    cacheBudget = 10000,
+    canvasThreshold = 3000,
+    style = DEFAULT_VECTOR_STYLE,
+  } = options;
   const geoJsonRef = useRef<L.GeoJSON | null>(null);
   const abortRef = useRef<AbortController | null>(null);
+  const [status, setStatus] = useState<WfsLoadStatus>(IDLE_STATUS);
+  const [schema, setSchema] = useState<FeatureTypeSchema | null>(null);
+  // активный фильтр запроса; пока он задан, слой не перезагружается по экстенту
+  const filterRef = useRef<FilterNode | null>(null);
+  // условие по времени со шкалы времени; добавляется ко всем запросам слоя
+  const timeFilterRef = useRef<FilterNode | null>(null);
+  // false, пока в слое есть несохранённые правки: перезагрузка их бы стёрла
+  const autoReloadRef = useRef(true);
+  // R-дерево объектов слоя для определения по клику без запроса к серверу
+  const indexRef = useRef(new FeatureIndex<L.Layer>());
+  // в слое весь результат запроса по фильтру
+  const filterCompleteRef = useRef(false);
+  // кэш объектов экстента по ячейкам сетки
+  const cacheRef = useRef(new FeatureGridCache<L.Layer>());
+  const queueRef = useRef<GridCell[]>([]);
+  const activeRef = useRef(0);
+  const cellAbortRef = useRef<AbortController | null>(null);
+  // ячейки текущего экстента — для сводки в status
+  const viewCellsRef = useRef<GridCell[]>([]);
+  const staleRef = useRef<StaleFeatures | null>(null);
+  const failedRef = useRef(false);
+  const idleRef = useRef<Array<() => void>>([]);
+  // стиль для новых объектов и пересчёта при смене масштаба
+  const styleRef = useRef(style);
+  // прочитанная доля ответов по загружаемым ячейкам
+  const cellProgressRef = useRef(new Map<string, number>());
+
+  const service = useMemo(
+    () => (wfsUrl ? new WFSService(wfsUrl) : null),
+    [wfsUrl]
+  );
+
+  // abort previous request explicitly (we want only last one live)
+  const startRequest = useCallback(() => {
+    try {
+      abortRef.current?.abort();
+    } catch (e) {
+      // ignore
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  }, []);
 
   const fetchForBbox = useCallback(
-    async (bbox?: string) => {
-      if (!wfsUrl || !wfsTypeName) return null;
-      const bboxParam = bbox ? `&bbox=${bbox},EPSG:4326` : '';
-      const url = `${wfsUrl}?service=WFS&version=1.1.0&request=GetFeature&typeName=${wfsTypeName}${bboxParam}`;
+    // bbox: "minLng,minLat,maxLng,maxLat" в WGS84; signal — отмена вызывающим,
+    // загрузку слоя (abortRef) запрос не прерывает
+    async (bbox?: string, signal?: AbortSignal) => {
+      if (!service || !wfsTypeName) return null;
+      const query: WfsQuery = {
+        typeName: wfsTypeName,
+        srsName: wfsSrsName,
+        filter: timeFilterRef.current,
+      };
+      if (bbox) {
+        const [minLng, minLat, maxLng, maxLat] = bbox.split(',').map(Number);
+        query.bbox = [minLng, minLat, maxLng, maxLat];
+      }
+
+      // ошибки и отмена — вызывающему: определение покажет их на вкладке
+      const { collection } = await service.getFeatures(query, {
+        count: maxFeatures,
+        signal,
+      });
+      return collection;
+    },
+    [service, wfsTypeName, wfsSrsName, maxFeatures]
+  );
+
+  /**
+   * Загрузка запроса в слой: сначала число объектов (hits), затем страницы,
+   * которые добавляются в слой по мере получения
+   */
+  const loadQueryIntoLayer = useCallback(
+    async (layer: L.GeoJSON, query: WfsQuery) => {
+      if (!service) return null;
+      const controller = startRequest();
+      const { signal } = controller;
+      const filtered = !!query.filter;
+      // до конца загрузки слой неполон — определение идёт на сервер
+      filterCompleteRef.current = false;
+      setStatus({ ...IDLE_STATUS, loading: true, filtered });
 
-      // abort previous request explicitly (we want only last one live)
       try {
-        abortRef.current?.abort();
-      } catch (e) {
-        // ignore
+        const total = await service.getHits(query, signal).catch((err) => {
+          if (err?.name === 'AbortError') throw err;
+          console.warn('WFS hits request failed', err);
+          return null;
+        });
+        // ожидаемое число объектов — для доли выполненного
+        const expected = total !== null ? Math.min(total, maxFeatures) : null;
+        if (total !== null) {
+          setStatus({
+            loading: true,
+            loaded: 0,
+            total,
+            limited: total > maxFeatures,
+            filtered,
+            progress: 0,
+          });
+        }
+
+        let first = true;
+        const info = await service.getFeaturePages(
+          query,
+          (page, pageInfo) => {
+            if (signal.aborted) return;
+            // старые объекты убираем только с приходом первой страницы
+            if (first) {
+              layer.clearLayers();
+              first = false;
+            }
+            layer.addData(page);
+            const knownTotal = total ?? pageInfo.total;
+            setStatus((prev) => ({
+              loading: !pageInfo.done,
+              loaded: pageInfo.loaded,
+              total: knownTotal,
+              limited: knownTotal !== null && knownTotal > pageInfo.loaded,
+              filtered,
+              progress: expected
+                ? Math.min(1, pageInfo.loaded / expected)
+                : prev.progress,
+            }));
+          },
+          {
+            pageSize,
+            maxFeatures,
+            signal,
+            total,
+            // без hits долю оцениваем по байтам текущей страницы
+            onProgress: (progress) => {
+              if (expected || !progress.totalBytes || signal.aborted) return;
+              const fraction = progress.bytes / progress.totalBytes;
+              setStatus((prev) => ({
+                ...prev,
+                progress: Math.min(1, fraction),
+              }));
+            },
+          }
+        );
+        // запрос без результатов: страница пустая, но слой всё равно очищаем
+        if (first) layer.clearLayers();
+        // без numberMatched полнота видна только по недобору до лимита
+        const complete =
+          info.total !== null
+            ? info.loaded >= info.total
+            : info.loaded < maxFeatures;
+        filterCompleteRef.current = complete && !signal.aborted;
+        return info;
+      } catch (err) {
+        if ((err as Error)?.name === 'AbortError') {
+          console.info('WFS load aborted', query.typeName);
+          return null;
+        }
+        console.error('WFS load error', err, query.typeName);
+        setStatus({ ...IDLE_STATUS, filtered });
+        throw err;
       }
+    },
+    [service, pageSize, maxFeatures, startRequest]
+  );
 
-      // create a new controller and use it locally
-      const controller = new AbortController();
-      abortRef.current = controller;
+  const updateCellStatus = useCallback(() => {
+    const { loaded, total, limited } = cacheRef.current.stats(
+      viewCellsRef.current
+    );
+    const loading = activeRef.current > 0 || queueRef.current.length > 0;
+    // доля ячеек экстента: загруженные целиком плюс прочитанная часть текущих
+    const view = viewCellsRef.current.length;
+    const inFlight = Array.from(cellProgressRef.current.values());
+    const ready =
+      view -
+      queueRef.current.length -
+      inFlight.length +
+      inFlight.reduce((sum, fraction) => sum + fraction, 0);
+    setStatus({
+      loading,
+      loaded,
+      total,
+      limited,
+      filtered: false,
+      progress: loading && view ? Math.max(0, Math.min(1, ready / view)) : null,
+    });
+  }, []);
 
-      // defensive: if someone aborted controller synchronously (unlikely) — bail out
-      if (controller.signal.aborted) {
-        console.info('WFS fetch cancelled before start');
-        return null;
+  // все запросы ячеек завершены: уборка устаревших объектов и выгрузка
+  // далёких ячеек сверх бюджета
+  const settleCells = useCallback(
+    (layer: L.GeoJSON) => {
+      const stale = staleRef.current;
+      const aborted = cellAbortRef.current?.signal.aborted ?? true;
+      if (stale && !failedRef.current && !aborted) {
+        stale.layers.forEach((l) => {
+          if (layer.hasLayer(l)) layer.removeLayer(l);
+        });
+        staleRef.current = null;
       }
+      failedRef.current = false;
+      const map = mapRef.current;
+      if (map)
+        cacheRef.current.evict(
+          cacheBudget,
+          boundsToBbox(map.getBounds().pad(0.5)),
+          (l) => layer.removeLayer(l)
+        );
+      updateCellStatus();
+      idleRef.current.splice(0).forEach((resolve) => resolve());
+    },
+    [mapRef, cacheBudget, updateCellStatus]
+  );
 
+  // объекты одной ячейки, все страницы; дубликаты с соседними ячейками
+  // отсеиваются по идентификатору
+  const loadCell = useCallback(
+    async (layer: L.GeoJSON, cell: GridCell, signal: AbortSignal) => {
+      if (!service || !wfsTypeName) return;
+      const cache = cacheRef.current;
+      const progress = cellProgressRef.current;
+      cache.begin(cell);
+      progress.set(cell.key, 0);
       try {
-        const resp = await fetch(url, { signal: controller.signal });
-        if (!resp.ok) {
-          console.warn('WFS fetch failed', resp.status, resp.statusText, url);
-          return null;
+        const info = await service.getFeaturePages(
+          {
+            typeName: wfsTypeName,
+            srsName: wfsSrsName,
+            bbox: cell.bbox,
+            filter: timeFilterRef.current,
+          },
+          (page) => {
+            if (signal.aborted) return;
+            page.features.forEach((feature) => {
+              if (!feature.geometry) return;
+              const id = featureKey(feature);
+              cache.add(cell, id, () => {
+                const stale = staleRef.current;
+                const previous = stale?.byId.get(id);
+                if (stale && previous) {
+                  stale.byId.delete(id);
+                  stale.layers.delete(previous);
+                  layer.removeLayer(previous);
+                }
+                return addFeatureLayer(layer, feature);
+              });
+            });
+            updateCellStatus();
+          },
+          {
+            pageSize,
+            maxFeatures,
+            signal,
+            onProgress: ({ bytes, totalBytes }) => {
+              if (!totalBytes || signal.aborted) return;
+              progress.set(cell.key, Math.min(1, bytes / totalBytes));
+              updateCellStatus();
+            },
+          }
+        );
+        const complete =
+          info.total !== null
+            ? info.loaded >= info.total
+            : info.loaded < maxFeatures;
+        cache.finish(cell, complete ? 'complete' : 'limited', info.total);
+      } catch (err) {
+        cache.finish(cell, 'partial', null);
+        if ((err as Error)?.name !== 'AbortError') {
+          console.warn('WFS cell load failed', cell.key, err);
+          failedRef.current = true;
         }
-        const text = await resp.text();
-        const fc = parseWfsXmlToGeoJson(text);
-        return fc;
-      } catch (err: any) {
-        if (err && err.name === 'AbortError') {
-          // expected — cancelled
-          console.info('WFS fetch aborted', url);
-          return null;
+      } finally {
+        progress.delete(cell.key);
+      }
+    },
+    [service, wfsTypeName, wfsSrsName, pageSize, maxFeatures, updateCellStatus]
+  );
+
+  /**
+   * Догрузка экстента: запрашиваются только ячейки, которых нет в кэше,
+   * объекты на экране не перерисовываются. Промис завершается, когда
+   * очередь ячеек пуста
+   */
+  const loadCells = useCallback(
+    (layer: L.GeoJSON, map: L.Map) => {
+      const cache = cacheRef.current;
+      const cells = gridCells(
+        boundsToBbox(map.getBounds()),
+        gridLevel(map.getZoom())
+      );
+      viewCellsRef.current = cells;
+      cache.touch(cells);
+      // ячейки прежнего экстента, до которых очередь не дошла, не нужны
+      queueRef.current = cells.filter((cell) => !cache.isLoaded(cell));
+
+      const done = new Promise<void>((resolve) =>
+        idleRef.current.push(resolve)
+      );
+      if (!cellAbortRef.current || cellAbortRef.current.signal.aborted)
+        cellAbortRef.current = new AbortController();
+      // исполнитель берёт ячейки из общей очереди, пока её не отменят;
+      // прерванный сбросом продолжает уже с новым контроллером
+      const worker = async () => {
+        try {
+          for (;;) {
+            const signal = cellAbortRef.current?.signal;
+            if (!signal || signal.aborted || !queueRef.current.length) break;
+            const cell = queueRef.current.shift() as GridCell;
+            await loadCell(layer, cell, signal);
+          }
+        } finally {
+          activeRef.current--;
+          if (!activeRef.current) settleCells(layer);
         }
-        console.error('WFS fetch error', err, url);
-        return null;
+      };
+      while (
+        activeRef.current < CELL_CONCURRENCY &&
+        activeRef.current < queueRef.current.length
+      ) {
+        activeRef.current++;
+        worker();
       }
+      if (!activeRef.current) settleCells(layer);
+      else updateCellStatus();
+      return done;
     },
-    [wfsUrl, wfsTypeName]
+    [loadCell, settleCells, updateCellStatus]
   );
 
+  const abortCells = useCallback(() => {
+    cellAbortRef.current?.abort();
+    queueRef.current = [];
+    cacheRef.current.abortLoading();
+  }, []);
+
+  /**
+   * Сброс кэша ячеек. С keepStale объекты остаются на карте,
+   * пока не придут их новые версии; иначе слой очищает вызывающий
+   */
+  const resetCells = useCallback(
+    (layer: L.GeoJSON, keepStale: boolean) => {
+      abortCells();
+      const previous = cacheRef.current.reset();
+      viewCellsRef.current = [];
+      if (!keepStale) {
+        staleRef.current = null;
+        return;
+      }
+      const stale = staleRef.current;
+      previous.forEach((l, id) => stale?.byId.set(id, l));
+      staleRef.current = {
+        byId: stale?.byId ?? previous,
+        layers: new Set(layer.getLayers()),
+      };
+    },
+    [abortCells]
+  );
+
+  // объекты экстента либо, если задан фильтр, весь результат запроса
+  const loadLayer = useCallback(
+    async (layer: L.GeoJSON, map: L.Map) => {
+      if (!wfsTypeName) return;
+      const filter = filterRef.current;
+      if (!filter) return loadCells(layer, map);
+      resetCells(layer, false);
+      await loadQueryIntoLayer(layer, {
+        typeName: wfsTypeName,
+        srsName: wfsSrsName,
+        filter: andFilters(filter, timeFilterRef.current),
+      });
+    },
+    [wfsTypeName, wfsSrsName, loadCells, resetCells, loadQueryIntoLayer]
+  );
+
+  // схема типа (DescribeFeatureType) — один запрос на тип, кэшируется в сервисе
   useEffect(() => {
-    const map = mapRef.current;
-    if (!map || !wfsUrl || !wfsTypeName) return;
-
-    // create layer
-    const layer = L.geoJSON(null, {
-      onEachFeature: (feature, layer) => {
-        const props = (feature.properties || {}) as Record<string, any>;
-        const html = `<div>${Object.entries(props)
-          .map(([k, v]) => `<strong>${k}</strong>: ${String(v)}`)
-          .join('<br/>')}</div>`;
-        layer.bindPopup(html, popupOptions);
-      },
-      style: () => ({
-        color: '#ff7800',
-        weight: 2,
-        opacity: 0.9,
-        fillOpacity: 0.2,
-      }),
+    if (!service || !wfsTypeName) return;
+    let active = true;
+    service.getSchema(wfsTypeName).then((result) => {
+      if (!active) return;
+      setSchema(result);
     });
+    return () => {
+      active = false;
+    };
+  }, [service, wfsTypeName]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortCells();
+    setStatus((prev) => ({ ...prev, loading: false }));
+  }, [abortCells]);
+
+  /**
+   * Запрос по фильтру (POST GetFeature): результат заменяет объекты слоя,
+   * слой включается и карта приближается к найденным объектам.
+   * Ошибка сервера пробрасывается вызывающему.
+   */
+  const runQuery = useCallback(
+    async (filter: FilterNode) => {
+      const map = mapRef.current;
+      const layer = geoJsonRef.current;
+      if (!map || !layer) return;
+      const normalized = normalizeFilter(filter);
+      // пустой фильтр — возврат к объектам экстента без мигания
+      if (!normalized && filterRef.current) resetCells(layer, true);
+      filterRef.current = normalized;
+      if (!map.hasLayer(layer)) layer.addTo(map);
+      await loadLayer(layer, map);
+      if (normalized && layer.getLayers().length) {
+        const bounds = layer.getBounds();
+        if (bounds.isValid())
+          map.fitBounds(bounds, { padding: [40, 40], maxZoom: 16 });
+      }
+    },
+    [mapRef, loadLayer, resetCells]
+  );
+
+  // перезагрузка слоя с текущим фильтром или экстентом
+  const reload = useCallback(async () => {
+    const map = mapRef.current;
+    const layer = geoJsonRef.current;
+    if (!map || !layer || !map.hasLayer(layer)) return;
+    if (!filterRef.current) resetCells(layer, true);
+    return loadLayer(layer, map);
+  }, [mapRef, loadLayer, resetCells]);
+
+  /**
+   * Условие по времени: объекты экстента или результат запроса
+   * перезагружаются с ним; null — без ограничения по времени
+   */
+  const setTimeFilter = useCallback(
+    async (filter: FilterNode | null) => {
+      const normalized = filter && normalizeFilter(filter);
+      if (JSON.stringify(normalized) === JSON.stringify(timeFilterRef.current))
+        return;
+      timeFilterRef.current = normalized;
+      const map = mapRef.current;
+      const layer = geoJsonRef.current;
+      // несохранённые правки не перезагружаем: условие применится при reload
+      if (!layer || !autoReloadRef.current) return;
+      // кэш ячеек собран с прежним условием
+      if (!map || !map.hasLayer(layer)) {
+        resetCells(layer, false);
+        layer.clearLayers();
+        return;
+      }
+      if (!filterRef.current) resetCells(layer, true);
+      return loadLayer(layer, map);
+    },
+    [mapRef, loadLayer, resetCells]
+  );
+
+  const setAutoReload = useCallback((enabled: boolean) => {
+    autoReloadRef.current = enabled;
+  }, []);
+
+  // сброс фильтра: слой возвращается к объектам текущего экстента
+  const clearQuery = useCallback(async () => {
+    filterRef.current = null;
+    filterCompleteRef.current = false;
+    const map = mapRef.current;
+    const layer = geoJsonRef.current;
+    if (!map || !layer || !map.hasLayer(layer)) {
+      abortRef.current?.abort();
+      if (layer) resetCells(layer, false);
+      layer?.clearLayers();
+      setStatus(IDLE_STATUS);
+      return;
+    }
+    abortRef.current?.abort();
+    resetCells(layer, true);
+    return loadLayer(layer, map);
+  }, [mapRef, loadLayer, resetCells]);
+
+  /**
+   * Объекты слоя под точкой по локальному индексу; допуск в пикселях
+   * переводится в градусы на текущем масштабе. null — область не загружена
+   * полностью, ответ нужно запросить у сервера
+   */
+  const identifyAt = useCallback(
+    (latlng: L.LatLng, tolerancePx = 5): GeoJSON.FeatureCollection | null => {
+      const map = mapRef.current;
+      if (!map) return null;
+      const center = map.latLngToContainerPoint(latlng);
+      const corner = map.containerPointToLatLng(
+        center.add([tolerancePx, -tolerancePx])
+      );
+      const tolerance = {
+        lng: Math.abs(corner.lng - latlng.lng),
+        lat: Math.abs(corner.lat - latlng.lat),
+      };
+      const covered = filterRef.current
+        ? filterCompleteRef.current
+        : gridCells(
+            [
+              latlng.lng - tolerance.lng,
+              latlng.lat - tolerance.lat,
+              latlng.lng + tolerance.lng,
+              latlng.lat + tolerance.lat,
+            ],
+            gridLevel(map.getZoom())
+          ).every((cell) => cacheRef.current.isComplete(cell));
+      if (!covered) return null;
+      const hits = indexRef.current.identify(
+        { lat: latlng.lat, lng: latlng.lng },
+        tolerance
+      );
+      return {
+        type: 'FeatureCollection',
+        features: hits.map(({ item }) => (item as L.Polyline).toGeoJSON()),
+      };
+    },
+    [mapRef]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !wfsUrl || !wfsTypeName) return;
+
+    // create layer; оформление по стилю, точки — значками на том же рендерере
+    const layer: L.GeoJSON = L.geoJSON(
+      null,
+      styledGeoJsonOptions(
+        () => styleRef.current,
+        () => map.getZoom(),
+        {
+          ...(pane ? { pane } : {}),
+          getRenderer: () => (layer.options as L.PathOptions).renderer,
+        }
+      )
+    );
     geoJsonRef.current = layer;
 
+    // индекс следует за составом слоя: загрузка, очистка, правка геометрии
+    const index = indexRef.current;
+    const cache = cacheRef.current;
+    const indexLayer = (l: L.Layer) => {
+      const feature = (l as L.GeoJSON).feature as GeoJSON.Feature | undefined;
+      index.insert(
+        l,
+        feature?.geometry ??
+          ((l as L.Polyline).toGeoJSON?.() as GeoJSON.Feature | undefined)
+            ?.geometry
+      );
+    };
+    const onLayerAdd = (ev: L.LayerEvent) => indexLayer(ev.layer);
+    const onLayerRemove = (ev: L.LayerEvent) => index.remove(ev.layer);
+    const onFeatureEdit = (ev: L.LeafletEvent) => {
+      const edited = ev.propagatedFrom as L.Polyline | undefined;
+      if (edited) index.insert(edited, edited.toGeoJSON().geometry);
+    };
+    layer.on('layeradd', onLayerAdd);
+    layer.on('layerremove', onLayerRemove);
+    layer.on('pm:edit', onFeatureEdit);
+
+    // режим отрисовки по числу объектов: SVG для небольших слоёв,
+    // Canvas с более грубым smoothFactor для больших
+    const canvasRenderer = L.canvas({
+      padding: 0.5,
+      tolerance: 4,
+      ...(pane ? { pane } : {}),
+    });
+    let mode: WfsRenderMode = 'svg';
+    const applyRenderMode = (next: WfsRenderMode) => {
+      mode = next;
+      const pathOptions: L.PathOptions & L.PolylineOptions =
+        next === 'canvas'
+          ? { renderer: canvasRenderer, smoothFactor: CANVAS_SMOOTH_FACTOR }
+          : { renderer: undefined, smoothFactor: 1 };
+      // новые объекты получают рендерер из опций слоя
+      Object.assign(layer.options, pathOptions);
+      // рендерер назначается при добавлении на карту — переставляем объекты;
+      // сам слой с карты не снимаем, иначе контрол слоёв отменит загрузку
+      layer.eachLayer((l) => {
+        const path = l as L.Path;
+        if (path.pm?.enabled()) return;
+        const onMap = map.hasLayer(path);
+        if (onMap) path.remove();
+        Object.assign(path.options, pathOptions);
+        if (onMap) path.addTo(map);
+      });
+    };
+    let modeTimer: ReturnType<typeof setTimeout> | null = null;
+    // проверка после пачки добавлений или удалений, а не на каждом объекте
+    const scheduleModeCheck = () => {
+      if (modeTimer) return;
+      modeTimer = setTimeout(() => {
+        modeTimer = null;
+        const count = index.size;
+        if (mode === 'svg' && count > canvasThreshold)
+          applyRenderMode('canvas');
+        else if (
+          mode === 'canvas' &&
+          count < canvasThreshold * SVG_RETURN_RATIO
+        )
+          applyRenderMode('svg');
+      }, 0);
+    };
+    layer.on('layeradd layerremove', scheduleModeCheck);
+
+    // правила с диапазонами масштаба пересчитываются после смены масштаба
+    const onZoomEnd = () => {
+      if (styleDependsOnZoom(styleRef.current))
+        restyleGeoJson(layer, styleRef.current, map.getZoom());
+    };
+    map.on('zoomend', onZoomEnd);
+
     try {
-      layerControlRef.current?.addOverlay(layer, `WFS: ${wfsTypeName}`);
+      layerControlRef.current?.addOverlay(
+        layer,
+        `WFS: ${title ?? wfsTypeName}`
+      );
     } catch (e) {
       // some Leaflet builds don't expose addOverlay in the same way — ignore
     }
@@ -92,14 +741,11 @@ export const useWfsLayer = (options: {
       if (ev.layer !== layer) return;
       if (!map) return;
       try {
-        const b = map.getBounds();
-        const bbox = `${b.getSouthWest().lng},${b.getSouthWest().lat},${
-          b.getNorthEast().lng
-        },${b.getNorthEast().lat}`;
-        const fc = await fetchForBbox(bbox);
-        if (fc && fc.features && fc.features.length) {
-          layer.clearLayers();
-          layer.addData(fc);
+        if (!map.hasLayer(layer)) layer.addTo(map);
+        if (!autoReloadRef.current) return;
+        await loadLayer(layer, map);
+        // объекты экстента и так на экране; к результату запроса приближаемся
+        if (filterRef.current && layer.getLayers().length) {
           try {
             const bounds = layer.getBounds();
             if (bounds && bounds.isValid())
@@ -107,10 +753,7 @@ export const useWfsLayer = (options: {
           } catch (fitErr) {
             console.warn('WFS fitBounds failed', fitErr);
           }
-        } else {
-          console.info('WFS overlay loaded 0 features or fetch was cancelled');
         }
-        if (!map.hasLayer(layer)) layer.addTo(map);
       } catch (err) {
         if ((err as any)?.name !== 'AbortError') {
           console.warn('WFS overlay load failed', err);
@@ -120,10 +763,13 @@ export const useWfsLayer = (options: {
 
     const onOverlayRemove = (ev: L.LayersControlEvent) => {
       if (ev.layer !== layer) return;
-      // cancel in-flight requests and remove layer from map
+      // cancel in-flight requests and remove layer from map;
+      // cached cells stay for the next time the overlay is shown
       try {
         abortRef.current?.abort();
       } catch (e) {}
+      abortCells();
+      setStatus(IDLE_STATUS);
       try {
         if (map.hasLayer(layer)) map.removeLayer(layer);
       } catch (e) {}
@@ -132,19 +778,12 @@ export const useWfsLayer = (options: {
     // debounce on moveend
     let moveTimer: any = null;
     const onMoveEnd = () => {
-      if (!map.hasLayer(layer)) return;
+      if (!map.hasLayer(layer) || filterRef.current || !autoReloadRef.current)
+        return;
       if (moveTimer) clearTimeout(moveTimer);
       moveTimer = setTimeout(async () => {
         try {
-          const b = map.getBounds();
-          const bbox = `${b.getSouthWest().lng},${b.getSouthWest().lat},${
-            b.getNorthEast().lng
-          },${b.getNorthEast().lat}`;
-          const fc = await fetchForBbox(bbox);
-          if (fc) {
-            layer.clearLayers();
-            layer.addData(fc);
-          }
+          await loadLayer(layer, map);
         } catch (err) {
           if ((err as any)?.name !== 'AbortError')
             console.warn('WFS reload failed', err);
@@ -155,14 +794,28 @@ export const useWfsLayer = (options: {
     map.on('overlayadd', onOverlayAdd);
     map.on('overlayremove', onOverlayRemove);
     map.on('moveend', onMoveEnd);
+    // контрол слоёв отвечает на добавление слоя событием overlayadd — загрузка
+    if (visible) layer.addTo(map);
 
     return () => {
       map.off('overlayadd', onOverlayAdd);
       map.off('overlayremove', onOverlayRemove);
       map.off('moveend', onMoveEnd);
+      map.off('zoomend', onZoomEnd);
+      layer.off('layeradd', onLayerAdd);
+      layer.off('layerremove', onLayerRemove);
+      layer.off('pm:edit', onFeatureEdit);
+      layer.off('layeradd layerremove', scheduleModeCheck);
+      if (modeTimer) clearTimeout(modeTimer);
+      canvasRenderer.remove();
       try {
         abortRef.current?.abort();
       } catch (e) {}
+      abortCells();
+      cache.reset();
+      staleRef.current = null;
+      viewCellsRef.current = [];
+      index.clear();
       // remove layer from map/control
       try {
         if (map.hasLayer(layer)) map.removeLayer(layer);
@@ -174,14 +827,37 @@ export const useWfsLayer = (options: {
   }, [
     mapRef,
     layerControlRef,
+    mapReady,
     wfsUrl,
     wfsTypeName,
-    popupOptions,
-    fetchForBbox,
+    title,
+    visible,
+    pane,
+    canvasThreshold,
+    loadLayer,
+    abortCells,
   ]);
 
+  // смена стиля перекрашивает загруженные объекты без перезагрузки
+  useEffect(() => {
+    styleRef.current = style;
+    const map = mapRef.current;
+    const layer = geoJsonRef.current;
+    if (map && layer) restyleGeoJson(layer, style, map.getZoom());
+  }, [mapRef, style]);
+
   return {
     geoJsonLayer: geoJsonRef,
     fetchForBbox,
+    identifyAt,
+    status,
+    schema,
+    cancel,
+    runQuery,
+    clearQuery,
+    reload,
+    setTimeFilter,
+    setAutoReload,
+    service,
   };
 };
@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import { WMSService } from '../services/WMSService';
+import { chooseInfoFormat, FeatureInfo } from '../utils/featureInfo';
+import { removeFromLayerControl } from '../utils/layerControl';
+import {
+  namedWmsLayers,
+  WmsCapabilities,
+  WmsLayerInfo,
+  wmsTimeDimension,
+  WmsVersion,
+} from '../utils/wmsCapabilities';
+
+export interface WmsActiveLayer {
+  // L.stamp оверлея
+  id: number;
+  info: WmsLayerInfo;
+  style: string;
+  format: string;
+  // оверлей включён в контроле слоёв
+  visible: boolean;
+}
+
+export interface WmsLayerSettings {
+  style?: string;
+  format?: string;
+}
+
+// слой из проекта карты
+export interface WmsInitialLayer extends WmsLayerSettings {
+  name: string;
+  // подпись вместо заголовка из capabilities
+  title?: string;
+  visible?: boolean;
+  // прозрачность, порядок отрисовки и другие параметры оверлея
+  options?: L.WMSOptions;
+}
+
+// без capabilities слой из настроек запрашивается по 1.1.1, как раньше
+const FALLBACK_VERSION: WmsVersion = '1.1.1';
+
+// слой, известный только по имени (capabilities недоступны или его там нет)
+const layerByName = (name: string): WmsLayerInfo => ({
+  name,
+  title: name,
+  abstract: null,
+  queryable: false,
+  crs: [],
+  bbox: null,
+  minScaleDenominator: null,
+  maxScaleDenominator: null,
+  styles: [],
+  dimensions: [],
+  children: [],
+});
+
+/**
+ * Слои WMS из capabilities сервера как оверлеи карты: добавление,
+ * смена стиля и формата, адреса легенд
+ */
+export const useWmsLayers = (options: {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  layerControlRef: React.MutableRefObject<L.Control.Layers | null>;
+  mapReady?: boolean;
+  wmsUrl?: string;
+  // слои проекта карты, в его порядке
+  initialLayers?: WmsInitialLayer[];
+  // параметр TIME для слоёв с измерением времени; null — значение сервера
+  time?: string | null;
+}) => {
+  const {
+    mapRef,
+    layerControlRef,
+    mapReady,
+    wmsUrl,
+    initialLayers,
+    time = null,
+  } = options;
+  const service = useMemo(
+    () => (wmsUrl ? new WMSService(wmsUrl) : null),
+    [wmsUrl]
+  );
+  const [capabilities, setCapabilities] = useState<WmsCapabilities | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [layers, setLayers] = useState<WmsActiveLayer[]>([]);
+  const overlaysRef = useRef(new Map<number, L.TileLayer.WMS>());
+  // слои проекта уже добавлены на эту карту
+  const initialAddedRef = useRef(false);
+  // время для новых слоёв без пересоздания addLayer на каждом шаге шкалы
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    setCapabilities(null);
+    setError(null);
+    if (!service) return;
+    let cancelled = false;
+    setLoading(true);
+    service
+      .getCapabilities()
+      .then((caps) => {
+        if (!cancelled) setCapabilities(caps);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn('WMS capabilities error', err);
+        setError('Не удалось получить описание сервиса WMS');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [service]);
+
+  const version = capabilities?.version ?? FALLBACK_VERSION;
+
+  const addLayer = useCallback(
+    (
+      info: WmsLayerInfo,
+      settings: WmsLayerSettings = {},
+      show = true,
+      layerOptions: L.WMSOptions = {}
+    ) => {
+      const map = mapRef.current;
+      if (!map || !service || !info.name) return;
+      const style = settings.style ?? info.styles[0]?.name ?? '';
+      const format = settings.format ?? 'image/png';
+      const timeParams =
+        timeRef.current && wmsTimeDimension(info)
+          ? { time: timeRef.current }
+          : {};
+      const layer = service.createLayer(info, version, {
+        style,
+        format,
+        options: { ...layerOptions, ...timeParams },
+      });
+      const id = L.stamp(layer);
+      overlaysRef.current.set(id, layer);
+      layerControlRef.current?.addOverlay(layer, `WMS: ${info.title}`);
+      if (show) layer.addTo(map);
+      setLayers((prev) => [
+        ...prev,
+        { id, info, style, format, visible: show },
+      ]);
+    },
+    [mapRef, layerControlRef, service, version]
+  );
+
+  const updateLayer = useCallback((id: number, settings: WmsLayerSettings) => {
+    const layer = overlaysRef.current.get(id);
+    if (!layer) return;
+    const params: Partial<L.WMSParams> = {};
+    if (settings.style !== undefined) params.styles = settings.style;
+    if (settings.format !== undefined) params.format = settings.format;
+    // setParams дополняет текущие параметры, а не заменяет их
+    layer.setParams(params as L.WMSParams);
+    setLayers((prev) =>
+      prev.map((l) => (l.id === id ? { ...l, ...settings } : l))
+    );
+  }, []);
+
+  const removeLayer = useCallback(
+    (id: number) => {
+      const layer = overlaysRef.current.get(id);
+      if (!layer) return;
+      layerControlRef.current?.removeLayer(layer);
+      layer.remove();
+      overlaysRef.current.delete(id);
+      setLayers((prev) => prev.filter((l) => l.id !== id));
+    },
+    [layerControlRef]
+  );
+
+  // формат ответа GetFeatureInfo; null — сервер запрос не поддерживает
+  const infoFormat = capabilities
+    ? chooseInfoFormat(capabilities.featureInfoFormats)
+    : null;
+
+  /**
+   * GetFeatureInfo слоя в точке по текущему виду карты, с его стилем и TIME;
+   * null — слой не поддерживает запрос
+   */
+  const getFeatureInfo = useCallback(
+    async (
+      id: number,
+      latlng: L.LatLng,
+      signal?: AbortSignal
+    ): Promise<FeatureInfo | null> => {
+      const map = mapRef.current;
+      const active = layers.find((l) => l.id === id);
+      const layer = overlaysRef.current.get(id);
+      if (!map || !service || !infoFormat || !active?.info.queryable || !layer)
+        return null;
+      const bounds = map.getBounds();
+      const sw = L.CRS.EPSG3857.project(bounds.getSouthWest());
+      const ne = L.CRS.EPSG3857.project(bounds.getNorthEast());
+      const size = map.getSize();
+      const point = map.latLngToContainerPoint(latlng);
+      const time = (layer.wmsParams as L.WMSParams & { time?: string }).time;
+      return service.getFeatureInfo(
+        active.info,
+        version,
+        {
+          bbox: [sw.x, sw.y, ne.x, ne.y],
+          srsName: 'EPSG:3857',
+          width: size.x,
+          height: size.y,
+          x: point.x,
+          y: point.y,
+          infoFormat,
+          style: active.style,
+          params: time ? { time } : undefined,
+        },
+        signal
+      );
+    },
+    [mapRef, layers, service, infoFormat, version]
+  );
+
+  const legendUrl = useCallback(
+    (layer: WmsActiveLayer) =>
+      service?.legendUrl(layer.info, version, layer.style) ?? null,
+    [service, version]
+  );
+
+  // шаг шкалы времени — новый TIME у слоёв, зависящих от времени
+  useEffect(() => {
+    layers.forEach(({ id, info }) => {
+      const layer = overlaysRef.current.get(id);
+      if (!layer || !wmsTimeDimension(info)) return;
+      const params = layer.wmsParams as L.WMSParams & { time?: string };
+      if ((params.time ?? null) === time) return;
+      if (time) {
+        const next = { ...params, time };
+        layer.setParams(next);
+      } else {
+        // без TIME сервер отдаёт значение по умолчанию
+        delete params.time;
+        layer.redraw();
+      }
+    });
+  }, [layers, time]);
+
+  // оверлеи живут вместе с картой; видимость следует за контролом слоёв
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !service) return;
+    const control = layerControlRef.current;
+    const overlays = overlaysRef.current;
+    const onVisibility = (ev: L.LayerEvent) => {
+      const id = L.stamp(ev.layer);
+      if (!overlays.has(id)) return;
+      const visible = ev.type === 'layeradd';
+      setLayers((prev) =>
+        prev.map((l) => (l.id === id ? { ...l, visible } : l))
+      );
+    };
+    map.on('layeradd layerremove', onVisibility);
+    return () => {
+      map.off('layeradd layerremove', onVisibility);
+      overlays.forEach((layer) => {
+        removeFromLayerControl(control, layer);
+        layer.remove();
+      });
+      overlays.clear();
+      initialAddedRef.current = false;
+      setLayers([]);
+    };
+  }, [mapRef, layerControlRef, mapReady, service]);
+
+  // слои проекта — после capabilities, чтобы запрашивать их в версии сервера
+  useEffect(() => {
+    if (!mapReady || !initialLayers?.length || loading) return;
+    if (initialAddedRef.current || (!capabilities && !error)) return;
+    initialAddedRef.current = true;
+    const named = namedWmsLayers(capabilities?.layers ?? []);
+    initialLayers.forEach((l) => {
+      const info = named.find((n) => n.name === l.name) ?? layerByName(l.name);
+      addLayer(
+        l.title ? { ...info, title: l.title } : info,
+        { style: l.style, format: l.format },
+        l.visible ?? true,
+        l.options
+      );
+    });
+  }, [mapReady, initialLayers, capabilities, error, loading, addLayer]);
+
+  return {
+    service,
+    capabilities,
+    loading,
+    error,
+    layers,
+    addLayer,
+    updateLayer,
+    removeLayer,
+    legendUrl,
+    infoFormat,
+    getFeatureInfo,
+  };
+};
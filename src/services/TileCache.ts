@@ -0,0 +1,226 @@
+export interface TileCacheOptions {
+  dbName?: string;
+  // максимальный суммарный размер тайлов в байтах
+  maxBytes?: number;
+  // срок жизни тайла в миллисекундах
+  maxAgeMs?: number;
+}
+
+export interface TileCacheUsage {
+  count: number;
+  bytes: number;
+}
+
+interface CachedTile {
+  key: string;
+  layer: string;
+  z: number;
+  x: number;
+  y: number;
+  blob: Blob;
+  size: number;
+  storedAt: number;
+  accessedAt: number;
+}
+
+const STORE = 'tiles';
+const DB_VERSION = 1;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Кэш тайлов ZWS в IndexedDB с ограничением по размеру и сроку жизни.
+ * Вытеснение — по давности последнего обращения (LRU).
+ */
+export class TileCache {
+  dbName: string;
+  maxBytes: number;
+  maxAgeMs: number;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // суммарный размер считается один раз, дальше ведётся инкрементально
+  private bytes: number | null = null;
+
+  constructor(options: TileCacheOptions = {}) {
+    this.dbName = options.dbName ?? 'zws-tile-cache';
+    this.maxBytes = options.maxBytes ?? 200 * 1024 * 1024;
+    this.maxAgeMs = options.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000;
+  }
+
+  static isSupported() {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  // layer — слой вместе с адресом сервиса (ZWSLayer.getCacheLayer)
+  static key(layer: string, z: number, x: number, y: number) {
+    return `${layer}/${z}/${x}/${y}`;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: 'key' });
+            store.createIndex('layer', 'layer');
+            store.createIndex('accessedAt', 'accessedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // не кэшируем неудачное открытие — следующая попытка откроет заново
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async get(layer: string, z: number, x: number, y: number) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entry = (await promisify(
+      store.get(TileCache.key(layer, z, x, y))
+    )) as CachedTile | undefined;
+
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (now - entry.storedAt > this.maxAgeMs) {
+      store.delete(entry.key);
+      if (this.bytes !== null) this.bytes -= entry.size;
+      await transactionDone(tx);
+      return null;
+    }
+
+    store.put({ ...entry, accessedAt: now });
+    await transactionDone(tx);
+    return entry.blob;
+  }
+
+  async has(layer: string, z: number, x: number, y: number) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readonly');
+    const entry = (await promisify(
+      tx.objectStore(STORE).get(TileCache.key(layer, z, x, y))
+    )) as CachedTile | undefined;
+    return !!entry && Date.now() - entry.storedAt <= this.maxAgeMs;
+  }
+
+  async put(layer: string, z: number, x: number, y: number, blob: Blob) {
+    const db = await this.open();
+    const key = TileCache.key(layer, z, x, y);
+    const now = Date.now();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const previous = (await promisify(store.get(key))) as
+      | CachedTile
+      | undefined;
+    const entry: CachedTile = {
+      key,
+      layer,
+      z,
+      x,
+      y,
+      blob,
+      size: blob.size,
+      storedAt: now,
+      accessedAt: now,
+    };
+    store.put(entry);
+    await transactionDone(tx);
+
+    // put из живых тайлов и загрузки идут параллельно: счётчик меняется
+    // на разницу синхронно, без значения, прочитанного до await;
+    // пересчёт после записи уже учитывает этот тайл
+    if (this.bytes === null) await this.usageBytes(db);
+    else this.bytes += blob.size - (previous?.size ?? 0);
+    if ((this.bytes ?? 0) > this.maxBytes) await this.evict(db);
+  }
+
+  async usage(): Promise<TileCacheUsage> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readonly');
+    const entries = (await promisify(
+      tx.objectStore(STORE).getAll()
+    )) as CachedTile[];
+    const bytes = entries.reduce((acc, e) => acc + e.size, 0);
+    this.bytes = bytes;
+    return { count: entries.length, bytes };
+  }
+
+  async clear(layer?: string) {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    if (layer) {
+      const keys = await promisify(
+        store.index('layer').getAllKeys(IDBKeyRange.only(layer))
+      );
+      keys.forEach((k) => store.delete(k));
+    } else {
+      store.clear();
+    }
+    await transactionDone(tx);
+    this.bytes = null;
+  }
+
+  private async usageBytes(db: IDBDatabase) {
+    if (this.bytes !== null) return this.bytes;
+    const tx = db.transaction(STORE, 'readonly');
+    const entries = (await promisify(
+      tx.objectStore(STORE).getAll()
+    )) as CachedTile[];
+    this.bytes = entries.reduce((acc, e) => acc + e.size, 0);
+    return this.bytes;
+  }
+
+  // удаляем просроченные и самые давно использованные тайлы, пока не влезем в лимит
+  private async evict(db: IDBDatabase) {
+    const tx = db.transaction(STORE, 'readwrite');
+    const cursorRequest = tx
+      .objectStore(STORE)
+      .index('accessedAt')
+      .openCursor();
+    const now = Date.now();
+    let bytes = this.bytes ?? 0;
+    let removed = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return resolve();
+        const entry = cursor.value as CachedTile;
+        const expired = now - entry.storedAt > this.maxAgeMs;
+        if (bytes > this.maxBytes || expired) {
+          cursor.delete();
+          bytes -= entry.size;
+          removed += entry.size;
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    await transactionDone(tx);
+    // за время удаления другие put могли изменить счётчик
+    if (this.bytes !== null) this.bytes = Math.max(0, this.bytes - removed);
+  }
+}
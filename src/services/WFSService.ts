@@ -0,0 +1,525 @@
+import {
+  readCollectionCounts,
+  readExceptionReport,
+  WfsCollectionCounts,
+  WfsStreamProgress,
+} from '../utils/wfsParser';
+import { WfsParserWorker } from './WfsParserWorker';
+import { bboxToSrs, parseSrsName, toUrnSrsName } from '../utils/crs';
+import {
+  FeatureTypeSchema,
+  parseFeatureTypeSchema,
+} from '../utils/featureSchema';
+import {
+  andFilters,
+  bboxFilter,
+  fesGmlVersion,
+  fesNamespace,
+  fesVersionFor,
+  FilterNode,
+  filterToXmlBody,
+  GML_NAMESPACES,
+} from '../utils/ogcFilter';
+import {
+  buildTransactionXml,
+  checkTransactionResult,
+  parseTransactionResponse,
+  WFS_NAMESPACES,
+  WfsEdit,
+  WfsTransactionError,
+  WfsTransactionResult,
+} from '../utils/wfsTransaction';
+
+export type WfsVersion = '1.0.0' | '1.1.0' | '2.0.0';
+
+export interface WfsQuery {
+  typeName: string;
+  // [minLng, minLat, maxLng, maxLat] в WGS84
+  bbox?: [number, number, number, number];
+  srsName?: string;
+  // условие OGC Filter; запрос с фильтром отправляется POST
+  filter?: FilterNode | null;
+}
+
+export interface WfsPageInfo {
+  loaded: number;
+  // numberMatched сервера; null — сервер не сообщил
+  total: number | null;
+  done: boolean;
+}
+
+export interface WfsTransactionOptions {
+  srsName?: string;
+  // атрибуты изменяемых объектов на момент загрузки, по идентификатору
+  originals?: Record<string, Record<string, unknown>>;
+  signal?: AbortSignal;
+}
+
+export interface WfsPagingOptions {
+  pageSize?: number;
+  maxFeatures?: number;
+  signal?: AbortSignal;
+  // ход чтения текущей страницы
+  onProgress?: (progress: WfsStreamProgress) => void;
+}
+
+interface GetFeatureExtra {
+  count?: number;
+  startIndex?: number;
+  hits?: boolean;
+}
+
+const SUPPORTED_VERSIONS: WfsVersion[] = ['2.0.0', '1.1.0', '1.0.0'];
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export class WFSService {
+  url: string;
+  // версии в порядке предпочтения
+  versions: WfsVersion[];
+
+  private versionPromise: Promise<WfsVersion> | null = null;
+  // схемы DescribeFeatureType, запрашиваются один раз на тип
+  private schemas = new Map<string, Promise<FeatureTypeSchema | null>>();
+
+  constructor(url: string, versions: WfsVersion[] = SUPPORTED_VERSIONS) {
+    this.url = url;
+    this.versions = versions;
+  }
+
+  /**
+   * Согласование версии: GetCapabilities с AcceptVersions, сервер
+   * отвечает документом наибольшей поддерживаемой версии.
+   * Результат общий для всех запросов, поэтому сигнал отмены сюда не передаётся.
+   */
+  negotiateVersion(): Promise<WfsVersion> {
+    if (!this.versionPromise) {
+      const url = `${
+        this.url
+      }?service=WFS&request=GetCapabilities&AcceptVersions=${this.versions.join(
+        ','
+      )}`;
+      this.versionPromise = fetch(url)
+        .then((resp) => {
+          if (!resp.ok)
+            throw new Error(
+              `WFS capabilities: ${resp.status} ${resp.statusText}`
+            );
+          return resp.text();
+        })
+        .then((text) => this.parseCapabilitiesVersion(text))
+        .catch((err) => {
+          // без capabilities работаем по 1.1.0
+          console.warn('WFS version negotiation failed, using 1.1.0', err);
+          return '1.1.0' as WfsVersion;
+        });
+    }
+    return this.versionPromise;
+  }
+
+  parseCapabilitiesVersion(xmlText: string): WfsVersion {
+    const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+    const version = xml.documentElement?.getAttribute('version') as WfsVersion;
+    if (this.versions.includes(version)) return version;
+    // сервер вернул неизвестную версию — берём старшую из поддерживаемых
+    return (
+      this.versions.find((v) => v <= (version ?? '')) ??
+      this.versions[this.versions.length - 1]
+    );
+  }
+
+  /**
+   * Схема типа объектов; при ошибке — null, объекты тогда остаются строковыми
+   */
+  getSchema(typeName: string): Promise<FeatureTypeSchema | null> {
+    let schema = this.schemas.get(typeName);
+    if (!schema) {
+      schema = this.negotiateVersion()
+        .then((version) => {
+          const params = new URLSearchParams({
+            service: 'WFS',
+            version,
+            request: 'DescribeFeatureType',
+          });
+          params.set(version === '2.0.0' ? 'typeNames' : 'typeName', typeName);
+          return this.getText(params);
+        })
+        .then((text) => parseFeatureTypeSchema(text, typeName))
+        .catch((err) => {
+          console.warn('WFS DescribeFeatureType failed', typeName, err);
+          return null;
+        });
+      this.schemas.set(typeName, schema);
+    }
+    return schema;
+  }
+
+  // srsName в нотации версии: в 1.0.0 — краткий код с порядком x/y
+  formatSrsName(version: WfsVersion, srsName: string) {
+    if (version === '1.0.0') return parseSrsName(srsName)?.code ?? srsName;
+    return toUrnSrsName(srsName);
+  }
+
+  buildGetFeatureParams(
+    version: WfsVersion,
+    query: WfsQuery,
+    extra: GetFeatureExtra = {}
+  ) {
+    const srsName = this.formatSrsName(version, query.srsName ?? 'EPSG:4326');
+    const params = new URLSearchParams({
+      service: 'WFS',
+      version,
+      request: 'GetFeature',
+      srsName,
+    });
+    params.set(version === '2.0.0' ? 'typeNames' : 'typeName', query.typeName);
+
+    if (query.bbox) {
+      const srsBbox = bboxToSrs(query.bbox, srsName);
+      params.set(
+        'bbox',
+        version === '1.0.0'
+          ? srsBbox.join(',')
+          : `${srsBbox.join(',')},${srsName}`
+      );
+    }
+    if (extra.count !== undefined)
+      params.set(
+        version === '2.0.0' ? 'count' : 'maxFeatures',
+        String(extra.count)
+      );
+    // startIndex — стандарт 2.0, для 1.x поддерживается большинством серверов
+    if (extra.startIndex) params.set('startIndex', String(extra.startIndex));
+    if (extra.hits) params.set('resultType', 'hits');
+
+    return { params, srsName };
+  }
+
+  /**
+   * Тело POST GetFeature с условием Filter; bbox запроса добавляется к условию через And
+   */
+  buildGetFeatureXml(
+    version: WfsVersion,
+    query: WfsQuery,
+    extra: GetFeatureExtra = {},
+    schema: FeatureTypeSchema | null = null
+  ) {
+    const srsName = this.formatSrsName(version, query.srsName ?? 'EPSG:4326');
+    const fes = fesVersionFor(version);
+    const { prefix, uri } = fesNamespace(fes);
+    const filter = andFilters(
+      query.bbox ? bboxFilter(query.bbox) : null,
+      query.filter
+    );
+
+    const attrs = [
+      'service="WFS"',
+      `version="${version}"`,
+      `xmlns:wfs="${WFS_NAMESPACES[version]}"`,
+      `xmlns:${prefix}="${uri}"`,
+      `xmlns:gml="${GML_NAMESPACES[fesGmlVersion(fes)]}"`,
+    ];
+    // префикс типа объектов должен быть объявлен, иначе сервер не разрешит имя
+    const typePrefix = query.typeName.includes(':')
+      ? query.typeName.split(':')[0]
+      : null;
+    if (typePrefix && schema?.namespace)
+      attrs.push(`xmlns:${typePrefix}="${escapeAttr(schema.namespace)}"`);
+    if (extra.count !== undefined)
+      attrs.push(
+        `${version === '2.0.0' ? 'count' : 'maxFeatures'}="${extra.count}"`
+      );
+    if (extra.startIndex) attrs.push(`startIndex="${extra.startIndex}"`);
+    if (extra.hits) attrs.push('resultType="hits"');
+
+    const queryAttrs = [
+      `${version === '2.0.0' ? 'typeNames' : 'typeName'}="${escapeAttr(
+        query.typeName
+      )}"`,
+    ];
+    // в 1.0.0 у Query нет srsName — ответ приходит в системе координат слоя
+    if (version !== '1.0.0')
+      queryAttrs.push(`srsName="${escapeAttr(srsName)}"`);
+
+    const filterXml = filter
+      ? `<${prefix}:Filter>${filterToXmlBody(filter, {
+          version: fes,
+          srsName,
+          geometryName: schema?.geometryName,
+        })}</${prefix}:Filter>`
+      : '';
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?><wfs:GetFeature ${attrs.join(
+      ' '
+    )}><wfs:Query ${queryAttrs.join(
+      ' '
+    )}>${filterXml}</wfs:Query></wfs:GetFeature>`;
+    return { body, srsName: version === '1.0.0' ? null : srsName };
+  }
+
+  private async readResponse(resp: Response) {
+    if (!resp.ok)
+      throw new Error(`WFS responded: ${resp.status} ${resp.statusText}`);
+    const text = await resp.text();
+    // ошибки фильтра сервер возвращает документом ExceptionReport со статусом 200
+    const exception = readExceptionReport(text);
+    if (exception) throw new Error(`WFS exception: ${exception}`);
+    return text;
+  }
+
+  private async getText(params: URLSearchParams, signal?: AbortSignal) {
+    const url = `${this.url}?${params.toString()}`;
+    const resp = await fetch(url, { signal });
+    return this.readResponse(resp);
+  }
+
+  private post(body: string, signal?: AbortSignal) {
+    return fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/xml; charset=UTF-8' },
+      body,
+      signal,
+    });
+  }
+
+  /**
+   * GetFeature: запрос с фильтром — POST, без фильтра — GET с параметрами.
+   * srsName в ответе — та, в которой сервер вернёт геометрию.
+   */
+  private async buildFeatureRequest(
+    version: WfsVersion,
+    query: WfsQuery,
+    extra: GetFeatureExtra
+  ): Promise<{ url: string; body?: string; srsName: string | null }> {
+    if (query.filter) {
+      const schema = await this.getSchema(query.typeName);
+      const { body, srsName } = this.buildGetFeatureXml(
+        version,
+        query,
+        extra,
+        schema
+      );
+      return { url: this.url, body, srsName };
+    }
+    const { params, srsName } = this.buildGetFeatureParams(
+      version,
+      query,
+      extra
+    );
+    return { url: `${this.url}?${params.toString()}`, srsName };
+  }
+
+  private async requestFeatures(
+    version: WfsVersion,
+    query: WfsQuery,
+    extra: GetFeatureExtra,
+    signal?: AbortSignal
+  ): Promise<{ text: string; srsName: string | null }> {
+    const { url, body, srsName } = await this.buildFeatureRequest(
+      version,
+      query,
+      extra
+    );
+    const resp = await (body !== undefined
+      ? this.post(body, signal)
+      : fetch(url, { signal }));
+    return { text: await this.readResponse(resp), srsName };
+  }
+
+  /**
+   * Число объектов, удовлетворяющих запросу (resultType=hits)
+   */
+  async getHits(query: WfsQuery, signal?: AbortSignal): Promise<number | null> {
+    const version = await this.negotiateVersion();
+    // в 1.0.0 resultType нет
+    if (version === '1.0.0') return null;
+    const { text } = await this.requestFeatures(
+      version,
+      query,
+      { hits: true },
+      signal
+    );
+    const counts = readCollectionCounts(text);
+    return counts.numberMatched ?? counts.numberOfFeatures;
+  }
+
+  /**
+   * Объекты запроса; ответ читается и разбирается в Web Worker по мере
+   * получения, готовые объекты передаются в onFeatures порциями
+   */
+  async getFeatures(
+    query: WfsQuery,
+    options: {
+      count?: number;
+      startIndex?: number;
+      signal?: AbortSignal;
+      onFeatures?: (features: GeoJSON.Feature[]) => void;
+      onProgress?: (progress: WfsStreamProgress) => void;
+    } = {}
+  ): Promise<{
+    collection: GeoJSON.FeatureCollection;
+    counts: WfsCollectionCounts;
+  }> {
+    const version = await this.negotiateVersion();
+    const schema = await this.getSchema(query.typeName);
+    const { url, body, srsName } = await this.buildFeatureRequest(
+      version,
+      query,
+      { count: options.count, startIndex: options.startIndex }
+    );
+    const features: GeoJSON.Feature[] = [];
+    const counts = await WfsParserWorker.shared().stream(
+      {
+        // поток разбора разрешает относительные адреса от своего скрипта
+        url: new URL(url, window.location.href).href,
+        body,
+        parse: { srsName: srsName ?? undefined, schema },
+      },
+      {
+        onFeatures: (batch) => {
+          features.push(...batch);
+          options.onFeatures?.(batch);
+        },
+        onProgress: options.onProgress,
+      },
+      options.signal
+    );
+    return { collection: { type: 'FeatureCollection', features }, counts };
+  }
+
+  /**
+   * Постраничная загрузка: объекты передаются в onPage порциями по мере
+   * разбора ответа; done выставляется в последнем вызове
+   */
+  async getFeaturePages(
+    query: WfsQuery,
+    onPage: (page: GeoJSON.FeatureCollection, info: WfsPageInfo) => void,
+    options: WfsPagingOptions & { total?: number | null } = {}
+  ): Promise<WfsPageInfo> {
+    const {
+      pageSize = 500,
+      maxFeatures = Infinity,
+      signal,
+      onProgress,
+    } = options;
+    const version = await this.negotiateVersion();
+    let total = options.total ?? null;
+    let loaded = 0;
+
+    // 1.0.0 не умеет листать — один запрос с ограничением
+    const paged = version !== '1.0.0';
+
+    for (;;) {
+      const count = Math.min(
+        paged ? pageSize : maxFeatures,
+        maxFeatures - loaded
+      );
+      const pageStart = loaded;
+      const { counts } = await this.getFeatures(query, {
+        count: Number.isFinite(count) ? count : undefined,
+        startIndex: pageStart,
+        signal,
+        onFeatures: (features) => {
+          loaded += features.length;
+          onPage(
+            { type: 'FeatureCollection', features },
+            { loaded, total, done: false }
+          );
+        },
+        onProgress,
+      });
+      total = total ?? counts.numberMatched;
+
+      const done =
+        !paged ||
+        loaded - pageStart < count ||
+        loaded >= maxFeatures ||
+        (total !== null && loaded >= total);
+      const info = { loaded, total, done };
+      // итог страницы: объекты уже переданы порциями
+      onPage({ type: 'FeatureCollection', features: [] }, info);
+      if (done) return info;
+    }
+  }
+
+  /**
+   * Текущие версии объектов по идентификаторам
+   */
+  async getFeaturesById(
+    typeName: string,
+    ids: string[],
+    options: { srsName?: string; signal?: AbortSignal } = {}
+  ): Promise<GeoJSON.Feature[]> {
+    if (!ids.length) return [];
+    const { collection } = await this.getFeatures(
+      { typeName, srsName: options.srsName, filter: { type: 'id', ids } },
+      { signal: options.signal }
+    );
+    return collection?.features ?? [];
+  }
+
+  /**
+   * Сверка с сервером перед записью: объект удалён или его атрибуты
+   * изменились после загрузки — конфликт. Геометрия не сравнивается.
+   */
+  private async checkConflicts(
+    typeName: string,
+    originals: Record<string, Record<string, unknown>>,
+    signal?: AbortSignal
+  ) {
+    const ids = Object.keys(originals);
+    const current = await this.getFeaturesById(typeName, ids, { signal });
+    const byId = new Map(current.map((f) => [String(f.id), f]));
+    const same = (a: unknown, b: unknown) =>
+      a instanceof Date && b instanceof Date
+        ? a.getTime() === b.getTime()
+        : (a ?? null) === (b ?? null);
+
+    const conflicts = ids.filter((id) => {
+      const feature = byId.get(id);
+      if (!feature) return true;
+      const props = feature.properties ?? {};
+      return Object.entries(originals[id]).some(
+        ([name, value]) => !same(value, props[name])
+      );
+    });
+    if (conflicts.length)
+      throw new WfsTransactionError(
+        `Объекты изменены или удалены на сервере: ${conflicts.join(', ')}`,
+        'conflict',
+        conflicts
+      );
+  }
+
+  /**
+   * Транзакция WFS-T. С originals изменяемые объекты сначала сверяются
+   * с сервером; ошибки — WfsTransactionError
+   */
+  async transaction(
+    typeName: string,
+    edits: WfsEdit[],
+    options: WfsTransactionOptions = {}
+  ): Promise<WfsTransactionResult> {
+    const version = await this.negotiateVersion();
+    const schema = await this.getSchema(typeName);
+    // без схемы транзакция не собирается — до сверки с сервером
+    const body = buildTransactionXml(edits, {
+      version,
+      typeName,
+      schema,
+      srsName: this.formatSrsName(version, options.srsName ?? 'EPSG:4326'),
+    });
+    if (options.originals)
+      await this.checkConflicts(typeName, options.originals, options.signal);
+    const resp = await this.post(body, options.signal);
+    if (!resp.ok)
+      throw new WfsTransactionError(
+        `WFS responded: ${resp.status} ${resp.statusText}`,
+        'exception'
+      );
+    const result = parseTransactionResponse(await resp.text());
+    checkTransactionResult(edits, result);
+    return result;
+  }
+}
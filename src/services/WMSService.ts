@@ -0,0 +1,172 @@
+import L from 'leaflet';
+import {
+  parseWmsCapabilities,
+  WmsCapabilities,
+  WmsLayerInfo,
+  WmsVersion,
+} from '../utils/wmsCapabilities';
+import { scaleToZoom } from '../utils/vectorStyle';
+import { FeatureInfo, parseFeatureInfo } from '../utils/featureInfo';
+
+export interface WmsLayerOptions {
+  style?: string;
+  format?: string;
+  // параметры, переданные приложением (transparent, opacity, ...)
+  options?: L.WMSOptions;
+}
+
+export interface WmsFeatureInfoRequest {
+  // охват и размер карты в пикселях, точка клика от левого верхнего угла
+  bbox: [number, number, number, number];
+  srsName: string;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  infoFormat: string;
+  style?: string;
+  // параметры GetMap слоя, которые влияют на ответ (TIME)
+  params?: Record<string, string>;
+  featureCount?: number;
+}
+
+// старшая версия: сервер отвечает наибольшей поддерживаемой не выше запрошенной
+const PREFERRED_VERSION: WmsVersion = '1.3.0';
+
+export class WMSService {
+  url: string;
+
+  private capabilitiesPromise: Promise<WmsCapabilities> | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  private buildUrl(params: Record<string, string>) {
+    const query = new URLSearchParams(params).toString();
+    return `${this.url}${this.url.includes('?') ? '&' : '?'}${query}`;
+  }
+
+  /**
+   * Описание сервиса; запрашивается один раз, ошибка не кэшируется
+   */
+  getCapabilities(): Promise<WmsCapabilities> {
+    if (!this.capabilitiesPromise) {
+      const url = this.buildUrl({
+        service: 'WMS',
+        request: 'GetCapabilities',
+        version: PREFERRED_VERSION,
+      });
+      this.capabilitiesPromise = fetch(url)
+        .then((resp) => {
+          if (!resp.ok)
+            throw new Error(
+              `WMS capabilities: ${resp.status} ${resp.statusText}`
+            );
+          return resp.text();
+        })
+        .then(parseWmsCapabilities)
+        .catch((err) => {
+          this.capabilitiesPromise = null;
+          throw err;
+        });
+    }
+    return this.capabilitiesPromise;
+  }
+
+  /**
+   * Адрес легенды слоя: LegendURL стиля из capabilities, иначе
+   * GetLegendGraphic (расширение SLD, поддерживается GeoServer, MapServer, QGIS)
+   */
+  legendUrl(
+    layer: WmsLayerInfo,
+    version: WmsVersion,
+    style?: string,
+    format = 'image/png'
+  ): string | null {
+    if (!layer.name) return null;
+    const styleInfo = layer.styles.find((s) => s.name === style);
+    if (styleInfo?.legendUrl) return styleInfo.legendUrl;
+    const params: Record<string, string> = {
+      service: 'WMS',
+      request: 'GetLegendGraphic',
+      version,
+      format,
+      layer: layer.name,
+    };
+    if (style) params.style = style;
+    if (version === '1.3.0') params.sld_version = '1.1.0';
+    return this.buildUrl(params);
+  }
+
+  /**
+   * GetFeatureInfo по точке карты; запрос описывает всю карту, как её
+   * нарисовал бы GetMap, и точку на ней
+   */
+  async getFeatureInfo(
+    layer: WmsLayerInfo,
+    version: WmsVersion,
+    request: WmsFeatureInfoRequest,
+    signal?: AbortSignal
+  ): Promise<FeatureInfo> {
+    if (!layer.name) return { features: [], html: null, text: null };
+    const [minX, minY, maxX, maxY] = request.bbox;
+    const x = String(Math.round(request.x));
+    const y = String(Math.round(request.y));
+    const url = this.buildUrl({
+      ...request.params,
+      service: 'WMS',
+      request: 'GetFeatureInfo',
+      version,
+      layers: layer.name,
+      query_layers: layer.name,
+      styles: request.style ?? '',
+      format: 'image/png',
+      info_format: request.infoFormat,
+      feature_count: String(request.featureCount ?? 10),
+      width: String(request.width),
+      height: String(request.height),
+      bbox: [minX, minY, maxX, maxY].join(','),
+      // 1.3.0 переименовал SRS в CRS и X/Y в I/J
+      ...(version === '1.3.0'
+        ? { crs: request.srsName, i: x, j: y }
+        : { srs: request.srsName, x, y }),
+    });
+    const resp = await fetch(url, { signal });
+    if (!resp.ok)
+      throw new Error(`WMS GetFeatureInfo: ${resp.status} ${resp.statusText}`);
+    return parseFeatureInfo(
+      await resp.text(),
+      resp.headers.get('Content-Type') || request.infoFormat,
+      request.srsName
+    );
+  }
+
+  /**
+   * Тайловый слой WMS в версии сервера; диапазон масштабов слоя
+   * ограничивает уровни, на которых запрашиваются тайлы
+   */
+  createLayer(
+    layer: WmsLayerInfo,
+    version: WmsVersion,
+    { style = '', format = 'image/png', options = {} }: WmsLayerOptions = {}
+  ): L.TileLayer.WMS {
+    const zoomRange: L.WMSOptions = {};
+    if (layer.maxScaleDenominator)
+      zoomRange.minZoom = Math.max(
+        0,
+        Math.floor(scaleToZoom(layer.maxScaleDenominator))
+      );
+    if (layer.minScaleDenominator)
+      zoomRange.maxZoom = Math.ceil(scaleToZoom(layer.minScaleDenominator));
+    return L.tileLayer.wms(this.url, {
+      transparent: true,
+      ...zoomRange,
+      ...options,
+      layers: layer.name ?? '',
+      styles: style,
+      format,
+      version,
+    });
+  }
+}
@@ -0,0 +1,148 @@
+import { CrsDefinition, listCrs } from '../utils/crs';
+import {
+  streamWfsFeatures,
+  WfsCollectionCounts,
+  WfsStreamProgress,
+  WfsStreamRequest,
+} from '../utils/wfsParser';
+
+// сообщения потоку разбора
+export type WfsWorkerRequest =
+  | {
+      type: 'parse';
+      id: number;
+      request: WfsStreamRequest;
+      // определения СК: в потоке свой реестр, пересчёт идёт там же
+      crs: CrsDefinition[];
+    }
+  | { type: 'abort'; id: number };
+
+// ответы потока разбора
+export type WfsWorkerMessage =
+  | { type: 'features'; id: number; features: GeoJSON.Feature[] }
+  | { type: 'progress'; id: number; progress: WfsStreamProgress }
+  | { type: 'done'; id: number; counts: WfsCollectionCounts }
+  | { type: 'error'; id: number; name: string; message: string };
+
+export interface WfsStreamHandlers {
+  onFeatures: (features: GeoJSON.Feature[]) => void;
+  onProgress?: (progress: WfsStreamProgress) => void;
+}
+
+interface PendingStream extends WfsStreamHandlers {
+  resolve: (counts: WfsCollectionCounts) => void;
+  reject: (err: Error) => void;
+}
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * Загрузка и разбор GetFeature в Web Worker: большие ответы GML не
+ * блокируют карту. Один поток обслуживает все запросы; без поддержки
+ * Worker разбор идёт потоково в основном потоке
+ */
+export class WfsParserWorker {
+  private static instance: WfsParserWorker | null = null;
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingStream>();
+  private nextId = 1;
+
+  static isSupported() {
+    return typeof Worker !== 'undefined';
+  }
+
+  static shared(): WfsParserWorker {
+    if (!WfsParserWorker.instance)
+      WfsParserWorker.instance = new WfsParserWorker();
+    return WfsParserWorker.instance;
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(
+      new URL('../workers/wfsParser.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    worker.onmessage = (ev: MessageEvent<WfsWorkerMessage>) =>
+      this.dispatch(ev.data);
+    worker.onerror = (ev) => {
+      // поток упал — отклоняем всё незавершённое, следующий запрос создаст новый
+      console.error('WFS parser worker failed', ev.message);
+      ev.preventDefault();
+      this.pending.forEach((p) =>
+        p.reject(new Error(`WFS parser: ${ev.message}`))
+      );
+      this.pending.clear();
+      worker.terminate();
+      this.worker = null;
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private dispatch(msg: WfsWorkerMessage) {
+    const pending = this.pending.get(msg.id);
+    if (!pending) return;
+    switch (msg.type) {
+      case 'features':
+        pending.onFeatures(msg.features);
+        break;
+      case 'progress':
+        pending.onProgress?.(msg.progress);
+        break;
+      case 'done':
+        this.pending.delete(msg.id);
+        pending.resolve(msg.counts);
+        break;
+      case 'error': {
+        this.pending.delete(msg.id);
+        const err = new Error(msg.message);
+        err.name = msg.name;
+        pending.reject(err);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Запрос и разбор; промис завершается счётчиками коллекции.
+   * Отмена через signal прерывает и запрос, и разбор
+   */
+  stream(
+    request: WfsStreamRequest,
+    handlers: WfsStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<WfsCollectionCounts> {
+    if (!WfsParserWorker.isSupported())
+      return streamWfsFeatures(request, handlers, signal);
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    const worker = this.ensureWorker();
+    const id = this.nextId++;
+    return new Promise<WfsCollectionCounts>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        worker.postMessage({ type: 'abort', id } as WfsWorkerRequest);
+        reject(abortError());
+      };
+      this.pending.set(id, {
+        ...handlers,
+        resolve: (counts) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(counts);
+        },
+        reject: (err) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+      });
+      signal?.addEventListener('abort', onAbort);
+      worker.postMessage({
+        type: 'parse',
+        id,
+        request,
+        crs: listCrs(),
+      } as WfsWorkerRequest);
+    });
+  }
+}
@@ -1,3 +1,6 @@
+import { parseGmlGeometry } from '../utils/gmlGeometry';
+import { parseGeometry } from '../utils/geometryUtils';
+
 export interface ZWSAuth {
   user: string;
   pass: string;
@@ -8,6 +11,62 @@ export interface ZWSField {
   value: string;
 }
 
+export interface ZWSElement {
+  // null — сервер не прислал ElemID, по номеру в ответе объект не запросить
+  id: string | null;
+  layer: string;
+  fields: ZWSField[];
+}
+
+export interface ZWSLayerSummary {
+  name: string;
+  title: string;
+}
+
+export interface ZWSExtent {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  crs?: string;
+}
+
+export interface ZWSFieldSchema {
+  name: string;
+  userName: string;
+  type: string;
+}
+
+export interface ZWSLayerInfo extends ZWSLayerSummary {
+  extent: ZWSExtent | null;
+  geometryType: string | null;
+  fields: ZWSFieldSchema[];
+}
+
+// поиск потомка по локальному имени без учёта регистра и префикса пространства имён
+const findChild = (parent: Element, name: string): Element | null => {
+  const lower = name.toLowerCase();
+  return (
+    Array.from(parent.children).find(
+      (c) => (c.localName || '').toLowerCase() === lower
+    ) ?? null
+  );
+};
+
+const childText = (parent: Element, ...names: string[]): string | null => {
+  for (const n of names) {
+    const el = findChild(parent, n);
+    const text = el?.textContent?.trim();
+    if (text) return text;
+  }
+  return null;
+};
+
+const findAllByName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(
+    (el) => (el.localName || '').toLowerCase() === name.toLowerCase()
+  );
+
 export class ZWSService {
   endpoint: string;
   auth?: ZWSAuth;
@@ -17,24 +76,47 @@ export class ZWSService {
     this.auth = auth;
   }
 
+  buildCommandXml(command: string) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<zulu-server service='zws' version='1.0.0'>
+  <Command>
+    ${command}
+  </Command>
+</zulu-server>`;
+  }
+
   buildSelectElemXml(
     layerName: string,
     lat: number,
     lng: number,
     scale: number
   ) {
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<zulu-server service='zws' version='1.0.0'>
-  <Command>
-    <SelectElemByXY>
+    return this.buildCommandXml(`<SelectElemByXY>
       <Layer>${layerName}</Layer>
       <X>${lat}</X>
       <Y>${lng}</Y>
       <Scale>${scale}</Scale>
       <CRS>'EPSG:4326'</CRS>
-    </SelectElemByXY>
-  </Command>
-</zulu-server>`;
+    </SelectElemByXY>`);
+  }
+
+  buildLayerListXml() {
+    return this.buildCommandXml('<GetLayerList/>');
+  }
+
+  buildLayerInfoXml(layerName: string) {
+    return this.buildCommandXml(`<GetLayerInfo>
+      <Layer>${layerName}</Layer>
+    </GetLayerInfo>`);
+  }
+
+  buildElemGeometryXml(layerName: string, elemId: string) {
+    return this.buildCommandXml(`<GetElemsByID>
+      <Layer>${layerName}</Layer>
+      <ElemID>${elemId}</ElemID>
+      <Geometry>Yes</Geometry>
+      <CRS>EPSG:4326</CRS>
+    </GetElemsByID>`);
   }
 
   basicAuthHeader() {
@@ -42,15 +124,7 @@ export class ZWSService {
     return `Basic ${btoa(`${this.auth.user}:${this.auth.pass}`)}`;
   }
 
-  async selectByXY(
-    layerName: string,
-    lat: number,
-    lng: number,
-    scale: number,
-    signal?: AbortSignal
-  ): Promise<ZWSField[] | null> {
-    const xml = this.buildSelectElemXml(layerName, lat, lng, scale);
-
+  async request(xml: string, signal?: AbortSignal): Promise<string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/xml',
     };
@@ -72,11 +146,10 @@ export class ZWSService {
       );
     }
 
-    const text = await resp.text();
-    return this.parseFields(text);
+    return resp.text();
   }
 
-  parseFields(xmlText: string): ZWSField[] | null {
+  parseXml(xmlText: string): Document {
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
 
@@ -84,15 +157,148 @@ export class ZWSService {
     if (parseError)
       throw new Error('XML parse error: ' + (parseError.textContent ?? ''));
 
-    const element = xmlDoc.querySelector('Element');
-    if (!element) return null;
+    return xmlDoc;
+  }
+
+  async selectByXY(
+    layerName: string,
+    lat: number,
+    lng: number,
+    scale: number,
+    signal?: AbortSignal
+  ): Promise<ZWSElement[]> {
+    const xml = this.buildSelectElemXml(layerName, lat, lng, scale);
+    const text = await this.request(xml, signal);
+    return this.parseElements(text, layerName);
+  }
+
+  async getLayerList(signal?: AbortSignal): Promise<ZWSLayerSummary[]> {
+    const text = await this.request(this.buildLayerListXml(), signal);
+    return this.parseLayerList(text);
+  }
+
+  async getLayerInfo(
+    layerName: string,
+    signal?: AbortSignal
+  ): Promise<ZWSLayerInfo> {
+    const text = await this.request(this.buildLayerInfoXml(layerName), signal);
+    return this.parseLayerInfo(text, layerName);
+  }
+
+  // все найденные объекты: под точкой клика их может быть несколько
+  parseElements(xmlText: string, layerName: string): ZWSElement[] {
+    const xmlDoc = this.parseXml(xmlText);
 
-    const fields = Array.from(element.querySelectorAll('Field')).map((f) => {
+    return Array.from(xmlDoc.querySelectorAll('Element')).map((element) => ({
+      id: childText(element, 'ElemID', 'ElemId', 'ID', 'Id'),
+      layer: childText(element, 'Layer') ?? layerName,
+      fields: this.parseFields(element),
+    }));
+  }
+
+  parseFields(element: Element): ZWSField[] {
+    return Array.from(element.querySelectorAll('Field')).map((f) => {
       const userName = f.querySelector('UserName')?.textContent ?? 'Unknown';
       const value = f.querySelector('Value')?.textContent ?? '';
       return { userName, value };
     });
+  }
+
+  // геометрия объекта в EPSG:4326 по его ID
+  async getElementGeometry(
+    layerName: string,
+    elemId: string,
+    signal?: AbortSignal
+  ): Promise<GeoJSON.Geometry | null> {
+    const xml = this.buildElemGeometryXml(layerName, elemId);
+    const text = await this.request(xml, signal);
+    return this.parseElementGeometry(text);
+  }
+
+  parseElementGeometry(xmlText: string): GeoJSON.Geometry | null {
+    const xmlDoc = this.parseXml(xmlText);
+
+    const geometryEl = findAllByName(xmlDoc, 'Geometry')[0];
+    if (!geometryEl) return null;
+
+    // GML внутри <Geometry>, иначе — WKT/EWKT или список координат
+    const srsName = geometryEl.getAttribute('srsName') ?? 'EPSG:4326';
+    if (geometryEl.children.length > 0)
+      return parseGmlGeometry(geometryEl, { srsName });
+
+    return parseGeometry(geometryEl.textContent ?? '', srsName);
+  }
+
+  parseLayerList(xmlText: string): ZWSLayerSummary[] {
+    const xmlDoc = this.parseXml(xmlText);
+
+    return findAllByName(xmlDoc, 'Layer')
+      .map((layerEl) => {
+        // <Layer>name</Layer> либо <Layer><Name>..</Name><Title>..</Title></Layer>
+        const name =
+          childText(layerEl, 'Name') ??
+          (layerEl.children.length === 0
+            ? layerEl.textContent?.trim() ?? ''
+            : '');
+        const title = childText(layerEl, 'Title', 'UserName') ?? name;
+        return { name, title };
+      })
+      .filter((l) => l.name.length > 0);
+  }
+
+  parseLayerInfo(xmlText: string, layerName: string): ZWSLayerInfo {
+    const xmlDoc = this.parseXml(xmlText);
+
+    const root =
+      findAllByName(xmlDoc, 'LayerInfo')[0] ??
+      findAllByName(xmlDoc, 'Layer')[0] ??
+      xmlDoc.documentElement;
+
+    const name = childText(root, 'Name') ?? layerName;
+    const title = childText(root, 'Title', 'UserName') ?? name;
+
+    return {
+      name,
+      title,
+      extent: this.parseExtent(root),
+      geometryType: childText(root, 'GeometryType', 'GeomType', 'Type'),
+      fields: findAllByName(root, 'Field').map((f) => {
+        const fieldName = childText(f, 'Name') ?? '';
+        return {
+          name: fieldName,
+          userName: childText(f, 'UserName') ?? fieldName,
+          type: childText(f, 'Type') ?? 'string',
+        };
+      }),
+    };
+  }
+
+  parseExtent(root: Element): ZWSExtent | null {
+    const box =
+      findAllByName(root, 'Bounds')[0] ??
+      findAllByName(root, 'BoundingBox')[0] ??
+      findAllByName(root, 'Extent')[0];
+    if (!box) return null;
+
+    // значения могут быть как в атрибутах (minx="..."), так и в дочерних элементах
+    const read = (key: string) => {
+      const attr = box.getAttribute(key.toLowerCase()) ?? box.getAttribute(key);
+      const value = attr ?? childText(box, key);
+      // нет ни атрибута, ни элемента — координата неизвестна, а не 0
+      return value === null || value.trim() === '' ? NaN : Number(value);
+    };
+
+    const extent: ZWSExtent = {
+      minX: read('MinX'),
+      minY: read('MinY'),
+      maxX: read('MaxX'),
+      maxY: read('MaxY'),
+      crs: box.getAttribute('CRS') ?? box.getAttribute('SRS') ?? undefined,
+    };
 
-    return fields;
+    const valid = [extent.minX, extent.minY, extent.maxX, extent.maxY].every(
+      (n) => Number.isFinite(n)
+    );
+    return valid ? extent : null;
   }
 }
@@ -0,0 +1,271 @@
+/**
+ * Системы координат: реестр определений, порядок осей и пересчёт в WGS84
+ */
+import proj4 from 'proj4';
+
+export interface CrsDefinition {
+  // код в виде 'EPSG:28404' или произвольный, например 'MSK-50-1'
+  code: string;
+  title: string;
+  proj4: string;
+  // порядок осей по реестру: сначала широта / северное значение
+  northingFirst: boolean;
+}
+
+export interface SrsInfo {
+  code: string;
+  // порядок координат в данных: 'xy' — долгота/восток первыми
+  axisOrder: 'xy' | 'yx';
+}
+
+export interface MskZoneParams {
+  lon0: number;
+  lat0?: number;
+  x0: number;
+  y0?: number;
+  k?: number;
+}
+
+type Position = number[];
+
+const PULKOVO_42_TOWGS84 = '23.57,-140.95,-79.8,0,0.35,0.79,-0.22';
+const PULKOVO_95_TOWGS84 = '24.47,-130.89,-81.56,0,0,0.13,-0.22';
+
+const registry = new Map<string, CrsDefinition>();
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export function registerCrs(def: CrsDefinition): void {
+  const code = normalizeCode(def.code);
+  registry.set(code, { ...def, code });
+  proj4.defs(code, def.proj4);
+}
+
+export function getCrs(code: string): CrsDefinition | null {
+  return registry.get(normalizeCode(code)) ?? null;
+}
+
+export function listCrs(): CrsDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Местная система координат (МСК) на базе Пулково-42: параметры
+ * поперечной проекции Меркатора публикуются для каждой зоны отдельно
+ */
+export function registerMskZone(
+  code: string,
+  title: string,
+  params: MskZoneParams
+): void {
+  const { lon0, lat0 = 0, x0, y0 = 0, k = 1 } = params;
+  registerCrs({
+    code,
+    title,
+    proj4: `+proj=tmerc +lat_0=${lat0} +lon_0=${lon0} +k=${k} +x_0=${x0} +y_0=${y0} +ellps=krass +towgs84=${PULKOVO_42_TOWGS84} +units=m +no_defs`,
+    northingFirst: true,
+  });
+}
+
+// встроенные определения: WGS84, Web Mercator и системы, распространённые в России
+registerCrs({
+  code: 'EPSG:4326',
+  title: 'WGS 84',
+  proj4: '+proj=longlat +datum=WGS84 +no_defs',
+  northingFirst: true,
+});
+registerCrs({
+  code: 'EPSG:3857',
+  title: 'WGS 84 / Pseudo-Mercator',
+  proj4:
+    '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs',
+  northingFirst: false,
+});
+registerCrs({
+  code: 'EPSG:3395',
+  title: 'WGS 84 / World Mercator',
+  proj4:
+    '+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 +datum=WGS84 +units=m +no_defs',
+  northingFirst: false,
+});
+registerCrs({
+  code: 'EPSG:4284',
+  title: 'Pulkovo 1942',
+  proj4: `+proj=longlat +ellps=krass +towgs84=${PULKOVO_42_TOWGS84} +no_defs`,
+  northingFirst: true,
+});
+registerCrs({
+  code: 'EPSG:4200',
+  title: 'Pulkovo 1995',
+  proj4: `+proj=longlat +ellps=krass +towgs84=${PULKOVO_95_TOWGS84} +no_defs`,
+  northingFirst: true,
+});
+// Pulkovo 1942 / Gauss-Kruger, зоны 2–32 (EPSG:28402–28432)
+for (let zone = 2; zone <= 32; zone++) {
+  registerCrs({
+    code: `EPSG:${28400 + zone}`,
+    title: `Pulkovo 1942 / Gauss-Kruger zone ${zone}`,
+    proj4: `+proj=tmerc +lat_0=0 +lon_0=${
+      zone * 6 - 3
+    } +k=1 +x_0=${zone}500000 +y_0=0 +ellps=krass +towgs84=${PULKOVO_42_TOWGS84} +units=m +no_defs`,
+    northingFirst: true,
+  });
+}
+// Pulkovo 1995 / Gauss-Kruger, зоны 4–32 (EPSG:20004–20032)
+for (let zone = 4; zone <= 32; zone++) {
+  registerCrs({
+    code: `EPSG:${20000 + zone}`,
+    title: `Pulkovo 1995 / Gauss-Kruger zone ${zone}`,
+    proj4: `+proj=tmerc +lat_0=0 +lon_0=${
+      zone * 6 - 3
+    } +k=1 +x_0=${zone}500000 +y_0=0 +ellps=krass +towgs84=${PULKOVO_95_TOWGS84} +units=m +no_defs`,
+    northingFirst: true,
+  });
+}
+
+/**
+ * Разбирает srsName. Краткая запись 'EPSG:nnnn' и 'CRS:84' — в порядке x/y,
+ * URN и HTTP URI — в порядке осей, заданном реестром EPSG.
+ */
+export function parseSrsName(srsName?: string | null): SrsInfo | null {
+  if (!srsName) return null;
+  const value = srsName.trim();
+
+  if (/CRS:?84$/i.test(value)) return { code: 'EPSG:4326', axisOrder: 'xy' };
+
+  // urn:ogc:def:crs:EPSG::4326, urn:x-ogc:def:crs:EPSG:6.6:4326
+  const urn = value.match(/^urn:(?:x-)?ogc:def:crs:([^:]+):[^:]*:(.+)$/i);
+  // http://www.opengis.net/def/crs/EPSG/0/4326
+  const uri = value.match(
+    /^https?:\/\/www\.opengis\.net\/def\/crs\/([^/]+)\/[^/]+\/(.+)$/i
+  );
+  const authority = urn ?? uri;
+  if (authority) {
+    const code = `${authority[1].toUpperCase()}:${authority[2]}`;
+    const def = getCrs(code);
+    return { code, axisOrder: def?.northingFirst ? 'yx' : 'xy' };
+  }
+
+  // http://www.opengis.net/gml/srs/epsg.xml#4326
+  const gmlUri = value.match(/epsg\.xml#(\d+)$/i);
+  if (gmlUri) return { code: `EPSG:${gmlUri[1]}`, axisOrder: 'xy' };
+
+  return { code: normalizeCode(value), axisOrder: 'xy' };
+}
+
+/**
+ * srsName в форме URN: однозначный порядок осей для сервера
+ */
+export function toUrnSrsName(srsName: string): string {
+  const value = srsName.trim();
+  if (/^(urn:|https?:)/i.test(value)) return value;
+  const [authority, id] = (parseSrsName(value)?.code ?? value).split(':');
+  return id ? `urn:ogc:def:crs:${authority}::${id}` : value;
+}
+
+const isWgs84 = (code: string) => normalizeCode(code) === 'EPSG:4326';
+
+const warned = new Set<string>();
+
+/**
+ * Функция пересчёта позиции из srsName в WGS84 [долгота, широта].
+ * null — если система координат неизвестна.
+ */
+export function createToWgs84(
+  srsName?: string | null
+): ((p: Position) => Position) | null {
+  const srs = parseSrsName(srsName);
+  if (!srs) return null;
+
+  const swap = srs.axisOrder === 'yx';
+  const ordered = (p: Position) => (swap ? [p[1], p[0], ...p.slice(2)] : p);
+
+  if (isWgs84(srs.code)) return swap ? ordered : null;
+
+  if (!getCrs(srs.code)) {
+    if (!warned.has(srs.code)) {
+      warned.add(srs.code);
+      console.warn(`Unknown CRS ${srs.code}: coordinates are left as is`);
+    }
+    return swap ? ordered : null;
+  }
+
+  const converter = proj4(srs.code, 'EPSG:4326');
+  return (p: Position) => {
+    const xy = ordered(p);
+    const [lng, lat] = converter.forward([xy[0], xy[1]]);
+    return xy.length > 2 ? [lng, lat, xy[2]] : [lng, lat];
+  };
+}
+
+/**
+ * Обратный пересчёт WGS84 [долгота, широта] в srsName с учётом порядка осей
+ */
+export function fromWgs84(p: Position, srsName: string): Position {
+  const srs = parseSrsName(srsName);
+  if (!srs) return p;
+  let xy = p;
+  if (!isWgs84(srs.code) && getCrs(srs.code)) {
+    xy = proj4('EPSG:4326', srs.code).forward([p[0], p[1]]);
+  }
+  return srs.axisOrder === 'yx' ? [xy[1], xy[0]] : [xy[0], xy[1]];
+}
+
+/**
+ * bbox [minLng, minLat, maxLng, maxLat] в координатах и порядке осей srsName
+ */
+export function bboxToSrs(
+  bbox: [number, number, number, number],
+  srsName: string
+): [number, number, number, number] {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  const corners = [
+    [minLng, minLat],
+    [minLng, maxLat],
+    [maxLng, minLat],
+    [maxLng, maxLat],
+  ].map((c) => fromWgs84(c, srsName));
+  const xs = corners.map((c) => c[0]);
+  const ys = corners.map((c) => c[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+const mapPositions = (
+  coords: unknown,
+  fn: (p: Position) => Position
+): unknown =>
+  Array.isArray(coords) && typeof coords[0] === 'number'
+    ? fn(coords as Position)
+    : (coords as unknown[]).map((c) => mapPositions(c, fn));
+
+/**
+ * Пересчёт геометрии GeoJSON из srsName в WGS84
+ */
+export function reprojectGeometry<G extends GeoJSON.Geometry>(
+  geometry: G,
+  srsName?: string | null
+): G {
+  const transform = createToWgs84(srsName);
+  if (!transform) return geometry;
+  return transformGeometry(geometry, transform);
+}
+
+export function transformGeometry<G extends GeoJSON.Geometry>(
+  geometry: G,
+  fn: (p: Position) => Position
+): G {
+  if (geometry.type === 'GeometryCollection') {
+    return {
+      ...geometry,
+      geometries: geometry.geometries.map((g) => transformGeometry(g, fn)),
+    };
+  }
+  return {
+    ...geometry,
+    coordinates: mapPositions(
+      (geometry as Exclude<GeoJSON.Geometry, GeoJSON.GeometryCollection>)
+        .coordinates,
+      fn
+    ),
+  } as G;
+}
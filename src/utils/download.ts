@@ -0,0 +1,14 @@
+/**
+ * Сохранение данных в файл через временную ссылку
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // ссылку освобождаем после того, как браузер начал загрузку
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
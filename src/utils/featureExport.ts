@@ -0,0 +1,268 @@
+/**
+ * Выгрузка объектов GeoJSON (WGS84) в GeoJSON, KML, GPX и CSV
+ */
+import { FeatureTypeSchema, getAttributeSchema } from './featureSchema';
+import { formatAttributeForXml } from './wfsTransaction';
+import { geometryToWkt } from './geometryUtils';
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export interface ExportOptions {
+  // имя набора в документе и файла без расширения
+  name: string;
+  // порядок и типы атрибутов; без схемы — в порядке появления
+  schema?: FeatureTypeSchema | null;
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  geojson: {
+    label: 'GeoJSON',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+  },
+  kml: {
+    label: 'KML',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+  },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  csv: { label: 'CSV (WKT)', extension: 'csv', mimeType: 'text/csv' },
+};
+
+type Position = number[];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatNumber = (n: number) => String(Math.round(n * 1e9) / 1e9);
+
+/**
+ * Имена атрибутов: сначала по схеме, затем остальные в порядке появления
+ */
+const attributeNames = (
+  features: GeoJSON.Feature[],
+  schema?: FeatureTypeSchema | null
+) => {
+  const names = new Set(schema?.attributes.map((a) => a.name) ?? []);
+  features.forEach((f) =>
+    Object.keys(f.properties ?? {}).forEach((name) => names.add(name))
+  );
+  return Array.from(names);
+};
+
+const textValue = (
+  value: unknown,
+  name: string,
+  schema?: FeatureTypeSchema | null
+) =>
+  value === null || value === undefined
+    ? ''
+    : typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : formatAttributeForXml(value, getAttributeSchema(schema, name));
+
+// подпись объекта: атрибут с названием или идентификатор
+const featureName = (feature: GeoJSON.Feature) => {
+  const props = feature.properties ?? {};
+  const key = Object.keys(props).find((k) =>
+    /^(name|title|название|наименование)$/i.test(k)
+  );
+  if (key && props[key] != null) return String(props[key]);
+  return feature.id != null ? String(feature.id) : '';
+};
+
+const toGeoJson = (features: GeoJSON.Feature[], options: ExportOptions) =>
+  JSON.stringify(
+    { type: 'FeatureCollection', name: options.name, features },
+    null,
+    2
+  );
+
+const kmlGeometry = (geometry: GeoJSON.Geometry): string => {
+  const coords = (positions: Position[]) =>
+    `<coordinates>${positions
+      .map((p) => p.slice(0, 3).map(formatNumber).join(','))
+      .join(' ')}</coordinates>`;
+  const ring = (positions: Position[]) =>
+    `<LinearRing>${coords(positions)}</LinearRing>`;
+  const polygon = (rings: Position[][]) =>
+    `<Polygon><outerBoundaryIs>${ring(rings[0] ?? [])}</outerBoundaryIs>${rings
+      .slice(1)
+      .map((r) => `<innerBoundaryIs>${ring(r)}</innerBoundaryIs>`)
+      .join('')}</Polygon>`;
+  const multi = (parts: string[]) =>
+    `<MultiGeometry>${parts.join('')}</MultiGeometry>`;
+
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point>${coords([geometry.coordinates])}</Point>`;
+    case 'MultiPoint':
+      return multi(
+        geometry.coordinates.map((p) => `<Point>${coords([p])}</Point>`)
+      );
+    case 'LineString':
+      return `<LineString>${coords(geometry.coordinates)}</LineString>`;
+    case 'MultiLineString':
+      return multi(
+        geometry.coordinates.map(
+          (line) => `<LineString>${coords(line)}</LineString>`
+        )
+      );
+    case 'Polygon':
+      return polygon(geometry.coordinates);
+    case 'MultiPolygon':
+      return multi(geometry.coordinates.map(polygon));
+    case 'GeometryCollection':
+      return multi(geometry.geometries.map(kmlGeometry));
+  }
+};
+
+const toKml = (features: GeoJSON.Feature[], options: ExportOptions) => {
+  const names = attributeNames(features, options.schema);
+  const placemarks = features.map((feature) => {
+    const props = feature.properties ?? {};
+    const data = names
+      .filter((name) => props[name] !== null && props[name] !== undefined)
+      .map(
+        (name) =>
+          `<Data name="${escapeXml(name)}"><value>${escapeXml(
+            textValue(props[name], name, options.schema)
+          )}</value></Data>`
+      )
+      .join('');
+    return `<Placemark><name>${escapeXml(featureName(feature))}</name>${
+      data ? `<ExtendedData>${data}</ExtendedData>` : ''
+    }${feature.geometry ? kmlGeometry(feature.geometry) : ''}</Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${escapeXml(
+    options.name
+  )}</name>${placemarks.join('\n')}</Document></kml>`;
+};
+
+// в GPX нет полигонов: кольца выгружаются сегментами трека
+const gpxParts = (geometry: GeoJSON.Geometry | null) => {
+  const points: Position[] = [];
+  const segments: Position[][] = [];
+  const visit = (g: GeoJSON.Geometry) => {
+    switch (g.type) {
+      case 'Point':
+        points.push(g.coordinates);
+        break;
+      case 'MultiPoint':
+        points.push(...g.coordinates);
+        break;
+      case 'LineString':
+        segments.push(g.coordinates);
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        segments.push(...g.coordinates);
+        break;
+      case 'MultiPolygon':
+        g.coordinates.forEach((rings) => segments.push(...rings));
+        break;
+      case 'GeometryCollection':
+        g.geometries.forEach(visit);
+        break;
+    }
+  };
+  if (geometry) visit(geometry);
+  return { points, segments };
+};
+
+const toGpx = (features: GeoJSON.Feature[], options: ExportOptions) => {
+  const names = attributeNames(features, options.schema);
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+  const latLon = (p: Position) =>
+    `lat="${formatNumber(p[1])}" lon="${formatNumber(p[0])}"`;
+
+  features.forEach((feature) => {
+    const props = feature.properties ?? {};
+    // атрибуты — строками «имя: значение» в описании
+    const desc = names
+      .filter((name) => props[name] !== null && props[name] !== undefined)
+      .map((name) => `${name}: ${textValue(props[name], name, options.schema)}`)
+      .join('\n');
+    const info = `<name>${escapeXml(featureName(feature))}</name>${
+      desc ? `<desc>${escapeXml(desc)}</desc>` : ''
+    }`;
+    const { points, segments } = gpxParts(feature.geometry);
+    points.forEach((p) => waypoints.push(`<wpt ${latLon(p)}>${info}</wpt>`));
+    if (segments.length)
+      tracks.push(
+        `<trk>${info}${segments
+          .map(
+            (segment) =>
+              `<trkseg>${segment
+                .map((p) => `<trkpt ${latLon(p)}/>`)
+                .join('')}</trkseg>`
+          )
+          .join('')}</trk>`
+      );
+  });
+  // по схеме GPX точки идут раньше треков
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${escapeXml(
+    options.name
+  )}" xmlns="http://www.topografix.com/GPX/1/1"><metadata><name>${escapeXml(
+    options.name
+  )}</name></metadata>${waypoints.join('\n')}${tracks.join('\n')}</gpx>`;
+};
+
+const csvCell = (value: string) =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (features: GeoJSON.Feature[], options: ExportOptions) => {
+  const names = attributeNames(features, options.schema);
+  const rows = [['id', ...names, 'WKT']].concat(
+    features.map((feature) => [
+      feature.id != null ? String(feature.id) : '',
+      ...names.map((name) =>
+        textValue(feature.properties?.[name], name, options.schema)
+      ),
+      feature.geometry ? geometryToWkt(feature.geometry) : '',
+    ])
+  );
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+};
+
+/**
+ * Файл выгрузки в кодировке UTF-8. CSV — с BOM, иначе Excel
+ * читает кириллицу в однобайтовой кодировке.
+ */
+export function exportFeatures(
+  features: GeoJSON.Feature[],
+  format: ExportFormat,
+  options: ExportOptions
+): Blob {
+  const { mimeType } = EXPORT_FORMATS[format];
+  switch (format) {
+    case 'kml':
+      return new Blob([toKml(features, options)], { type: mimeType });
+    case 'gpx':
+      return new Blob([toGpx(features, options)], { type: mimeType });
+    case 'csv':
+      return new Blob(['\uFEFF', toCsv(features, options)], {
+        type: `${mimeType};charset=utf-8`,
+      });
+    default:
+      return new Blob([toGeoJson(features, options)], { type: mimeType });
+  }
+}
+
+/**
+ * Имя файла выгрузки с расширением формата
+ */
+export const exportFileName = (name: string, format: ExportFormat) =>
+  `${name.replace(/[\\/:*?"<>|\s]+/g, '_') || 'export'}.${
+    EXPORT_FORMATS[format].extension
+  }`;
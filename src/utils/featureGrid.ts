@@ -0,0 +1,248 @@
+/**
+ * Сетка кэша объектов WFS: экстент делится на ячейки в градусах WGS84,
+ * с сервера запрашиваются только недостающие ячейки, объекты хранятся
+ * один раз по идентификатору и выгружаются вместе с последней ячейкой
+ */
+
+type Bbox = [number, number, number, number];
+
+export interface GridCell {
+  key: string;
+  level: number;
+  x: number;
+  y: number;
+  // [minLng, minLat, maxLng, maxLat]
+  bbox: Bbox;
+}
+
+// 'partial' — загрузка прервана или не удалась, ячейку нужно запросить снова;
+// 'limited' — сервер отдал не все объекты ячейки
+export type GridCellState = 'loading' | 'partial' | 'complete' | 'limited';
+
+interface CellRecord {
+  bbox: Bbox;
+  state: GridCellState;
+  ids: Set<string>;
+  // numberMatched сервера; null — неизвестно
+  total: number | null;
+  lastUsed: number;
+}
+
+interface FeatureRecord<T> {
+  value: T;
+  cells: Set<string>;
+}
+
+const MAX_LEVEL = 24;
+
+const cellSize = (level: number) => 360 / 2 ** level;
+
+const cellKey = (level: number, x: number, y: number) => `${level}/${x}/${y}`;
+
+const intersects = (a: Bbox, b: Bbox) =>
+  a[0] < b[2] && a[2] > b[0] && a[1] < b[3] && a[3] > b[1];
+
+/**
+ * Уровень сетки для масштаба карты: две-три ячейки на ширину окна
+ */
+export function gridLevel(zoom: number): number {
+  return Math.max(0, Math.min(MAX_LEVEL, Math.round(zoom) - 1));
+}
+
+/**
+ * Ячейки уровня, пересекающие bbox; ближние к центру — первыми
+ */
+export function gridCells(bbox: Bbox, level: number): GridCell[] {
+  const size = cellSize(level);
+  const maxX = Math.ceil(360 / size) - 1;
+  const maxY = Math.ceil(180 / size) - 1;
+  const clamp = (v: number, max: number) => Math.max(0, Math.min(max, v));
+  const x0 = clamp(Math.floor((bbox[0] + 180) / size), maxX);
+  const x1 = clamp(Math.ceil((bbox[2] + 180) / size) - 1, maxX);
+  const y0 = clamp(Math.floor((bbox[1] + 90) / size), maxY);
+  const y1 = clamp(Math.ceil((bbox[3] + 90) / size) - 1, maxY);
+
+  const cells: GridCell[] = [];
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      cells.push({
+        key: cellKey(level, x, y),
+        level,
+        x,
+        y,
+        bbox: [
+          x * size - 180,
+          y * size - 90,
+          Math.min(180, (x + 1) * size - 180),
+          Math.min(90, (y + 1) * size - 90),
+        ],
+      });
+    }
+  }
+  const cx = (bbox[0] + bbox[2]) / 2;
+  const cy = (bbox[1] + bbox[3]) / 2;
+  const dist = (c: GridCell) =>
+    Math.hypot(
+      (c.bbox[0] + c.bbox[2]) / 2 - cx,
+      (c.bbox[1] + c.bbox[3]) / 2 - cy
+    );
+  return cells.sort((a, b) => dist(a) - dist(b));
+}
+
+/**
+ * Учёт загруженных ячеек и объектов; значение объекта (слой карты)
+ * создаёт и удаляет вызывающий
+ */
+export class FeatureGridCache<T> {
+  private cells = new Map<string, CellRecord>();
+  private features = new Map<string, FeatureRecord<T>>();
+  private clock = 0;
+
+  // ячейка или охватывающая её ячейка верхнего уровня в нужном состоянии
+  private covered(cell: GridCell, states: GridCellState[]): boolean {
+    for (let k = 0; k <= cell.level; k++) {
+      const record = this.cells.get(
+        cellKey(cell.level - k, cell.x >> k, cell.y >> k)
+      );
+      if (!record) continue;
+      if (k === 0 ? states.includes(record.state) : record.state === 'complete')
+        return true;
+    }
+    return false;
+  }
+
+  /**
+   * Ячейку не нужно запрашивать: загружена, загружается или
+   * полностью покрыта загруженной ячейкой верхнего уровня
+   */
+  isLoaded(cell: GridCell): boolean {
+    return this.covered(cell, ['loading', 'complete', 'limited']);
+  }
+
+  // все объекты ячейки есть в кэше
+  isComplete(cell: GridCell): boolean {
+    return this.covered(cell, ['complete']);
+  }
+
+  // отметка использования: видимые ячейки выгружаются последними
+  touch(cells: GridCell[]): void {
+    const now = ++this.clock;
+    cells.forEach((cell) => {
+      const record = this.cells.get(cell.key);
+      if (record) record.lastUsed = now;
+    });
+  }
+
+  begin(cell: GridCell): void {
+    const record = this.cells.get(cell.key);
+    if (record) {
+      record.state = 'loading';
+      return;
+    }
+    this.cells.set(cell.key, {
+      bbox: cell.bbox,
+      state: 'loading',
+      ids: new Set(),
+      total: null,
+      lastUsed: ++this.clock,
+    });
+  }
+
+  finish(cell: GridCell, state: GridCellState, total: number | null): void {
+    const record = this.cells.get(cell.key);
+    if (!record) return;
+    record.state = state;
+    record.total = total;
+  }
+
+  // отмена запросов: незавершённые ячейки придётся запросить снова
+  abortLoading(): void {
+    this.cells.forEach((record) => {
+      if (record.state === 'loading') record.state = 'partial';
+    });
+  }
+
+  /**
+   * Объект из ответа по ячейке; create вызывается только для нового
+   * идентификатора. Возвращает true, если объект добавлен впервые
+   */
+  add(cell: GridCell, id: string, create: () => T): boolean {
+    const record = this.cells.get(cell.key);
+    if (!record) return false;
+    record.ids.add(id);
+    const existing = this.features.get(id);
+    if (existing) {
+      existing.cells.add(cell.key);
+      return false;
+    }
+    this.features.set(id, { value: create(), cells: new Set([cell.key]) });
+    return true;
+  }
+
+  /**
+   * Сводка по ячейкам: число объектов и, если часть ячеек ограничена,
+   * оценка общего числа по numberMatched
+   */
+  stats(cells: GridCell[]): {
+    loaded: number;
+    total: number | null;
+    limited: boolean;
+  } {
+    const ids = new Set<string>();
+    let missing = 0;
+    let limited = false;
+    let known = true;
+    cells.forEach((cell) => {
+      const record = this.cells.get(cell.key);
+      if (!record) return;
+      record.ids.forEach((id) => ids.add(id));
+      if (record.state !== 'limited') return;
+      limited = true;
+      if (record.total === null) known = false;
+      else missing += Math.max(0, record.total - record.ids.size);
+    });
+    return {
+      loaded: ids.size,
+      total: limited && !known ? null : ids.size + missing,
+      limited,
+    };
+  }
+
+  /**
+   * Выгрузка давно не использованных ячеек вне keep, пока объектов больше
+   * budget; remove получает объекты, не оставшиеся ни в одной ячейке
+   */
+  evict(budget: number, keep: Bbox, remove: (value: T) => void): void {
+    if (this.features.size <= budget) return;
+    const candidates = Array.from(this.cells.entries())
+      .filter(
+        ([, record]) =>
+          record.state !== 'loading' && !intersects(record.bbox, keep)
+      )
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [key, record] of candidates) {
+      if (this.features.size <= budget) break;
+      this.cells.delete(key);
+      record.ids.forEach((id) => {
+        const feature = this.features.get(id);
+        if (!feature) return;
+        feature.cells.delete(key);
+        if (feature.cells.size) return;
+        this.features.delete(id);
+        remove(feature.value);
+      });
+    }
+  }
+
+  /**
+   * Сброс кэша; возвращает прежние объекты по идентификатору, чтобы
+   * вызывающий мог заменять их по мере повторной загрузки
+   */
+  reset(): Map<string, T> {
+    const previous = new Map<string, T>();
+    this.features.forEach((feature, id) => previous.set(id, feature.value));
+    this.cells.clear();
+    this.features.clear();
+    return previous;
+  }
+}
@@ -0,0 +1,464 @@
+/**
+ * Чтение локальных файлов GeoJSON, KML, GPX и CSV с координатами
+ * в объекты GeoJSON (WGS84)
+ */
+import { wktToGeometry } from './geometryUtils';
+
+export type ImportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export class FeatureImportError extends Error {
+  // номер строки файла, начиная с 1
+  line: number | null;
+  // номер объекта в файле, начиная с 1
+  feature: number | null;
+
+  constructor(
+    message: string,
+    context: { line?: number | null; feature?: number | null } = {}
+  ) {
+    const where = [
+      context.line ? `строка ${context.line}` : null,
+      context.feature ? `объект №${context.feature}` : null,
+    ]
+      .filter(Boolean)
+      .join(', ');
+    super(where ? `${message} (${where})` : message);
+    this.name = 'FeatureImportError';
+    this.line = context.line ?? null;
+    this.feature = context.feature ?? null;
+  }
+}
+
+export const IMPORT_EXTENSIONS = [
+  '.geojson',
+  '.json',
+  '.kml',
+  '.gpx',
+  '.csv',
+  '.txt',
+];
+
+/**
+ * Формат по расширению, а для неизвестного расширения — по содержимому
+ */
+export function detectImportFormat(
+  fileName: string,
+  text: string
+): ImportFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'kml') return 'kml';
+  if (ext === 'gpx') return 'gpx';
+  if (ext === 'csv' || ext === 'txt') return 'csv';
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  return null;
+}
+
+// номер строки по смещению в тексте
+const lineAt = (text: string, offset: number) =>
+  text.slice(0, offset).split('\n').length;
+
+const isPosition = (p: unknown): p is number[] =>
+  Array.isArray(p) &&
+  p.length >= 2 &&
+  p.every((n) => typeof n === 'number' && isFinite(n));
+
+const checkCoordinates = (coords: unknown, depth: number): boolean => {
+  if (depth === 0) return isPosition(coords);
+  return (
+    Array.isArray(coords) && coords.every((c) => checkCoordinates(c, depth - 1))
+  );
+};
+
+const GEOMETRY_DEPTH: Record<string, number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+// сообщение об ошибке геометрии или null, если она корректна
+const geometryProblem = (geometry: unknown): string | null => {
+  if (geometry === null) return null;
+  const g = geometry as { type?: unknown; coordinates?: unknown };
+  if (!g || typeof g !== 'object' || typeof g.type !== 'string')
+    return 'геометрия без типа';
+  if (g.type === 'GeometryCollection') {
+    const parts = (geometry as { geometries?: unknown }).geometries;
+    if (!Array.isArray(parts)) return 'GeometryCollection без geometries';
+    for (const part of parts) {
+      const problem = geometryProblem(part);
+      if (problem) return problem;
+    }
+    return null;
+  }
+  const depth = GEOMETRY_DEPTH[g.type];
+  if (depth === undefined) return `неизвестный тип геометрии ${g.type}`;
+  return checkCoordinates(g.coordinates, depth)
+    ? null
+    : `некорректные координаты ${g.type}`;
+};
+
+/**
+ * GeoJSON: FeatureCollection, Feature или одиночная геометрия
+ */
+export function parseGeoJsonText(text: string): GeoJSON.FeatureCollection {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    // V8 сообщает смещение, Firefox — строку
+    const message = (err as Error).message;
+    const line = message.match(/line (\d+)/i);
+    const position = message.match(/position (\d+)/i);
+    throw new FeatureImportError(`Ошибка JSON: ${message}`, {
+      line: line
+        ? Number(line[1])
+        : position
+        ? lineAt(text, Number(position[1]))
+        : null,
+    });
+  }
+  return parseGeoJson(data);
+}
+
+/**
+ * Уже разобранный GeoJSON — с теми же проверками объектов и геометрии
+ */
+export function parseGeoJson(data: unknown): GeoJSON.FeatureCollection {
+  const root = data as { type?: string; features?: unknown };
+  let items: unknown[];
+  if (root?.type === 'FeatureCollection') {
+    if (!Array.isArray(root.features))
+      throw new FeatureImportError('FeatureCollection без массива features');
+    items = root.features;
+  } else if (root?.type === 'Feature') {
+    items = [root];
+  } else if (root?.type && GEOMETRY_DEPTH[root.type] !== undefined) {
+    items = [{ type: 'Feature', properties: {}, geometry: root }];
+  } else {
+    throw new FeatureImportError('Файл не содержит объектов GeoJSON');
+  }
+
+  const features = items.map((item, index) => {
+    const f = item as GeoJSON.Feature;
+    if (!f || f.type !== 'Feature')
+      throw new FeatureImportError('Ожидался объект типа Feature', {
+        feature: index + 1,
+      });
+    const problem = geometryProblem(f.geometry ?? null);
+    if (problem)
+      throw new FeatureImportError(`Ошибка геометрии: ${problem}`, {
+        feature: index + 1,
+      });
+    return { ...f, properties: f.properties ?? {} };
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+const parseXml = (text: string, format: string) => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const error = xml.getElementsByTagName('parsererror')[0];
+  if (error) {
+    const message = error.textContent?.trim() ?? '';
+    const line = message.match(/line(?: number)?\s*(\d+)/i);
+    throw new FeatureImportError(`Некорректный ${format}: ${message}`, {
+      line: line ? Number(line[1]) : null,
+    });
+  }
+  return xml;
+};
+
+const children = (el: Element | Document, name: string) =>
+  Array.from(el.getElementsByTagName('*')).filter((c) => c.localName === name);
+
+const directChildren = (el: Element, name: string) =>
+  Array.from(el.children).filter((c) => c.localName === name);
+
+const childText = (el: Element, name: string) =>
+  directChildren(el, name)[0]?.textContent?.trim() ?? null;
+
+/**
+ * KML: Placemark с Point, LineString, Polygon и MultiGeometry;
+ * атрибуты — из name, description и ExtendedData
+ */
+export function parseKml(text: string): GeoJSON.FeatureCollection {
+  const xml = parseXml(text, 'KML');
+
+  const readCoords = (el: Element | undefined, index: number) => {
+    const raw = el?.textContent?.trim() ?? '';
+    const coords = raw
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((tuple) => tuple.split(',').map(Number));
+    if (!coords.length || !coords.every(isPosition))
+      throw new FeatureImportError('Некорректные координаты KML', {
+        feature: index,
+      });
+    return coords;
+  };
+
+  const readGeometry = (
+    el: Element,
+    index: number
+  ): GeoJSON.Geometry | null => {
+    const coordinates = () =>
+      readCoords(directChildren(el, 'coordinates')[0], index);
+    switch (el.localName) {
+      case 'Point':
+        return { type: 'Point', coordinates: coordinates()[0] };
+      case 'LineString':
+        return { type: 'LineString', coordinates: coordinates() };
+      case 'Polygon': {
+        const ring = (boundary: Element) =>
+          readCoords(children(boundary, 'coordinates')[0], index);
+        return {
+          type: 'Polygon',
+          coordinates: [
+            ...directChildren(el, 'outerBoundaryIs').map(ring),
+            ...directChildren(el, 'innerBoundaryIs').map(ring),
+          ],
+        };
+      }
+      case 'MultiGeometry': {
+        const parts = Array.from(el.children)
+          .map((c) => readGeometry(c, index))
+          .filter((g): g is GeoJSON.Geometry => !!g);
+        return { type: 'GeometryCollection', geometries: parts };
+      }
+      default:
+        return null;
+    }
+  };
+
+  const features: GeoJSON.Feature[] = [];
+  children(xml, 'Placemark').forEach((placemark, i) => {
+    const properties: Record<string, unknown> = {};
+    const name = childText(placemark, 'name');
+    if (name) properties.name = name;
+    const description = childText(placemark, 'description');
+    if (description) properties.description = description;
+    children(placemark, 'Data').forEach((data) => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = childText(data, 'value') ?? '';
+    });
+    children(placemark, 'SimpleData').forEach((data) => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent ?? '';
+    });
+    const geometry = Array.from(placemark.children)
+      .map((c) => readGeometry(c, i + 1))
+      .find((g) => g);
+    // метки без геометрии (например, с gx:Track) пропускаются
+    if (!geometry) return;
+    const feature: GeoJSON.Feature = { type: 'Feature', properties, geometry };
+    const id = placemark.getAttribute('id');
+    if (id) feature.id = id;
+    features.push(feature);
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * GPX: путевые точки, маршруты и треки
+ */
+export function parseGpx(text: string): GeoJSON.FeatureCollection {
+  const xml = parseXml(text, 'GPX');
+  let index = 0;
+
+  const readPoint = (el: Element) => {
+    const position = [
+      Number(el.getAttribute('lon')),
+      Number(el.getAttribute('lat')),
+    ];
+    const ele = childText(el, 'ele');
+    if (ele !== null && ele !== '') position.push(Number(ele));
+    if (!isPosition(position))
+      throw new FeatureImportError('Некорректные координаты точки GPX', {
+        feature: index,
+      });
+    return position;
+  };
+  const info = (el: Element) => {
+    const properties: Record<string, unknown> = {};
+    ['name', 'desc', 'cmt', 'type', 'time'].forEach((key) => {
+      const value = childText(el, key);
+      if (value) properties[key] = value;
+    });
+    return properties;
+  };
+
+  const features: GeoJSON.Feature[] = [];
+  directChildren(xml.documentElement, 'wpt').forEach((wpt) => {
+    index++;
+    features.push({
+      type: 'Feature',
+      properties: info(wpt),
+      geometry: { type: 'Point', coordinates: readPoint(wpt) },
+    });
+  });
+  directChildren(xml.documentElement, 'rte').forEach((rte) => {
+    index++;
+    features.push({
+      type: 'Feature',
+      properties: info(rte),
+      geometry: {
+        type: 'LineString',
+        coordinates: directChildren(rte, 'rtept').map(readPoint),
+      },
+    });
+  });
+  directChildren(xml.documentElement, 'trk').forEach((trk) => {
+    index++;
+    const segments = directChildren(trk, 'trkseg').map((seg) =>
+      directChildren(seg, 'trkpt').map(readPoint)
+    );
+    features.push({
+      type: 'Feature',
+      properties: info(trk),
+      geometry:
+        segments.length === 1
+          ? { type: 'LineString', coordinates: segments[0] }
+          : { type: 'MultiLineString', coordinates: segments },
+    });
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Строки CSV с учётом кавычек; перевод строки внутри кавычек не делит запись
+ */
+const parseCsvRows = (text: string, delimiter: string) => {
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some((c) => c !== '')) rows.push({ cells, line: rowLine });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else cell += ch;
+  }
+  if (quoted)
+    throw new FeatureImportError('Незакрытая кавычка', { line: rowLine });
+  cells.push(cell);
+  if (cells.some((c) => c !== '')) rows.push({ cells, line: rowLine });
+  return rows;
+};
+
+const WKT_COLUMNS = /^(wkt|ewkt|geometry|geom|the_geom)$/i;
+const LON_COLUMNS = /^(lon|lng|long|longitude|x|долгота)$/i;
+const LAT_COLUMNS = /^(lat|latitude|y|широта)$/i;
+
+// десятичная запятая допустима при разделителе «;»
+const parseNumber = (value: string) =>
+  value.trim() === '' ? NaN : Number(value.trim().replace(',', '.'));
+
+/**
+ * CSV с заголовком и колонкой WKT либо колонками долготы и широты
+ */
+export function parseCsv(text: string): GeoJSON.FeatureCollection {
+  const content = text.replace(/^\uFEFF/, '');
+  const header = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    header.split(d).length > header.split(best).length ? d : best
+  );
+  const [head, ...rows] = parseCsvRows(content, delimiter);
+  if (!head) throw new FeatureImportError('Пустой файл CSV');
+
+  const columns = head.cells.map((c) => c.trim());
+  const wktIndex = columns.findIndex((c) => WKT_COLUMNS.test(c));
+  const lonIndex = columns.findIndex((c) => LON_COLUMNS.test(c));
+  const latIndex = columns.findIndex((c) => LAT_COLUMNS.test(c));
+  if (wktIndex < 0 && (lonIndex < 0 || latIndex < 0))
+    throw new FeatureImportError(
+      'В заголовке CSV нет колонки WKT или колонок долготы и широты (lon/lat, x/y)',
+      { line: head.line }
+    );
+
+  const features = rows.map(({ cells, line }, i): GeoJSON.Feature => {
+    if (wktIndex >= 0) {
+      let geometry: GeoJSON.Geometry;
+      try {
+        geometry = wktToGeometry(cells[wktIndex] ?? '');
+      } catch (err) {
+        throw new FeatureImportError(`Ошибка WKT: ${(err as Error).message}`, {
+          line,
+          feature: i + 1,
+        });
+      }
+      const properties: Record<string, unknown> = {};
+      columns.forEach((name, c) => {
+        if (c !== wktIndex) properties[name] = cells[c] ?? '';
+      });
+      return { type: 'Feature', properties, geometry };
+    }
+
+    const lon = parseNumber(cells[lonIndex] ?? '');
+    const lat = parseNumber(cells[latIndex] ?? '');
+    if (!isFinite(lon) || !isFinite(lat) || Math.abs(lat) > 90)
+      throw new FeatureImportError(
+        `Некорректные координаты «${cells[lonIndex] ?? ''}», «${
+          cells[latIndex] ?? ''
+        }»`,
+        { line, feature: i + 1 }
+      );
+    const properties: Record<string, unknown> = {};
+    columns.forEach((name, c) => {
+      if (c !== lonIndex && c !== latIndex) properties[name] = cells[c] ?? '';
+    });
+    return {
+      type: 'Feature',
+      properties,
+      geometry: { type: 'Point', coordinates: [lon, lat] },
+    };
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Разбор файла по формату
+ */
+export function parseImportFile(
+  fileName: string,
+  text: string
+): GeoJSON.FeatureCollection {
+  switch (detectImportFormat(fileName, text)) {
+    case 'geojson':
+      return parseGeoJsonText(text);
+    case 'kml':
+      return parseKml(text);
+    case 'gpx':
+      return parseGpx(text);
+    case 'csv':
+      return parseCsv(text);
+    default:
+      throw new FeatureImportError('Неизвестный формат файла');
+  }
+}
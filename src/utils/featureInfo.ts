@@ -0,0 +1,125 @@
+/**
+ * Ответ WMS GetFeatureInfo в разных форматах (GeoJSON, GML, HTML, текст):
+ * выбор формата из capabilities и приведение ответа к объектам GeoJSON
+ */
+import { reprojectGeometry } from './crs';
+import { XmlElement, XmlStreamReader } from './gmlStream';
+import {
+  parseFeatureElement,
+  parseWfsXmlToGeoJson,
+  readExceptionReport,
+} from './wfsParser';
+
+export type FeatureInfoKind = 'json' | 'gml' | 'html' | 'text';
+
+export interface FeatureInfo {
+  features: GeoJSON.Feature[];
+  // HTML или текст ответа, если сервер не отдаёт объекты
+  html: string | null;
+  text: string | null;
+}
+
+// форматы по убыванию предпочтения: объекты с геометрией лучше HTML
+const FORMAT_KINDS: [FeatureInfoKind, RegExp][] = [
+  ['json', /json/i],
+  ['gml', /gml|^text\/xml|^application\/xml/i],
+  ['html', /html/i],
+  ['text', /^text\/plain/i],
+];
+
+export const featureInfoKind = (format: string): FeatureInfoKind =>
+  FORMAT_KINDS.find(([, re]) => re.test(format))?.[0] ?? 'text';
+
+/**
+ * Формат GetFeatureInfo из объявленных сервером; null — запрос не поддерживается
+ */
+export const chooseInfoFormat = (formats: string[]): string | null => {
+  for (const [, re] of FORMAT_KINDS) {
+    const format = formats.find((f) => re.test(f));
+    if (format) return format;
+  }
+  return formats[0] ?? null;
+};
+
+const readXmlTree = (xmlText: string) => {
+  let root: XmlElement | null = null;
+  const reader = new XmlStreamReader({
+    capture: (_el, ancestors) => !ancestors.length,
+    onElement: (el) => {
+      root = el;
+    },
+  });
+  reader.write(xmlText);
+  reader.end();
+  return root as XmlElement | null;
+};
+
+// MapServer: msGMLOutput > {слой}_layer > {слой}_feature
+const parseMapServerGml = (root: XmlElement, srsName: string) =>
+  root.children.flatMap((layer) =>
+    layer.children
+      .filter((el) => el.localName.endsWith('_feature'))
+      .map((el) => parseFeatureElement(el, srsName, null))
+  );
+
+const parseGml = (xmlText: string, srsName: string) => {
+  const root = readXmlTree(xmlText);
+  if (!root) return [];
+  if (root.localName === 'msGMLOutput') return parseMapServerGml(root, srsName);
+  return parseWfsXmlToGeoJson(xmlText, { srsName })?.features ?? [];
+};
+
+// GeoJSON GetFeatureInfo приходит в системе координат запроса,
+// если в нём не указано иное
+const parseJson = (text: string, srsName: string): GeoJSON.Feature[] => {
+  const json = JSON.parse(text);
+  const features: GeoJSON.Feature[] =
+    json?.type === 'FeatureCollection'
+      ? json.features ?? []
+      : json?.type === 'Feature'
+      ? [json]
+      : [];
+  const crs: string = json?.crs?.properties?.name ?? srsName;
+  return features.map((f) => ({
+    ...f,
+    geometry: f.geometry ? reprojectGeometry(f.geometry, crs) : f.geometry,
+  }));
+};
+
+// пустая HTML-страница — сервер ничего не нашёл
+const hasHtmlContent = (html: string) =>
+  html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .trim() !== '';
+
+/**
+ * Ответ GetFeatureInfo; srsName — система координат запроса для
+ * геометрий без явного указания. ServiceExceptionReport — ошибка
+ */
+export const parseFeatureInfo = (
+  text: string,
+  format: string,
+  srsName: string
+): FeatureInfo => {
+  const exception = readExceptionReport(text);
+  if (exception) throw new Error(`WMS exception: ${exception}`);
+  const empty: FeatureInfo = { features: [], html: null, text: null };
+  switch (featureInfoKind(format)) {
+    case 'json':
+      return { ...empty, features: parseJson(text, srsName) };
+    case 'gml':
+      return { ...empty, features: parseGml(text, srsName) };
+    case 'html':
+      return { ...empty, html: hasHtmlContent(text) ? text : null };
+    case 'text':
+      // GeoServer отвечает на пустой результат фразой вместо пустого текста
+      return {
+        ...empty,
+        text: /^no features were found/i.test(text.trim())
+          ? null
+          : text.trim() || null,
+      };
+  }
+};
@@ -0,0 +1,217 @@
+/**
+ * Схема типа объектов WFS из ответа DescribeFeatureType (XSD)
+ * и приведение значений атрибутов к объявленным типам
+ */
+
+export type AttributeType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'dateTime'
+  | 'time';
+
+export interface AttributeSchema {
+  name: string;
+  type: AttributeType;
+  // исходный тип из XSD, например 'xsd:int'
+  xsdType: string;
+  nillable: boolean;
+}
+
+export interface FeatureTypeSchema {
+  typeName: string;
+  // targetNamespace схемы — пространство имён префикса типа
+  namespace: string | null;
+  geometryName: string | null;
+  // тип геометрии из XSD без суффикса PropertyType: 'Point', 'MultiSurface', ...
+  geometryType: string | null;
+  // позиция свойства геометрии среди атрибутов: порядок важен при записи объекта
+  geometryIndex: number | null;
+  attributes: AttributeSchema[];
+}
+
+const XSD_TYPES: Record<string, AttributeType> = {
+  string: 'string',
+  normalizedString: 'string',
+  token: 'string',
+  anyURI: 'string',
+  int: 'integer',
+  integer: 'integer',
+  long: 'integer',
+  short: 'integer',
+  byte: 'integer',
+  nonNegativeInteger: 'integer',
+  nonPositiveInteger: 'integer',
+  positiveInteger: 'integer',
+  negativeInteger: 'integer',
+  unsignedInt: 'integer',
+  unsignedLong: 'integer',
+  unsignedShort: 'integer',
+  unsignedByte: 'integer',
+  decimal: 'number',
+  double: 'number',
+  float: 'number',
+  boolean: 'boolean',
+  date: 'date',
+  dateTime: 'dateTime',
+  time: 'time',
+};
+
+const localPart = (qname: string) => qname.slice(qname.indexOf(':') + 1);
+
+const elementsByLocalName = (root: Element | Document, name: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(
+    (el) => el.localName === name
+  );
+
+// тип элемента: атрибут type либо вложенный simpleType/restriction base
+const declaredType = (el: Element) => {
+  const type = el.getAttribute('type');
+  if (type) return type;
+  const restriction = elementsByLocalName(el, 'restriction')[0];
+  return restriction?.getAttribute('base') ?? 'xsd:string';
+};
+
+const isGeometryType = (qname: string) =>
+  /^gml:/i.test(qname) ||
+  /(Geometry|Point|Curve|Surface|LineString|Polygon)PropertyType$/.test(
+    localPart(qname)
+  );
+
+export const parseFeatureTypeSchema = (
+  xsdText: string,
+  typeName: string
+): FeatureTypeSchema | null => {
+  const xml = new DOMParser().parseFromString(xsdText, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length) return null;
+
+  const typeLocal = localPart(typeName);
+  const complexTypes = elementsByLocalName(xml, 'complexType');
+
+  // элемент верхнего уровня с именем типа указывает на complexType
+  const topElement = Array.from(xml.documentElement.children).find(
+    (el) => el.localName === 'element' && el.getAttribute('name') === typeLocal
+  );
+  const refType = topElement?.getAttribute('type');
+  const complexType =
+    complexTypes.find(
+      (ct) => refType && ct.getAttribute('name') === localPart(refType)
+    ) ??
+    complexTypes.find((ct) => ct.getAttribute('name') === `${typeLocal}Type`) ??
+    (topElement && elementsByLocalName(topElement, 'complexType')[0]) ??
+    complexTypes[0];
+  if (!complexType) return null;
+
+  const schema: FeatureTypeSchema = {
+    typeName,
+    namespace: xml.documentElement.getAttribute('targetNamespace'),
+    geometryName: null,
+    geometryType: null,
+    geometryIndex: null,
+    attributes: [],
+  };
+
+  for (const el of elementsByLocalName(complexType, 'element')) {
+    const name = el.getAttribute('name');
+    if (!name) continue;
+    const xsdType = declaredType(el);
+
+    if (isGeometryType(xsdType)) {
+      if (!schema.geometryName) {
+        schema.geometryName = name;
+        schema.geometryType = localPart(xsdType).replace(/PropertyType$/, '');
+        schema.geometryIndex = schema.attributes.length;
+      }
+      continue;
+    }
+
+    schema.attributes.push({
+      name,
+      type: XSD_TYPES[localPart(xsdType)] ?? 'string',
+      xsdType,
+      nillable:
+        el.getAttribute('nillable') === 'true' ||
+        el.getAttribute('minOccurs') === '0',
+    });
+  }
+
+  return schema;
+};
+
+/**
+ * Значение атрибута в объявленном типе; пустое значение — null
+ */
+export const convertAttributeValue = (
+  raw: string,
+  type: AttributeType
+): unknown => {
+  const value = raw.trim();
+  if (value === '') return type === 'string' ? value : null;
+
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const n = Number(value);
+      return isNaN(n) ? value : n;
+    }
+    case 'boolean':
+      if (/^(true|1)$/i.test(value)) return true;
+      if (/^(false|0)$/i.test(value)) return false;
+      return value;
+    case 'date':
+    case 'dateTime': {
+      const d = new Date(value);
+      return isNaN(d.getTime()) ? value : d;
+    }
+    default:
+      return value;
+  }
+};
+
+export const getAttributeSchema = (
+  schema: FeatureTypeSchema | null | undefined,
+  name: string
+) => schema?.attributes.find((a) => a.name === name) ?? null;
+
+/**
+ * Тип поля ввода HTML для атрибута
+ */
+export const attributeInputType = (
+  attr: AttributeSchema | null | undefined
+) => {
+  switch (attr?.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'date':
+      return 'date';
+    case 'dateTime':
+      return 'datetime-local';
+    case 'time':
+      return 'time';
+    default:
+      return 'text';
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Значение атрибута в виде строки для поля ввода; даты — в UTC, как в попапах
+ */
+export const attributeInputValue = (
+  value: unknown,
+  attr: AttributeSchema | null | undefined
+): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const date = `${value.getUTCFullYear()}-${pad(
+      value.getUTCMonth() + 1
+    )}-${pad(value.getUTCDate())}`;
+    if (attr?.type === 'date') return date;
+    return `${date}T${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}`;
+  }
+  return String(value);
+};
@@ -1,6 +1,7 @@
 /**
  * Утилиты для работы с геометрией и координатами
  */
+import { reprojectGeometry } from './crs';
 
 export interface Coordinate {
   lng: number;
@@ -63,20 +64,10 @@ export function parseCoordinates(value: string): Coordinate[] | null {
       }
     }
     
-    // Если это WKT формат (POLYGON((lng lat, lng lat, ...)))
-    if (value.toUpperCase().includes('POLYGON')) {
-      const match = value.match(/POLYGON\s*\(\s*\(\s*([^)]+)\s*\)\s*\)/i);
-      if (match) {
-        const coordsString = match[1];
-        const coords = coordsString.split(',').map((coord: string) => {
-          const parts = coord.trim().split(/\s+/);
-          if (parts.length >= 2) {
-            return { lng: parseFloat(parts[0]), lat: parseFloat(parts[1]) };
-          }
-          return null;
-        }).filter(Boolean) as Coordinate[];
-        return coords.length > 0 ? coords : null;
-      }
+    // Если это WKT/EWKT — контур первого полигона или линия
+    if (isWkt(value)) {
+      const ring = firstContour(wktToGeometry(value));
+      return ring && ring.length > 0 ? ring : null;
     }
     
     return null;
@@ -86,6 +77,57 @@ export function parseCoordinates(value: string): Coordinate[] | null {
   }
 }
 
+// внешний контур первого полигона, линия или точки геометрии
+function firstContour(geometry: GeoJSON.Geometry): Coordinate[] | null {
+  const toCoords = (positions: number[][]) => positions.map((p) => ({ lng: p[0], lat: p[1] }));
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates.length ? toCoords([geometry.coordinates]) : null;
+    case 'MultiPoint':
+    case 'LineString':
+      return toCoords(geometry.coordinates);
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates[0] ? toCoords(geometry.coordinates[0]) : null;
+    case 'MultiPolygon':
+      return geometry.coordinates[0]?.[0] ? toCoords(geometry.coordinates[0][0]) : null;
+    case 'GeometryCollection':
+      return geometry.geometries.length ? firstContour(geometry.geometries[0]) : null;
+  }
+}
+
+const isEmptyGeometry = (geometry: GeoJSON.Geometry): boolean =>
+  geometry.type === 'GeometryCollection'
+    ? geometry.geometries.every(isEmptyGeometry)
+    : geometry.coordinates.length === 0;
+
+/**
+ * Геометрия из текстового значения поля: WKT/EWKT, GeoJSON или список
+ * координат контура. Координаты без SRID пересчитываются из srsName.
+ */
+export function parseGeometry(value: string, srsName?: string | null): GeoJSON.Geometry | null {
+  try {
+    if (isWkt(value)) {
+      const geometry = wktToGeometry(value, srsName);
+      return isEmptyGeometry(geometry) ? null : geometry;
+    }
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{')) {
+      const parsed = JSON.parse(trimmed);
+      const geometry = parsed?.type === 'Feature' ? parsed.geometry : parsed;
+      if (geometry && typeof geometry.type === 'string' && WKT_TYPE_NAMES.includes(geometry.type))
+        return reprojectGeometry(geometry as GeoJSON.Geometry, srsName);
+      return null;
+    }
+  } catch (error) {
+    console.warn('Ошибка при разборе геометрии:', error);
+    return null;
+  }
+  const coordinates = parseCoordinates(value);
+  if (!coordinates || !isValidPolygon(coordinates)) return null;
+  return reprojectGeometry(coordinatesToPolygon(coordinates), srsName);
+}
+
 /**
  * Ищет поле с координатами в массиве полей
  */
@@ -115,6 +157,19 @@ export function coordinatesToLeaflet(coordinates: Coordinate[]): [number, number
   return coordinates.map(coord => [coord.lat, coord.lng]);
 }
 
+/**
+ * Преобразует контур в полигон GeoJSON, замыкая кольцо при необходимости
+ */
+export function coordinatesToPolygon(coordinates: Coordinate[]): GeoJSON.Polygon {
+  const ring = coordinates.map((c) => [c.lng, c.lat]);
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]]);
+  }
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
 /**
  * Проверяет, является ли геометрия валидным полигоном
  */
@@ -142,3 +197,556 @@ export function getPolygonCenter(coordinates: Coordinate[]): Coordinate {
     lat: sum.lat / coordinates.length
   };
 }
+
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Окружность радиусом radius метров как полигон GeoJSON (по сфере)
+ */
+export function circleToPolygon(center: Coordinate, radius: number, segments = 64): GeoJSON.Polygon {
+  const lat1 = (center.lat * Math.PI) / 180;
+  const lng1 = (center.lng * Math.PI) / 180;
+  const d = radius / EARTH_RADIUS;
+  const ring: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const bearing = (2 * Math.PI * i) / segments;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(d) * Math.cos(lat1),
+        Math.cos(d) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([(lng2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+  ring.push([...ring[0]]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+// эллипсоид WGS84
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const normalizeBearing = (deg: number) => (deg + 360) % 360;
+
+export interface GeodesicInverse {
+  // расстояние в метрах
+  distance: number;
+  // прямой и обратный азимуты в градусах от севера по часовой стрелке
+  initialBearing: number;
+  finalBearing: number;
+}
+
+/**
+ * Обратная геодезическая задача по сфере — запасной вариант для почти
+ * диаметрально противоположных точек, где Винсенти не сходится
+ */
+function sphericalInverse(from: Coordinate, to: Coordinate): GeodesicInverse {
+  const φ1 = toRad(from.lat);
+  const φ2 = toRad(to.lat);
+  const Δλ = toRad(to.lng - from.lng);
+  const h =
+    Math.sin((φ2 - φ1) / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  const bearing = (a: number, b: number, d: number) =>
+    Math.atan2(Math.sin(d) * Math.cos(b), Math.cos(a) * Math.sin(b) - Math.sin(a) * Math.cos(b) * Math.cos(d));
+  return {
+    distance: 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h))),
+    initialBearing: normalizeBearing(toDeg(bearing(φ1, φ2, Δλ))),
+    finalBearing: normalizeBearing(toDeg(bearing(φ2, φ1, -Δλ)) + 180),
+  };
+}
+
+/**
+ * Обратная геодезическая задача на эллипсоиде WGS84 (формулы Винсенти)
+ */
+export function geodesicInverse(from: Coordinate, to: Coordinate): GeodesicInverse {
+  const L = toRad(to.lng - from.lng);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRad(from.lat)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRad(to.lat)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let λ = L;
+  let sinλ = 0;
+  let cosλ = 0;
+  let sinσ = 0;
+  let cosσ = 0;
+  let σ = 0;
+  let cos2α = 0;
+  let cos2σm = 0;
+  let converged = false;
+  for (let i = 0; i < 200; i++) {
+    sinλ = Math.sin(λ);
+    cosλ = Math.cos(λ);
+    sinσ = Math.sqrt((cosU2 * sinλ) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosλ) ** 2);
+    // совпадающие точки
+    if (sinσ === 0) return { distance: 0, initialBearing: 0, finalBearing: 0 };
+    cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ;
+    σ = Math.atan2(sinσ, cosσ);
+    const sinα = (cosU1 * cosU2 * sinλ) / sinσ;
+    cos2α = 1 - sinα * sinα;
+    // на экваторе cos2α = 0
+    cos2σm = cos2α !== 0 ? cosσ - (2 * sinU1 * sinU2) / cos2α : 0;
+    const C = (WGS84_F / 16) * cos2α * (4 + WGS84_F * (4 - 3 * cos2α));
+    const prev = λ;
+    λ = L + (1 - C) * WGS84_F * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+    if (Math.abs(λ - prev) < 1e-12) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) return sphericalInverse(from, to);
+
+  const u2 = (cos2α * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+  const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+  const Δσ =
+    B *
+    sinσ *
+    (cos2σm +
+      (B / 4) *
+        (cosσ * (-1 + 2 * cos2σm * cos2σm) -
+          (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)));
+
+  return {
+    distance: WGS84_B * A * (σ - Δσ),
+    initialBearing: normalizeBearing(toDeg(Math.atan2(cosU2 * sinλ, cosU1 * sinU2 - sinU1 * cosU2 * cosλ))),
+    finalBearing: normalizeBearing(toDeg(Math.atan2(cosU1 * sinλ, -sinU1 * cosU2 + cosU1 * sinU2 * cosλ))),
+  };
+}
+
+/**
+ * Геодезическое расстояние между точками в метрах
+ */
+export function geodesicDistance(from: Coordinate, to: Coordinate): number {
+  return geodesicInverse(from, to).distance;
+}
+
+/**
+ * Прямой азимут из from на to в градусах (0..360)
+ */
+export function geodesicBearing(from: Coordinate, to: Coordinate): number {
+  return geodesicInverse(from, to).initialBearing;
+}
+
+/**
+ * Длина ломаной в метрах
+ */
+export function geodesicLength(coordinates: Coordinate[]): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    length += geodesicDistance(coordinates[i - 1], coordinates[i]);
+  }
+  return length;
+}
+
+// площадь считается на равновеликой (аутентической) сфере эллипсоида WGS84
+const WGS84_E = Math.sqrt(WGS84_F * (2 - WGS84_F));
+const authalicQ = (sinφ: number) =>
+  (1 - WGS84_E * WGS84_E) *
+  (sinφ / (1 - WGS84_E * WGS84_E * sinφ * sinφ) -
+    (1 / (2 * WGS84_E)) * Math.log((1 - WGS84_E * sinφ) / (1 + WGS84_E * sinφ)));
+const AUTHALIC_QP = authalicQ(1);
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(AUTHALIC_QP / 2);
+const authalicLatitude = (lat: number) =>
+  Math.asin(Math.max(-1, Math.min(1, authalicQ(Math.sin(toRad(lat))) / AUTHALIC_QP)));
+
+/**
+ * Площадь кольца в квадратных метрах; кольцо может быть не замкнуто
+ */
+export function geodesicArea(ring: Coordinate[]): number {
+  if (ring.length < 3) return 0;
+  let excess = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p1 = ring[i];
+    const p2 = ring[(i + 1) % ring.length];
+    let Δλ = toRad(p2.lng - p1.lng);
+    // ребро через антимеридиан
+    if (Δλ > Math.PI) Δλ -= 2 * Math.PI;
+    if (Δλ < -Math.PI) Δλ += 2 * Math.PI;
+    const t1 = Math.tan(authalicLatitude(p1.lat) / 2);
+    const t2 = Math.tan(authalicLatitude(p2.lat) / 2);
+    excess += 2 * Math.atan2(Math.tan(Δλ / 2) * (t1 + t2), 1 + t1 * t2);
+  }
+  return Math.abs(excess) * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+}
+
+export interface GeometryMeasure {
+  // длина линий, м
+  length: number;
+  // площадь полигонов, м²
+  area: number;
+  // периметр полигонов (с внутренними кольцами), м
+  perimeter: number;
+}
+
+const toCoordinates = (positions: GeoJSON.Position[]): Coordinate[] =>
+  positions.map((p) => ({ lng: p[0], lat: p[1] }));
+
+/**
+ * Длина, площадь и периметр геометрии GeoJSON в WGS84
+ */
+export function measureGeometry(geometry: GeoJSON.Geometry): GeometryMeasure {
+  const result: GeometryMeasure = { length: 0, area: 0, perimeter: 0 };
+  const addPolygon = (rings: GeoJSON.Position[][]) => {
+    rings.forEach((ring, index) => {
+      const coords = toCoordinates(ring);
+      const area = geodesicArea(coords);
+      // внутренние кольца — дырки
+      result.area += index === 0 ? area : -area;
+      result.perimeter += geodesicLength(coords);
+    });
+  };
+  switch (geometry.type) {
+    case 'LineString':
+      result.length += geodesicLength(toCoordinates(geometry.coordinates));
+      break;
+    case 'MultiLineString':
+      geometry.coordinates.forEach((line) => {
+        result.length += geodesicLength(toCoordinates(line));
+      });
+      break;
+    case 'Polygon':
+      addPolygon(geometry.coordinates);
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach(addPolygon);
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach((g) => {
+        const m = measureGeometry(g);
+        result.length += m.length;
+        result.area += m.area;
+        result.perimeter += m.perimeter;
+      });
+      break;
+    default:
+      break;
+  }
+  return result;
+}
+
+export type LengthUnit = 'm' | 'km';
+export type AreaUnit = 'm2' | 'ha' | 'km2';
+
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = { m: 'м', km: 'км' };
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = { m2: 'м²', ha: 'га', km2: 'км²' };
+
+const formatNumber = (value: number, digits: number) =>
+  value.toLocaleString('ru-RU', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+/**
+ * Длина в выбранных единицах
+ */
+export function formatLength(meters: number, unit: LengthUnit): string {
+  return unit === 'km'
+    ? `${formatNumber(meters / 1000, 3)} ${LENGTH_UNIT_LABELS.km}`
+    : `${formatNumber(meters, meters < 100 ? 2 : 1)} ${LENGTH_UNIT_LABELS.m}`;
+}
+
+/**
+ * Площадь в выбранных единицах
+ */
+export function formatArea(squareMeters: number, unit: AreaUnit): string {
+  switch (unit) {
+    case 'ha':
+      return `${formatNumber(squareMeters / 1e4, 4)} ${AREA_UNIT_LABELS.ha}`;
+    case 'km2':
+      return `${formatNumber(squareMeters / 1e6, 6)} ${AREA_UNIT_LABELS.km2}`;
+    default:
+      return `${formatNumber(squareMeters, 1)} ${AREA_UNIT_LABELS.m2}`;
+  }
+}
+
+/**
+ * Азимут в градусах с одной десятой
+ */
+export function formatBearing(degrees: number): string {
+  return `${formatNumber(degrees, 1)}°`;
+}
+
+export type WktDimensions = 'XY' | 'XYZ' | 'XYM' | 'XYZM';
+
+export interface WktGeometry {
+  // позиции со всеми ординатами из текста, в том числе M
+  geometry: GeoJSON.Geometry;
+  // SRID из префикса EWKT
+  srid: number | null;
+  dimensions: WktDimensions;
+}
+
+export class WktParseError extends Error {
+  // смещение в тексте, где разбор остановился
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (позиция ${position + 1})`);
+    this.name = 'WktParseError';
+    this.position = position;
+  }
+}
+
+type WktToken =
+  | { kind: 'word'; value: string; at: number }
+  | { kind: 'number'; value: number; at: number }
+  | { kind: '(' | ')' | ','; at: number }
+  | { kind: 'end'; at: number };
+
+const WKT_TOKEN = /([A-Za-z]+)|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)|([(),])/y;
+
+function tokenizeWkt(text: string): WktToken[] {
+  const tokens: WktToken[] = [];
+  let at = 0;
+  for (;;) {
+    while (at < text.length && /\s/.test(text[at])) at++;
+    if (at >= text.length) break;
+    WKT_TOKEN.lastIndex = at;
+    const m = WKT_TOKEN.exec(text);
+    if (!m) throw new WktParseError(`Недопустимый символ «${text[at]}»`, at);
+    if (m[1]) tokens.push({ kind: 'word', value: m[1].toUpperCase(), at });
+    else if (m[2]) tokens.push({ kind: 'number', value: Number(m[2]), at });
+    else tokens.push({ kind: m[3] as '(' | ')' | ',', at });
+    at = WKT_TOKEN.lastIndex;
+  }
+  tokens.push({ kind: 'end', at: text.length });
+  return tokens;
+}
+
+const WKT_TYPES: Record<string, GeoJSON.Geometry['type']> = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOINT: 'MultiPoint',
+  MULTILINESTRING: 'MultiLineString',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+const WKT_TYPE_NAMES: string[] = Object.values(WKT_TYPES);
+
+const dimensionsOf = (ordinates: number): WktDimensions | null =>
+  ordinates === 2 ? 'XY' : ordinates === 3 ? 'XYZ' : ordinates === 4 ? 'XYZM' : null;
+
+/**
+ * Разбор WKT и EWKT (PostGIS): все типы OGC Simple Features, EMPTY,
+ * префикс SRID=n; и координаты Z, M, ZM
+ */
+export function parseWkt(text: string): WktGeometry {
+  let srid: number | null = null;
+  let body = text;
+  const ewkt = text.match(/^\s*SRID\s*=\s*(\d+)\s*;/i);
+  if (ewkt) {
+    srid = Number(ewkt[1]);
+    body = ' '.repeat(ewkt[0].length) + text.slice(ewkt[0].length);
+  }
+
+  const tokens = tokenizeWkt(body);
+  let i = 0;
+  const peek = () => tokens[i];
+  const fail = (message: string, at = peek().at): never => {
+    throw new WktParseError(message, at);
+  };
+  const expect = (kind: '(' | ')') => {
+    if (peek().kind !== kind) fail(`Ожидалось «${kind}»`);
+    i++;
+  };
+  const isEmpty = () => {
+    const t = peek();
+    if (t.kind === 'word' && t.value === 'EMPTY') {
+      i++;
+      return true;
+    }
+    return false;
+  };
+
+  // размерность задаётся тегом или первой позицией и одна на всю геометрию
+  let dimensions: WktDimensions | null = null;
+
+  const position = (): number[] => {
+    const p: number[] = [];
+    while (peek().kind === 'number') p.push((tokens[i++] as { value: number }).value);
+    if (p.length < 2) fail('Ожидались координаты');
+    if (!dimensions) {
+      dimensions = dimensionsOf(p.length);
+      if (!dimensions) fail(`Недопустимое число координат: ${p.length}`);
+    } else if (p.length !== dimensions.length) {
+      fail(`Ожидалось координат: ${dimensions.length}`);
+    }
+    return p;
+  };
+  // список элементов в скобках через запятую
+  const list = <T>(item: () => T): T[] => {
+    expect('(');
+    const items = [item()];
+    while (peek().kind === ',') {
+      i++;
+      items.push(item());
+    }
+    expect(')');
+    return items;
+  };
+  const line = () => list(position);
+  const polygon = () => list(line);
+  // MULTIPOINT допускает точки как в скобках, так и без них
+  const multiPoint = () =>
+    list(() => {
+      if (peek().kind !== '(') return position();
+      i++;
+      const p = position();
+      expect(')');
+      return p;
+    });
+
+  const geometry = (): GeoJSON.Geometry => {
+    const t = peek();
+    if (t.kind !== 'word') return fail('Ожидался тип геометрии');
+    i++;
+    // EWKT пишет M слитно с типом: POINTM, LINESTRINGM
+    const word = (t as { value: string }).value;
+    const suffix = word.match(/^(\w+?)(ZM|Z|M)?$/);
+    let name = word;
+    let tag = '';
+    if (!WKT_TYPES[word] && suffix && WKT_TYPES[suffix[1]]) {
+      name = suffix[1];
+      tag = suffix[2] ?? '';
+    }
+    const type = WKT_TYPES[name];
+    if (!type) fail(`Неизвестный тип геометрии ${word}`, t.at);
+    const next = peek();
+    if (!tag && next.kind === 'word' && /^(ZM|Z|M)$/.test(next.value)) {
+      tag = next.value;
+      i++;
+    }
+    if (tag) {
+      const tagged = `XY${tag}` as WktDimensions;
+      if (dimensions && dimensions !== tagged) fail('Разная размерность частей геометрии');
+      dimensions = tagged;
+    }
+
+    const empty = isEmpty();
+    switch (type) {
+      case 'Point':
+        return { type, coordinates: empty ? [] : list(position)[0] };
+      case 'LineString':
+        return { type, coordinates: empty ? [] : line() };
+      case 'Polygon':
+        return { type, coordinates: empty ? [] : polygon() };
+      case 'MultiPoint':
+        return { type, coordinates: empty ? [] : multiPoint() };
+      case 'MultiLineString':
+        return { type, coordinates: empty ? [] : list(line) };
+      case 'MultiPolygon':
+        return { type, coordinates: empty ? [] : list(polygon) };
+      default:
+        return { type: 'GeometryCollection', geometries: empty ? [] : list(geometry) };
+    }
+  };
+
+  const result = geometry();
+  if (peek().kind !== 'end') fail('Лишний текст после геометрии');
+  return { geometry: result, srid, dimensions: dimensions ?? 'XY' };
+}
+
+const mapWktPositions = (geometry: GeoJSON.Geometry, fn: (p: number[]) => number[]): GeoJSON.Geometry => {
+  const map = (coords: unknown): unknown =>
+    Array.isArray(coords) && typeof coords[0] === 'number'
+      ? fn(coords as number[])
+      : (coords as unknown[]).map(map);
+  if (geometry.type === 'GeometryCollection')
+    return { ...geometry, geometries: geometry.geometries.map((g) => mapWktPositions(g, fn)) };
+  // пустая точка — пустой массив координат
+  if (geometry.type === 'Point' && !geometry.coordinates.length) return geometry;
+  return { ...geometry, coordinates: map(geometry.coordinates) } as GeoJSON.Geometry;
+};
+
+/**
+ * WKT/EWKT в геометрию GeoJSON (WGS84). M отбрасывается — в GeoJSON её нет;
+ * координаты пересчитываются из SRID, а без него — из srsName.
+ */
+export function wktToGeometry(text: string, srsName?: string | null): GeoJSON.Geometry {
+  const { geometry, srid, dimensions } = parseWkt(text);
+  const plain =
+    dimensions === 'XYM'
+      ? mapWktPositions(geometry, (p) => p.slice(0, 2))
+      : dimensions === 'XYZM'
+      ? mapWktPositions(geometry, (p) => p.slice(0, 3))
+      : geometry;
+  return reprojectGeometry(plain, srid !== null ? `EPSG:${srid}` : srsName);
+}
+
+const WKT_PREFIX = /^\s*(SRID\s*=\s*\d+\s*;\s*)?(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\b/i;
+
+/**
+ * Похоже ли значение на WKT или EWKT
+ */
+export function isWkt(value: string): boolean {
+  return WKT_PREFIX.test(value) || /^\s*(POINT|LINESTRING|POLYGON)(ZM|Z|M)\b/i.test(value);
+}
+
+export interface WktWriteOptions {
+  // SRID для префикса EWKT
+  srid?: number | null;
+  // по умолчанию — XYZ, если у позиций есть третья координата
+  dimensions?: WktDimensions;
+}
+
+const formatWktNumber = (n: number) => String(Math.round(n * 1e9) / 1e9);
+
+const hasZ = (geometry: GeoJSON.Geometry): boolean => {
+  if (geometry.type === 'GeometryCollection') return geometry.geometries.some(hasZ);
+  const first = (coords: unknown): number[] | null =>
+    Array.isArray(coords) && typeof coords[0] === 'number'
+      ? (coords as number[])
+      : Array.isArray(coords) && coords.length
+      ? first(coords[0])
+      : null;
+  return (first(geometry.coordinates)?.length ?? 0) > 2;
+};
+
+/**
+ * Геометрия GeoJSON в WKT, а с SRID — в EWKT; пустые геометрии — с EMPTY
+ */
+export function geometryToWkt(geometry: GeoJSON.Geometry, options: WktWriteOptions = {}): string {
+  const dimensions = options.dimensions ?? (hasZ(geometry) ? 'XYZ' : 'XY');
+  const ordinates = dimensions.length;
+  const tag = dimensions === 'XY' ? '' : ` ${dimensions.slice(2)}`;
+
+  // недостающие ординаты дополняются нулями, чтобы размерность была одной
+  const position = (p: number[]) =>
+    Array.from({ length: ordinates }, (_, k) => formatWktNumber(p[k] ?? 0)).join(' ');
+  const line = (coords: number[][]) => `(${coords.map(position).join(', ')})`;
+  const polygon = (rings: number[][][]) => `(${rings.map(line).join(', ')})`;
+
+  const write = (g: GeoJSON.Geometry): string => {
+    const name = Object.keys(WKT_TYPES).find((k) => WKT_TYPES[k] === g.type) as string;
+    const head = `${name}${tag}`;
+    const items: unknown[] = g.type === 'GeometryCollection' ? g.geometries : g.coordinates;
+    if (!items.length) return `${head} EMPTY`;
+    switch (g.type) {
+      case 'Point':
+        return `${head} (${position(g.coordinates)})`;
+      case 'LineString':
+        return `${head} ${line(g.coordinates)}`;
+      case 'Polygon':
+        return `${head} ${polygon(g.coordinates)}`;
+      case 'MultiPoint':
+        return `${head} (${g.coordinates.map((p) => `(${position(p)})`).join(', ')})`;
+      case 'MultiLineString':
+        return `${head} (${g.coordinates.map(line).join(', ')})`;
+      case 'MultiPolygon':
+        return `${head} (${g.coordinates.map(polygon).join(', ')})`;
+      case 'GeometryCollection':
+        return `${head} (${g.geometries.map(write).join(', ')})`;
+    }
+  };
+
+  const wkt = write(geometry);
+  return options.srid != null ? `SRID=${options.srid};${wkt}` : wkt;
+}
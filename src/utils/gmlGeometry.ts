@@ -0,0 +1,493 @@
+/**
+ * Разбор геометрии GML 2, 3.1 и 3.2 в GeoJSON
+ */
+import { reprojectGeometry } from './crs';
+
+// Минимальный интерфейс узла XML: ему удовлетворяет DOM Element
+export interface GmlNode {
+  readonly localName: string;
+  readonly textContent: string | null;
+  getAttribute(name: string): string | null;
+  readonly children: ArrayLike<GmlNode>;
+}
+
+type Position = number[];
+
+const GEOMETRY_NAMES = new Set([
+  'Point',
+  'LineString',
+  'LinearRing',
+  'Curve',
+  'OrientableCurve',
+  'CompositeCurve',
+  'Ring',
+  'Polygon',
+  'Surface',
+  'PolygonalSurface',
+  'TriangulatedSurface',
+  'CompositeSurface',
+  'OrientableSurface',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiCurve',
+  'MultiPolygon',
+  'MultiSurface',
+  'MultiGeometry',
+  'Box',
+  'Envelope',
+]);
+
+const nameOf = (node: GmlNode) => {
+  const ln = node.localName || '';
+  const idx = ln.indexOf(':');
+  return idx === -1 ? ln : ln.slice(idx + 1);
+};
+
+const childrenOf = (node: GmlNode) => Array.from(node.children);
+
+const childrenNamed = (node: GmlNode, ...names: string[]) =>
+  childrenOf(node).filter((c) => names.includes(nameOf(c)));
+
+const firstChildNamed = (node: GmlNode, ...names: string[]) =>
+  childrenOf(node).find((c) => names.includes(nameOf(c))) ?? null;
+
+export const isGmlGeometryName = (name: string) => GEOMETRY_NAMES.has(name);
+
+// есть ли среди потомков геометрия (boundedBy не считается)
+export const containsGmlGeometry = (node: GmlNode): boolean =>
+  childrenOf(node).some((c) => {
+    const n = nameOf(c);
+    if (n === 'boundedBy') return false;
+    return isGmlGeometryName(n) || containsGmlGeometry(c);
+  });
+
+const readDimension = (node: GmlNode, inherited: number) => {
+  const attr =
+    node.getAttribute('srsDimension') ?? node.getAttribute('dimension');
+  const n = attr ? parseInt(attr, 10) : NaN;
+  return n >= 2 ? n : inherited;
+};
+
+const toNumbers = (text: string) =>
+  text.trim().split(/\s+/).filter(Boolean).map(Number);
+
+// в GeoJSON оставляем x, y и при наличии z
+const trimPosition = (p: number[]): Position =>
+  p.slice(0, Math.min(p.length, 3));
+
+const parsePosList = (text: string, dim: number): Position[] => {
+  const nums = toNumbers(text);
+  const coords: Position[] = [];
+  for (let i = 0; i + dim <= nums.length; i += dim) {
+    const p = nums.slice(i, i + dim);
+    if (p.every((n) => !isNaN(n))) coords.push(trimPosition(p));
+  }
+  return coords;
+};
+
+const parsePos = (text: string): Position | null => {
+  const nums = toNumbers(text);
+  return nums.length >= 2 && nums.every((n) => !isNaN(n))
+    ? trimPosition(nums)
+    : null;
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// <gml:coordinates> с разделителями cs (координаты), ts (кортежи) и decimal
+const parseCoordinatesElement = (node: GmlNode): Position[] => {
+  const cs = node.getAttribute('cs') ?? ',';
+  const ts = node.getAttribute('ts') ?? ' ';
+  const decimal = node.getAttribute('decimal') ?? '.';
+  const text = (node.textContent ?? '').trim();
+  if (!text) return [];
+
+  const splitBy = (value: string, sep: string) =>
+    /^\s+$/.test(sep)
+      ? value.trim().split(/\s+/)
+      : value.split(new RegExp(`\\s*${escapeRegExp(sep)}\\s*`));
+
+  return splitBy(text, ts)
+    .filter(Boolean)
+    .map((tuple) =>
+      splitBy(tuple, cs)
+        .filter(Boolean)
+        .map((n) => Number(decimal === '.' ? n : n.split(decimal).join('.')))
+    )
+    .filter((p) => p.length >= 2 && p.every((n) => !isNaN(n)))
+    .map(trimPosition);
+};
+
+// GML 2: <gml:coord><gml:X/><gml:Y/></gml:coord>
+const parseCoordElement = (node: GmlNode): Position | null => {
+  const values = ['X', 'Y', 'Z']
+    .map((n) => firstChildNamed(node, n)?.textContent)
+    .filter((t): t is string => t != null)
+    .map(Number);
+  return values.length >= 2 && values.every((n) => !isNaN(n)) ? values : null;
+};
+
+// все позиции, заданные непосредственно в элементе, в любом из вариантов записи
+const readPositions = (node: GmlNode, inheritedDim: number): Position[] => {
+  const dim = readDimension(node, inheritedDim);
+  const result: Position[] = [];
+
+  for (const child of childrenOf(node)) {
+    switch (nameOf(child)) {
+      case 'posList':
+        result.push(
+          ...parsePosList(child.textContent ?? '', readDimension(child, dim))
+        );
+        break;
+      case 'coordinates':
+        result.push(...parseCoordinatesElement(child));
+        break;
+      case 'pos': {
+        const p = parsePos(child.textContent ?? '');
+        if (p) result.push(p);
+        break;
+      }
+      case 'coord': {
+        const p = parseCoordElement(child);
+        if (p) result.push(p);
+        break;
+      }
+      case 'pointProperty':
+      case 'pointRep': {
+        const point = firstChildNamed(child, 'Point');
+        if (point) result.push(...readPositions(point, dim));
+        break;
+      }
+      case 'lowerCorner':
+      case 'upperCorner': {
+        const p = parsePos(child.textContent ?? '');
+        if (p) result.push(p);
+        break;
+      }
+    }
+  }
+  return result;
+};
+
+// дуга окружности через три точки, аппроксимированная ломаной
+const densifyArc = (
+  p1: Position,
+  p2: Position,
+  p3: Position,
+  fullCircle = false,
+  segments = 32
+): Position[] => {
+  const [x1, y1] = p1;
+  const [x2, y2] = p2;
+  const [x3, y3] = p3;
+  const d = 2 * (x1 * (y2 - y3) + x2 * (y3 - y1) + x3 * (y1 - y2));
+  // точки на одной прямой — это просто отрезок
+  if (Math.abs(d) < 1e-12) return fullCircle ? [p1, p2, p3] : [p1, p3];
+
+  const s1 = x1 * x1 + y1 * y1;
+  const s2 = x2 * x2 + y2 * y2;
+  const s3 = x3 * x3 + y3 * y3;
+  const cx = (s1 * (y2 - y3) + s2 * (y3 - y1) + s3 * (y1 - y2)) / d;
+  const cy = (s1 * (x3 - x2) + s2 * (x1 - x3) + s3 * (x2 - x1)) / d;
+  const r = Math.hypot(x1 - cx, y1 - cy);
+
+  const a1 = Math.atan2(y1 - cy, x1 - cx);
+  const a2 = Math.atan2(y2 - cy, x2 - cx);
+  const a3 = Math.atan2(y3 - cy, x3 - cx);
+  const norm = (a: number) =>
+    ((a % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+  // направление обхода выбираем так, чтобы дуга прошла через среднюю точку
+  const ccw = norm(a2 - a1) < norm(a3 - a1);
+  let sweep: number;
+  if (fullCircle) sweep = ccw ? 2 * Math.PI : -2 * Math.PI;
+  else sweep = ccw ? norm(a3 - a1) : -norm(a1 - a3);
+
+  const points: Position[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const a = a1 + (sweep * i) / segments;
+    points.push([cx + r * Math.cos(a), cy + r * Math.sin(a)]);
+  }
+  // концы дуги — ровно исходные точки, без погрешности тригонометрии
+  points[0] = [x1, y1];
+  points[points.length - 1] = fullCircle ? [x1, y1] : [x3, y3];
+  return points;
+};
+
+// соединение частей с отбрасыванием повторяющейся точки стыка
+const appendPath = (target: Position[], part: Position[]) => {
+  if (!part.length) return;
+  const last = target[target.length - 1];
+  const first = part[0];
+  const skipFirst =
+    last && first && last[0] === first[0] && last[1] === first[1];
+  target.push(...(skipFirst ? part.slice(1) : part));
+};
+
+const parseCurveSegment = (segment: GmlNode, dim: number): Position[] => {
+  const points = readPositions(segment, dim);
+  switch (nameOf(segment)) {
+    case 'Arc':
+    case 'ArcString': {
+      const result: Position[] = [];
+      for (let i = 0; i + 2 < points.length; i += 2)
+        appendPath(result, densifyArc(points[i], points[i + 1], points[i + 2]));
+      return result.length ? result : points;
+    }
+    case 'Circle':
+      return points.length >= 3
+        ? densifyArc(points[0], points[1], points[2], true)
+        : points;
+    default:
+      // LineStringSegment, GeodesicString, CubicSpline и т.п. — по опорным точкам
+      return points;
+  }
+};
+
+// линия из LineString / Curve / CompositeCurve / OrientableCurve / Ring
+const parseLinePath = (node: GmlNode, dim: number): Position[] => {
+  const d = readDimension(node, dim);
+  switch (nameOf(node)) {
+    case 'LineString':
+    case 'LinearRing':
+      return readPositions(node, d);
+    case 'Curve': {
+      const path: Position[] = [];
+      const segments = firstChildNamed(node, 'segments');
+      if (segments)
+        childrenOf(segments).forEach((s) =>
+          appendPath(path, parseCurveSegment(s, d))
+        );
+      return path;
+    }
+    case 'OrientableCurve': {
+      const base = firstChildNamed(node, 'baseCurve');
+      const curve = base ? childrenOf(base)[0] : null;
+      const path = curve ? parseLinePath(curve, d) : [];
+      return node.getAttribute('orientation') === '-' ? path.reverse() : path;
+    }
+    case 'CompositeCurve':
+    case 'Ring': {
+      const path: Position[] = [];
+      childrenNamed(node, 'curveMember').forEach((m) =>
+        childrenOf(m).forEach((c) => appendPath(path, parseLinePath(c, d)))
+      );
+      return path;
+    }
+    default:
+      return readPositions(node, d);
+  }
+};
+
+const closeRing = (ring: Position[]) => {
+  if (ring.length < 3) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push([...first]);
+  return ring;
+};
+
+// кольцо из обёртки exterior/interior/outerBoundaryIs/innerBoundaryIs
+const parseRingProperty = (prop: GmlNode, dim: number): Position[] => {
+  const ringEl = childrenOf(prop)[0];
+  if (!ringEl) return [];
+  return closeRing(parseLinePath(ringEl, dim));
+};
+
+const parsePolygonRings = (node: GmlNode, dim: number): Position[][] | null => {
+  const d = readDimension(node, dim);
+  const exterior = firstChildNamed(node, 'exterior', 'outerBoundaryIs');
+  if (!exterior) {
+    // нестандартная запись: posList прямо в полигоне
+    const ring = closeRing(readPositions(node, d));
+    return ring.length >= 4 ? [ring] : null;
+  }
+  const outer = parseRingProperty(exterior, d);
+  if (outer.length < 4) return null;
+  const holes = childrenNamed(node, 'interior', 'innerBoundaryIs')
+    .map((i) => parseRingProperty(i, d))
+    .filter((r) => r.length >= 4);
+  return [outer, ...holes];
+};
+
+// полигоны поверхности: Polygon, Surface с PolygonPatch, составные поверхности
+const parseSurfacePolygons = (node: GmlNode, dim: number): Position[][][] => {
+  const d = readDimension(node, dim);
+  switch (nameOf(node)) {
+    case 'Polygon': {
+      const rings = parsePolygonRings(node, d);
+      return rings ? [rings] : [];
+    }
+    case 'Surface':
+    case 'PolygonalSurface':
+    case 'TriangulatedSurface': {
+      const patches = firstChildNamed(
+        node,
+        'patches',
+        'polygonPatches',
+        'trianglePatches'
+      );
+      if (!patches) return [];
+      return childrenOf(patches)
+        .map((p) => parsePolygonRings(p, d))
+        .filter((r): r is Position[][] => !!r);
+    }
+    case 'OrientableSurface': {
+      const base = firstChildNamed(node, 'baseSurface');
+      const surface = base ? childrenOf(base)[0] : null;
+      return surface ? parseSurfacePolygons(surface, d) : [];
+    }
+    case 'CompositeSurface':
+      return childrenNamed(node, 'surfaceMember').flatMap((m) =>
+        childrenOf(m).flatMap((c) => parseSurfacePolygons(c, d))
+      );
+    default:
+      return [];
+  }
+};
+
+// элементы-члены мультигеометрии: как одиночные (xxxMember), так и групповые (xxxMembers)
+const collectMembers = (node: GmlNode, single: string, plural: string) => [
+  ...childrenNamed(node, single).flatMap((m) => childrenOf(m)),
+  ...childrenNamed(node, plural).flatMap((m) => childrenOf(m)),
+];
+
+const polygonsToGeometry = (
+  polygons: Position[][][]
+): GeoJSON.Geometry | null => {
+  if (!polygons.length) return null;
+  if (polygons.length === 1)
+    return { type: 'Polygon', coordinates: polygons[0] };
+  return { type: 'MultiPolygon', coordinates: polygons };
+};
+
+const envelopeToPolygon = (
+  node: GmlNode,
+  dim: number
+): GeoJSON.Polygon | null => {
+  const corners = readPositions(node, dim);
+  if (corners.length < 2) return null;
+  const [[x1, y1], [x2, y2]] = corners;
+  return {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [x1, y1],
+        [x2, y1],
+        [x2, y2],
+        [x1, y2],
+        [x1, y1],
+      ],
+    ],
+  };
+};
+
+const parseGeometryNode = (
+  node: GmlNode,
+  dim: number
+): GeoJSON.Geometry | null => {
+  const d = readDimension(node, dim);
+  switch (nameOf(node)) {
+    case 'Point': {
+      const p = readPositions(node, d)[0];
+      return p ? { type: 'Point', coordinates: p } : null;
+    }
+    case 'LineString':
+    case 'LinearRing':
+    case 'Curve':
+    case 'OrientableCurve':
+    case 'CompositeCurve':
+    case 'Ring': {
+      const path = parseLinePath(node, d);
+      return path.length >= 2
+        ? { type: 'LineString', coordinates: path }
+        : null;
+    }
+    case 'Polygon':
+    case 'Surface':
+    case 'PolygonalSurface':
+    case 'TriangulatedSurface':
+    case 'OrientableSurface':
+    case 'CompositeSurface':
+      return polygonsToGeometry(parseSurfacePolygons(node, d));
+    case 'MultiPoint': {
+      const points = collectMembers(node, 'pointMember', 'pointMembers')
+        .map((p) => readPositions(p, d)[0])
+        .filter((p): p is Position => !!p);
+      return points.length ? { type: 'MultiPoint', coordinates: points } : null;
+    }
+    case 'MultiLineString':
+    case 'MultiCurve': {
+      const lines = [
+        ...collectMembers(node, 'lineStringMember', 'lineStringMembers'),
+        ...collectMembers(node, 'curveMember', 'curveMembers'),
+      ]
+        .map((c) => parseLinePath(c, d))
+        .filter((l) => l.length >= 2);
+      return lines.length
+        ? { type: 'MultiLineString', coordinates: lines }
+        : null;
+    }
+    case 'MultiPolygon':
+    case 'MultiSurface': {
+      const polygons = [
+        ...collectMembers(node, 'polygonMember', 'polygonMembers'),
+        ...collectMembers(node, 'surfaceMember', 'surfaceMembers'),
+      ].flatMap((s) => parseSurfacePolygons(s, d));
+      return polygons.length
+        ? { type: 'MultiPolygon', coordinates: polygons }
+        : null;
+    }
+    case 'MultiGeometry': {
+      const geometries = collectMembers(
+        node,
+        'geometryMember',
+        'geometryMembers'
+      )
+        .map((g) => parseGeometryNode(g, d))
+        .filter((g): g is GeoJSON.Geometry => !!g);
+      return geometries.length
+        ? { type: 'GeometryCollection', geometries }
+        : null;
+    }
+    case 'Box':
+    case 'Envelope':
+      return envelopeToPolygon(node, d);
+    default:
+      return null;
+  }
+};
+
+// первый элемент геометрии в поддереве (boundedBy пропускается)
+const findGeometryNode = (node: GmlNode): GmlNode | null => {
+  for (const child of childrenOf(node)) {
+    const n = nameOf(child);
+    if (n === 'boundedBy') continue;
+    if (isGmlGeometryName(n)) return child;
+    const nested = findGeometryNode(child);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+export interface GmlParseOptions {
+  // система координат по умолчанию, если у геометрии нет srsName
+  srsName?: string | null;
+}
+
+/**
+ * Геометрия GML из элемента (или первого найденного среди его потомков),
+ * пересчитанная в WGS84
+ */
+export const parseGmlGeometry = (
+  el: GmlNode | null,
+  options: GmlParseOptions = {}
+): GeoJSON.Geometry | null => {
+  if (!el) return null;
+  const geometryEl = isGmlGeometryName(nameOf(el)) ? el : findGeometryNode(el);
+  if (!geometryEl) return null;
+  const geometry = parseGeometryNode(geometryEl, 2);
+  if (!geometry) return null;
+  const srsName = geometryEl.getAttribute('srsName') ?? options.srsName;
+  return reprojectGeometry(geometry, srsName);
+};
@@ -0,0 +1,233 @@
+/**
+ * Потоковое (SAX) чтение XML по частям: документ не собирается целиком,
+ * в дерево строятся только выбранные поддеревья — например, объекты WFS.
+ * Работает без DOM, в том числе в Web Worker
+ */
+import { GmlNode } from './gmlGeometry';
+
+export interface XmlAttribute {
+  // имя с префиксом, например 'gml:id'
+  name: string;
+  localName: string;
+  value: string;
+}
+
+/**
+ * Элемент собранного поддерева; совместим с GmlNode, поэтому разбор
+ * геометрии работает с ним так же, как с DOM Element
+ */
+export class XmlElement implements GmlNode {
+  readonly children: XmlElement[] = [];
+  private text = '';
+
+  constructor(
+    // имя с префиксом
+    readonly name: string,
+    readonly attributes: XmlAttribute[]
+  ) {}
+
+  get localName(): string {
+    const idx = this.name.indexOf(':');
+    return idx === -1 ? this.name : this.name.slice(idx + 1);
+  }
+
+  get textContent(): string {
+    return this.children.length
+      ? this.text + this.children.map((c) => c.textContent).join('')
+      : this.text;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.find((a) => a.name === name)?.value ?? null;
+  }
+
+  appendText(text: string): void {
+    this.text += text;
+  }
+}
+
+export interface XmlStreamHandlers {
+  /**
+   * Начало элемента вне собираемых поддеревьев; true — собрать поддерево
+   * и передать его в onElement после закрывающего тега.
+   * ancestors — открытые элементы от корня, без потомков и текста
+   */
+  capture: (el: XmlElement, ancestors: XmlElement[]) => boolean;
+  onElement: (el: XmlElement, ancestors: XmlElement[]) => void;
+}
+
+export class XmlStreamError extends Error {
+  constructor(message: string) {
+    super(`XML: ${message}`);
+    this.name = 'XmlStreamError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) =>
+  text.indexOf('&') === -1
+    ? text
+    : text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, ref: string) => {
+        if (ref[0] !== '#') return ENTITIES[ref] ?? m;
+        const code =
+          ref[1] === 'x' || ref[1] === 'X'
+            ? parseInt(ref.slice(2), 16)
+            : parseInt(ref.slice(1), 10);
+        return isNaN(code) ? m : String.fromCodePoint(code);
+      });
+
+const ATTR_RE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+const parseAttributes = (source: string): XmlAttribute[] => {
+  const attrs: XmlAttribute[] = [];
+  ATTR_RE.lastIndex = 0;
+  for (let m = ATTR_RE.exec(source); m; m = ATTR_RE.exec(source)) {
+    const name = m[1];
+    const idx = name.indexOf(':');
+    attrs.push({
+      name,
+      localName: idx === -1 ? name : name.slice(idx + 1),
+      value: decodeEntities(m[3] ?? m[4] ?? ''),
+    });
+  }
+  return attrs;
+};
+
+// конец открывающего тега с учётом '>' внутри значений атрибутов
+const findTagEnd = (buffer: string, from: number) => {
+  let quote = '';
+  for (let i = from; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '>') return i;
+  }
+  return -1;
+};
+
+/**
+ * Чтение XML по частям: write() для каждого фрагмента текста,
+ * end() после последнего
+ */
+export class XmlStreamReader {
+  private buffer = '';
+  // открытые элементы вне собираемых поддеревьев
+  private ancestors: XmlElement[] = [];
+  // собираемое поддерево: его корень и открытые элементы внутри
+  private captured: XmlElement[] = [];
+  private rootSeen = false;
+
+  constructor(private handlers: XmlStreamHandlers) {}
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.consume(false);
+  }
+
+  end(): void {
+    this.consume(true);
+    if (this.ancestors.length || this.captured.length)
+      throw new XmlStreamError('документ оборван');
+    if (!this.rootSeen) throw new XmlStreamError('пустой документ');
+  }
+
+  private text(raw: string) {
+    const current = this.captured[this.captured.length - 1];
+    if (current) current.appendText(decodeEntities(raw));
+  }
+
+  private open(name: string, attrs: XmlAttribute[], selfClosing: boolean) {
+    const el = new XmlElement(name, attrs);
+    this.rootSeen = true;
+    if (this.captured.length) {
+      this.captured[this.captured.length - 1].children.push(el);
+      if (!selfClosing) this.captured.push(el);
+      return;
+    }
+    if (this.handlers.capture(el, this.ancestors)) {
+      if (selfClosing) this.handlers.onElement(el, this.ancestors);
+      else this.captured.push(el);
+      return;
+    }
+    if (!selfClosing) this.ancestors.push(el);
+  }
+
+  private close(name: string) {
+    const stack = this.captured.length ? this.captured : this.ancestors;
+    const el = stack.pop();
+    if (!el || el.name !== name)
+      throw new XmlStreamError(
+        `неожиданный </${name}>${el ? `, ожидался </${el.name}>` : ''}`
+      );
+    if (stack === this.captured && !stack.length)
+      this.handlers.onElement(el, this.ancestors);
+  }
+
+  private consume(final: boolean) {
+    const buffer = this.buffer;
+    let pos = 0;
+    for (;;) {
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) {
+        // текст до конца фрагмента; незавершённую ссылку &...; оставляем
+        let end = buffer.length;
+        const amp = buffer.lastIndexOf('&');
+        if (!final && amp >= pos && buffer.indexOf(';', amp) === -1) end = amp;
+        if (end > pos) this.text(buffer.slice(pos, end));
+        pos = end;
+        break;
+      }
+      if (lt > pos) this.text(buffer.slice(pos, lt));
+      pos = lt;
+
+      let next: number;
+      if (buffer.startsWith('<!--', pos)) {
+        const end = buffer.indexOf('-->', pos + 4);
+        if (end === -1) break;
+        next = end + 3;
+      } else if (buffer.startsWith('<![CDATA[', pos)) {
+        const end = buffer.indexOf(']]>', pos + 9);
+        if (end === -1) break;
+        const current = this.captured[this.captured.length - 1];
+        current?.appendText(buffer.slice(pos + 9, end));
+        next = end + 3;
+      } else if (buffer.startsWith('<?', pos)) {
+        const end = buffer.indexOf('?>', pos + 2);
+        if (end === -1) break;
+        next = end + 2;
+      } else if (buffer.startsWith('<!', pos)) {
+        // DOCTYPE без внутреннего подмножества
+        const end = buffer.indexOf('>', pos + 2);
+        if (end === -1) break;
+        next = end + 1;
+      } else if (buffer[pos + 1] === '/') {
+        const end = buffer.indexOf('>', pos + 2);
+        if (end === -1) break;
+        this.close(buffer.slice(pos + 2, end).trim());
+        next = end + 1;
+      } else {
+        const end = findTagEnd(buffer, pos + 1);
+        if (end === -1) break;
+        const selfClosing = buffer[end - 1] === '/';
+        const body = buffer.slice(pos + 1, selfClosing ? end - 1 : end);
+        const nameEnd = body.search(/[\s/]|$/);
+        const name = body.slice(0, nameEnd);
+        if (!name) throw new XmlStreamError('тег без имени');
+        this.open(name, parseAttributes(body.slice(nameEnd)), selfClosing);
+        next = end + 1;
+      }
+      pos = next;
+    }
+    this.buffer = buffer.slice(pos);
+    if (final && this.buffer.trim())
+      throw new XmlStreamError('документ оборван');
+  }
+}
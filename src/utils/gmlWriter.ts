@@ -0,0 +1,154 @@
+/**
+ * Запись геометрии GeoJSON (WGS84) в GML для фильтров и транзакций WFS
+ */
+import { fromWgs84 } from './crs';
+
+export type GmlVersion = '2' | '3.1' | '3.2';
+
+export interface GmlWriteOptions {
+  version: GmlVersion;
+  // система координат результата; позиции пересчитываются и выводятся в её порядке осей
+  srsName: string;
+  // префикс пространства имён GML, объявленного во внешнем документе
+  prefix?: string;
+}
+
+type Position = number[];
+
+const formatNumber = (n: number) => String(Math.round(n * 1e9) / 1e9);
+
+// gml:id уникален в пределах документа, поэтому счётчик общий для всех вызовов
+let gmlIdCounter = 0;
+
+export function geometryToGml(
+  geometry: GeoJSON.Geometry,
+  options: GmlWriteOptions
+): string {
+  const { version, srsName } = options;
+  const g = options.prefix ?? 'gml';
+  const gml2 = version === '2';
+
+  const project = (p: Position) => fromWgs84(p, srsName);
+
+  const positions = (coords: Position[]) => {
+    const projected = coords.map(project);
+    if (gml2)
+      return `<${g}:coordinates decimal="." cs="," ts=" ">${projected
+        .map((p) => p.map(formatNumber).join(','))
+        .join(' ')}</${g}:coordinates>`;
+    return `<${g}:posList srsDimension="2">${projected
+      .map((p) => p.map(formatNumber).join(' '))
+      .join(' ')}</${g}:posList>`;
+  };
+
+  const point = (p: Position, attrs = '') => {
+    const projected = project(p);
+    const inner = gml2
+      ? `<${g}:coordinates decimal="." cs="," ts=" ">${projected
+          .map(formatNumber)
+          .join(',')}</${g}:coordinates>`
+      : `<${g}:pos>${projected.map(formatNumber).join(' ')}</${g}:pos>`;
+    return `<${g}:Point${attrs}>${inner}</${g}:Point>`;
+  };
+
+  const lineString = (coords: Position[], attrs = '') =>
+    `<${g}:LineString${attrs}>${positions(coords)}</${g}:LineString>`;
+
+  const ring = (coords: Position[]) =>
+    `<${g}:LinearRing>${positions(coords)}</${g}:LinearRing>`;
+
+  const polygon = (rings: Position[][], attrs = '') => {
+    const [outer, ...holes] = rings;
+    const exterior = gml2 ? 'outerBoundaryIs' : 'exterior';
+    const interior = gml2 ? 'innerBoundaryIs' : 'interior';
+    return `<${g}:Polygon${attrs}><${g}:${exterior}>${ring(
+      outer
+    )}</${g}:${exterior}>${holes
+      .map((h) => `<${g}:${interior}>${ring(h)}</${g}:${interior}>`)
+      .join('')}</${g}:Polygon>`;
+  };
+
+  // GML 3.2 требует gml:id у каждой геометрии верхнего уровня
+  const rootAttrs = () => {
+    const id = version === '3.2' ? ` ${g}:id="g${++gmlIdCounter}"` : '';
+    return `${id} srsName="${srsName}"`;
+  };
+
+  const write = (geom: GeoJSON.Geometry, attrs: string): string => {
+    switch (geom.type) {
+      case 'Point':
+        return point(geom.coordinates, attrs);
+      case 'LineString':
+        return lineString(geom.coordinates, attrs);
+      case 'Polygon':
+        return polygon(geom.coordinates, attrs);
+      case 'MultiPoint':
+        return `<${g}:MultiPoint${attrs}>${geom.coordinates
+          .map((p) => `<${g}:pointMember>${point(p)}</${g}:pointMember>`)
+          .join('')}</${g}:MultiPoint>`;
+      case 'MultiLineString':
+        return gml2
+          ? `<${g}:MultiLineString${attrs}>${geom.coordinates
+              .map(
+                (l) =>
+                  `<${g}:lineStringMember>${lineString(
+                    l
+                  )}</${g}:lineStringMember>`
+              )
+              .join('')}</${g}:MultiLineString>`
+          : `<${g}:MultiCurve${attrs}>${geom.coordinates
+              .map(
+                (l) => `<${g}:curveMember>${lineString(l)}</${g}:curveMember>`
+              )
+              .join('')}</${g}:MultiCurve>`;
+      case 'MultiPolygon':
+        return gml2
+          ? `<${g}:MultiPolygon${attrs}>${geom.coordinates
+              .map(
+                (p) => `<${g}:polygonMember>${polygon(p)}</${g}:polygonMember>`
+              )
+              .join('')}</${g}:MultiPolygon>`
+          : `<${g}:MultiSurface${attrs}>${geom.coordinates
+              .map(
+                (p) => `<${g}:surfaceMember>${polygon(p)}</${g}:surfaceMember>`
+              )
+              .join('')}</${g}:MultiSurface>`;
+      case 'GeometryCollection':
+        return `<${g}:MultiGeometry${attrs}>${geom.geometries
+          .map(
+            (m) => `<${g}:geometryMember>${write(m, '')}</${g}:geometryMember>`
+          )
+          .join('')}</${g}:MultiGeometry>`;
+    }
+  };
+
+  return write(geometry, rootAttrs());
+}
+
+/**
+ * Охват в GML: gml:Envelope (GML 3) или gml:Box (GML 2)
+ */
+export function bboxToGml(
+  bbox: [number, number, number, number],
+  options: GmlWriteOptions
+): string {
+  const { version, srsName } = options;
+  const g = options.prefix ?? 'gml';
+  const lower = fromWgs84([bbox[0], bbox[1]], srsName);
+  const upper = fromWgs84([bbox[2], bbox[3]], srsName);
+  // при порядке осей y/x нижний угол остаётся нижним по обеим осям
+  const min = [Math.min(lower[0], upper[0]), Math.min(lower[1], upper[1])];
+  const max = [Math.max(lower[0], upper[0]), Math.max(lower[1], upper[1])];
+
+  if (version === '2')
+    return `<${g}:Box srsName="${srsName}"><${g}:coordinates decimal="." cs="," ts=" ">${min
+      .map(formatNumber)
+      .join(',')} ${max
+      .map(formatNumber)
+      .join(',')}</${g}:coordinates></${g}:Box>`;
+  return `<${g}:Envelope srsName="${srsName}"><${g}:lowerCorner>${min
+    .map(formatNumber)
+    .join(' ')}</${g}:lowerCorner><${g}:upperCorner>${max
+    .map(formatNumber)
+    .join(' ')}</${g}:upperCorner></${g}:Envelope>`;
+}
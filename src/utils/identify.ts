@@ -0,0 +1,149 @@
+/**
+ * Определение объектов по клику: общий вид ответов разных источников
+ * (ZWS, WMS GetFeatureInfo, WFS, слои в браузере) и ограничение времени
+ * запроса
+ */
+import { FeatureTypeSchema } from './featureSchema';
+import { Coordinate } from './geometryUtils';
+import { renderPopupTemplate } from './propsPopup';
+import { FeatureIndex, IdentifyTolerance } from './spatialIndex';
+
+export type IdentifyStatus = 'loading' | 'done' | 'error' | 'timeout';
+
+export interface IdentifyFeature {
+  id: string;
+  // подпись объекта на вкладке результата
+  title: string;
+  properties: Record<string, unknown>;
+  // геометрия в WGS84; null — нет или загружается по запросу
+  geometry: GeoJSON.Geometry | null;
+  // отдельный запрос геометрии (ZWS отдаёт её только по идентификатору)
+  loadGeometry?: (signal: AbortSignal) => Promise<GeoJSON.Geometry | null>;
+  // HTML по шаблону проекта — вместо таблицы атрибутов
+  html?: string | null;
+}
+
+export interface IdentifyResponse {
+  features: IdentifyFeature[];
+  // ответ сервера в HTML или тексте, когда объектов в нём нет
+  html?: string | null;
+  text?: string | null;
+}
+
+export interface IdentifySource {
+  id: string;
+  label: string;
+  // предел ожидания ответа, мс; по умолчанию — общий для всех источников
+  timeout?: number;
+  // схема типа WFS: порядок и формат атрибутов
+  schema?: FeatureTypeSchema | null;
+  identify: (
+    latlng: { lat: number; lng: number },
+    signal: AbortSignal
+  ) => Promise<IdentifyResponse>;
+}
+
+export interface IdentifyResult extends IdentifyResponse {
+  id: string;
+  label: string;
+  schema: FeatureTypeSchema | null;
+  status: IdentifyStatus;
+  error: string | null;
+  // выбранный объект вкладки: его подсвечивает карта
+  selected: number;
+}
+
+export class IdentifyTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`нет ответа за ${Math.round(ms / 1000)} с`);
+    this.name = 'IdentifyTimeoutError';
+  }
+}
+
+/**
+ * Запрос с собственным пределом времени: по истечении он отменяется
+ * и промис отклоняется IdentifyTimeoutError; отмена parent отменяет запрос
+ */
+export const withTimeout = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  parent: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  parent.addEventListener('abort', onAbort);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new IdentifyTimeoutError(ms));
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => {
+    if (timer) clearTimeout(timer);
+    parent.removeEventListener('abort', onAbort);
+  });
+};
+
+const EARTH_RADIUS = 6378137;
+
+/**
+ * Размер пикселя карты в метрах на широте lat (Web Mercator): на экваторе
+ * он вдвое больше, чем на 60° широты
+ */
+export const groundResolution = (lat: number, zoom: number, tileSize = 256) =>
+  (2 * Math.PI * EARTH_RADIUS * Math.cos((lat * Math.PI) / 180)) /
+  (tileSize * Math.pow(2, zoom));
+
+// подпись объекта: первое строковое поле с «именем», иначе идентификатор
+const NAME_KEYS = /^(name|title|label|наименование|название|имя)$/i;
+
+/**
+ * Объекты GeoJSON как результат определения
+ */
+export const identifyFeatures = (
+  features: GeoJSON.Feature[],
+  fallbackTitle: string
+): IdentifyFeature[] =>
+  features.map((f, i) => {
+    const properties = (f.properties ?? {}) as Record<string, unknown>;
+    const nameKey = Object.keys(properties).find(
+      (k) => NAME_KEYS.test(k) && properties[k] != null && properties[k] !== ''
+    );
+    const id = f.id != null ? String(f.id) : String(i + 1);
+    return {
+      id,
+      title: nameKey ? String(properties[nameKey]) : `${fallbackTitle} ${id}`,
+      properties,
+      geometry: f.geometry ?? null,
+    };
+  });
+
+/**
+ * Объекты слоя, целиком загруженного в браузер, под точкой клика
+ * с допуском: сначала ближайшие
+ */
+export const featuresAt = (
+  features: GeoJSON.Feature[],
+  point: Coordinate,
+  tolerance: IdentifyTolerance
+): GeoJSON.Feature[] => {
+  const index = new FeatureIndex<GeoJSON.Feature>();
+  features.forEach((f) => index.insert(f, f.geometry));
+  return index.identify(point, tolerance).map(({ item }) => item);
+};
+
+/**
+ * Результат определения по шаблону проекта, если он задан для слоя
+ */
+export const withPopupTemplate = (
+  features: IdentifyFeature[],
+  template: string | null | undefined,
+  schema?: FeatureTypeSchema | null
+): IdentifyFeature[] =>
+  template
+    ? features.map((f) => ({
+        ...f,
+        html: renderPopupTemplate(template, f.properties, schema),
+      }))
+    : features;
@@ -0,0 +1,16 @@
+import L from 'leaflet';
+
+/**
+ * Убирает оверлей из контрола слоёв при размонтировании: контрол мог уйти
+ * вместе с картой раньше оверлея, тогда убирать уже нечего
+ */
+export const removeFromLayerControl = (
+  control: L.Control.Layers | null | undefined,
+  layer: L.Layer
+): void => {
+  try {
+    control?.removeLayer(layer);
+  } catch (e) {
+    // контрола уже нет
+  }
+};
@@ -0,0 +1,293 @@
+/**
+ * Применение стиля VectorStyle к слоям Leaflet: оформление линий и
+ * полигонов, значки точек и подписи
+ */
+import L from 'leaflet';
+import { escapeHtml } from './escapeHtml';
+import {
+  MarkerShape,
+  resolveSymbolizer,
+  Symbolizer,
+  VectorStyle,
+} from './vectorStyle';
+
+export interface ShapeMarkerOptions extends L.CircleMarkerOptions {
+  shape?: MarkerShape;
+  // поворот в градусах по часовой стрелке
+  rotation?: number;
+}
+
+// внутренние поля Leaflet, которыми пользуются рендереры
+interface ShapeMarkerInternals {
+  _point: L.Point;
+  _radius: number;
+  _parts: L.Point[][];
+  _renderer: { _updatePoly: (layer: unknown, closed: boolean) => void };
+  _empty: () => boolean;
+}
+
+// вершины значка единичного радиуса; y вниз, как в пикселях экрана
+const SHAPES: Record<Exclude<MarkerShape, 'circle'>, [number, number][]> = {
+  square: [
+    [-0.8, -0.8],
+    [0.8, -0.8],
+    [0.8, 0.8],
+    [-0.8, 0.8],
+  ],
+  triangle: [
+    [0, -1],
+    [0.87, 0.5],
+    [-0.87, 0.5],
+  ],
+  diamond: [
+    [0, -1],
+    [1, 0],
+    [0, 1],
+    [-1, 0],
+  ],
+  star: Array.from({ length: 10 }, (_, i) => {
+    const r = i % 2 ? 0.4 : 1;
+    const a = (i * Math.PI) / 5;
+    return [r * Math.sin(a), -r * Math.cos(a)] as [number, number];
+  }),
+  cross: [
+    [-0.25, -1],
+    [0.25, -1],
+    [0.25, -0.25],
+    [1, -0.25],
+    [1, 0.25],
+    [0.25, 0.25],
+    [0.25, 1],
+    [-0.25, 1],
+    [-0.25, 0.25],
+    [-1, 0.25],
+    [-1, -0.25],
+    [-0.25, -0.25],
+  ],
+  x: [],
+};
+// «x» — тот же крест, повёрнутый на 45°
+SHAPES.x = SHAPES.cross.map(([x, y]) => [
+  (x - y) * Math.SQRT1_2,
+  (x + y) * Math.SQRT1_2,
+]);
+
+/**
+ * Значок точки заданной формы. Наследует CircleMarker, поэтому рисуется
+ * и SVG, и Canvas, а попадание клика проверяется по радиусу
+ */
+export class ShapeMarker extends L.CircleMarker {
+  declare options: ShapeMarkerOptions;
+
+  _updatePath(): void {
+    const shape = this.options.shape ?? 'circle';
+    if (shape === 'circle') {
+      (
+        L.CircleMarker.prototype as unknown as { _updatePath: () => void }
+      )._updatePath.call(this);
+      return;
+    }
+    const self = this as unknown as ShapeMarkerInternals;
+    const angle = ((this.options.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const r = self._radius;
+    // рендереры рисуют контур из _parts, как у полигона
+    self._parts = self._empty()
+      ? []
+      : [
+          SHAPES[shape].map(([x, y]) =>
+            L.point(
+              self._point.x + r * (x * cos - y * sin),
+              self._point.y + r * (x * sin + y * cos)
+            )
+          ),
+        ];
+    self._renderer._updatePoly(this, true);
+  }
+}
+
+/**
+ * Контур значка для SVG (атрибут d) с центром (cx, cy) и радиусом r;
+ * null — круг
+ */
+export function markerShapePath(
+  shape: MarkerShape,
+  cx: number,
+  cy: number,
+  r: number,
+  rotation = 0
+): string | null {
+  if (shape === 'circle') return null;
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return `${SHAPES[shape]
+    .map(
+      ([x, y], i) =>
+        `${i ? 'L' : 'M'}${(cx + r * (x * cos - y * sin)).toFixed(2)} ${(
+          cy +
+          r * (x * sin + y * cos)
+        ).toFixed(2)}`
+    )
+    .join('')}Z`;
+}
+
+const HIDDEN: L.PathOptions = { stroke: false, fill: false };
+
+/**
+ * Опции пути Leaflet по оформлению; fill — слой умеет заливку (полигон)
+ */
+export function toPathOptions(
+  symbolizer: Symbolizer | null,
+  fill: boolean
+): L.PathOptions {
+  if (!symbolizer) return HIDDEN;
+  const { stroke } = symbolizer;
+  const fillStyle = fill ? symbolizer.fill : null;
+  if (!stroke && !fillStyle) return HIDDEN;
+  return {
+    stroke: !!stroke,
+    color: stroke?.color,
+    weight: stroke?.width ?? 1,
+    opacity: stroke?.opacity ?? 1,
+    dashArray: stroke?.dashArray ?? undefined,
+    fill: !!fillStyle,
+    fillColor: fillStyle?.color,
+    fillOpacity: fillStyle?.opacity ?? 1,
+  };
+}
+
+/**
+ * Опции значка точки; без point берутся обводка и заливка правила
+ */
+export function toMarkerOptions(
+  symbolizer: Symbolizer | null
+): ShapeMarkerOptions {
+  const point = symbolizer?.point;
+  if (!symbolizer || (!point && !symbolizer.stroke && !symbolizer.fill))
+    return { ...HIDDEN, radius: 0 };
+  if (!point)
+    return { ...toPathOptions(symbolizer, true), shape: 'circle', radius: 6 };
+  return {
+    ...toPathOptions({ stroke: point.stroke, fill: point.fill }, true),
+    shape: point.shape,
+    radius: point.size / 2,
+    rotation: point.rotation ?? 0,
+  };
+}
+
+const labelHtml = (text: string, symbolizer: Symbolizer) => {
+  const label = symbolizer.label!;
+  const halo = label.haloColor === undefined ? '#fff' : label.haloColor;
+  const css = [
+    `color:${label.color ?? '#000'}`,
+    `font-size:${label.size ?? 12}px`,
+    halo
+      ? `text-shadow:-1px -1px 0 ${halo},1px -1px 0 ${halo},-1px 1px 0 ${halo},1px 1px 0 ${halo}`
+      : '',
+  ]
+    .filter(Boolean)
+    .join(';');
+  return `<span style="${escapeHtml(css)}">${escapeHtml(text)}</span>`;
+};
+
+const updateLabel = (
+  layer: L.Layer,
+  feature: GeoJSON.Feature,
+  symbolizer: Symbolizer | null
+) => {
+  const value = symbolizer?.label
+    ? feature.properties?.[symbolizer.label.property]
+    : null;
+  if (
+    !symbolizer?.label ||
+    value === null ||
+    value === undefined ||
+    value === ''
+  ) {
+    if (layer.getTooltip()?.options.permanent) layer.unbindTooltip();
+    return;
+  }
+  const html = labelHtml(String(value), symbolizer);
+  const tooltip = layer.getTooltip();
+  const offset = symbolizer.label.offset ?? [0, 0];
+  if (
+    tooltip?.options.permanent &&
+    String(tooltip.options.offset) === String(offset)
+  ) {
+    tooltip.setContent(html);
+    return;
+  }
+  layer.unbindTooltip();
+  layer.bindTooltip(html, {
+    permanent: true,
+    direction: 'center',
+    className: 'vector-label',
+    offset,
+    interactive: false,
+  });
+};
+
+/**
+ * Оформление объекта слоя GeoJSON по стилю на масштабе zoom; для
+ * мультиточек — каждого значка группы
+ */
+export function styleFeatureLayer(
+  layer: L.Layer,
+  style: VectorStyle,
+  zoom: number
+): void {
+  const feature = (layer as L.GeoJSON).feature as GeoJSON.Feature | undefined;
+  if (!feature) return;
+  const symbolizer = resolveSymbolizer(style, feature, zoom);
+  const apply = (l: L.Layer) => {
+    if (l instanceof L.CircleMarker) l.setStyle(toMarkerOptions(symbolizer));
+    else if (l instanceof L.Polygon)
+      l.setStyle(toPathOptions(symbolizer, true));
+    else if (l instanceof L.Polyline)
+      l.setStyle(toPathOptions(symbolizer, false));
+    else if (l instanceof L.LayerGroup) l.eachLayer(apply);
+  };
+  apply(layer);
+  updateLabel(layer, feature, symbolizer);
+}
+
+/**
+ * Перекраска всех объектов слоя GeoJSON, например после смены стиля
+ */
+export function restyleGeoJson(
+  layer: L.GeoJSON,
+  style: VectorStyle,
+  zoom: number
+): void {
+  layer.eachLayer((l) => styleFeatureLayer(l, style, zoom));
+}
+
+/**
+ * Опции L.geoJSON для слоя со стилем: стиль, масштаб и рендерер точек
+ * читаются при создании каждого объекта; смена стиля — через styleFeatureLayer
+ */
+export function styledGeoJsonOptions(
+  getStyle: () => VectorStyle,
+  getZoom: () => number,
+  options: L.GeoJSONOptions & {
+    getRenderer?: () => L.Renderer | undefined;
+  } = {}
+): L.GeoJSONOptions {
+  const { getRenderer, ...geoJsonOptions } = options;
+  return {
+    ...geoJsonOptions,
+    pointToLayer: (feature: GeoJSON.Feature, latlng: L.LatLng) =>
+      new ShapeMarker(latlng, {
+        ...toMarkerOptions(resolveSymbolizer(getStyle(), feature, getZoom())),
+        renderer: getRenderer?.(),
+        // точки — в панели слоя вместе с линиями и полигонами
+        ...(geoJsonOptions.pane ? { pane: geoJsonOptions.pane } : {}),
+      }),
+    onEachFeature: (feature, layer) => {
+      styleFeatureLayer(layer, getStyle(), getZoom());
+      options.onEachFeature?.(feature, layer);
+    },
+  };
+}
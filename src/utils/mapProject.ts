@@ -0,0 +1,614 @@
+/**
+ * Проект карты в JSON: подложки, сервисы, слои ZWS, WMS, WFS и локальные
+ * данные, начальный вид. Проверка при загрузке собирает все ошибки сразу,
+ * с путём до поля в каждом сообщении
+ */
+import proj4 from 'proj4';
+import { CrsDefinition } from './crs';
+import { parseGeoJson } from './featureImport';
+import { parseVectorStyle, VectorStyle } from './vectorStyle';
+
+export const MAP_PROJECT_VERSION = 1;
+
+// 'ogc' — WMS и WFS по одному адресу, как у GeoServer и ZuluGIS
+export type ProjectServiceType = 'zws' | 'ogc';
+
+export interface ProjectService {
+  id: string;
+  type: ProjectServiceType;
+  url: string;
+  // учётная запись ZWS — только в проекте, открытом из локального файла:
+  // опубликованный project.json виден каждому посетителю
+  auth?: { user: string; pass: string };
+}
+
+export interface ProjectBaseMap {
+  id: string;
+  title: string;
+  // шаблон адреса тайлов XYZ: {z}/{x}/{y}, {s} — поддомен
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains: string;
+}
+
+export interface ProjectView {
+  // [широта, долгота]
+  center: [number, number];
+  zoom: number;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+export type ProjectLayerType = 'zws' | 'wms' | 'wfs' | 'local';
+
+interface ProjectLayerBase {
+  id: string;
+  title: string;
+  // слой включён при открытии проекта
+  visible: boolean;
+  opacity: number;
+}
+
+export interface ProjectZwsLayer extends ProjectLayerBase {
+  type: 'zws';
+  service: string;
+  layer: string;
+}
+
+export interface ProjectWmsLayer extends ProjectLayerBase {
+  type: 'wms';
+  service: string;
+  layer: string;
+  style?: string;
+  format?: string;
+}
+
+export interface ProjectWfsLayer extends ProjectLayerBase {
+  type: 'wfs';
+  service: string;
+  typeName: string;
+  srsName?: string;
+  style?: VectorStyle;
+  // шаблон попапа: HTML с подстановкой атрибутов {имя}
+  popup?: string;
+}
+
+export interface ProjectLocalLayer extends ProjectLayerBase {
+  type: 'local';
+  // файл GeoJSON, KML, GPX или CSV; формат — по расширению
+  url?: string;
+  data?: GeoJSON.FeatureCollection;
+  style?: VectorStyle;
+  popup?: string;
+}
+
+export type ProjectLayer =
+  | ProjectZwsLayer
+  | ProjectWmsLayer
+  | ProjectWfsLayer
+  | ProjectLocalLayer;
+
+export type ProjectVectorLayer = ProjectWfsLayer | ProjectLocalLayer;
+
+export interface ProjectHighlight {
+  color?: string;
+  weight?: number;
+  opacity?: number;
+  fillColor?: string;
+  fillOpacity?: number;
+}
+
+export interface MapProject {
+  version: number;
+  title: string;
+  view: ProjectView;
+  baseMaps: ProjectBaseMap[];
+  // подложка при открытии; null — первая из списка
+  baseMap: string | null;
+  services: ProjectService[];
+  // порядок отрисовки — снизу вверх; растры и векторы рисуются
+  // каждый в своей группе, векторы всегда над растрами
+  layers: ProjectLayer[];
+  crs: CrsDefinition[];
+  highlight?: ProjectHighlight;
+  // кэш тайлов ZWS в IndexedDB; false — без кэша
+  tileCache?: { maxBytes?: number; maxAgeMs?: number } | false;
+}
+
+export const OSM_BASE_MAP: ProjectBaseMap = {
+  id: 'osm',
+  title: 'OpenStreetMap',
+  url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; OpenStreetMap contributors',
+  maxZoom: 19,
+  subdomains: 'abc',
+};
+
+export class MapProjectError extends Error {
+  // все найденные ошибки: «путь: что не так»
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      problems.length === 1
+        ? problems[0]
+        : `${problems[0]} (и ещё ошибок: ${problems.length - 1})`
+    );
+    this.name = 'MapProjectError';
+    this.problems = problems;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const at = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Чтение полей с накоплением ошибок: неверное поле даёт undefined
+ * и сообщение, проверка продолжается
+ */
+class ProjectReader {
+  problems: string[] = [];
+
+  fail(path: string, message: string): undefined {
+    this.problems.push(`${path || 'проект'}: ${message}`);
+    return undefined;
+  }
+
+  object(obj: Json, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return undefined;
+    if (!isObject(value)) return this.fail(at(path, key), 'ожидается объект');
+    return value;
+  }
+
+  array(obj: Json, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return undefined;
+    if (!Array.isArray(value))
+      return this.fail(at(path, key), 'ожидается список');
+    return value as unknown[];
+  }
+
+  string(obj: Json, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'string' || !value.trim())
+      return this.fail(at(path, key), 'ожидается непустая строка');
+    return value;
+  }
+
+  number(
+    obj: Json,
+    key: string,
+    path: string,
+    range: { min?: number; max?: number; optional?: boolean } = {}
+  ) {
+    const value = obj[key];
+    if (value === undefined && range.optional) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value))
+      return this.fail(at(path, key), 'ожидается число');
+    if (
+      (range.min !== undefined && value < range.min) ||
+      (range.max !== undefined && value > range.max)
+    )
+      return this.fail(
+        at(path, key),
+        `число ${value} вне диапазона ${range.min ?? '−∞'}…${range.max ?? '∞'}`
+      );
+    return value;
+  }
+
+  boolean(obj: Json, key: string, path: string, fallback: boolean) {
+    const value = obj[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean')
+      return this.fail(at(path, key), 'ожидается true или false') ?? fallback;
+    return value;
+  }
+
+  oneOf<T extends string>(
+    obj: Json,
+    key: string,
+    path: string,
+    values: readonly T[]
+  ) {
+    const value = obj[key];
+    if (
+      typeof value === 'string' &&
+      (values as readonly string[]).includes(value)
+    )
+      return value as T;
+    return this.fail(
+      at(path, key),
+      `ожидается одно из значений: ${values.join(', ')}`
+    );
+  }
+
+  // список объектов с уникальными id
+  items(obj: Json, key: string, path: string, optional = true) {
+    const list = this.array(obj, key, path, optional) ?? [];
+    const seen = new Set<string>();
+    return list.flatMap((item, i) => {
+      const itemPath = at(at(path, key), i);
+      if (!isObject(item)) return this.fail(itemPath, 'ожидается объект') ?? [];
+      const id = this.string(item, 'id', itemPath);
+      if (id === undefined) return [];
+      if (seen.has(id)) {
+        this.fail(at(itemPath, 'id'), `повторяется идентификатор «${id}»`);
+        return [];
+      }
+      seen.add(id);
+      return [{ item, id, path: itemPath }];
+    });
+  }
+}
+
+const readView = (r: ProjectReader, root: Json): ProjectView | undefined => {
+  const view = r.object(root, 'view', '');
+  if (!view) return undefined;
+  const path = 'view';
+  let center: [number, number] | undefined;
+  const c = view.center;
+  if (
+    Array.isArray(c) &&
+    c.length === 2 &&
+    c.every((v) => typeof v === 'number' && Number.isFinite(v))
+  ) {
+    if (Math.abs(c[0]) > 90 || Math.abs(c[1]) > 180)
+      r.fail(at(path, 'center'), 'ожидается [широта, долгота] в градусах');
+    else center = [c[0], c[1]];
+  } else {
+    r.fail(at(path, 'center'), 'ожидается [широта, долгота]');
+  }
+  const zoomRange = { min: 0, max: 24 };
+  const zoom = r.number(view, 'zoom', path, zoomRange);
+  const minZoom = r.number(view, 'minZoom', path, {
+    ...zoomRange,
+    optional: true,
+  });
+  const maxZoom = r.number(view, 'maxZoom', path, {
+    ...zoomRange,
+    optional: true,
+  });
+  if (minZoom !== undefined && maxZoom !== undefined && minZoom > maxZoom)
+    r.fail(path, 'minZoom больше maxZoom');
+  if (
+    zoom !== undefined &&
+    ((minZoom !== undefined && zoom < minZoom) ||
+      (maxZoom !== undefined && zoom > maxZoom))
+  )
+    r.fail(at(path, 'zoom'), 'масштаб вне диапазона minZoom…maxZoom');
+  if (!center || zoom === undefined) return undefined;
+  return {
+    center,
+    zoom,
+    ...(minZoom !== undefined ? { minZoom } : {}),
+    ...(maxZoom !== undefined ? { maxZoom } : {}),
+  };
+};
+
+const readBaseMaps = (r: ProjectReader, root: Json): ProjectBaseMap[] => {
+  // без списка подложек — OpenStreetMap; пустой список — карта без подложки
+  if (root.baseMaps === undefined) return [OSM_BASE_MAP];
+  return r.items(root, 'baseMaps', '').flatMap(({ item, id, path }) => {
+    const url = r.string(item, 'url', path);
+    if (url === undefined) return [];
+    return [
+      {
+        id,
+        title: r.string(item, 'title', path, true) ?? id,
+        url,
+        attribution: r.string(item, 'attribution', path, true) ?? '',
+        maxZoom:
+          r.number(item, 'maxZoom', path, {
+            min: 0,
+            max: 24,
+            optional: true,
+          }) ?? OSM_BASE_MAP.maxZoom,
+        subdomains:
+          r.string(item, 'subdomains', path, true) ?? OSM_BASE_MAP.subdomains,
+      },
+    ];
+  });
+};
+
+const readServices = (r: ProjectReader, root: Json): ProjectService[] =>
+  r.items(root, 'services', '').flatMap(({ item, id, path }) => {
+    const type = r.oneOf(item, 'type', path, ['zws', 'ogc'] as const);
+    const url = r.string(item, 'url', path);
+    if (!type || url === undefined) return [];
+    const service: ProjectService = { id, type, url };
+    const auth = r.object(item, 'auth', path, true);
+    if (auth) {
+      const authPath = at(path, 'auth');
+      const user = r.string(auth, 'user', authPath);
+      const pass = r.string(auth, 'pass', authPath);
+      if (user !== undefined && pass !== undefined)
+        service.auth = { user, pass };
+    }
+    return [service];
+  });
+
+const readStyle = (r: ProjectReader, item: Json, path: string) => {
+  if (item.style === undefined) return undefined;
+  try {
+    return parseVectorStyle(item.style);
+  } catch (err) {
+    return r.fail(at(path, 'style'), (err as Error).message);
+  }
+};
+
+const isFeatureCollection = (
+  value: unknown
+): value is GeoJSON.FeatureCollection =>
+  isObject(value) &&
+  value.type === 'FeatureCollection' &&
+  Array.isArray(value.features);
+
+const LAYER_TYPES = ['zws', 'wms', 'wfs', 'local'] as const;
+
+// сервис слоя должен быть описан и подходить по типу
+const SERVICE_TYPE: Record<string, ProjectServiceType> = {
+  zws: 'zws',
+  wms: 'ogc',
+  wfs: 'ogc',
+};
+
+// сервис слоя: описан в services и подходит по типу
+const readLayerService = (
+  r: ProjectReader,
+  item: Json,
+  path: string,
+  type: Exclude<ProjectLayerType, 'local'>,
+  services: ProjectService[]
+) => {
+  const id = r.string(item, 'service', path);
+  if (id === undefined) return undefined;
+  const found = services.find((s) => s.id === id);
+  if (!found)
+    return r.fail(at(path, 'service'), `сервис «${id}» не описан в services`);
+  if (found.type !== SERVICE_TYPE[type])
+    return r.fail(
+      at(path, 'service'),
+      `слой ${type.toUpperCase()} не может использовать сервис типа ${
+        found.type
+      }`
+    );
+  return found.id;
+};
+
+const readLayer = (
+  r: ProjectReader,
+  item: Json,
+  id: string,
+  path: string,
+  services: ProjectService[]
+): ProjectLayer | undefined => {
+  const type = r.oneOf(item, 'type', path, LAYER_TYPES);
+  if (!type) return undefined;
+  const base = {
+    id,
+    visible: r.boolean(item, 'visible', path, true),
+    opacity:
+      r.number(item, 'opacity', path, { min: 0, max: 1, optional: true }) ?? 1,
+  };
+  const title = r.string(item, 'title', path, true);
+
+  if (type === 'local') {
+    const url = r.string(item, 'url', path, true);
+    let data: GeoJSON.FeatureCollection | undefined;
+    if ((url === undefined) === (item.data === undefined))
+      r.fail(path, 'нужен ровно один источник данных: url или data');
+    else if (item.data !== undefined && !isFeatureCollection(item.data))
+      r.fail(at(path, 'data'), 'ожидается FeatureCollection GeoJSON');
+    else if (item.data !== undefined)
+      // объекты и геометрия — как у импортируемого файла GeoJSON
+      try {
+        data = parseGeoJson(item.data);
+      } catch (err) {
+        r.fail(at(path, 'data'), (err as Error).message);
+      }
+    return {
+      ...base,
+      type,
+      title: title ?? id,
+      ...(url !== undefined ? { url } : {}),
+      ...(data ? { data } : {}),
+      style: readStyle(r, item, path),
+      popup: r.string(item, 'popup', path, true),
+    };
+  }
+
+  // остальные поля проверяются и при ошибке в сервисе — все ошибки слоя сразу
+  const service = readLayerService(r, item, path, type, services);
+  if (type === 'wfs') {
+    const typeName = r.string(item, 'typeName', path);
+    const srsName = r.string(item, 'srsName', path, true);
+    const style = readStyle(r, item, path);
+    const popup = r.string(item, 'popup', path, true);
+    if (service === undefined || typeName === undefined) return undefined;
+    return {
+      ...base,
+      type,
+      title: title ?? typeName,
+      service,
+      typeName,
+      srsName,
+      style,
+      popup,
+    };
+  }
+  const layer = r.string(item, 'layer', path);
+  if (type === 'wms') {
+    const style = r.string(item, 'style', path, true);
+    const format = r.string(item, 'format', path, true);
+    if (service === undefined || layer === undefined) return undefined;
+    return {
+      ...base,
+      type,
+      title: title ?? layer,
+      service,
+      layer,
+      style,
+      format,
+    };
+  }
+  if (service === undefined || layer === undefined) return undefined;
+  return { ...base, type, title: title ?? layer, service, layer };
+};
+
+const readLayers = (
+  r: ProjectReader,
+  root: Json,
+  services: ProjectService[]
+): ProjectLayer[] =>
+  r.items(root, 'layers', '').flatMap(({ item, id, path }) => {
+    const layer = readLayer(r, item, id, path, services);
+    return layer ? [layer] : [];
+  });
+
+const readCrs = (r: ProjectReader, root: Json): CrsDefinition[] =>
+  (r.array(root, 'crs', '', true) ?? []).flatMap((item, i) => {
+    const path = at('crs', i);
+    if (!isObject(item)) return r.fail(path, 'ожидается объект') ?? [];
+    const code = r.string(item, 'code', path);
+    const definition = r.string(item, 'proj4', path);
+    if (code === undefined || definition === undefined) return [];
+    // ошибка в определении иначе всплыла бы только при регистрации
+    try {
+      proj4(definition);
+    } catch (err) {
+      return (
+        r.fail(
+          at(path, 'proj4'),
+          `неверное определение proj4 (${(err as Error)?.message ?? err})`
+        ) ?? []
+      );
+    }
+    return [
+      {
+        code,
+        title: r.string(item, 'title', path, true) ?? code,
+        proj4: definition,
+        northingFirst: r.boolean(item, 'northingFirst', path, false),
+      },
+    ];
+  });
+
+const readHighlight = (
+  r: ProjectReader,
+  root: Json
+): ProjectHighlight | undefined => {
+  const highlight = r.object(root, 'highlight', '', true);
+  if (!highlight) return undefined;
+  const path = 'highlight';
+  const opacity = { min: 0, max: 1, optional: true };
+  const options: ProjectHighlight = {
+    color: r.string(highlight, 'color', path, true),
+    weight: r.number(highlight, 'weight', path, { min: 0, optional: true }),
+    opacity: r.number(highlight, 'opacity', path, opacity),
+    fillColor: r.string(highlight, 'fillColor', path, true),
+    fillOpacity: r.number(highlight, 'fillOpacity', path, opacity),
+  };
+  // незаданные поля не должны перекрывать оформление по умолчанию
+  return Object.fromEntries(
+    Object.entries(options).filter(([, v]) => v !== undefined)
+  );
+};
+
+const readTileCache = (r: ProjectReader, root: Json) => {
+  if (root.tileCache === undefined || root.tileCache === false)
+    return root.tileCache as false | undefined;
+  const cache = r.object(root, 'tileCache', '');
+  if (!cache) return undefined;
+  return {
+    maxBytes: r.number(cache, 'maxBytes', 'tileCache', {
+      min: 0,
+      optional: true,
+    }),
+    maxAgeMs: r.number(cache, 'maxAgeMs', 'tileCache', {
+      min: 0,
+      optional: true,
+    }),
+  };
+};
+
+/**
+ * Проект карты из JSON с проверкой; MapProjectError перечисляет все ошибки
+ */
+export function parseMapProject(json: unknown): MapProject {
+  const r = new ProjectReader();
+  if (!isObject(json))
+    throw new MapProjectError(['проект: ожидается объект JSON']);
+
+  const version =
+    r.number(json, 'version', '', { min: 1 }) ?? MAP_PROJECT_VERSION;
+  if (version > MAP_PROJECT_VERSION)
+    r.fail(
+      'version',
+      `версия проекта ${version} не поддерживается, ожидается ${MAP_PROJECT_VERSION}`
+    );
+
+  const view = readView(r, json);
+  const baseMaps = readBaseMaps(r, json);
+  const baseMap = r.string(json, 'baseMap', '', true) ?? null;
+  if (baseMap !== null && !baseMaps.some((b) => b.id === baseMap))
+    r.fail('baseMap', `подложка «${baseMap}» не описана в baseMaps`);
+  const services = readServices(r, json);
+  const layers = readLayers(r, json, services);
+
+  // слои WMS обслуживает один сервис: его capabilities, легенды и запрос
+  // информации; слои другого сервиса карта показать не сможет
+  const wmsServices = new Set(
+    layers.flatMap((l) => (l.type === 'wms' ? [l.service] : []))
+  );
+  if (wmsServices.size > 1)
+    r.fail(
+      'layers',
+      `слои WMS из разных сервисов в одном проекте не поддерживаются, все слои WMS должны быть из одного сервиса (указаны: ${[
+        ...wmsServices,
+      ].join(', ')})`
+    );
+
+  const project = {
+    version,
+    title: r.string(json, 'title', '', true) ?? 'Карта',
+    view,
+    baseMaps,
+    baseMap,
+    services,
+    layers,
+    crs: readCrs(r, json),
+    highlight: readHighlight(r, json),
+    tileCache: readTileCache(r, json),
+  };
+  if (r.problems.length || !view) throw new MapProjectError(r.problems);
+  return { ...project, view };
+}
+
+/**
+ * Текст файла проекта: JSON и проверка
+ */
+export function parseMapProjectText(text: string): MapProject {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new MapProjectError([
+      `проект: файл не является JSON (${(err as Error).message})`,
+    ]);
+  }
+  return parseMapProject(json);
+}
+
+/**
+ * Сервис слоя по идентификатору
+ */
+export const projectService = (project: MapProject, id: string) =>
+  project.services.find((s) => s.id === id) ?? null;
@@ -0,0 +1,618 @@
+/**
+ * Дерево условий запроса и его запись в OGC Filter Encoding (FES 1.0, 1.1, 2.0)
+ */
+import {
+  GmlNode,
+  GmlParseOptions,
+  isGmlGeometryName,
+  parseGmlGeometry,
+} from './gmlGeometry';
+import { bboxToGml, geometryToGml, GmlVersion } from './gmlWriter';
+
+export type ComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'lt'
+  | 'le'
+  | 'gt'
+  | 'ge'
+  | 'like'
+  | 'between'
+  | 'isNull';
+
+export type LogicalOperator = 'and' | 'or' | 'not';
+
+export type SpatialOperator =
+  | 'bbox'
+  | 'intersects'
+  | 'within'
+  | 'contains'
+  | 'disjoint'
+  | 'dwithin';
+
+export type FilterValue = string | number | boolean;
+
+export interface ComparisonFilter {
+  type: 'comparison';
+  op: ComparisonOperator;
+  property: string;
+  value?: FilterValue;
+  // верхняя граница для between
+  upper?: FilterValue;
+  matchCase?: boolean;
+}
+
+export interface LogicalFilter {
+  type: 'logical';
+  op: LogicalOperator;
+  filters: FilterNode[];
+}
+
+export interface SpatialFilter {
+  type: 'spatial';
+  op: SpatialOperator;
+  // геометрия в WGS84
+  geometry: GeoJSON.Geometry;
+  // расстояние в метрах для dwithin
+  distance?: number;
+}
+
+// выборка по идентификаторам объектов; в FES 1.x допустима только на верхнем уровне
+export interface ResourceIdFilter {
+  type: 'id';
+  ids: string[];
+}
+
+export type FilterNode =
+  | ComparisonFilter
+  | LogicalFilter
+  | SpatialFilter
+  | ResourceIdFilter;
+
+export type FesVersion = '1.0' | '1.1' | '2.0';
+
+export interface FilterWriteOptions {
+  version: FesVersion;
+  // система координат геометрий в фильтре
+  srsName: string;
+  // свойство геометрии типа; без него пространственное условие применяется к геометрии по умолчанию
+  geometryName?: string | null;
+}
+
+// шаблон like: * — любая последовательность, ? — один символ, \ — экранирование
+export const LIKE_WILDCARD = '*';
+export const LIKE_SINGLE_CHAR = '?';
+export const LIKE_ESCAPE = '\\';
+
+const COMPARISON_ELEMENTS: Record<ComparisonOperator, string> = {
+  eq: 'PropertyIsEqualTo',
+  ne: 'PropertyIsNotEqualTo',
+  lt: 'PropertyIsLessThan',
+  le: 'PropertyIsLessThanOrEqualTo',
+  gt: 'PropertyIsGreaterThan',
+  ge: 'PropertyIsGreaterThanOrEqualTo',
+  like: 'PropertyIsLike',
+  between: 'PropertyIsBetween',
+  isNull: 'PropertyIsNull',
+};
+
+const SPATIAL_ELEMENTS: Record<SpatialOperator, string> = {
+  bbox: 'BBOX',
+  intersects: 'Intersects',
+  within: 'Within',
+  contains: 'Contains',
+  disjoint: 'Disjoint',
+  dwithin: 'DWithin',
+};
+
+const NAMESPACES: Record<FesVersion, { prefix: string; uri: string }> = {
+  '1.0': { prefix: 'ogc', uri: 'http://www.opengis.net/ogc' },
+  '1.1': { prefix: 'ogc', uri: 'http://www.opengis.net/ogc' },
+  '2.0': { prefix: 'fes', uri: 'http://www.opengis.net/fes/2.0' },
+};
+
+const GML_VERSIONS: Record<FesVersion, GmlVersion> = {
+  '1.0': '2',
+  '1.1': '3.1',
+  '2.0': '3.2',
+};
+
+export const GML_NAMESPACES: Record<GmlVersion, string> = {
+  '2': 'http://www.opengis.net/gml',
+  '3.1': 'http://www.opengis.net/gml',
+  '3.2': 'http://www.opengis.net/gml/3.2',
+};
+
+// версия Filter Encoding, которую использует версия WFS
+export const fesVersionFor = (wfsVersion: string): FesVersion =>
+  wfsVersion.startsWith('2.') ? '2.0' : wfsVersion === '1.1.0' ? '1.1' : '1.0';
+
+export const fesNamespace = (version: FesVersion) => NAMESPACES[version];
+
+export const fesGmlVersion = (version: FesVersion) => GML_VERSIONS[version];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const isEmptyValue = (value: FilterValue | undefined) =>
+  value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Убирает незаполненные условия и пустые группы; null — фильтра нет
+ */
+export const normalizeFilter = (node: FilterNode): FilterNode | null => {
+  switch (node.type) {
+    case 'comparison':
+      if (!node.property) return null;
+      if (node.op === 'isNull') return node;
+      if (isEmptyValue(node.value)) return null;
+      if (node.op === 'between' && isEmptyValue(node.upper)) return null;
+      return node;
+    case 'id':
+      return node.ids.length ? node : null;
+    case 'spatial':
+      if (node.op === 'dwithin' && !((node.distance ?? -1) >= 0)) return null;
+      return node;
+    case 'logical': {
+      const filters = node.filters
+        .map(normalizeFilter)
+        .filter((f): f is FilterNode => f !== null);
+      if (!filters.length) return null;
+      if (node.op === 'not') return { ...node, filters: [filters[0]] };
+      // группа из одного условия равна самому условию
+      if (filters.length === 1) return filters[0];
+      return { ...node, filters };
+    }
+  }
+};
+
+/**
+ * Объединение условий через And; пустые условия пропускаются
+ */
+export const andFilters = (
+  ...filters: (FilterNode | null | undefined)[]
+): FilterNode | null =>
+  normalizeFilter({
+    type: 'logical',
+    op: 'and',
+    filters: filters.filter((f): f is FilterNode => !!f),
+  });
+
+export const bboxFilter = (
+  bbox: [number, number, number, number]
+): SpatialFilter => ({
+  type: 'spatial',
+  op: 'bbox',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [bbox[0], bbox[1]],
+        [bbox[2], bbox[1]],
+        [bbox[2], bbox[3]],
+        [bbox[0], bbox[3]],
+        [bbox[0], bbox[1]],
+      ],
+    ],
+  },
+});
+
+export const geometryBbox = (
+  geometry: GeoJSON.Geometry
+): [number, number, number, number] => {
+  const bbox: [number, number, number, number] = [
+    Infinity,
+    Infinity,
+    -Infinity,
+    -Infinity,
+  ];
+  const visit = (coords: unknown): void => {
+    if (Array.isArray(coords) && typeof coords[0] === 'number') {
+      const [x, y] = coords as number[];
+      bbox[0] = Math.min(bbox[0], x);
+      bbox[1] = Math.min(bbox[1], y);
+      bbox[2] = Math.max(bbox[2], x);
+      bbox[3] = Math.max(bbox[3], y);
+    } else if (Array.isArray(coords)) coords.forEach(visit);
+  };
+  if (geometry.type === 'GeometryCollection')
+    geometry.geometries.forEach((g) => {
+      const [minX, minY, maxX, maxY] = geometryBbox(g);
+      visit([
+        [minX, minY],
+        [maxX, maxY],
+      ]);
+    });
+  else visit(geometry.coordinates);
+  return bbox;
+};
+
+const literalText = (value: FilterValue | undefined) =>
+  escapeXml(String(value ?? ''));
+
+/**
+ * Элемент фильтра без обёртки Filter; префиксы ogc/fes и gml должны быть
+ * объявлены во внешнем элементе
+ */
+export const filterToXmlBody = (
+  node: FilterNode,
+  options: FilterWriteOptions
+): string => {
+  const { version, srsName, geometryName } = options;
+  const p = NAMESPACES[version].prefix;
+  const gmlVersion = GML_VERSIONS[version];
+  const reference = version === '2.0' ? 'ValueReference' : 'PropertyName';
+  const ref = (name: string) =>
+    `<${p}:${reference}>${escapeXml(name)}</${p}:${reference}>`;
+  const literal = (value: FilterValue | undefined) =>
+    `<${p}:Literal>${literalText(value)}</${p}:Literal>`;
+
+  const write = (n: FilterNode): string => {
+    switch (n.type) {
+      case 'id':
+        return n.ids
+          .map((id) => {
+            const value = escapeXml(id);
+            if (version === '2.0') return `<${p}:ResourceId rid="${value}"/>`;
+            if (version === '1.1')
+              return `<${p}:GmlObjectId gml:id="${value}"/>`;
+            return `<${p}:FeatureId fid="${value}"/>`;
+          })
+          .join('');
+      case 'logical': {
+        const tag = n.op === 'and' ? 'And' : n.op === 'or' ? 'Or' : 'Not';
+        const children = n.op === 'not' ? n.filters.slice(0, 1) : n.filters;
+        return `<${p}:${tag}>${children.map(write).join('')}</${p}:${tag}>`;
+      }
+      case 'comparison': {
+        const tag = `${p}:${COMPARISON_ELEMENTS[n.op]}`;
+        if (n.op === 'isNull') return `<${tag}>${ref(n.property)}</${tag}>`;
+        if (n.op === 'between')
+          return `<${tag}>${ref(n.property)}<${p}:LowerBoundary>${literal(
+            n.value
+          )}</${p}:LowerBoundary><${p}:UpperBoundary>${literal(
+            n.upper
+          )}</${p}:UpperBoundary></${tag}>`;
+        // matchCase появился в FES 1.1
+        const matchCase =
+          n.matchCase === false && version !== '1.0'
+            ? ' matchCase="false"'
+            : '';
+        if (n.op === 'like') {
+          // в FES 1.0 атрибут экранирования называется escape
+          const escapeAttr = version === '1.0' ? 'escape' : 'escapeChar';
+          return `<${tag} wildCard="${LIKE_WILDCARD}" singleChar="${LIKE_SINGLE_CHAR}" ${escapeAttr}="${escapeXml(
+            LIKE_ESCAPE
+          )}"${matchCase}>${ref(n.property)}${literal(n.value)}</${tag}>`;
+        }
+        return `<${tag}${matchCase}>${ref(n.property)}${literal(
+          n.value
+        )}</${tag}>`;
+      }
+      case 'spatial': {
+        const tag = `${p}:${SPATIAL_ELEMENTS[n.op]}`;
+        const property = geometryName ? ref(geometryName) : '';
+        const gmlOptions = { version: gmlVersion, srsName };
+        if (n.op === 'bbox')
+          return `<${tag}>${property}${bboxToGml(
+            geometryBbox(n.geometry),
+            gmlOptions
+          )}</${tag}>`;
+        const geometry = geometryToGml(n.geometry, gmlOptions);
+        if (n.op === 'dwithin') {
+          // FES 2.0: единицы в атрибуте uom, FES 1.x — units
+          const units = version === '2.0' ? 'uom' : 'units';
+          return `<${tag}>${property}${geometry}<${p}:Distance ${units}="m">${
+            n.distance ?? 0
+          }</${p}:Distance></${tag}>`;
+        }
+        return `<${tag}>${property}${geometry}</${tag}>`;
+      }
+    }
+  };
+
+  return write(node);
+};
+
+/**
+ * Полный элемент Filter с объявлениями пространств имён
+ */
+export const filterToXml = (
+  node: FilterNode,
+  options: FilterWriteOptions
+): string => {
+  const { prefix, uri } = NAMESPACES[options.version];
+  const gmlUri = GML_NAMESPACES[GML_VERSIONS[options.version]];
+  return `<${prefix}:Filter xmlns:${prefix}="${uri}" xmlns:gml="${gmlUri}">${filterToXmlBody(
+    node,
+    options
+  )}</${prefix}:Filter>`;
+};
+
+const likeRegExp = (pattern: string, matchCase: boolean) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === LIKE_ESCAPE && i + 1 < pattern.length)
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (ch === LIKE_WILDCARD) source += '.*';
+    else if (ch === LIKE_SINGLE_CHAR) source += '.';
+    else source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, matchCase ? '' : 'i');
+};
+
+// сравнение значения атрибута с литералом: числа — как числа, прочее — как строки
+const compareValues = (
+  value: unknown,
+  literal: FilterValue | undefined,
+  matchCase: boolean
+): number | null => {
+  if (value === null || value === undefined || literal === undefined)
+    return null;
+  const a = typeof value === 'number' ? value : Number(value);
+  const b = typeof literal === 'number' ? literal : Number(literal);
+  if (
+    String(value).trim() !== '' &&
+    String(literal).trim() !== '' &&
+    !isNaN(a) &&
+    !isNaN(b)
+  )
+    return a - b;
+  let x = String(value);
+  let y = String(literal);
+  if (!matchCase) {
+    x = x.toLowerCase();
+    y = y.toLowerCase();
+  }
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const bboxIntersects = (
+  a: [number, number, number, number],
+  b: [number, number, number, number]
+) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+const bboxContains = (
+  outer: [number, number, number, number],
+  inner: [number, number, number, number]
+) =>
+  inner[0] >= outer[0] &&
+  inner[2] <= outer[2] &&
+  inner[1] >= outer[1] &&
+  inner[3] <= outer[3];
+
+/**
+ * Проверка объекта GeoJSON по дереву условий на клиенте, например для
+ * правил стиля. Пространственные условия проверяются по охватам геометрий
+ */
+export const matchesFilter = (
+  node: FilterNode,
+  feature: GeoJSON.Feature
+): boolean => {
+  switch (node.type) {
+    case 'id':
+      return feature.id != null && node.ids.includes(String(feature.id));
+    case 'logical':
+      if (node.op === 'not')
+        return !node.filters.length || !matchesFilter(node.filters[0], feature);
+      return node.op === 'and'
+        ? node.filters.every((f) => matchesFilter(f, feature))
+        : node.filters.some((f) => matchesFilter(f, feature));
+    case 'comparison': {
+      const value = feature.properties?.[node.property];
+      const matchCase = node.matchCase !== false;
+      if (node.op === 'isNull') return value === null || value === undefined;
+      if (node.op === 'like')
+        return (
+          value !== null &&
+          value !== undefined &&
+          likeRegExp(String(node.value ?? ''), matchCase).test(String(value))
+        );
+      const cmp = compareValues(value, node.value, matchCase);
+      if (cmp === null) return false;
+      switch (node.op) {
+        case 'eq':
+          return cmp === 0;
+        case 'ne':
+          return cmp !== 0;
+        case 'lt':
+          return cmp < 0;
+        case 'le':
+          return cmp <= 0;
+        case 'gt':
+          return cmp > 0;
+        case 'ge':
+          return cmp >= 0;
+        case 'between': {
+          const upper = compareValues(value, node.upper, matchCase);
+          return cmp >= 0 && upper !== null && upper <= 0;
+        }
+      }
+      return false;
+    }
+    case 'spatial': {
+      if (!feature.geometry) return false;
+      const bbox = geometryBbox(feature.geometry);
+      const area = geometryBbox(node.geometry);
+      switch (node.op) {
+        case 'bbox':
+        case 'intersects':
+          return bboxIntersects(bbox, area);
+        case 'disjoint':
+          return !bboxIntersects(bbox, area);
+        case 'within':
+          return bboxContains(area, bbox);
+        case 'contains':
+          return bboxContains(bbox, area);
+        case 'dwithin': {
+          // метры в градусы по широте охвата — для оценки достаточно
+          const d = (node.distance ?? 0) / 111320;
+          const k = Math.cos((((area[1] + area[3]) / 2) * Math.PI) / 180);
+          return bboxIntersects(bbox, [
+            area[0] - d / Math.max(k, 0.01),
+            area[1] - d,
+            area[2] + d / Math.max(k, 0.01),
+            area[3] + d,
+          ]);
+        }
+      }
+    }
+  }
+};
+
+// шаблон like сервера в шаблон с нашими спецсимволами
+const convertLikePattern = (
+  pattern: string,
+  wildCard: string,
+  singleChar: string,
+  escapeChar: string
+) => {
+  let result = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === escapeChar && i + 1 < pattern.length) {
+      const next = pattern[++i];
+      result += [LIKE_WILDCARD, LIKE_SINGLE_CHAR, LIKE_ESCAPE].includes(next)
+        ? LIKE_ESCAPE + next
+        : next;
+    } else if (ch === wildCard) result += LIKE_WILDCARD;
+    else if (ch === singleChar) result += LIKE_SINGLE_CHAR;
+    else if ([LIKE_WILDCARD, LIKE_SINGLE_CHAR, LIKE_ESCAPE].includes(ch))
+      result += LIKE_ESCAPE + ch;
+    else result += ch;
+  }
+  return result;
+};
+
+const COMPARISON_BY_ELEMENT = Object.fromEntries(
+  Object.entries(COMPARISON_ELEMENTS).map(([op, el]) => [el, op])
+) as Record<string, ComparisonOperator>;
+
+const SPATIAL_BY_ELEMENT = Object.fromEntries(
+  Object.entries(SPATIAL_ELEMENTS).map(([op, el]) => [el, op])
+) as Record<string, SpatialOperator>;
+
+const childElements = (node: GmlNode) => Array.from(node.children);
+
+const childText = (node: GmlNode, ...names: string[]) => {
+  const child = childElements(node).find((c) => names.includes(c.localName));
+  return child ? (child.textContent ?? '').trim() : undefined;
+};
+
+/**
+ * Разбор элемента Filter (или условия внутри него) FES 1.0, 1.1, 2.0 в
+ * дерево условий; геометрии пересчитываются в WGS84. Функции и выражения
+ * вместо литералов не поддерживаются — для них бросается ошибка
+ */
+export const parseFilterXml = (
+  el: GmlNode,
+  options: GmlParseOptions = {}
+): FilterNode | null => {
+  const read = (n: GmlNode): FilterNode | null => {
+    const name = n.localName;
+    if (name === 'Filter') {
+      const children = childElements(n);
+      const ids = children.filter((c) =>
+        ['FeatureId', 'GmlObjectId', 'ResourceId'].includes(c.localName)
+      );
+      if (ids.length) return readIds(ids);
+      return children.length ? read(children[0]) : null;
+    }
+    if (['FeatureId', 'GmlObjectId', 'ResourceId'].includes(name))
+      return readIds([n]);
+    if (name === 'And' || name === 'Or' || name === 'Not') {
+      const filters = childElements(n)
+        .map(read)
+        .filter((f): f is FilterNode => f !== null);
+      return normalizeFilter({
+        type: 'logical',
+        op: name === 'And' ? 'and' : name === 'Or' ? 'or' : 'not',
+        filters,
+      });
+    }
+    const comparison = COMPARISON_BY_ELEMENT[name];
+    if (comparison) {
+      const children = childElements(n);
+      const property = childText(n, 'PropertyName', 'ValueReference');
+      if (
+        !property ||
+        children.some(
+          (c) =>
+            !['PropertyName', 'ValueReference', 'Literal'].includes(
+              c.localName
+            ) &&
+            !(
+              comparison === 'between' &&
+              ['LowerBoundary', 'UpperBoundary'].includes(c.localName)
+            )
+        )
+      )
+        throw new Error(`Неподдерживаемое выражение в условии ${name}`);
+      const matchCase =
+        n.getAttribute('matchCase') === 'false' ? false : undefined;
+      const filter: ComparisonFilter = {
+        type: 'comparison',
+        op: comparison,
+        property,
+      };
+      if (matchCase === false) filter.matchCase = false;
+      if (comparison === 'between') {
+        const lower = children.find((c) => c.localName === 'LowerBoundary');
+        const upper = children.find((c) => c.localName === 'UpperBoundary');
+        filter.value = lower ? childText(lower, 'Literal') : undefined;
+        filter.upper = upper ? childText(upper, 'Literal') : undefined;
+      } else if (comparison === 'like') {
+        filter.value = convertLikePattern(
+          childText(n, 'Literal') ?? '',
+          n.getAttribute('wildCard') ?? LIKE_WILDCARD,
+          n.getAttribute('singleChar') ?? LIKE_SINGLE_CHAR,
+          n.getAttribute('escapeChar') ??
+            n.getAttribute('escape') ??
+            LIKE_ESCAPE
+        );
+      } else if (comparison !== 'isNull') {
+        filter.value = childText(n, 'Literal') ?? '';
+      }
+      return filter;
+    }
+    const spatial = SPATIAL_BY_ELEMENT[name];
+    if (spatial) {
+      const geometry = parseGmlGeometry(
+        childElements(n).find((c) => isGmlGeometryName(c.localName)) ?? null,
+        options
+      );
+      if (!geometry) throw new Error(`Нет геометрии в условии ${name}`);
+      const filter: SpatialFilter = { type: 'spatial', op: spatial, geometry };
+      if (spatial === 'dwithin') {
+        const distance = childElements(n).find(
+          (c) => c.localName === 'Distance'
+        );
+        const units =
+          distance?.getAttribute('uom') ?? distance?.getAttribute('units');
+        if (units && !/^(m|metre|meter|#m)$/i.test(units.split(/[#:]/).pop()!))
+          throw new Error(`Неподдерживаемые единицы расстояния: ${units}`);
+        filter.distance = Number(distance?.textContent ?? 0);
+      }
+      return filter;
+    }
+    throw new Error(`Неподдерживаемое условие фильтра: ${name}`);
+  };
+  const readIds = (nodes: GmlNode[]): ResourceIdFilter => ({
+    type: 'id',
+    ids: nodes
+      .map(
+        (c) =>
+          c.getAttribute('rid') ??
+          c.getAttribute('fid') ??
+          c.getAttribute('gml:id') ??
+          ''
+      )
+      .filter(Boolean),
+  });
+  return read(el);
+};
@@ -0,0 +1,86 @@
+import { escapeHtml } from './escapeHtml';
+import { FeatureTypeSchema, getAttributeSchema } from './featureSchema';
+
+const LOCALE = 'ru-RU';
+
+const numberFormat = new Intl.NumberFormat(LOCALE, {
+  maximumFractionDigits: 6,
+});
+const integerFormat = new Intl.NumberFormat(LOCALE, {
+  maximumFractionDigits: 0,
+});
+// дата без времени приходит как полночь UTC — показываем её в UTC, чтобы не «съехал» день
+const dateFormat = new Intl.DateTimeFormat(LOCALE, {
+  dateStyle: 'medium',
+  timeZone: 'UTC',
+});
+const dateTimeFormat = new Intl.DateTimeFormat(LOCALE, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+/**
+ * Значение атрибута для показа пользователю с учётом типа из схемы
+ */
+export function formatAttributeValue(
+  value: unknown,
+  schema?: FeatureTypeSchema | null,
+  name?: string
+): string {
+  if (value === null || value === undefined) return '';
+  const attr = name ? getAttributeSchema(schema, name) : null;
+
+  if (value instanceof Date) {
+    return attr?.type === 'date'
+      ? dateFormat.format(value)
+      : dateTimeFormat.format(value);
+  }
+  if (typeof value === 'number') {
+    return attr?.type === 'integer'
+      ? integerFormat.format(value)
+      : numberFormat.format(value);
+  }
+  if (typeof value === 'boolean') return value ? 'да' : 'нет';
+  return String(value);
+}
+
+const isDisplayable = (key: string, value: unknown) => {
+  if (key === 'ZULU_GEOM') return false;
+  if (value === null || value === undefined) return true;
+  if (value instanceof Date) return true;
+  const t = typeof value;
+  // скрываем массивы/объекты (например массив координат)
+  return t === 'string' || t === 'number' || t === 'boolean';
+};
+
+/**
+ * Показываемые свойства объекта; при наличии схемы поля идут в её порядке
+ */
+export function displayableEntries(
+  props: Record<string, unknown>,
+  schema?: FeatureTypeSchema | null
+): [string, unknown][] {
+  const entries = Object.entries(props).filter(([k, v]) => isDisplayable(k, v));
+
+  if (schema) {
+    const order = new Map(schema.attributes.map((a, i) => [a.name, i]));
+    const rank = (k: string) => order.get(k) ?? Number.MAX_SAFE_INTEGER;
+    entries.sort(([a], [b]) => rank(a) - rank(b));
+  }
+  return entries;
+}
+
+/**
+ * HTML попапа по шаблону проекта: {имя} заменяется значением атрибута
+ * (экранированным и отформатированным по схеме), отсутствующие — пустой строкой
+ */
+export function renderPopupTemplate(
+  template: string,
+  props: Record<string, unknown>,
+  schema?: FeatureTypeSchema | null
+): string {
+  return template.replace(/\{([^{}]+)\}/g, (_, name: string) => {
+    const key = name.trim();
+    return escapeHtml(formatAttributeValue(props[key], schema, key));
+  });
+}
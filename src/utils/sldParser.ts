@@ -0,0 +1,306 @@
+/**
+ * Импорт стилей OGC SLD 1.0 / SE 1.1 в VectorStyle: правила с фильтрами и
+ * масштабами, символизаторы полигонов, линий, точек (Mark) и подписей.
+ * Неподдерживаемые части пропускаются с предупреждением
+ */
+import { GmlParseOptions } from './gmlGeometry';
+import { parseFilterXml } from './ogcFilter';
+import {
+  FillStyle,
+  LabelStyle,
+  MarkerShape,
+  parseVectorStyle,
+  PointSymbol,
+  scaleToZoom,
+  StrokeStyle,
+  StyleRule,
+  Symbolizer,
+  VectorStyle,
+} from './vectorStyle';
+
+export interface StyleImportResult {
+  styles: VectorStyle[];
+  // пропущенные при импорте части стиля
+  warnings: string[];
+}
+
+// значения по умолчанию из спецификации SLD
+const SLD_GRAY = '#808080';
+const SLD_MARK_SIZE = 6;
+
+const MARK_SHAPES: Record<string, MarkerShape> = {
+  circle: 'circle',
+  square: 'square',
+  triangle: 'triangle',
+  star: 'star',
+  cross: 'cross',
+  x: 'x',
+};
+
+const directChildren = (el: Element, name: string) =>
+  Array.from(el.children).filter((c) => c.localName === name);
+
+const child = (el: Element | undefined, name: string) =>
+  el ? directChildren(el, name)[0] : undefined;
+
+const childText = (el: Element | undefined, name: string) =>
+  child(el, name)?.textContent?.trim() || undefined;
+
+const numberOrUndefined = (value: string | undefined) => {
+  const n = Number(value);
+  return value !== undefined && value !== '' && isFinite(n) ? n : undefined;
+};
+
+/**
+ * Разбор документа SLD/SE: по стилю на каждый UserStyle (или корневой
+ * FeatureTypeStyle); геометрии фильтров пересчитываются в WGS84
+ */
+export const parseSld = (
+  xmlText: string,
+  options: GmlParseOptions = {}
+): StyleImportResult => {
+  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const error = xml.getElementsByTagName('parsererror')[0];
+  if (error)
+    throw new Error(`Некорректный XML стиля: ${error.textContent?.trim()}`);
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+
+  // значение CssParameter (SLD 1.0) или SvgParameter (SE 1.1)
+  const params = (el: Element | undefined) => {
+    const values: Record<string, string> = {};
+    if (!el) return values;
+    Array.from(el.children)
+      .filter(
+        (c) => c.localName === 'CssParameter' || c.localName === 'SvgParameter'
+      )
+      .forEach((p) => {
+        const name = p.getAttribute('name') ?? '';
+        if (Array.from(p.children).some((c) => c.localName !== 'Literal'))
+          warn(`Вычисляемое значение ${name} заменено значением по умолчанию`);
+        else values[name] = (p.textContent ?? '').trim();
+      });
+    return values;
+  };
+
+  const readStroke = (el: Element | undefined): StrokeStyle | undefined => {
+    if (!el) return undefined;
+    if (child(el, 'GraphicStroke') || child(el, 'GraphicFill'))
+      warn('Штриховка значками заменена сплошной линией');
+    const p = params(el);
+    return {
+      color: p.stroke ?? '#000000',
+      width: numberOrUndefined(p['stroke-width']) ?? 1,
+      opacity: numberOrUndefined(p['stroke-opacity']) ?? 1,
+      ...(p['stroke-dasharray']
+        ? { dashArray: p['stroke-dasharray'].replace(/,/g, ' ') }
+        : {}),
+    };
+  };
+
+  const readFill = (el: Element | undefined): FillStyle | undefined => {
+    if (!el) return undefined;
+    if (child(el, 'GraphicFill')) warn('Заливка значками заменена сплошной');
+    const p = params(el);
+    return {
+      color: p.fill ?? SLD_GRAY,
+      opacity: numberOrUndefined(p['fill-opacity']) ?? 1,
+    };
+  };
+
+  const readPoint = (el: Element): PointSymbol => {
+    const graphic = child(el, 'Graphic');
+    const mark = child(graphic, 'Mark');
+    if (!mark && child(graphic, 'ExternalGraphic'))
+      warn('Внешние значки (ExternalGraphic) заменены кружками');
+    const wellKnown = childText(mark, 'WellKnownName') ?? 'square';
+    const shape = MARK_SHAPES[wellKnown.toLowerCase()];
+    if (mark && !shape) warn(`Значок ${wellKnown} заменён кружком`);
+    const opacity = numberOrUndefined(childText(graphic, 'Opacity'));
+    const fill = mark
+      ? readFill(child(mark, 'Fill')) ??
+        (child(mark, 'Stroke') ? null : { color: SLD_GRAY, opacity: 1 })
+      : { color: SLD_GRAY, opacity: 1 };
+    const stroke = mark ? readStroke(child(mark, 'Stroke')) ?? null : null;
+    if (fill && opacity !== undefined) fill.opacity = opacity;
+    const rotation = numberOrUndefined(childText(graphic, 'Rotation'));
+    return {
+      shape: mark ? shape ?? 'circle' : 'circle',
+      size: numberOrUndefined(childText(graphic, 'Size')) ?? SLD_MARK_SIZE,
+      fill,
+      stroke,
+      ...(rotation !== undefined ? { rotation } : {}),
+    };
+  };
+
+  const readLabel = (el: Element): LabelStyle | null => {
+    const label = child(el, 'Label');
+    const property =
+      label &&
+      Array.from(label.children).find(
+        (c) =>
+          c.localName === 'PropertyName' || c.localName === 'ValueReference'
+      );
+    if (!property) {
+      warn('Подписи без атрибута в Label пропущены');
+      return null;
+    }
+    const font = params(child(el, 'Font'));
+    const halo = child(el, 'Halo');
+    const displacement = child(
+      child(child(el, 'LabelPlacement'), 'PointPlacement'),
+      'Displacement'
+    );
+    const dx = numberOrUndefined(childText(displacement, 'DisplacementX')) ?? 0;
+    const dy = numberOrUndefined(childText(displacement, 'DisplacementY')) ?? 0;
+    return {
+      property: (property.textContent ?? '').trim(),
+      color: readFill(child(el, 'Fill'))?.color ?? '#000000',
+      size: numberOrUndefined(font['font-size']) ?? 10,
+      haloColor: halo
+        ? readFill(child(halo, 'Fill'))?.color ?? '#ffffff'
+        : null,
+      // в SLD ось Y смещения направлена вверх
+      ...(dx || dy ? { offset: [dx, -dy] as [number, number] } : {}),
+    };
+  };
+
+  // символизаторы правила дополняют друг друга; null не затирает заданное
+  const combine = (a: Symbolizer, b: Symbolizer): Symbolizer => {
+    const result = { ...a };
+    (Object.keys(b) as (keyof Symbolizer)[]).forEach((key) => {
+      const value = b[key] === null ? a[key] ?? null : b[key] ?? a[key];
+      Object.assign(result, { [key]: value });
+    });
+    return result;
+  };
+
+  const readSymbolizer = (el: Element): Symbolizer | null => {
+    if (child(el, 'Geometry'))
+      warn('Геометрия символизатора (Geometry) не поддерживается');
+    switch (el.localName) {
+      case 'PolygonSymbolizer':
+        return {
+          fill: child(el, 'Fill')
+            ? readFill(child(el, 'Fill'))
+            : { color: SLD_GRAY, opacity: 1 },
+          stroke: readStroke(child(el, 'Stroke')) ?? null,
+        };
+      case 'LineSymbolizer':
+        return {
+          stroke: readStroke(child(el, 'Stroke')) ?? {
+            color: '#000000',
+            width: 1,
+          },
+        };
+      case 'PointSymbolizer':
+        return { point: readPoint(el) };
+      case 'TextSymbolizer':
+        return { label: readLabel(el) };
+      case 'RasterSymbolizer':
+        warn('Растровые символизаторы пропущены');
+        return null;
+      default:
+        return null;
+    }
+  };
+
+  const readRule = (el: Element, index: number): StyleRule | null => {
+    const title =
+      childText(el, 'Title') ?? childText(child(el, 'Description'), 'Title');
+    const rule: StyleRule = { symbolizer: {} };
+    const name = childText(el, 'Name');
+    if (name) rule.name = name;
+    if (title) rule.title = title;
+    const minScale = numberOrUndefined(childText(el, 'MinScaleDenominator'));
+    const maxScale = numberOrUndefined(childText(el, 'MaxScaleDenominator'));
+    // крупнее масштаб — меньше знаменатель и больше уровень
+    if (maxScale !== undefined) rule.minZoom = scaleToZoom(maxScale);
+    if (minScale !== undefined && minScale > 0)
+      rule.maxZoom = scaleToZoom(minScale);
+    if (child(el, 'ElseFilter')) rule.else = true;
+    const filterEl = child(el, 'Filter');
+    if (filterEl) {
+      try {
+        const filter = parseFilterXml(filterEl, options);
+        if (filter) rule.filter = filter;
+      } catch (err) {
+        warn(
+          `Правило «${title ?? name ?? index + 1}» пропущено: ${
+            (err as Error).message
+          }`
+        );
+        return null;
+      }
+    }
+    Array.from(el.children).forEach((c) => {
+      const symbolizer = c.localName.endsWith('Symbolizer')
+        ? readSymbolizer(c)
+        : null;
+      if (symbolizer) rule.symbolizer = combine(rule.symbolizer, symbolizer);
+    });
+    return rule;
+  };
+
+  const readStyle = (el: Element, index: number): VectorStyle => {
+    const featureTypeStyles =
+      el.localName === 'FeatureTypeStyle'
+        ? [el]
+        : directChildren(el, 'FeatureTypeStyle');
+    const rules = featureTypeStyles
+      .flatMap((fts) => directChildren(fts, 'Rule'))
+      .map(readRule)
+      .filter((r): r is StyleRule => r !== null);
+    const title =
+      childText(el, 'Title') ?? childText(child(el, 'Description'), 'Title');
+    return {
+      name: childText(el, 'Name') ?? `style-${index + 1}`,
+      ...(title ? { title } : {}),
+      rules,
+    };
+  };
+
+  const root = xml.documentElement;
+  const styleElements =
+    root.localName === 'FeatureTypeStyle'
+      ? [root]
+      : Array.from(root.getElementsByTagName('*')).filter(
+          (el) => el.localName === 'UserStyle'
+        );
+  if (!styleElements.length)
+    throw new Error('В документе нет стилей UserStyle или FeatureTypeStyle');
+  return { styles: styleElements.map(readStyle), warnings };
+};
+
+/**
+ * Стили из текста файла: JSON со стилем (или списком стилей) либо SLD/SE
+ */
+export const parseStyleText = (
+  text: string,
+  options: GmlParseOptions = {}
+): StyleImportResult => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json: unknown = JSON.parse(trimmed);
+    const list = Array.isArray(json) ? json : [json];
+    return { styles: list.map(parseVectorStyle), warnings: [] };
+  }
+  return parseSld(text, options);
+};
+
+/**
+ * Загрузка стиля, опубликованного сервером: файл SLD или ответ WMS
+ * GetStyles, либо JSON
+ */
+export const fetchStyles = async (
+  url: string,
+  options: GmlParseOptions & { signal?: AbortSignal } = {}
+): Promise<StyleImportResult> => {
+  const { signal, ...parseOptions } = options;
+  const resp = await fetch(url, { signal });
+  if (!resp.ok) throw new Error(`Стиль не загружен: HTTP ${resp.status}`);
+  return parseStyleText(await resp.text(), parseOptions);
+};
@@ -0,0 +1,223 @@
+/**
+ * Пространственный индекс (R-дерево) объектов с геометрией GeoJSON в WGS84
+ * и точная проверка попадания клика
+ */
+import RBush from 'rbush';
+import { Coordinate } from './geometryUtils';
+
+type Position = number[];
+
+// допуск попадания в градусах по долготе и широте
+export interface IdentifyTolerance {
+  lng: number;
+  lat: number;
+}
+
+export interface IdentifyHit<T> {
+  item: T;
+  // расстояние в долях допуска; 0 — точка внутри полигона
+  distance: number;
+}
+
+interface IndexEntry<T> {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  item: T;
+  geometry: GeoJSON.Geometry;
+}
+
+const eachPosition = (
+  geometry: GeoJSON.Geometry,
+  fn: (p: Position) => void
+): void => {
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach((g) => eachPosition(g, fn));
+    return;
+  }
+  const visit = (coords: unknown): void => {
+    if (Array.isArray(coords) && typeof coords[0] === 'number')
+      fn(coords as Position);
+    else if (Array.isArray(coords)) coords.forEach(visit);
+  };
+  visit(geometry.coordinates);
+};
+
+/**
+ * Охват геометрии [minLng, minLat, maxLng, maxLat]; null для пустой
+ */
+export function geometryBounds(
+  geometry: GeoJSON.Geometry
+): [number, number, number, number] | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  eachPosition(geometry, (p) => {
+    if (p[0] < minX) minX = p[0];
+    if (p[1] < minY) minY = p[1];
+    if (p[0] > maxX) maxX = p[0];
+    if (p[1] > maxY) maxY = p[1];
+  });
+  return minX <= maxX ? [minX, minY, maxX, maxY] : null;
+}
+
+// расстояние от точки до отрезка; координаты уже нормированы на допуск
+const segmentDistance = (
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t =
+    len2 === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len2));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+const ringContains = (ring: Position[], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi)
+      inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Расстояние от точки до геометрии в долях допуска:
+ * для полигонов 0 — точка внутри (с учётом дырок)
+ */
+export function distanceToGeometry(
+  point: Coordinate,
+  geometry: GeoJSON.Geometry,
+  tolerance: IdentifyTolerance
+): number {
+  const px = point.lng / tolerance.lng;
+  const py = point.lat / tolerance.lat;
+  const nx = (p: Position) => p[0] / tolerance.lng;
+  const ny = (p: Position) => p[1] / tolerance.lat;
+
+  const toPoint = (p: Position) => Math.hypot(px - nx(p), py - ny(p));
+  const toLine = (line: Position[]) => {
+    if (line.length === 1) return toPoint(line[0]);
+    let min = Infinity;
+    for (let i = 1; i < line.length; i++) {
+      const d = segmentDistance(
+        px,
+        py,
+        nx(line[i - 1]),
+        ny(line[i - 1]),
+        nx(line[i]),
+        ny(line[i])
+      );
+      if (d < min) min = d;
+    }
+    return min;
+  };
+  const toPolygon = (rings: Position[][]) => {
+    if (!rings.length) return Infinity;
+    const inside =
+      ringContains(rings[0], point.lng, point.lat) &&
+      !rings.slice(1).some((hole) => ringContains(hole, point.lng, point.lat));
+    return inside ? 0 : Math.min(...rings.map(toLine));
+  };
+  const min = (values: number[]) =>
+    values.length ? Math.min(...values) : Infinity;
+
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates.length
+        ? toPoint(geometry.coordinates)
+        : Infinity;
+    case 'MultiPoint':
+      return min(geometry.coordinates.map(toPoint));
+    case 'LineString':
+      return geometry.coordinates.length
+        ? toLine(geometry.coordinates)
+        : Infinity;
+    case 'MultiLineString':
+      return min(geometry.coordinates.filter((l) => l.length).map(toLine));
+    case 'Polygon':
+      return toPolygon(geometry.coordinates);
+    case 'MultiPolygon':
+      return min(geometry.coordinates.map(toPolygon));
+    case 'GeometryCollection':
+      return min(
+        geometry.geometries.map((g) => distanceToGeometry(point, g, tolerance))
+      );
+  }
+}
+
+/**
+ * R-дерево объектов: поиск по охвату и определение объектов под курсором
+ */
+export class FeatureIndex<T> {
+  private tree = new RBush<IndexEntry<T>>();
+  private entries = new Map<T, IndexEntry<T>>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  insert(item: T, geometry: GeoJSON.Geometry | null | undefined): void {
+    this.remove(item);
+    const bounds = geometry ? geometryBounds(geometry) : null;
+    if (!geometry || !bounds) return;
+    const [minX, minY, maxX, maxY] = bounds;
+    const entry = { minX, minY, maxX, maxY, item, geometry };
+    this.entries.set(item, entry);
+    this.tree.insert(entry);
+  }
+
+  remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.tree.remove(entry);
+    this.entries.delete(item);
+  }
+
+  clear(): void {
+    this.tree.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Объекты, охват которых пересекает bbox [minLng, minLat, maxLng, maxLat]
+   */
+  search(bbox: [number, number, number, number]): T[] {
+    const [minX, minY, maxX, maxY] = bbox;
+    return this.tree.search({ minX, minY, maxX, maxY }).map((e) => e.item);
+  }
+
+  /**
+   * Объекты под точкой: сначала ближайшие, среди полигонов, содержащих
+   * точку, — меньшие по охвату (вложенные)
+   */
+  identify(point: Coordinate, tolerance: IdentifyTolerance): IdentifyHit<T>[] {
+    const candidates = this.tree.search({
+      minX: point.lng - tolerance.lng,
+      minY: point.lat - tolerance.lat,
+      maxX: point.lng + tolerance.lng,
+      maxY: point.lat + tolerance.lat,
+    });
+    const area = (e: IndexEntry<T>) => (e.maxX - e.minX) * (e.maxY - e.minY);
+    return candidates
+      .map((entry) => ({
+        entry,
+        distance: distanceToGeometry(point, entry.geometry, tolerance),
+      }))
+      .filter((hit) => hit.distance <= 1)
+      .sort((a, b) => a.distance - b.distance || area(a.entry) - area(b.entry))
+      .map(({ entry, distance }) => ({ item: entry.item, distance }));
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Измерение времени: разбор значений TIME из WMS capabilities (ISO 8601 —
+ * моменты, списки и интервалы с периодом), шаги шкалы времени и запись
+ * выбранного момента или интервала в параметр WMS TIME и условие WFS
+ */
+import { AttributeSchema, FeatureTypeSchema } from './featureSchema';
+import { FilterNode } from './ogcFilter';
+
+export interface IsoDuration {
+  years: number;
+  months: number;
+  days: number;
+  // часы, минуты и секунды в миллисекундах
+  millis: number;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+  // null — непрерывный интервал, допустимо любое значение внутри
+  period: IsoDuration | null;
+  // период как в capabilities, например 'P1D'
+  periodText: string | null;
+}
+
+export interface TimeExtent {
+  instants: Date[];
+  intervals: TimeInterval[];
+}
+
+export interface TimeSelection {
+  start: Date;
+  // для момента — начало следующего шага (не включительно)
+  end: Date;
+  instant: boolean;
+}
+
+// шаги шкалы при выборе периода пользователем
+export const TIME_PERIODS: { value: string; label: string }[] = [
+  { value: 'PT1H', label: 'Час' },
+  { value: 'P1D', label: 'День' },
+  { value: 'P7D', label: 'Неделя' },
+  { value: 'P1M', label: 'Месяц' },
+  { value: 'P1Y', label: 'Год' },
+];
+
+// предел числа шагов шкалы: слайдер и перебор при воспроизведении
+export const MAX_TIME_STEPS = 2000;
+
+const DURATION_RE =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Длительность ISO 8601 (P1D, PT30M, P1Y2M); null — не длительность или нулевая
+ */
+export const parseIsoDuration = (text: string): IsoDuration | null => {
+  const m = DURATION_RE.exec(text.trim());
+  if (!m || text.trim() === 'P' || text.trim().endsWith('T')) return null;
+  const n = (i: number) => Number(m[i] ?? 0);
+  const duration = {
+    years: n(1),
+    months: n(2),
+    days: n(3) * 7 + n(4),
+    millis: ((n(5) * 60 + n(6)) * 60 + n(7)) * 1000,
+  };
+  return duration.years || duration.months || duration.days || duration.millis
+    ? duration
+    : null;
+};
+
+/**
+ * Дата, сдвинутая на длительность; календарные части считаются в UTC
+ */
+export const addDuration = (date: Date, duration: IsoDuration, times = 1) => {
+  const d = new Date(date.getTime());
+  if (duration.years || duration.months) {
+    // 31 января + 1 месяц — последний день февраля, а не 2 марта
+    const day = d.getUTCDate();
+    d.setUTCDate(1);
+    d.setUTCMonth(
+      d.getUTCMonth() + (duration.years * 12 + duration.months) * times
+    );
+    const monthDays = new Date(
+      Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    d.setUTCDate(Math.min(day, monthDays));
+  }
+  if (duration.days) d.setUTCDate(d.getUTCDate() + duration.days * times);
+  return new Date(d.getTime() + duration.millis * times);
+};
+
+/**
+ * Значение времени ISO 8601; current/present — текущий момент
+ */
+export const parseTimeValue = (text: string): Date | null => {
+  const value = text.trim();
+  if (/^(current|present|now)$/i.test(value)) return new Date();
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+};
+
+/**
+ * Значения измерения TIME: '2020-01-01,2020-02-01',
+ * '2020-01-01/2020-12-31/P1D', их сочетания через запятую.
+ * Нераспознанные элементы пропускаются
+ */
+export const parseTimeExtent = (text: string): TimeExtent => {
+  const extent: TimeExtent = { instants: [], intervals: [] };
+  for (const item of text.split(',')) {
+    if (!item.trim()) continue;
+    const parts = item.split('/');
+    if (parts.length === 1) {
+      const instant = parseTimeValue(parts[0]);
+      if (instant) extent.instants.push(instant);
+      continue;
+    }
+    const start = parseTimeValue(parts[0]);
+    const end = parseTimeValue(parts[1]);
+    if (!start || !end || end < start) continue;
+    const periodText = parts[2]?.trim() || null;
+    const period = periodText ? parseIsoDuration(periodText) : null;
+    extent.intervals.push({
+      start,
+      end,
+      period,
+      periodText: period ? periodText : null,
+    });
+  }
+  return extent;
+};
+
+/**
+ * Первый и последний моменты измерения; null — значений нет
+ */
+export const timeExtentRange = (extents: TimeExtent[]): [Date, Date] | null => {
+  const times = extents.flatMap((e) => [
+    ...e.instants.map((d) => d.getTime()),
+    ...e.intervals.flatMap((i) => [i.start.getTime(), i.end.getTime()]),
+  ]);
+  if (!times.length) return null;
+  return [new Date(Math.min(...times)), new Date(Math.max(...times))];
+};
+
+/**
+ * Шаги от start до end включительно с периодом, не больше limit
+ */
+export const timeSteps = (
+  start: Date,
+  end: Date,
+  period: IsoDuration,
+  limit = MAX_TIME_STEPS
+): Date[] => {
+  const steps: Date[] = [];
+  // шаги отсчитываются от начала, а не от предыдущего: 31 января + 1 месяц
+  // не должно сдвигать следующие шаги на 28-е
+  for (let i = 0; steps.length < limit; i++) {
+    const step = addDuration(start, period, i);
+    if (step > end) break;
+    steps.push(step);
+  }
+  return steps;
+};
+
+/**
+ * Допустимые значения измерения как упорядоченный список моментов.
+ * Непрерывные интервалы дают только свои границы
+ */
+export const discreteTimeValues = (
+  extents: TimeExtent[],
+  limit = MAX_TIME_STEPS
+): Date[] => {
+  const times = new Set<number>();
+  for (const extent of extents) {
+    extent.instants.forEach((d) => times.add(d.getTime()));
+    for (const interval of extent.intervals) {
+      const steps = interval.period
+        ? timeSteps(interval.start, interval.end, interval.period, limit)
+        : [interval.start, interval.end];
+      steps.forEach((d) => times.add(d.getTime()));
+    }
+  }
+  return Array.from(times)
+    .sort((a, b) => a - b)
+    .slice(0, limit)
+    .map((t) => new Date(t));
+};
+
+/**
+ * Период первого интервала с шагом — шаг шкалы по умолчанию
+ */
+export const extentPeriod = (extents: TimeExtent[]): string | null =>
+  extents.flatMap((e) => e.intervals).find((i) => i.periodText !== null)
+    ?.periodText ?? null;
+
+/**
+ * Значение параметра WMS TIME: момент или интервал start/end
+ */
+export const wmsTimeParam = (selection: TimeSelection) =>
+  selection.instant
+    ? selection.start.toISOString()
+    : `${selection.start.toISOString()}/${selection.end.toISOString()}`;
+
+/**
+ * Атрибуты типа WFS с датой или датой и временем
+ */
+export const temporalAttributes = (
+  schema: FeatureTypeSchema | null
+): AttributeSchema[] =>
+  (schema?.attributes ?? []).filter(
+    (a) => a.type === 'date' || a.type === 'dateTime'
+  );
+
+// литерал сравнения: для xsd:date без времени
+const timeLiteral = (date: Date, attribute: AttributeSchema) =>
+  attribute.type === 'date'
+    ? date.toISOString().slice(0, 10)
+    : date.toISOString();
+
+/**
+ * Условие WFS по атрибуту времени. Момент — полуоткрытый интервал шага
+ * [start, end): точное совпадение с отметками журналов почти не встречается
+ */
+export const wfsTimeFilter = (
+  attribute: AttributeSchema,
+  selection: TimeSelection
+): FilterNode => ({
+  type: 'logical',
+  op: 'and',
+  filters: [
+    {
+      type: 'comparison',
+      op: 'ge',
+      property: attribute.name,
+      value: timeLiteral(selection.start, attribute),
+    },
+    {
+      type: 'comparison',
+      op: selection.instant ? 'lt' : 'le',
+      property: attribute.name,
+      value: timeLiteral(selection.end, attribute),
+    },
+  ],
+});
+
+/**
+ * Подпись момента шкалы в UTC; время не показывается у полуночи
+ */
+export const formatTimeLabel = (date: Date) => {
+  const midnight =
+    date.getUTCHours() === 0 &&
+    date.getUTCMinutes() === 0 &&
+    date.getUTCSeconds() === 0;
+  return date.toLocaleString('ru-RU', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    ...(midnight ? {} : { hour: '2-digit', minute: '2-digit' }),
+  });
+};
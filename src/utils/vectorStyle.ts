@@ -0,0 +1,585 @@
+/**
+ * Декларативный стиль векторного слоя, сериализуемый в JSON: правила по
+ * условиям на атрибуты и диапазонам масштаба, классификация по значениям
+ * атрибута с цветовыми шкалами, значки точек, подписи и легенда
+ */
+import { FilterNode, matchesFilter } from './ogcFilter';
+
+export type MarkerShape =
+  | 'circle'
+  | 'square'
+  | 'triangle'
+  | 'diamond'
+  | 'star'
+  | 'cross'
+  | 'x';
+
+export interface StrokeStyle {
+  color: string;
+  // толщина в пикселях
+  width?: number;
+  opacity?: number;
+  // штрих в формате SVG stroke-dasharray, например '4 2'
+  dashArray?: string;
+}
+
+export interface FillStyle {
+  color: string;
+  opacity?: number;
+}
+
+export interface PointSymbol {
+  shape: MarkerShape;
+  // размер значка в пикселях
+  size: number;
+  // null — без заливки или обводки
+  fill?: FillStyle | null;
+  stroke?: StrokeStyle | null;
+  // поворот в градусах по часовой стрелке
+  rotation?: number;
+}
+
+export interface LabelStyle {
+  // атрибут с текстом подписи
+  property: string;
+  color?: string;
+  // кегль в пикселях
+  size?: number;
+  // цвет ореола; null — без ореола
+  haloColor?: string | null;
+  // смещение от точки привязки в пикселях
+  offset?: [number, number];
+}
+
+/**
+ * Оформление объекта; у отсутствующего ключа значение наследуется от
+ * предыдущих подходящих правил, null — явное отключение
+ */
+export interface Symbolizer {
+  stroke?: StrokeStyle | null;
+  fill?: FillStyle | null;
+  point?: PointSymbol | null;
+  label?: LabelStyle | null;
+}
+
+export interface StyleRule {
+  name?: string;
+  // подпись в легенде
+  title?: string;
+  // без условия правило применяется ко всем объектам
+  filter?: FilterNode;
+  // правило для объектов, не подошедших ни под одно другое правило
+  else?: boolean;
+  // диапазон масштабов карты: minZoom <= zoom < maxZoom
+  minZoom?: number;
+  maxZoom?: number;
+  symbolizer: Symbolizer;
+}
+
+export type ClassificationMethod =
+  | 'equalInterval'
+  | 'quantile'
+  | 'naturalBreaks';
+
+// название встроенной шкалы или цвета опорных точек
+export type ColorRamp = string | string[];
+
+export interface GraduatedClassification {
+  type: 'graduated';
+  property: string;
+  method: ClassificationMethod;
+  classes: number;
+  ramp: ColorRamp;
+}
+
+export interface CategorizedClassification {
+  type: 'categorized';
+  property: string;
+  ramp: ColorRamp;
+  // остальные значения попадают в правило «Прочие»
+  maxCategories?: number;
+}
+
+export type Classification =
+  | GraduatedClassification
+  | CategorizedClassification;
+
+export interface VectorStyle {
+  name: string;
+  title?: string;
+  rules: StyleRule[];
+  // как получены правила: по ней их можно пересчитать для новых данных
+  classification?: Classification;
+  // оформление, к которому классификация добавляет цвета классов
+  base?: Symbolizer;
+}
+
+export type GeometryKind = 'point' | 'line' | 'polygon';
+
+export interface LegendItem {
+  label: string;
+  kind: GeometryKind;
+  symbolizer: Symbolizer;
+  // правило не действует на текущем масштабе
+  inactive: boolean;
+}
+
+const DEFAULT_COLOR = '#ff7800';
+
+export const DEFAULT_SYMBOLIZER: Symbolizer = {
+  stroke: { color: DEFAULT_COLOR, width: 2, opacity: 0.9 },
+  fill: { color: DEFAULT_COLOR, opacity: 0.2 },
+  point: {
+    shape: 'circle',
+    size: 12,
+    fill: { color: DEFAULT_COLOR, opacity: 0.2 },
+    stroke: { color: DEFAULT_COLOR, width: 2, opacity: 0.9 },
+  },
+};
+
+export const DEFAULT_VECTOR_STYLE: VectorStyle = {
+  name: 'default',
+  title: 'По умолчанию',
+  rules: [{ title: 'Объекты', symbolizer: DEFAULT_SYMBOLIZER }],
+};
+
+// встроенные цветовые шкалы (ColorBrewer, viridis)
+export const COLOR_RAMPS: Record<string, string[]> = {
+  reds: ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'],
+  blues: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'],
+  greens: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'],
+  oranges: ['#feedde', '#fdbe85', '#fd8d3c', '#e6550d', '#a63603'],
+  purples: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'],
+  ylOrRd: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'],
+  rdYlGn: ['#d7191c', '#fdae61', '#ffffbf', '#a6d96a', '#1a9641'],
+  spectral: ['#d7191c', '#fdae61', '#ffffbf', '#abdda4', '#2b83ba'],
+  viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  // качественная шкала для категорий
+  set1: [
+    '#e41a1c',
+    '#377eb8',
+    '#4daf4a',
+    '#984ea3',
+    '#ff7f00',
+    '#ffff33',
+    '#a65628',
+    '#f781bf',
+    '#999999',
+  ],
+};
+
+export const COLOR_RAMP_LABELS: Record<string, string> = {
+  reds: 'Красные',
+  blues: 'Синие',
+  greens: 'Зелёные',
+  oranges: 'Оранжевые',
+  purples: 'Фиолетовые',
+  ylOrRd: 'Жёлто-красные',
+  rdYlGn: 'Красно-зелёные',
+  spectral: 'Спектр',
+  viridis: 'Viridis',
+  set1: 'Контрастные',
+};
+
+// категорий по умолчанию: дальше легенда перестаёт читаться
+const MAX_CATEGORIES = 12;
+// natural breaks квадратичен по числу значений — берём равномерную выборку
+const JENKS_SAMPLE = 1000;
+// знаменатель масштаба на уровне 0 при тайлах 256 пикселей и пикселе 0,28 мм
+const ZOOM0_SCALE_DENOMINATOR = 559082264.0287178;
+
+const parseHex = (color: string): [number, number, number] | null => {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!m) return null;
+  const hex =
+    m[1].length === 3
+      ? m[1]
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : m[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [
+    number,
+    number,
+    number
+  ];
+};
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * n цветов шкалы: опорные точки интерполируются в RGB; у качественной
+ * шкалы (set1) цвета берутся по порядку
+ */
+export function rampColors(ramp: ColorRamp, n: number): string[] {
+  const stops = typeof ramp === 'string' ? COLOR_RAMPS[ramp] : ramp;
+  if (!stops?.length || n <= 0) return [];
+  if (ramp === 'set1')
+    return Array.from({ length: n }, (_, i) => stops[i % stops.length]);
+  if (n === 1 || stops.length === 1) return Array(n).fill(stops[0]);
+  const rgb = stops.map(parseHex);
+  return Array.from({ length: n }, (_, i) => {
+    const t = (i / (n - 1)) * (stops.length - 1);
+    const k = Math.min(Math.floor(t), stops.length - 2);
+    const a = rgb[k];
+    const b = rgb[k + 1];
+    if (!a || !b) return stops[Math.round(t)];
+    const f = t - k;
+    return toHex(a.map((v, j) => v + (b[j] - v) * f));
+  });
+}
+
+// естественные границы Дженкса: минимум дисперсии внутри классов
+const jenksBreaks = (sorted: number[], classes: number): number[] => {
+  const n = sorted.length;
+  const lower = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classes + 1).fill(0)
+  );
+  const variance = Array.from({ length: n + 1 }, () =>
+    new Array<number>(classes + 1).fill(Infinity)
+  );
+  for (let j = 1; j <= classes; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSq = 0;
+    let w = 0;
+    let v = 0;
+    for (let m = 1; m <= l; m++) {
+      const i = l - m + 1;
+      const value = sorted[i - 1];
+      w++;
+      sum += value;
+      sumSq += value * value;
+      v = sumSq - (sum * sum) / w;
+      if (i === 1) continue;
+      for (let j = 2; j <= classes; j++) {
+        const candidate = v + variance[i - 1][j - 1];
+        if (variance[l][j] >= candidate) {
+          lower[l][j] = i;
+          variance[l][j] = candidate;
+        }
+      }
+    }
+    lower[l][1] = 1;
+    variance[l][1] = v;
+  }
+  const breaks = new Array<number>(classes + 1);
+  breaks[classes] = sorted[n - 1];
+  breaks[0] = sorted[0];
+  let k = n;
+  for (let j = classes; j >= 2; j--) {
+    const idx = lower[k][j] - 2;
+    breaks[j - 1] = sorted[Math.max(idx, 0)];
+    k = lower[k][j] - 1;
+  }
+  return breaks;
+};
+
+/**
+ * Границы классов (classes + 1 значение, по возрастанию, без повторов);
+ * при малом разбросе значений классов может получиться меньше
+ */
+export function classBreaks(
+  values: number[],
+  method: ClassificationMethod,
+  classes: number
+): number[] {
+  const sorted = values.filter((v) => isFinite(v)).sort((a, b) => a - b);
+  if (!sorted.length) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const count = Math.max(1, Math.min(classes, sorted.length));
+  if (min === max) return [min, max];
+  let breaks: number[];
+  switch (method) {
+    case 'equalInterval':
+      breaks = Array.from(
+        { length: count + 1 },
+        (_, i) => min + ((max - min) * i) / count
+      );
+      break;
+    case 'quantile':
+      breaks = Array.from({ length: count + 1 }, (_, i) => {
+        const pos = ((sorted.length - 1) * i) / count;
+        const lo = Math.floor(pos);
+        const hi = Math.ceil(pos);
+        return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+      });
+      break;
+    case 'naturalBreaks': {
+      const sample =
+        sorted.length > JENKS_SAMPLE
+          ? Array.from(
+              { length: JENKS_SAMPLE },
+              (_, i) =>
+                sorted[
+                  Math.round((i * (sorted.length - 1)) / (JENKS_SAMPLE - 1))
+                ]
+            )
+          : sorted;
+      breaks = jenksBreaks(sample, Math.min(count, sample.length));
+      breaks[0] = min;
+      breaks[breaks.length - 1] = max;
+      break;
+    }
+  }
+  return breaks.filter((b, i) => i === 0 || b > breaks[i - 1]);
+}
+
+/**
+ * Преобладающий тип геометрии объектов
+ */
+export function dominantGeometryKind(
+  features: GeoJSON.Feature[]
+): GeometryKind {
+  const counts: Record<GeometryKind, number> = {
+    point: 0,
+    line: 0,
+    polygon: 0,
+  };
+  features.forEach((f) => {
+    const type = f.geometry?.type ?? '';
+    if (type.endsWith('Point')) counts.point++;
+    else if (type.endsWith('LineString')) counts.line++;
+    else if (type.endsWith('Polygon')) counts.polygon++;
+  });
+  return (Object.keys(counts) as GeometryKind[]).reduce((a, b) =>
+    counts[b] > counts[a] ? b : a
+  );
+}
+
+// цвет класса: заливка полигонов и значков, для линий — обводка
+const classSymbolizer = (
+  base: Symbolizer,
+  color: string,
+  kind: GeometryKind
+): Symbolizer => {
+  const stroke = base.stroke ?? DEFAULT_SYMBOLIZER.stroke!;
+  const fill = base.fill ?? DEFAULT_SYMBOLIZER.fill!;
+  const point = base.point ?? DEFAULT_SYMBOLIZER.point!;
+  return {
+    ...base,
+    stroke: kind === 'line' ? { ...stroke, color } : stroke,
+    fill: { ...fill, color, opacity: Math.max(fill.opacity ?? 0.2, 0.6) },
+    point: {
+      ...point,
+      fill: { ...(point.fill ?? fill), color, opacity: 0.9 },
+    },
+  };
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value)
+    ? String(value)
+    : value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// объекты без значения (или с нечисловым для интервалов) не должны
+// пропадать с карты — их рисует правило else с базовым оформлением
+const noValueRule = (base: Symbolizer): StyleRule => ({
+  name: 'no-value',
+  title: 'Нет значения',
+  else: true,
+  symbolizer: base,
+});
+
+/**
+ * Правила стиля по классификации значений атрибута у объектов; последнее
+ * правило — else для объектов, не попавших ни в один класс
+ */
+export function classifyRules(
+  classification: Classification,
+  features: GeoJSON.Feature[],
+  base: Symbolizer = DEFAULT_SYMBOLIZER
+): StyleRule[] {
+  const { property } = classification;
+  const kind = dominantGeometryKind(features);
+  const values = features
+    .map((f) => f.properties?.[property])
+    .filter((v) => v !== null && v !== undefined && v !== '');
+
+  if (classification.type === 'graduated') {
+    const breaks = classBreaks(
+      values.map(Number),
+      classification.method,
+      classification.classes
+    );
+    if (breaks.length < 2) return [noValueRule(base)];
+    const colors = rampColors(classification.ramp, breaks.length - 1);
+    const rules = colors.map((color, i): StyleRule => {
+      const lower = breaks[i];
+      const upper = breaks[i + 1];
+      // классы (lower, upper], первый включает минимум
+      const filter: FilterNode =
+        i === 0
+          ? { type: 'comparison', op: 'between', property, value: lower, upper }
+          : {
+              type: 'logical',
+              op: 'and',
+              filters: [
+                { type: 'comparison', op: 'gt', property, value: lower },
+                { type: 'comparison', op: 'le', property, value: upper },
+              ],
+            };
+      return {
+        name: `class-${i + 1}`,
+        title: `${formatNumber(lower)} – ${formatNumber(upper)}`,
+        filter,
+        symbolizer: classSymbolizer(base, color, kind),
+      };
+    });
+    return [...rules, noValueRule(base)];
+  }
+
+  // категории — по убыванию частоты
+  const frequency = new Map<string, number>();
+  values.forEach((v) =>
+    frequency.set(String(v), (frequency.get(String(v)) ?? 0) + 1)
+  );
+  const limit = classification.maxCategories ?? MAX_CATEGORIES;
+  const categories = Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value]) => value)
+    .sort((a, b) => a.localeCompare(b, 'ru', { numeric: true }));
+  const colors = rampColors(classification.ramp, categories.length);
+  const rules: StyleRule[] = categories.map((value, i) => ({
+    name: `category-${i + 1}`,
+    title: value,
+    filter: { type: 'comparison', op: 'eq', property, value },
+    symbolizer: classSymbolizer(base, colors[i], kind),
+  }));
+  // «Прочие» включают и объекты без значения
+  rules.push(
+    frequency.size > categories.length
+      ? { name: 'other', title: 'Прочие', else: true, symbolizer: base }
+      : noValueRule(base)
+  );
+  return rules;
+}
+
+/**
+ * Стиль по классификации: правила пересчитываются для переданных объектов
+ */
+export function classifyStyle(
+  style: VectorStyle,
+  features: GeoJSON.Feature[]
+): VectorStyle {
+  if (!style.classification) return style;
+  return {
+    ...style,
+    rules: classifyRules(style.classification, features, style.base),
+  };
+}
+
+// знаменатель масштаба SLD в уровень масштаба карты
+export const scaleToZoom = (scaleDenominator: number) =>
+  Math.log2(ZOOM0_SCALE_DENOMINATOR / scaleDenominator);
+
+export const zoomToScale = (zoom: number) =>
+  ZOOM0_SCALE_DENOMINATOR / 2 ** zoom;
+
+const inZoomRange = (rule: StyleRule, zoom: number) =>
+  (rule.minZoom === undefined || zoom >= rule.minZoom) &&
+  (rule.maxZoom === undefined || zoom < rule.maxZoom);
+
+// в стиле есть правила, зависящие от масштаба
+export const styleDependsOnZoom = (style: VectorStyle) =>
+  style.rules.some(
+    (rule) => rule.minZoom !== undefined || rule.maxZoom !== undefined
+  );
+
+const mergeSymbolizers = (a: Symbolizer, b: Symbolizer): Symbolizer => {
+  const merged = { ...a };
+  (Object.keys(b) as (keyof Symbolizer)[]).forEach((key) => {
+    if (b[key] !== undefined) Object.assign(merged, { [key]: b[key] });
+  });
+  return merged;
+};
+
+/**
+ * Оформление объекта на масштабе zoom: подходят все правила с выполненным
+ * условием (позднее перекрывает раннее), при отсутствии таких — правила
+ * else; null — объект не отображается
+ */
+export function resolveSymbolizer(
+  style: VectorStyle,
+  feature: GeoJSON.Feature,
+  zoom: number
+): Symbolizer | null {
+  const active = style.rules.filter((rule) => inZoomRange(rule, zoom));
+  let matched = active.filter(
+    (rule) =>
+      !rule.else && (!rule.filter || matchesFilter(rule.filter, feature))
+  );
+  if (!matched.length) matched = active.filter((rule) => rule.else);
+  if (!matched.length) return null;
+  return matched.reduce<Symbolizer>(
+    (acc, rule) => mergeSymbolizers(acc, rule.symbolizer),
+    {}
+  );
+}
+
+const symbolizerKind = (symbolizer: Symbolizer): GeometryKind =>
+  symbolizer.point && !symbolizer.fill && !symbolizer.stroke
+    ? 'point'
+    : symbolizer.fill
+    ? 'polygon'
+    : symbolizer.stroke
+    ? 'line'
+    : 'point';
+
+/**
+ * Легенда стиля: по элементу на правило; kind — тип геометрии для образца,
+ * по умолчанию определяется по оформлению правила
+ */
+export function buildLegend(
+  style: VectorStyle,
+  zoom?: number,
+  kind?: GeometryKind
+): LegendItem[] {
+  return style.rules
+    .filter(
+      (rule) =>
+        rule.symbolizer.stroke || rule.symbolizer.fill || rule.symbolizer.point
+    )
+    .map((rule, i) => ({
+      label:
+        rule.title || rule.name || (rule.else ? 'Прочие' : `Правило ${i + 1}`),
+      kind: kind ?? symbolizerKind(rule.symbolizer),
+      symbolizer: rule.symbolizer,
+      inactive: zoom !== undefined && !inZoomRange(rule, zoom),
+    }));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Стиль из JSON с проверкой обязательных полей
+ */
+export function parseVectorStyle(json: unknown): VectorStyle {
+  if (!isObject(json)) throw new Error('Стиль должен быть объектом JSON');
+  if (!Array.isArray(json.rules))
+    throw new Error('В стиле нет списка правил rules');
+  json.rules.forEach((rule, i) => {
+    if (!isObject(rule) || !isObject(rule.symbolizer))
+      throw new Error(`Правило ${i + 1}: нет оформления symbolizer`);
+  });
+  if (
+    json.classification !== undefined &&
+    (!isObject(json.classification) ||
+      !['graduated', 'categorized'].includes(
+        String(json.classification.type)
+      ) ||
+      typeof json.classification.property !== 'string')
+  )
+    throw new Error('Неверное описание классификации');
+  return {
+    ...(json as unknown as VectorStyle),
+    name: typeof json.name === 'string' ? json.name : 'style',
+  };
+}
@@ -1,230 +1,313 @@
-export const parseWfsXmlToGeoJson = (
-  xmlText: string
-): GeoJSON.FeatureCollection | null => {
-  if (!xmlText) return null;
-  const parser = new DOMParser();
-  const xml = parser.parseFromString(xmlText, 'application/xml');
-
-  const findAll = (names: string[], context: Document | Element = xml) => {
-    for (const n of names) {
-      const els = Array.from(
-        (context as Document).getElementsByTagName(
-          n
-        ) as HTMLCollectionOf<Element>
-      );
-      if (els.length) return els;
-    }
-    return [] as Element[];
-  };
+import {
+  parseGmlGeometry,
+  containsGmlGeometry,
+  isGmlGeometryName,
+} from './gmlGeometry';
+import { XmlElement, XmlStreamReader } from './gmlStream';
+import {
+  FeatureTypeSchema,
+  convertAttributeValue,
+  getAttributeSchema,
+} from './featureSchema';
+
+export interface WfsParseOptions {
+  // srsName из запроса; используется, если в ответе он не указан
+  srsName?: string;
+  // схема DescribeFeatureType: значения приводятся к объявленным типам
+  schema?: FeatureTypeSchema | null;
+}
 
-  // find members
-  let members = findAll([
-    'featureMember',
-    'gml:featureMember',
-    'member',
-    'gml:member',
-  ]);
-  if (members.length === 0) {
-    const fm = xml.getElementsByTagName('featureMembers');
-    if (fm && fm.length > 0 && fm[0].children.length > 0)
-      members = Array.from(fm[0].children);
+// обёртки объектов в FeatureCollection разных версий
+const MEMBER_NAMES = ['featureMember', 'member'];
+// служебные элементы коллекции, не являющиеся объектами
+const COLLECTION_NAMES = [
+  'boundedBy',
+  'featureMember',
+  'member',
+  'featureMembers',
+  'additionalObjects',
+  'truncatedResponse',
+];
+
+const isExceptionRoot = (el: XmlElement) =>
+  /ExceptionReport$/.test(el.localName);
+
+// srsName охвата (boundedBy) — система координат ответа по умолчанию
+const findEnvelopeSrsName = (el: XmlElement): string | null => {
+  if (['Envelope', 'Box'].includes(el.localName))
+    return el.getAttribute('srsName');
+  for (const child of el.children) {
+    const srsName = findEnvelopeSrsName(child);
+    if (srsName) return srsName;
   }
-  if (members.length === 0) {
-    members = Array.from(xml.documentElement.children).filter((el) => {
-      const ln = (el.localName || '').toLowerCase();
-      return ![
-        'boundedby',
-        'featurecollection',
-        'wfs:featurecollection',
-        'gml:featurecollection',
-      ].includes(ln);
-    });
+  return null;
+};
+
+// идентификатор объекта: gml:id (GML 3) или fid (GML 2)
+const readFeatureId = (el: XmlElement) => {
+  const attr = el.attributes.find(
+    (a) => a.localName === 'id' || a.localName === 'fid'
+  );
+  return attr?.value || null;
+};
+
+/**
+ * Объект GML: дочерние элементы — атрибуты, первое свойство с геометрией —
+ * геометрия объекта
+ */
+export const parseFeatureElement = (
+  el: XmlElement,
+  srsName: string | undefined,
+  schema: FeatureTypeSchema | null | undefined
+): GeoJSON.Feature => {
+  const props: Record<string, unknown> = {};
+  let geometry: GeoJSON.Geometry | null = null;
+  for (const child of el.children) {
+    const ln = child.localName;
+    if (['boundedBy', 'envelope'].includes(ln)) continue;
+    // свойство с геометрией: первое из них становится геометрией объекта
+    if (isGmlGeometryName(ln) || containsGmlGeometry(child)) {
+      if (!geometry) geometry = parseGmlGeometry(child, { srsName });
+      continue;
+    }
+    const attr = getAttributeSchema(schema, ln);
+    props[ln] = attr
+      ? convertAttributeValue(child.textContent, attr.type)
+      : child.textContent.trim();
   }
 
-  const parsePosList = (text: string) => {
-    const nums = text
-      .trim()
-      .split(/\s+/)
-      .map(Number)
-      .filter((n) => !isNaN(n));
-    const coords: number[][] = [];
-    for (let i = 0; i < nums.length - 1; i += 2)
-      coords.push([nums[i], nums[i + 1]]);
-    return coords;
-  };
-  const parsePos = (text: string) => {
-    const nums = text.trim().split(/\s+/).map(Number);
-    return nums.length >= 2 ? [nums[0], nums[1]] : null;
+  const id = readFeatureId(el);
+  return {
+    type: 'Feature',
+    ...(id ? { id } : {}),
+    properties: props,
+    // объект без геометрии: в GeoJSON допускается null
+    geometry: geometry as GeoJSON.Geometry,
   };
+};
 
-  const parseGeometryFromElement = (el: Element | null) => {
-    if (!el) return null;
-
-    // Point
-    const pointEl =
-      el.getElementsByTagName('Point')[0] ||
-      el.getElementsByTagName('gml:Point')[0];
-    if (pointEl) {
-      const pos =
-        pointEl.getElementsByTagName('pos')[0] ||
-        pointEl.getElementsByTagName('gml:pos')[0];
-      const coordsText =
-        pos?.textContent ||
-        pointEl.getElementsByTagName('coordinates')[0]?.textContent;
-      if (coordsText) {
-        const p = parsePos(coordsText);
-        if (p) return { type: 'Point', coordinates: p } as GeoJSON.Point;
-      }
+const exceptionMessage = (root: XmlElement) => {
+  const messages: string[] = [];
+  const visit = (el: XmlElement) => {
+    if (['ExceptionText', 'ServiceException'].includes(el.localName)) {
+      const text = el.textContent.trim();
+      if (text) messages.push(text);
     }
+    el.children.forEach(visit);
+  };
+  visit(root);
+  return messages.join('; ') || 'unknown error';
+};
 
-    // LineString
-    const lineEl =
-      el.getElementsByTagName('LineString')[0] ||
-      el.getElementsByTagName('gml:LineString')[0];
-    if (lineEl) {
-      const posList =
-        lineEl.getElementsByTagName('posList')[0] ||
-        lineEl.getElementsByTagName('gml:posList')[0];
-      const coordsText =
-        posList?.textContent ||
-        lineEl.getElementsByTagName('coordinates')[0]?.textContent;
-      if (coordsText) {
-        if (posList && posList.textContent) {
-          const coords = parsePosList(posList.textContent);
-          return {
-            type: 'LineString',
-            coordinates: coords,
-          } as GeoJSON.LineString;
-        } else {
-          const pairs = coordsText
-            .trim()
-            .split(/\s+/)
-            .map((s) => s.split(',').map(Number));
-          return {
-            type: 'LineString',
-            coordinates: pairs as number[][],
-          } as GeoJSON.LineString;
-        }
-      }
-    }
+export interface WfsFeatureStream {
+  write(chunk: string): void;
+  // конец документа: оставшиеся объекты и счётчики коллекции
+  end(): WfsCollectionCounts;
+}
 
-    // Polygon
-    const polyEl =
-      el.getElementsByTagName('Polygon')[0] ||
-      el.getElementsByTagName('gml:Polygon')[0];
-    if (polyEl) {
-      const exterior =
-        polyEl.getElementsByTagName('exterior')[0] ||
-        polyEl.getElementsByTagName('gml:exterior')[0];
-      let ringCoords: number[][] = [];
-      if (exterior) {
-        const linearRing =
-          exterior.getElementsByTagName('LinearRing')[0] ||
-          exterior.getElementsByTagName('gml:LinearRing')[0];
-        const posList =
-          linearRing?.getElementsByTagName('posList')[0] ||
-          linearRing?.getElementsByTagName('gml:posList')[0];
-        const coordsText =
-          posList?.textContent ||
-          linearRing?.getElementsByTagName('coordinates')[0]?.textContent;
-        if (coordsText) ringCoords = parsePosList(coordsText);
-      } else {
-        const posList =
-          polyEl.getElementsByTagName('posList')[0] ||
-          polyEl.getElementsByTagName('gml:posList')[0];
-        if (posList && posList.textContent)
-          ringCoords = parsePosList(posList.textContent);
-      }
-      if (ringCoords.length)
-        return {
-          type: 'Polygon',
-          coordinates: [ringCoords],
-        } as GeoJSON.Polygon;
-    }
+/**
+ * Потоковый разбор ответа GetFeature: объекты передаются в onFeatures
+ * порциями по batchSize по мере чтения. Документ ExceptionReport
+ * превращается в ошибку при завершении
+ */
+export const createWfsFeatureStream = (
+  options: WfsParseOptions,
+  onFeatures: (features: GeoJSON.Feature[]) => void,
+  batchSize = 200
+): WfsFeatureStream => {
+  let root: XmlElement | null = null;
+  let exception: string | null = null;
+  let documentSrsName: string | null = null;
+  let pending: GeoJSON.Feature[] = [];
 
-    const anyPosList =
-      el.getElementsByTagName('posList')[0] ||
-      el.getElementsByTagName('gml:posList')[0];
-    if (anyPosList && anyPosList.textContent) {
-      const coords = parsePosList(anyPosList.textContent);
-      if (coords.length === 1)
-        return { type: 'Point', coordinates: coords[0] } as GeoJSON.Point;
-      return { type: 'LineString', coordinates: coords } as GeoJSON.LineString;
-    }
+  const flush = () => {
+    if (!pending.length) return;
+    const batch = pending;
+    pending = [];
+    onFeatures(batch);
+  };
 
-    return null;
+  const reader = new XmlStreamReader({
+    capture: (el, ancestors) => {
+      if (!ancestors.length) {
+        root = el;
+        // отчёт об ошибке невелик — собираем целиком
+        return isExceptionRoot(el);
+      }
+      if (!documentSrsName && ['Envelope', 'Box'].includes(el.localName))
+        documentSrsName = el.getAttribute('srsName');
+      const parent = ancestors[ancestors.length - 1].localName;
+      if (MEMBER_NAMES.includes(parent) || parent === 'featureMembers')
+        return true;
+      // объекты прямо в корне коллекции, без обёрток
+      return ancestors.length === 1 && !COLLECTION_NAMES.includes(el.localName);
+    },
+    onElement: (el, ancestors) => {
+      if (!ancestors.length) {
+        exception = exceptionMessage(el);
+        return;
+      }
+      documentSrsName = documentSrsName ?? findEnvelopeSrsName(el);
+      pending.push(
+        parseFeatureElement(
+          el,
+          documentSrsName ?? options.srsName,
+          options.schema
+        )
+      );
+      if (pending.length >= batchSize) flush();
+    },
+  });
+
+  return {
+    write: (chunk) => reader.write(chunk),
+    end: () => {
+      reader.end();
+      if (exception) throw new Error(`WFS exception: ${exception}`);
+      flush();
+      const attrs = (root as XmlElement | null)?.attributes ?? [];
+      return countsFromAttributes(
+        (name) => attrs.find((a) => a.localName === name)?.value ?? null
+      );
+    },
   };
+};
 
+export const parseWfsXmlToGeoJson = (
+  xmlText: string,
+  options: WfsParseOptions = {}
+): GeoJSON.FeatureCollection | null => {
+  if (!xmlText) return null;
   const features: GeoJSON.Feature[] = [];
-  for (const member of members) {
-    const memberEl = member as Element;
-    const actualFeatureEl =
-      (Array.from(memberEl.children).find((c) => {
-        const ln = (c.localName || '').toLowerCase();
-        return !['boundedby', 'the_geom', 'geometry', 'envelope'].includes(ln);
-      }) as Element) ||
-      (memberEl.firstElementChild as Element | null) ||
-      memberEl;
-
-    if (!actualFeatureEl) continue;
-
-    const props: Record<string, any> = {};
-    for (const child of Array.from(actualFeatureEl.children)) {
-      const ln = (child.localName || '').toLowerCase();
-      const skip = [
-        'point',
-        'linestring',
-        'polygon',
-        'pos',
-        'poslist',
-        'the_geom',
-        'geometry',
-        'coordinates',
-        'linearring',
-        'boundedby',
-        'envelope',
-      ].includes(ln);
-      const childHasGeom =
-        child.getElementsByTagName('posList').length ||
-        child.getElementsByTagName('pos').length ||
-        child.getElementsByTagName('Point').length ||
-        child.getElementsByTagName('LineString').length ||
-        child.getElementsByTagName('Polygon').length;
-      if (skip || childHasGeom) continue;
-      const key = child.localName || child.nodeName;
-      props[key] = (child.textContent || '').trim();
-    }
+  const stream = createWfsFeatureStream(options, (batch) =>
+    features.push(...batch)
+  );
+  stream.write(xmlText);
+  stream.end();
+  return { type: 'FeatureCollection', features };
+};
+
+export interface WfsStreamRequest {
+  // абсолютный URL: запрос может уйти из Web Worker
+  url: string;
+  // тело POST; без него запрос GET
+  body?: string;
+  parse: WfsParseOptions;
+}
+
+export interface WfsStreamProgress {
+  bytes: number;
+  // Content-Length; null — сервер не сообщил или ответ сжат
+  totalBytes: number | null;
+  features: number;
+}
 
-    let geometry = parseGeometryFromElement(actualFeatureEl);
-    if (!geometry) {
-      const allChildren = Array.from(actualFeatureEl.getElementsByTagName('*'));
-      for (const c of allChildren) {
-        const ln = (c.localName || '').toLowerCase();
-        if (
-          [
-            'point',
-            'linestring',
-            'polygon',
-            'poslist',
-            'pos',
-            'coordinates',
-          ].includes(ln)
-        ) {
-          const g = parseGeometryFromElement(c);
-          if (g) {
-            geometry = g;
-            break;
-          }
+/**
+ * Запрос GetFeature с разбором ответа по мере получения: объекты приходят
+ * в onFeatures порциями, onProgress — после каждого фрагмента ответа
+ */
+export const streamWfsFeatures = async (
+  request: WfsStreamRequest,
+  handlers: {
+    onFeatures: (features: GeoJSON.Feature[]) => void;
+    onProgress?: (progress: WfsStreamProgress) => void;
+  },
+  signal?: AbortSignal
+): Promise<WfsCollectionCounts> => {
+  const resp = await fetch(
+    request.url,
+    request.body !== undefined
+      ? {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/xml; charset=UTF-8' },
+          body: request.body,
+          signal,
         }
-      }
-    }
+      : { signal }
+  );
+  if (!resp.ok)
+    throw new Error(`WFS responded: ${resp.status} ${resp.statusText}`);
 
-    features.push({
-      type: 'Feature',
-      properties: props,
-      geometry: (geometry as any) || null,
-    });
+  let features = 0;
+  const stream = createWfsFeatureStream(request.parse, (batch) => {
+    features += batch.length;
+    handlers.onFeatures(batch);
+  });
+  if (!resp.body) {
+    stream.write(await resp.text());
+    return stream.end();
   }
 
-  return { type: 'FeatureCollection', features };
+  const length = parseInt(resp.headers.get('Content-Length') ?? '', 10);
+  // при сжатии Content-Length относится к сжатому телу — сравнивать не с чем
+  const totalBytes =
+    length > 0 && !resp.headers.get('Content-Encoding') ? length : null;
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    stream.write(decoder.decode(value, { stream: true }));
+    handlers.onProgress?.({ bytes, totalBytes, features });
+  }
+  stream.write(decoder.decode());
+  return stream.end();
+};
+
+export interface WfsCollectionCounts {
+  // WFS 2.0: всего подходящих объектов
+  numberMatched: number | null;
+  numberReturned: number | null;
+  // WFS 1.1: число объектов в ответе (для resultType=hits — всего подходящих)
+  numberOfFeatures: number | null;
+}
+
+const countsFromAttributes = (
+  read: (name: string) => string | null
+): WfsCollectionCounts => {
+  const attr = (name: string) => {
+    const value = read(name);
+    const n = value ? parseInt(value, 10) : NaN;
+    return isNaN(n) ? null : n;
+  };
+  return {
+    numberMatched: attr('numberMatched'),
+    numberReturned: attr('numberReturned'),
+    numberOfFeatures: attr('numberOfFeatures'),
+  };
+};
+
+/**
+ * Счётчики из корневого элемента FeatureCollection без разбора всего документа
+ */
+export const readCollectionCounts = (xmlText: string): WfsCollectionCounts => {
+  const rootTag =
+    xmlText
+      .slice(0, 8192)
+      .match(/<(?:[\w.-]+:)?FeatureCollection\b[^>]*>/)?.[0] ?? '';
+  return countsFromAttributes(
+    (name) =>
+      rootTag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1] ??
+      null
+  );
+};
+
+/**
+ * Текст исключения из ExceptionReport (OWS) или ServiceExceptionReport (WFS 1.0);
+ * null — ответ не является сообщением об ошибке
+ */
+export const readExceptionReport = (xmlText: string): string | null => {
+  const head = xmlText.slice(0, 8192);
+  if (!/<(?:[\w.-]+:)?(?:Service)?ExceptionReport\b/.test(head)) return null;
+  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const messages = Array.from(xml.getElementsByTagName('*'))
+    .filter(
+      (el) =>
+        el.localName === 'ExceptionText' || el.localName === 'ServiceException'
+    )
+    .map((el) => el.textContent?.trim() ?? '')
+    .filter(Boolean);
+  return messages.join('; ') || 'unknown error';
 };
@@ -0,0 +1,303 @@
+/**
+ * WFS-T: запись Transaction (Insert/Update/Delete) и разбор TransactionResponse
+ */
+import {
+  AttributeSchema,
+  FeatureTypeSchema,
+  getAttributeSchema,
+} from './featureSchema';
+import { geometryToGml } from './gmlWriter';
+import {
+  fesGmlVersion,
+  fesNamespace,
+  fesVersionFor,
+  filterToXmlBody,
+  GML_NAMESPACES,
+} from './ogcFilter';
+import { readExceptionReport } from './wfsParser';
+
+export type WfsEdit =
+  | { type: 'insert'; feature: GeoJSON.Feature }
+  | {
+      type: 'update';
+      id: string;
+      // только изменённые атрибуты; null — очистить значение
+      properties?: Record<string, unknown>;
+      geometry?: GeoJSON.Geometry;
+    }
+  | { type: 'delete'; id: string };
+
+export interface WfsTransactionResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  // идентификаторы новых объектов в порядке Insert
+  insertedIds: string[];
+}
+
+export interface TransactionWriteOptions {
+  version: '1.0.0' | '1.1.0' | '2.0.0';
+  typeName: string;
+  schema: FeatureTypeSchema | null;
+  srsName: string;
+}
+
+export type WfsTransactionErrorKind =
+  // сервер вернул ExceptionReport или FAILED
+  | 'exception'
+  // объекты изменены на сервере после загрузки
+  | 'conflict'
+  // сервер применил не все операции
+  | 'mismatch'
+  // нет схемы типа с пространством имён — элементы объекта не записать
+  | 'schema';
+
+export class WfsTransactionError extends Error {
+  kind: WfsTransactionErrorKind;
+  // идентификаторы объектов, к которым относится ошибка
+  ids: string[];
+
+  constructor(
+    message: string,
+    kind: WfsTransactionErrorKind,
+    ids: string[] = []
+  ) {
+    super(message);
+    this.name = 'WfsTransactionError';
+    this.kind = kind;
+    this.ids = ids;
+  }
+}
+
+export const WFS_NAMESPACES = {
+  '1.0.0': 'http://www.opengis.net/wfs',
+  '1.1.0': 'http://www.opengis.net/wfs',
+  '2.0.0': 'http://www.opengis.net/wfs/2.0',
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Значение атрибута в лексической форме XSD
+ */
+export const formatAttributeForXml = (
+  value: unknown,
+  attr: AttributeSchema | null
+): string => {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return attr?.type === 'date' ? iso.slice(0, 10) : iso;
+  }
+  return String(value);
+};
+
+/**
+ * Документ Transaction; операции записываются в порядке правок
+ */
+export const buildTransactionXml = (
+  edits: WfsEdit[],
+  options: TransactionWriteOptions
+): string => {
+  const { version, typeName, schema, srsName } = options;
+  // пространство имён сервер сверяет с типом: подставленное наугад он отвергнет
+  if (!schema?.namespace)
+    throw new WfsTransactionError(
+      `Нет пространства имён типа ${typeName}: DescribeFeatureType не получен`,
+      'schema'
+    );
+  const fes = fesVersionFor(version);
+  const { prefix: f, uri: fesUri } = fesNamespace(fes);
+  const gmlVersion = fesGmlVersion(fes);
+
+  const [typePrefix, typeLocal] = typeName.includes(':')
+    ? typeName.split(':')
+    : ['feature', typeName];
+  const geometryName = schema?.geometryName ?? 'the_geom';
+  const gml = (geometry: GeoJSON.Geometry) =>
+    geometryToGml(geometry, { version: gmlVersion, srsName });
+  const geometryElement = (geometry: GeoJSON.Geometry) =>
+    `<${typePrefix}:${geometryName}>${gml(
+      geometry
+    )}</${typePrefix}:${geometryName}>`;
+
+  const idFilter = (id: string) =>
+    `<${f}:Filter>${filterToXmlBody(
+      { type: 'id', ids: [id] },
+      { version: fes, srsName }
+    )}</${f}:Filter>`;
+
+  // в 1.x имя свойства — wfs:Name, в 2.0 — wfs:ValueReference
+  const property = (name: string, valueXml: string | null) => {
+    const nameTag = version === '2.0.0' ? 'ValueReference' : 'Name';
+    const value = valueXml === null ? '' : `<wfs:Value>${valueXml}</wfs:Value>`;
+    return `<wfs:Property><wfs:${nameTag}>${escapeXml(
+      name
+    )}</wfs:${nameTag}>${value}</wfs:Property>`;
+  };
+
+  const insert = (feature: GeoJSON.Feature) => {
+    const props = feature.properties ?? {};
+    // элементы объекта — в порядке схемы, иначе сервер отклонит документ
+    const names = schema
+      ? schema.attributes.map((a) => a.name)
+      : Object.keys(props);
+    const geometryAt = Math.min(
+      schema?.geometryIndex ?? names.length,
+      names.length
+    );
+    const elements: string[] = [];
+    names.forEach((name, index) => {
+      if (index === geometryAt && feature.geometry)
+        elements.push(geometryElement(feature.geometry));
+      if (props[name] === null || props[name] === undefined) return;
+      elements.push(
+        `<${typePrefix}:${name}>${escapeXml(
+          formatAttributeForXml(props[name], getAttributeSchema(schema, name))
+        )}</${typePrefix}:${name}>`
+      );
+    });
+    if (geometryAt === names.length && feature.geometry)
+      elements.push(geometryElement(feature.geometry));
+    return `<wfs:Insert><${typePrefix}:${typeLocal}>${elements.join(
+      ''
+    )}</${typePrefix}:${typeLocal}></wfs:Insert>`;
+  };
+
+  const update = (edit: Extract<WfsEdit, { type: 'update' }>) => {
+    const properties = Object.entries(edit.properties ?? {}).map(
+      ([name, value]) =>
+        property(
+          name,
+          value === null || value === undefined
+            ? null
+            : escapeXml(
+                formatAttributeForXml(value, getAttributeSchema(schema, name))
+              )
+        )
+    );
+    if (edit.geometry)
+      properties.push(property(geometryName, gml(edit.geometry)));
+    return `<wfs:Update typeName="${escapeXml(typeName)}">${properties.join(
+      ''
+    )}${idFilter(edit.id)}</wfs:Update>`;
+  };
+
+  const operations = edits.map((edit) => {
+    switch (edit.type) {
+      case 'insert':
+        return insert(edit.feature);
+      case 'update':
+        return update(edit);
+      case 'delete':
+        return `<wfs:Delete typeName="${escapeXml(typeName)}">${idFilter(
+          edit.id
+        )}</wfs:Delete>`;
+    }
+  });
+
+  const attrs = [
+    'service="WFS"',
+    `version="${version}"`,
+    `xmlns:wfs="${WFS_NAMESPACES[version]}"`,
+    `xmlns:${f}="${fesUri}"`,
+    `xmlns:gml="${GML_NAMESPACES[gmlVersion]}"`,
+    `xmlns:${typePrefix}="${escapeXml(schema.namespace)}"`,
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?><wfs:Transaction ${attrs.join(
+    ' '
+  )}>${operations.join('')}</wfs:Transaction>`;
+};
+
+const byLocalName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(
+    (el) => el.localName === name
+  );
+
+/**
+ * Разбор TransactionResponse (1.1, 2.0) и WFS_TransactionResponse (1.0).
+ * Ошибки сервера выбрасываются как WfsTransactionError.
+ */
+export const parseTransactionResponse = (
+  xmlText: string
+): WfsTransactionResult => {
+  const exception = readExceptionReport(xmlText);
+  if (exception) throw new WfsTransactionError(exception, 'exception');
+
+  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length)
+    throw new WfsTransactionError(
+      'Некорректный ответ на транзакцию',
+      'exception'
+    );
+
+  const count = (name: string) => {
+    const el = byLocalName(xml, name)[0];
+    const n = el ? parseInt(el.textContent ?? '', 10) : NaN;
+    return isNaN(n) ? null : n;
+  };
+
+  // идентификаторы новых объектов: FeatureId fid, ResourceId rid
+  const insertedIds = byLocalName(xml, 'InsertResults')
+    .concat(byLocalName(xml, 'InsertResult'))
+    .flatMap((el) => [
+      ...byLocalName(el, 'FeatureId'),
+      ...byLocalName(el, 'ResourceId'),
+    ])
+    .map((el) => el.getAttribute('fid') ?? el.getAttribute('rid') ?? '')
+    .filter(Boolean);
+
+  // WFS 1.0: статус вместо сводки
+  const status = byLocalName(xml, 'Status')[0];
+  if (status) {
+    if (byLocalName(status, 'FAILED').length) {
+      const message = byLocalName(xml, 'Message')[0]?.textContent?.trim();
+      throw new WfsTransactionError(
+        message || 'Сервер отклонил транзакцию',
+        'exception'
+      );
+    }
+    // 1.0 не сообщает числа изменённых объектов
+    return {
+      inserted: insertedIds.length,
+      updated: -1,
+      deleted: -1,
+      insertedIds,
+    };
+  }
+
+  return {
+    inserted: count('totalInserted') ?? insertedIds.length,
+    updated: (count('totalUpdated') ?? 0) + (count('totalReplaced') ?? 0),
+    deleted: count('totalDeleted') ?? 0,
+    insertedIds,
+  };
+};
+
+/**
+ * Сверка сводки с отправленными правками: меньшее число изменённых
+ * объектов означает, что часть из них удалена на сервере
+ */
+export const checkTransactionResult = (
+  edits: WfsEdit[],
+  result: WfsTransactionResult
+) => {
+  const expected = { insert: 0, update: 0, delete: 0 };
+  edits.forEach((e) => expected[e.type]++);
+  const problems: string[] = [];
+  if (result.inserted < expected.insert)
+    problems.push(`добавлено ${result.inserted} из ${expected.insert}`);
+  if (result.updated >= 0 && result.updated < expected.update)
+    problems.push(`изменено ${result.updated} из ${expected.update}`);
+  if (result.deleted >= 0 && result.deleted < expected.delete)
+    problems.push(`удалено ${result.deleted} из ${expected.delete}`);
+  if (problems.length)
+    throw new WfsTransactionError(
+      `Сервер применил не все правки: ${problems.join(', ')}`,
+      'mismatch'
+    );
+};
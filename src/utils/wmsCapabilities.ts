@@ -0,0 +1,290 @@
+/**
+ * Разбор ответа WMS GetCapabilities 1.1.1 и 1.3.0: дерево слоёв с
+ * унаследованными от родителей системами координат, охватом, стилями и
+ * диапазоном масштабов
+ */
+
+export type WmsVersion = '1.1.1' | '1.3.0';
+
+export interface WmsStyleInfo {
+  name: string;
+  title: string;
+  abstract: string | null;
+  // LegendURL из описания стиля; null — легенду строим GetLegendGraphic
+  legendUrl: string | null;
+}
+
+export interface WmsDimension {
+  // имя в нижнем регистре: 'time', 'elevation', ...
+  name: string;
+  units: string | null;
+  // значение по умолчанию, которое сервер подставит без параметра
+  default: string | null;
+  // допустимые значения как в capabilities; null — не перечислены
+  values: string | null;
+}
+
+export interface WmsLayerInfo {
+  // null — слой-группа без имени, запросить его нельзя
+  name: string | null;
+  title: string;
+  abstract: string | null;
+  queryable: boolean;
+  // системы координат слоя с унаследованными
+  crs: string[];
+  // [minLng, minLat, maxLng, maxLat] в WGS84
+  bbox: [number, number, number, number] | null;
+  // знаменатели масштаба; null — без ограничения
+  minScaleDenominator: number | null;
+  maxScaleDenominator: number | null;
+  // стили слоя с унаследованными
+  styles: WmsStyleInfo[];
+  // измерения слоя с унаследованными
+  dimensions: WmsDimension[];
+  children: WmsLayerInfo[];
+}
+
+export interface WmsCapabilities {
+  version: WmsVersion;
+  title: string;
+  abstract: string | null;
+  // форматы изображений GetMap
+  formats: string[];
+  // форматы GetFeatureInfo; пусто — сервер его не поддерживает
+  featureInfoFormats: string[];
+  // корневые слои
+  layers: WmsLayerInfo[];
+}
+
+// размер пикселя 0,28 мм — стандартный для знаменателей масштаба WMS 1.3.0 и SLD
+const PIXEL_SIZE = 0.00028;
+
+const children = (el: Element, name: string) =>
+  Array.from(el.children).filter((c) => c.localName === name);
+
+const child = (el: Element | undefined, name: string) =>
+  el ? children(el, name)[0] : undefined;
+
+const childText = (el: Element | undefined, name: string) =>
+  child(el, name)?.textContent?.trim() || null;
+
+const XLINK = 'http://www.w3.org/1999/xlink';
+
+const onlineResource = (el: Element | undefined) => {
+  const resource = child(el, 'OnlineResource');
+  return (
+    resource?.getAttributeNS(XLINK, 'href') ??
+    resource?.getAttribute('xlink:href') ??
+    null
+  );
+};
+
+const readBbox = (
+  layer: Element,
+  version: WmsVersion
+): [number, number, number, number] | null => {
+  if (version === '1.3.0') {
+    const ex = child(layer, 'EX_GeographicBoundingBox');
+    if (!ex) return null;
+    const values = [
+      'westBoundLongitude',
+      'southBoundLatitude',
+      'eastBoundLongitude',
+      'northBoundLatitude',
+    ].map((n) => Number(childText(ex, n)));
+    return values.every(isFinite)
+      ? (values as [number, number, number, number])
+      : null;
+  }
+  const ll = child(layer, 'LatLonBoundingBox');
+  if (!ll) return null;
+  const values = ['minx', 'miny', 'maxx', 'maxy'].map((n) =>
+    Number(ll.getAttribute(n))
+  );
+  return values.every(isFinite)
+    ? (values as [number, number, number, number])
+    : null;
+};
+
+const readStyle = (el: Element): WmsStyleInfo => ({
+  name: childText(el, 'Name') ?? '',
+  title: childText(el, 'Title') ?? childText(el, 'Name') ?? '',
+  abstract: childText(el, 'Abstract'),
+  legendUrl: onlineResource(child(el, 'LegendURL')),
+});
+
+// 1.3.0: значения в самом Dimension; 1.1.1: Dimension объявляет измерение,
+// а значения и default — в Extent с тем же именем, в том числе у потомков
+const readDimensions = (
+  el: Element,
+  version: WmsVersion,
+  inherited: WmsDimension[]
+): WmsDimension[] => {
+  const own = children(el, 'Dimension').map((dim) => ({
+    name: (dim.getAttribute('name') ?? '').toLowerCase(),
+    units: dim.getAttribute('units') || null,
+    default: version === '1.3.0' ? dim.getAttribute('default') || null : null,
+    values: version === '1.3.0' ? dim.textContent?.trim() || null : null,
+  }));
+  // потомок с тем же именем заменяет родительское
+  const dimensions = [
+    ...inherited.filter((d) => !own.some((o) => o.name === d.name)),
+    ...own,
+  ];
+  if (version === '1.3.0') return dimensions;
+  return dimensions.map((dim) => {
+    const extent = children(el, 'Extent').find(
+      (e) => (e.getAttribute('name') ?? '').toLowerCase() === dim.name
+    );
+    return extent
+      ? {
+          ...dim,
+          default: extent.getAttribute('default') || null,
+          values: extent.textContent?.trim() || null,
+        }
+      : dim;
+  });
+};
+
+// ScaleHint 1.1.1 — диагональ пикселя в единицах карты; в знаменатель масштаба
+const scaleHintToDenominator = (value: string | null) => {
+  const n = Number(value);
+  return value && isFinite(n) && n > 0 ? n / Math.SQRT2 / PIXEL_SIZE : null;
+};
+
+const readLayer = (
+  el: Element,
+  version: WmsVersion,
+  parent: WmsLayerInfo | null
+): WmsLayerInfo => {
+  const crsNames = version === '1.3.0' ? 'CRS' : 'SRS';
+  const ownCrs = children(el, crsNames)
+    .flatMap((c) => (c.textContent ?? '').trim().split(/\s+/))
+    .filter(Boolean);
+  const ownStyles = children(el, 'Style').map(readStyle);
+
+  let minScale: number | null = null;
+  let maxScale: number | null = null;
+  if (version === '1.3.0') {
+    const min = Number(childText(el, 'MinScaleDenominator'));
+    const max = Number(childText(el, 'MaxScaleDenominator'));
+    minScale =
+      childText(el, 'MinScaleDenominator') && isFinite(min) ? min : null;
+    maxScale =
+      childText(el, 'MaxScaleDenominator') && isFinite(max) ? max : null;
+  } else {
+    const hint = child(el, 'ScaleHint');
+    if (hint) {
+      minScale = scaleHintToDenominator(hint.getAttribute('min'));
+      maxScale = scaleHintToDenominator(hint.getAttribute('max'));
+    }
+  }
+
+  const queryable = el.getAttribute('queryable');
+  const info: WmsLayerInfo = {
+    name: childText(el, 'Name'),
+    title: childText(el, 'Title') ?? childText(el, 'Name') ?? '',
+    abstract: childText(el, 'Abstract'),
+    queryable:
+      queryable === null
+        ? parent?.queryable ?? false
+        : queryable === '1' || queryable === 'true',
+    crs: Array.from(new Set([...(parent?.crs ?? []), ...ownCrs])),
+    bbox: readBbox(el, version) ?? parent?.bbox ?? null,
+    minScaleDenominator: minScale ?? parent?.minScaleDenominator ?? null,
+    maxScaleDenominator: maxScale ?? parent?.maxScaleDenominator ?? null,
+    // стиль потомка с тем же именем заменяет родительский
+    styles: [
+      ...(parent?.styles ?? []).filter(
+        (s) => !ownStyles.some((own) => own.name === s.name)
+      ),
+      ...ownStyles,
+    ],
+    dimensions: readDimensions(el, version, parent?.dimensions ?? []),
+    children: [],
+  };
+  info.children = children(el, 'Layer').map((c) => readLayer(c, version, info));
+  return info;
+};
+
+/**
+ * Документ GetCapabilities; ServiceExceptionReport и неизвестные документы
+ * приводят к ошибке
+ */
+export const parseWmsCapabilities = (xmlText: string): WmsCapabilities => {
+  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length)
+    throw new Error('WMS capabilities: некорректный XML');
+  const root = xml.documentElement;
+  if (root.localName === 'ServiceExceptionReport')
+    throw new Error(
+      `WMS exception: ${root.textContent?.trim() || 'ошибка сервера'}`
+    );
+  if (
+    root.localName !== 'WMS_Capabilities' &&
+    root.localName !== 'WMT_MS_Capabilities'
+  )
+    throw new Error(`WMS capabilities: неожиданный документ ${root.localName}`);
+
+  const version: WmsVersion =
+    root.getAttribute('version') === '1.3.0' ? '1.3.0' : '1.1.1';
+  const service = child(root, 'Service');
+  const capability = child(root, 'Capability');
+  const request = child(capability, 'Request');
+  const formats = (name: string) =>
+    children(child(request, name) ?? root, 'Format')
+      .map((f) => (f.textContent ?? '').trim())
+      .filter(Boolean);
+
+  return {
+    version,
+    title: childText(service, 'Title') ?? '',
+    abstract: childText(service, 'Abstract'),
+    formats: formats('GetMap'),
+    featureInfoFormats: child(request, 'GetFeatureInfo')
+      ? formats('GetFeatureInfo')
+      : [],
+    layers: capability
+      ? children(capability, 'Layer').map((l) => readLayer(l, version, null))
+      : [],
+  };
+};
+
+/**
+ * Слои дерева с именем (их можно запросить), в порядке обхода
+ */
+export const namedWmsLayers = (layers: WmsLayerInfo[]): WmsLayerInfo[] =>
+  layers.flatMap((l) => [
+    ...(l.name ? [l] : []),
+    ...namedWmsLayers(l.children),
+  ]);
+
+const formatScale = (denominator: number) =>
+  `1:${Math.round(denominator).toLocaleString('ru-RU')}`;
+
+/**
+ * Диапазон масштабов слоя для показа, от мелкого к крупному; null — без ограничений
+ */
+export const wmsScaleRange = (info: WmsLayerInfo): string | null => {
+  const { minScaleDenominator: min, maxScaleDenominator: max } = info;
+  if (min !== null && max !== null)
+    return `${formatScale(max)} – ${formatScale(min)}`;
+  if (max !== null) return `крупнее ${formatScale(max)}`;
+  if (min !== null) return `мельче ${formatScale(min)}`;
+  return null;
+};
+
+/**
+ * Форматы GetMap, пригодные для тайлового слоя; прочие (KML, SVG, PDF)
+ * отбрасываются
+ */
+export const wmsImageFormats = (formats: string[]): string[] => {
+  const images = formats.filter((f) => /^image\/(png|jpeg|gif|webp)/.test(f));
+  return images.length ? images : ['image/png'];
+};
+
+/**
+ * Измерение TIME слоя; null — слой не зависит от времени
+ */
+export const wmsTimeDimension = (info: WmsLayerInfo): WmsDimension | null =>
+  info.dimensions.find((d) => d.name === 'time') ?? null;
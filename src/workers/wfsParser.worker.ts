@@ -0,0 +1,44 @@
+/**
+ * Поток разбора WFS: запрос GetFeature, чтение ответа по частям
+ * и передача объектов порциями в основной поток
+ */
+import { registerCrs } from '../utils/crs';
+import { streamWfsFeatures } from '../utils/wfsParser';
+import type {
+  WfsWorkerMessage,
+  WfsWorkerRequest,
+} from '../services/WfsParserWorker';
+
+const ctx = self as unknown as Worker;
+const controllers = new Map<number, AbortController>();
+
+const post = (msg: WfsWorkerMessage) => ctx.postMessage(msg);
+
+ctx.onmessage = async (ev: MessageEvent<WfsWorkerRequest>) => {
+  const msg = ev.data;
+  if (msg.type === 'abort') {
+    controllers.get(msg.id)?.abort();
+    return;
+  }
+
+  const { id } = msg;
+  msg.crs.forEach(registerCrs);
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    const counts = await streamWfsFeatures(
+      msg.request,
+      {
+        onFeatures: (features) => post({ type: 'features', id, features }),
+        onProgress: (progress) => post({ type: 'progress', id, progress }),
+      },
+      controller.signal
+    );
+    post({ type: 'done', id, counts });
+  } catch (err) {
+    const { name, message } = err as Error;
+    post({ type: 'error', id, name, message });
+  } finally {
+    controllers.delete(id);
+  }
+};